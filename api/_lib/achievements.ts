@@ -0,0 +1,175 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { Badge, BadgeStatus, SocraticPath, SocraticStep } from '../../src/types.js';
+import { AchievementStats, BADGE_RULES, newlyUnlockedBadges, toBadge } from '../../src/utils/badges.js';
+import { activityDay, summarizeStreak } from '../../src/utils/streaks.js';
+import mastery from './mastery.js';
+import streaks from './streaks.js';
+
+/*
+-- Badges débloqués par chaque élève (voir BADGE_RULES dans src/utils/badges.ts).
+CREATE TABLE public.user_badges (
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  badge_id TEXT NOT NULL,
+  unlocked_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, badge_id)
+);
+
+-- Séances du tuteur socratique menées jusqu'à la dernière étape (/api/validate-socratic-answer).
+CREATE TABLE public.tutor_sessions (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  exercise_id TEXT NOT NULL,
+  finished_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+CREATE INDEX tutor_sessions_user_idx ON public.tutor_sessions(user_id);
+
+-- Écriture via la clé de service uniquement (les règles sont évaluées par le serveur). Lecture par l'élève.
+ALTER TABLE public.user_badges ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view their own badges."
+    ON public.user_badges FOR SELECT
+    USING (auth.uid() = user_id);
+ALTER TABLE public.tutor_sessions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view their own tutor sessions."
+    ON public.tutor_sessions FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- Parcours socratique en cours de chaque élève sur un exercice (généré par /api/explain) et l'étape atteinte.
+-- /api/validate-socratic-answer s'y fie, et non au navigateur, pour savoir si la séance est terminée.
+CREATE TABLE public.tutor_paths (
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  exercise_id TEXT NOT NULL,
+  steps JSONB NOT NULL,  -- SocraticPath
+  current_step INTEGER NOT NULL DEFAULT 0,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, exercise_id)
+);
+
+-- Lecture et écriture via la clé de service uniquement.
+ALTER TABLE public.tutor_paths ENABLE ROW LEVEL SECURITY;
+*/
+
+/**
+ * Enregistre une séance du tuteur menée jusqu'au bout.
+ */
+const recordTutorSession = async (supabase: SupabaseClient, userId: string, exerciseId: string): Promise<void> => {
+    const { error } = await (supabase.from('tutor_sessions') as any).insert({ user_id: userId, exercise_id: exerciseId });
+    if (error) {
+        // Non bloquant : l'élève reçoit la réponse du tuteur même si la séance n'est pas enregistrée.
+        console.error(`Error recording tutor session for user ${userId}:`, error);
+    }
+};
+
+/**
+ * Enregistre le parcours socratique généré pour un exercice ; il remplace le précédent.
+ * @param startingStep L'étape par laquelle l'élève commence, selon ce qu'il a déjà fait.
+ */
+const startTutorPath = async (supabase: SupabaseClient, userId: string, exerciseId: string, steps: SocraticPath, startingStep: number): Promise<void> => {
+    const { error } = await (supabase.from('tutor_paths') as any).upsert({
+        user_id: userId,
+        exercise_id: exerciseId,
+        steps,
+        current_step: Math.min(Math.max(0, startingStep), steps.length),
+        started_at: new Date().toISOString(),
+    }, { onConflict: 'user_id,exercise_id' });
+    if (error) throw error;
+};
+
+/**
+ * L'étape en cours du parcours socratique de l'élève sur cet exercice.
+ * @returns null s'il n'a pas de parcours enregistré, ou s'il l'a terminé.
+ */
+const getTutorStep = async (supabase: SupabaseClient, userId: string, exerciseId: string): Promise<{ index: number; step: SocraticStep; isLast: boolean } | null> => {
+    const { data, error } = await (supabase.from('tutor_paths') as any)
+        .select('steps, current_step')
+        .eq('user_id', userId)
+        .eq('exercise_id', exerciseId)
+        .maybeSingle();
+    if (error) throw error;
+    const steps: SocraticPath = data?.steps ?? [];
+    const index: number = data?.current_step ?? 0;
+    return index < steps.length ? { index, step: steps[index], isLast: index === steps.length - 1 } : null;
+};
+
+/**
+ * Passe à l'étape suivante après une bonne réponse à l'étape en cours.
+ * @returns true si cette réponse termine le parcours (une seule fois, même si deux requêtes arrivent ensemble).
+ */
+const advanceTutorPath = async (
+    supabase: SupabaseClient,
+    userId: string,
+    exerciseId: string,
+    current: { index: number; isLast: boolean }
+): Promise<boolean> => {
+    const { data, error } = await (supabase.from('tutor_paths') as any)
+        .update({ current_step: current.index + 1 })
+        .eq('user_id', userId)
+        .eq('exercise_id', exerciseId)
+        .eq('current_step', current.index)
+        .select('current_step');
+    if (error) throw error;
+    return current.isLast && (data ?? []).length > 0;
+};
+
+// What the student has done so far, from the recorded activity.
+const loadStats = async (supabase: SupabaseClient, userId: string): Promise<AchievementStats> => {
+    const [attempts, sessions, report, goal, days] = await Promise.all([
+        (supabase.from('user_quiz_attempts') as any).select('quiz_id, score, total_questions').eq('user_id', userId),
+        (supabase.from('tutor_sessions') as any).select('id', { count: 'exact', head: true }).eq('user_id', userId),
+        mastery.getMastery(supabase, userId),
+        streaks.getGoal(supabase, userId),
+        streaks.loadActivity(supabase, userId),
+    ]);
+    if (attempts.error) throw attempts.error;
+    if (sessions.error) throw sessions.error;
+
+    const perfectQuizzes = new Set((attempts.data ?? [])
+        .filter((a: any) => a.total_questions > 0 && a.score === a.total_questions)
+        .map((a: any) => a.quiz_id));
+    return {
+        completedExercises: days.reduce((total, day) => total + day.exercises, 0),
+        perfectQuizzes: perfectQuizzes.size,
+        masteredChapters: report.chapters.filter(chapter => chapter.level === 'mastered').length,
+        longestStreak: summarizeStreak(days, goal, activityDay(new Date())).longest,
+        tutorSessionsFinished: sessions.count ?? 0,
+    };
+};
+
+const loadUnlocked = async (supabase: SupabaseClient, userId: string): Promise<Map<string, string>> => {
+    const { data, error } = await (supabase.from('user_badges') as any).select('badge_id, unlocked_at').eq('user_id', userId);
+    if (error) throw error;
+    return new Map((data ?? []).map((row: any) => [row.badge_id, row.unlocked_at]));
+};
+
+/**
+ * Évalue les règles de badges pour l'élève et enregistre ceux qu'il vient de débloquer.
+ * Non bloquant : en cas d'erreur, aucun badge n'est débloqué (ils le seront à la prochaine évaluation).
+ * @returns Les badges nouvellement débloqués.
+ */
+const evaluateBadges = async (supabase: SupabaseClient, userId: string): Promise<Badge[]> => {
+    try {
+        const [stats, unlocked] = await Promise.all([loadStats(supabase, userId), loadUnlocked(supabase, userId)]);
+        const badges = newlyUnlockedBadges(stats, new Set(unlocked.keys()));
+        if (badges.length === 0) return [];
+
+        // Concurrent evaluations may unlock the same badge: only the inserted rows are announced.
+        const { data, error } = await (supabase.from('user_badges') as any)
+            .upsert(badges.map(badge => ({ user_id: userId, badge_id: badge.id })), { onConflict: 'user_id,badge_id', ignoreDuplicates: true })
+            .select('badge_id');
+        if (error) throw error;
+        const inserted = new Set((data ?? []).map((row: any) => row.badge_id));
+        return badges.filter(badge => inserted.has(badge.id));
+    } catch (error) {
+        console.error(`Error evaluating badges for user ${userId}:`, error);
+        return [];
+    }
+};
+
+/**
+ * Tous les badges, débloqués ou non, dans l'ordre de la galerie.
+ */
+const getBadgeGallery = async (supabase: SupabaseClient, userId: string): Promise<BadgeStatus[]> => {
+    const unlocked = await loadUnlocked(supabase, userId);
+    return BADGE_RULES.map(rule => ({ ...toBadge(rule), unlockedAt: unlocked.get(rule.id) ?? null }));
+};
+
+export default { recordTutorSession, startTutorPath, getTutorStep, advanceTutorPath, evaluateBadges, getBadgeGallery };
@@ -3,6 +3,32 @@
 import { SupabaseClient } from "@supabase/supabase-js";
 import { AI_USAGE_LIMITS, AiCallType } from './config.js';
 
+/*
+-- Réserve des appels à l'IA avant de les faire, dans la limite des 24 dernières heures, en une seule
+-- transaction : des requêtes simultanées ne peuvent pas dépasser la limite ensemble. Renvoie les lignes
+-- réservées, ou aucune si la limite serait dépassée.
+ALTER TABLE public.ai_usage_logs ADD COLUMN IF NOT EXISTS id BIGSERIAL;
+
+CREATE OR REPLACE FUNCTION public.claim_ai_calls(p_user_id uuid, p_call_type text, p_limit int, p_count int)
+RETURNS SETOF public.ai_usage_logs
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  -- Une réservation à la fois par élève et par type d'appel.
+  PERFORM pg_advisory_xact_lock(hashtext(p_user_id::text || ':' || p_call_type));
+  IF (SELECT count(*) FROM public.ai_usage_logs
+      WHERE user_id = p_user_id AND call_type = p_call_type AND request_timestamp >= now() - interval '24 hours') + p_count > p_limit THEN
+    RETURN;
+  END IF;
+  RETURN QUERY
+    INSERT INTO public.ai_usage_logs (user_id, call_type)
+    SELECT p_user_id, p_call_type FROM generate_series(1, p_count)
+    RETURNING *;
+END;
+$$;
+REVOKE EXECUTE ON FUNCTION public.claim_ai_calls(uuid, text, int, int) FROM PUBLIC, anon, authenticated;
+*/
+
 /**
  * Vérifie si un utilisateur a dépassé sa limite quotidienne pour un type d'appel IA spécifique.
  * @param supabase Le client Supabase.
@@ -36,23 +62,45 @@ const checkUsageLimit = async (supabase: SupabaseClient, userId: string, callTyp
 };
 
 /**
- * Enregistre un nouvel appel à l'IA pour un utilisateur.
+ * Décompte des appels à l'IA avant de les faire, s'il en reste assez dans la limite quotidienne (voir `claim_ai_calls`).
  * @param supabase Le client Supabase.
  * @param userId L'ID de l'utilisateur.
  * @param callType Le type d'appel.
+ * @param count Le nombre d'appels.
+ * @returns Les appels décomptés, à rendre avec `releaseAiCalls` si la requête échoue ; null si la limite serait dépassée.
+ */
+const claimAiCalls = async (supabase: SupabaseClient, userId: string, callType: AiCallType, count = 1): Promise<unknown[] | null> => {
+    const { data, error } = await (supabase.rpc as any)('claim_ai_calls', {
+        p_user_id: userId,
+        p_call_type: callType,
+        p_limit: AI_USAGE_LIMITS[callType],
+        p_count: count,
+    });
+
+    if (error) {
+        console.error(`Error claiming AI calls for user ${userId}:`, error);
+        // Fail-open, as checkUsageLimit: nothing was counted, nothing to release.
+        return [];
+    }
+    return data?.length ? data.map((row: { id: unknown }) => row.id) : null;
+};
+
+/**
+ * Rend des appels décomptés par `claimAiCalls` qui n'ont pas abouti.
+ * @param supabase Le client Supabase.
+ * @param ids Les appels renvoyés par `claimAiCalls`.
  */
-const logAiCall = async (supabase: SupabaseClient, userId: string, callType: AiCallType) => {
+const releaseAiCalls = async (supabase: SupabaseClient, ids: unknown[]) => {
+    if (ids.length === 0) return;
     const { error } = await (supabase
         .from('ai_usage_logs') as any)
-        .insert({
-            user_id: userId,
-            call_type: callType
-        });
-    
+        .delete()
+        .in('id', ids);
+
     if (error) {
-        console.error(`Error logging AI call for user ${userId}:`, error);
-        // This is a non-blocking error for the user experience.
+        console.error(`Error releasing AI calls ${ids.join(', ')}:`, error);
+        // Non bloquant : l'appel reste décompté.
     }
 };
 
-export default { checkUsageLimit, logAiCall };
\ No newline at end of file
+export default { checkUsageLimit, claimAiCalls, releaseAiCalls };
\ No newline at end of file
@@ -0,0 +1,79 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { CheckAnswerResponse } from '../../src/types.js';
+
+/*
+-- Résultats de /api/check-answer : une ligne par vérification, pour que l'enseignant
+-- voie si l'élève a fait valider sa réponse (et avec quel verdict) avant de terminer l'exercice.
+CREATE TABLE public.exercise_answer_checks (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  exercise_id TEXT NOT NULL,
+  is_correct BOOLEAN NOT NULL,
+  summary TEXT NOT NULL DEFAULT '',
+  checked_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+CREATE INDEX exercise_answer_checks_user_idx ON public.exercise_answer_checks(user_id, exercise_id);
+
+-- Écriture via la clé de service uniquement ; lecture par l'élève et ses enseignants.
+ALTER TABLE public.exercise_answer_checks ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view their own answer checks."
+    ON public.exercise_answer_checks FOR SELECT
+    USING (auth.uid() = user_id);
+CREATE POLICY "Teachers can view their students' answer checks."
+    ON public.exercise_answer_checks FOR SELECT
+    USING (public.is_teacher_of(user_id));
+
+-- Score de la réponse, de 0 à 1 (parties correctes, partielles à moitié), pour la maîtrise des compétences.
+-- Null pour les vérifications enregistrées avant son ajout : seul is_correct compte alors.
+ALTER TABLE public.exercise_answer_checks ADD COLUMN IF NOT EXISTS score REAL;
+
+-- Correction complète renvoyée à l'élève (CheckAnswerResponse), recopiée avec la progression quand il
+-- termine l'exercice (voir api/_lib/xp.ts). Null pour les vérifications plus anciennes.
+ALTER TABLE public.exercise_answer_checks ADD COLUMN IF NOT EXISTS feedback JSONB;
+*/
+
+export interface AnswerCheckRow {
+    user_id: string;
+    exercise_id: string;
+    is_correct: boolean;
+    summary: string;
+    score: number | null;
+    feedback?: CheckAnswerResponse | null;
+    checked_at: string;
+}
+
+/**
+ * Enregistre le verdict d'une vérification de réponse.
+ * @param supabase Le client Supabase (clé de service).
+ * @param check L'élève, l'exercice et le verdict de l'IA.
+ */
+const recordAnswerCheck = async (supabase: SupabaseClient, check: Omit<AnswerCheckRow, 'checked_at'>) => {
+    const { error } = await (supabase
+        .from('exercise_answer_checks') as any)
+        .insert(check);
+
+    if (error) {
+        // Non bloquant : l'élève reçoit sa correction même si l'historique n'est pas enregistré.
+        console.error(`Error recording answer check for user ${check.user_id}:`, error);
+    }
+};
+
+/**
+ * Liste les vérifications de plusieurs élèves sur un ensemble d'exercices, des plus anciennes aux plus récentes.
+ * @param supabase Le client Supabase (clé de service).
+ * @param userIds Les IDs des élèves.
+ * @param exerciseIds Les IDs des exercices.
+ */
+const listAnswerChecks = async (supabase: SupabaseClient, userIds: string[], exerciseIds: string[]): Promise<AnswerCheckRow[]> => {
+    if (userIds.length === 0 || exerciseIds.length === 0) return [];
+    const { data, error } = await (supabase
+        .from('exercise_answer_checks') as any)
+        .select('user_id, exercise_id, is_correct, summary, score, checked_at')
+        .in('user_id', userIds)
+        .in('exercise_id', exerciseIds)
+        .order('checked_at', { ascending: true });
+    if (error) throw error;
+    return data ?? [];
+};
+
+export default { recordAnswerCheck, listAnswerChecks };
@@ -0,0 +1,287 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import {
+    Assignment, AssignmentItemStatus, AssignmentReport, CheckAnswerResponse, CurriculumItemRef, ExerciseCompletionMethod,
+    StudentAssignment, TeacherAssignment, UserQuizAttempt,
+} from '../../src/types.js';
+import dataAccess from './data-access.js';
+import answerChecks, { AnswerCheckRow } from './answer-checks.js';
+import { BadRequestError } from './errors.js';
+
+/*
+-- Devoirs : un ensemble d'exercices et de quiz donné à une classe avec une date limite.
+-- Un élément est « fait » dès qu'il apparaît dans user_exercise_progress / user_quiz_attempts
+-- (via /api/complete-exercise et /api/submit-quiz) ; il est « en retard » si c'est après due_at.
+-- Pour un quiz repassé, c'est la première tentative qui compte pour la date et la meilleure pour le score.
+CREATE TABLE public.assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  classroom_id UUID NOT NULL REFERENCES public.classrooms(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  instructions TEXT NOT NULL DEFAULT '',
+  due_at TIMESTAMPTZ NOT NULL,
+  items JSONB NOT NULL, -- CurriculumItemRef[] : [{ "type": "exercise" | "quiz", "id": "..." }]
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+CREATE INDEX assignments_classroom_idx ON public.assignments(classroom_id, due_at);
+
+-- Écriture via /api/assignments (clé de service). Lecture par l'enseignant et les élèves de la classe.
+ALTER TABLE public.assignments ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Classroom members and teacher can view assignments."
+    ON public.assignments FOR SELECT
+    USING (EXISTS (
+      SELECT 1 FROM public.classrooms c
+      WHERE c.id = classroom_id
+        AND (c.teacher_id = auth.uid()
+             OR EXISTS (SELECT 1 FROM public.classroom_members m WHERE m.classroom_id = c.id AND m.student_id = auth.uid()))
+    ));
+*/
+
+const ASSIGNMENT_COLUMNS = 'id, classroom_id, title, instructions, due_at, items, created_at';
+
+interface ExerciseProgressRow {
+    completed_at: string;
+    method: ExerciseCompletionMethod | null;
+    feedback: CheckAnswerResponse | null;
+}
+
+// Completion data of a set of students, keyed by student then by item ID.
+interface ProgressIndex {
+    exercises: Map<string, Map<string, ExerciseProgressRow>>;
+    quizzes: Map<string, Map<string, UserQuizAttempt[]>>;  // Oldest first
+    checks: Map<string, Map<string, AnswerCheckRow[]>>;    // Oldest first
+}
+
+const nested = <V>(map: Map<string, Map<string, V>>, outer: string) => {
+    if (!map.has(outer)) map.set(outer, new Map());
+    return map.get(outer)!;
+};
+
+/**
+ * Charge en trois requêtes la progression de plusieurs élèves sur les éléments donnés.
+ */
+const loadProgress = async (supabase: SupabaseClient, studentIds: string[], items: CurriculumItemRef[]): Promise<ProgressIndex> => {
+    const index: ProgressIndex = { exercises: new Map(), quizzes: new Map(), checks: new Map() };
+    const exerciseIds = [...new Set(items.filter(i => i.type === 'exercise').map(i => i.id))];
+    const quizIds = [...new Set(items.filter(i => i.type === 'quiz').map(i => i.id))];
+    if (studentIds.length === 0) return index;
+
+    const [exercises, quizzes, checks] = await Promise.all([
+        exerciseIds.length
+            ? (supabase.from('user_exercise_progress') as any).select('user_id, exercise_id, completed_at, method, feedback').in('user_id', studentIds).in('exercise_id', exerciseIds)
+            : { data: [], error: null },
+        quizIds.length
+            ? (supabase.from('user_quiz_attempts') as any).select('*').in('user_id', studentIds).in('quiz_id', quizIds).order('taken_at', { ascending: true })
+            : { data: [], error: null },
+        answerChecks.listAnswerChecks(supabase, studentIds, exerciseIds),
+    ]);
+    if (exercises.error) throw exercises.error;
+    if (quizzes.error) throw quizzes.error;
+
+    for (const row of exercises.data ?? []) nested(index.exercises, row.user_id).set(row.exercise_id, row);
+    for (const row of (quizzes.data ?? []) as UserQuizAttempt[]) {
+        const byQuiz = nested(index.quizzes, row.user_id);
+        byQuiz.set(row.quiz_id, [...(byQuiz.get(row.quiz_id) ?? []), row]);
+    }
+    for (const row of checks) {
+        const byExercise = nested(index.checks, row.user_id);
+        byExercise.set(row.exercise_id, [...(byExercise.get(row.exercise_id) ?? []), row]);
+    }
+    return index;
+};
+
+/**
+ * Statut de chaque élément d'un devoir pour un élève.
+ */
+const computeStatuses = (assignment: Assignment, studentId: string, progress: ProgressIndex): AssignmentItemStatus[] => {
+    const dueAt = new Date(assignment.due_at).getTime();
+    return assignment.items.map(item => {
+        if (item.type === 'quiz') {
+            const attempts = progress.quizzes.get(studentId)?.get(item.id) ?? [];
+            const best = attempts.reduce<UserQuizAttempt | undefined>((top, a) => !top || a.score > top.score ? a : top, undefined);
+            const completedAt = attempts[0]?.taken_at ?? null;
+            return {
+                ...item,
+                completed_at: completedAt,
+                late: !!completedAt && new Date(completedAt).getTime() > dueAt,
+                score: best?.score,
+                total_questions: best?.total_questions,
+                check_count: 0,
+                last_check_correct: null,
+            };
+        }
+        const completion = progress.exercises.get(studentId)?.get(item.id);
+        const completedAt = completion?.completed_at ?? null;
+        const checks = progress.checks.get(studentId)?.get(item.id) ?? [];
+        return {
+            ...item,
+            completed_at: completedAt,
+            late: !!completedAt && new Date(completedAt).getTime() > dueAt,
+            check_count: checks.length,
+            last_check_correct: checks.length ? checks[checks.length - 1].is_correct : null,
+            ...(completion && { completion_method: completion.method, completion_feedback: completion.feedback }),
+        };
+    });
+};
+
+const listMemberIds = async (supabase: SupabaseClient, classroomId: string): Promise<string[]> => {
+    const { data, error } = await (supabase.from('classroom_members') as any).select('student_id').eq('classroom_id', classroomId);
+    if (error) throw error;
+    return (data ?? []).map((m: any) => m.student_id);
+};
+
+/**
+ * Vérifie que chaque élément existe dans le programme et retire les doublons.
+ * @param items Les éléments demandés.
+ */
+const checkItems = async (items: CurriculumItemRef[]): Promise<CurriculumItemRef[]> => {
+    const unique = items.filter((item, i) => items.findIndex(other => other.type === item.type && other.id === item.id) === i);
+    for (const item of unique) {
+        if (!await dataAccess.rowExists(item.type === 'exercise' ? 'exercises' : 'quizzes', item.id)) {
+            throw new BadRequestError(`${item.type === 'exercise' ? "L'exercice" : 'Le quiz'} ${item.id} n'existe pas dans le programme.`);
+        }
+    }
+    return unique;
+};
+
+/**
+ * @param supabase Le client Supabase (clé de service).
+ * @param assignmentId L'ID du devoir.
+ * @returns Le devoir, ou null s'il n'existe pas.
+ */
+const getAssignment = async (supabase: SupabaseClient, assignmentId: string): Promise<Assignment | null> => {
+    const { data, error } = await (supabase.from('assignments') as any)
+        .select(ASSIGNMENT_COLUMNS)
+        .eq('id', assignmentId)
+        .maybeSingle();
+    if (error) throw error;
+    return data;
+};
+
+/**
+ * Liste les devoirs d'une classe avec le nombre d'élèves qui les ont terminés.
+ * @param supabase Le client Supabase (clé de service).
+ * @param classroomId L'ID de la classe.
+ */
+const listForClassroom = async (supabase: SupabaseClient, classroomId: string): Promise<TeacherAssignment[]> => {
+    const { data, error } = await (supabase.from('assignments') as any)
+        .select(ASSIGNMENT_COLUMNS)
+        .eq('classroom_id', classroomId)
+        .order('due_at', { ascending: false });
+    if (error) throw error;
+    const assignments: Assignment[] = data ?? [];
+
+    const studentIds = await listMemberIds(supabase, classroomId);
+    const progress = await loadProgress(supabase, studentIds, assignments.flatMap(a => a.items));
+    return assignments.map(assignment => ({
+        ...assignment,
+        student_count: studentIds.length,
+        completed_count: studentIds.filter(id => computeStatuses(assignment, id, progress).every(s => s.completed_at)).length,
+    }));
+};
+
+/**
+ * Liste les devoirs de toutes les classes d'un élève, avec son statut sur chaque élément.
+ * @param supabase Le client Supabase (clé de service).
+ * @param studentId L'ID de l'élève.
+ */
+const listForStudent = async (supabase: SupabaseClient, studentId: string): Promise<StudentAssignment[]> => {
+    const { data: memberships, error: membershipError } = await (supabase.from('classroom_members') as any)
+        .select('classroom_id, classrooms(name)')
+        .eq('student_id', studentId);
+    if (membershipError) throw membershipError;
+    if (!memberships?.length) return [];
+
+    const classroomNames = new Map<string, string>(memberships.map((m: any) => [m.classroom_id, m.classrooms?.name ?? '']));
+    const { data, error } = await (supabase.from('assignments') as any)
+        .select(ASSIGNMENT_COLUMNS)
+        .in('classroom_id', [...classroomNames.keys()])
+        .order('due_at', { ascending: true });
+    if (error) throw error;
+    const assignments: Assignment[] = data ?? [];
+
+    const progress = await loadProgress(supabase, [studentId], assignments.flatMap(a => a.items));
+    return assignments.map(assignment => ({
+        ...assignment,
+        classroom_name: classroomNames.get(assignment.classroom_id) ?? '',
+        statuses: computeStatuses(assignment, studentId, progress),
+    }));
+};
+
+/**
+ * Détail d'un devoir pour l'enseignant : statut de chaque élève inscrit sur chaque élément.
+ * @param supabase Le client Supabase (clé de service).
+ * @param assignment Le devoir.
+ */
+const buildReport = async (supabase: SupabaseClient, assignment: Assignment): Promise<AssignmentReport> => {
+    const { data: members, error } = await (supabase.from('classroom_members') as any)
+        .select('student_id, profiles(email)')
+        .eq('classroom_id', assignment.classroom_id);
+    if (error) throw error;
+
+    const studentIds: string[] = (members ?? []).map((m: any) => m.student_id);
+    const progress = await loadProgress(supabase, studentIds, assignment.items);
+    return {
+        assignment,
+        students: (members ?? []).map((m: any) => ({
+            id: m.student_id,
+            email: m.profiles?.email ?? '',
+            statuses: computeStatuses(assignment, m.student_id, progress),
+        })),
+    };
+};
+
+/**
+ * Crée un devoir pour une classe.
+ * @param supabase Le client Supabase (clé de service).
+ * @param createdBy L'ID de l'enseignant.
+ * @param fields La classe, le titre, la consigne, la date limite et les éléments.
+ */
+const createAssignment = async (
+    supabase: SupabaseClient,
+    createdBy: string,
+    fields: { classroomId: string; title: string; instructions: string; dueAt: string; items: CurriculumItemRef[] }
+): Promise<Assignment> => {
+    const { data, error } = await (supabase.from('assignments') as any)
+        .insert({
+            classroom_id: fields.classroomId,
+            title: fields.title.trim(),
+            instructions: fields.instructions.trim(),
+            due_at: fields.dueAt,
+            items: await checkItems(fields.items),
+            created_by: createdBy,
+        })
+        .select(ASSIGNMENT_COLUMNS)
+        .single();
+    if (error) throw error;
+    return data;
+};
+
+/**
+ * Modifie un devoir. Les statuts des élèves sont recalculés à la lecture : changer
+ * la date limite change donc immédiatement ce qui est « en retard ».
+ */
+const updateAssignment = async (
+    supabase: SupabaseClient,
+    assignmentId: string,
+    fields: { title: string; instructions: string; dueAt: string; items: CurriculumItemRef[] }
+): Promise<Assignment> => {
+    const { data, error } = await (supabase.from('assignments') as any)
+        .update({
+            title: fields.title.trim(),
+            instructions: fields.instructions.trim(),
+            due_at: fields.dueAt,
+            items: await checkItems(fields.items),
+        })
+        .eq('id', assignmentId)
+        .select(ASSIGNMENT_COLUMNS)
+        .single();
+    if (error) throw error;
+    return data;
+};
+
+const deleteAssignment = async (supabase: SupabaseClient, assignmentId: string): Promise<void> => {
+    const { error } = await (supabase.from('assignments') as any).delete().eq('id', assignmentId);
+    if (error) throw error;
+};
+
+export default { getAssignment, listForClassroom, listForStudent, buildReport, createAssignment, updateAssignment, deleteAssignment };
@@ -0,0 +1,277 @@
+import { SupabaseClient, User as AuthUser } from "@supabase/supabase-js";
+import { randomInt } from "node:crypto";
+import { Classroom, ClassroomStudentProgress, Role, UserQuizAttempt } from '../../src/types.js';
+import { hasPermission } from '../../src/utils/permissions.js';
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from './errors.js';
+
+/*
+-- Classes : un enseignant crée une classe et partage son code ; les élèves la
+-- rejoignent depuis leur tableau de bord (un élève peut suivre plusieurs classes).
+CREATE TABLE public.classrooms (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  join_code TEXT NOT NULL UNIQUE,
+  teacher_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  teacher_email TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+CREATE INDEX classrooms_teacher_idx ON public.classrooms(teacher_id);
+
+CREATE TABLE public.classroom_members (
+  classroom_id UUID NOT NULL REFERENCES public.classrooms(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (classroom_id, student_id)
+);
+CREATE INDEX classroom_members_student_idx ON public.classroom_members(student_id);
+
+-- Les écritures passent par /api/classrooms (clé de service). Les politiques ci-dessous
+-- limitent les lectures directes : un enseignant ne voit que ses classes et leurs élèves.
+ALTER TABLE public.classrooms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.classroom_members ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.is_teacher_of(student uuid)
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.classroom_members m
+    JOIN public.classrooms c ON c.id = m.classroom_id
+    WHERE m.student_id = student AND c.teacher_id = auth.uid()
+  );
+$$;
+
+-- Security definer, comme is_teacher_of : la politique des classes lit classroom_members, dont la
+-- politique lit classrooms ; une simple sous-requête bouclerait (infinite recursion detected in policy).
+CREATE OR REPLACE FUNCTION public.is_member_of(classroom uuid)
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.classroom_members m
+    WHERE m.classroom_id = classroom AND m.student_id = auth.uid()
+  );
+$$;
+
+CREATE POLICY "Teachers can view their classrooms."
+    ON public.classrooms FOR SELECT
+    USING (teacher_id = auth.uid());
+CREATE POLICY "Students can view the classrooms they joined."
+    ON public.classrooms FOR SELECT
+    USING (public.is_member_of(id));
+CREATE POLICY "Members are visible to the student and the teacher."
+    ON public.classroom_members FOR SELECT
+    USING (student_id = auth.uid() OR EXISTS (SELECT 1 FROM public.classrooms c WHERE c.id = classroom_id AND c.teacher_id = auth.uid()));
+
+CREATE POLICY "Teachers can view their students' profiles."
+    ON public.profiles FOR SELECT
+    USING (public.is_teacher_of(id));
+CREATE POLICY "Teachers can view their students' exercise progress."
+    ON public.user_exercise_progress FOR SELECT
+    USING (public.is_teacher_of(user_id));
+CREATE POLICY "Teachers can view their students' quiz attempts."
+    ON public.user_quiz_attempts FOR SELECT
+    USING (public.is_teacher_of(user_id));
+
+-- Le code d'inscription ne se lit que via /api/classrooms, qui ne l'envoie qu'à l'enseignant.
+REVOKE SELECT ON public.classrooms FROM anon, authenticated;
+GRANT SELECT (id, name, teacher_id, teacher_email, created_at) ON public.classrooms TO authenticated;
+*/
+
+interface ClassroomRow {
+    id: string;
+    name: string;
+    join_code: string;
+    teacher_id: string;
+    teacher_email: string | null;
+    created_at: string;
+}
+
+// No 0/O or 1/I: codes are often copied from a board or read aloud.
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 6;
+const MAX_CODE_ATTEMPTS = 5;
+
+const generateJoinCode = (): string =>
+    Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join('');
+
+/**
+ * Met un code saisi par un élève au format stocké (majuscules, sans espaces ni tirets).
+ */
+const normalizeJoinCode = (code: string): string => code.toUpperCase().replace(/[\s-]/g, '');
+
+/**
+ * Exécute une écriture qui pose un nouveau code, en tirant un autre code en cas de collision (23505).
+ */
+const withFreshCode = async <T>(write: (code: string) => Promise<{ data: T; error: any }>): Promise<T> => {
+    for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+        const { data, error } = await write(generateJoinCode());
+        if (!error) return data;
+        if (error.code !== '23505') throw error; // unique_violation: try another code
+    }
+    throw new Error("Impossible de générer un code de classe unique. Veuillez réessayer.");
+};
+
+/**
+ * Renvoie la classe si l'utilisateur peut la gérer : son enseignant, ou un rôle
+ * qui voit tous les élèves ('students.view').
+ * @param supabase Le client Supabase (clé de service).
+ * @param classroomId L'ID de la classe.
+ * @param user L'utilisateur authentifié.
+ * @param role Son rôle.
+ */
+const getManagedClassroom = async (supabase: SupabaseClient, classroomId: string, user: AuthUser, role: Role): Promise<ClassroomRow> => {
+    const { data, error } = await (supabase.from('classrooms') as any)
+        .select('*')
+        .eq('id', classroomId)
+        .maybeSingle();
+    if (error) throw error;
+    if (!data) throw new NotFoundError("Classe introuvable.");
+    if (data.teacher_id !== user.id && !hasPermission(role, 'students.view')) throw new ForbiddenError();
+    return data;
+};
+
+/**
+ * Liste les classes d'un enseignant avec leur code et leur nombre d'élèves.
+ * @param supabase Le client Supabase (clé de service).
+ * @param teacherId L'ID de l'enseignant.
+ */
+const listTeaching = async (supabase: SupabaseClient, teacherId: string): Promise<Classroom[]> => {
+    const { data, error } = await (supabase.from('classrooms') as any)
+        .select('*, classroom_members(count)')
+        .eq('teacher_id', teacherId)
+        .order('created_at', { ascending: true });
+    if (error) throw error;
+    return (data ?? []).map(({ classroom_members, ...row }: any) => ({
+        ...row,
+        student_count: classroom_members?.[0]?.count ?? 0,
+    }));
+};
+
+/**
+ * Liste les classes qu'un élève a rejointes (sans leur code).
+ * @param supabase Le client Supabase (clé de service).
+ * @param studentId L'ID de l'élève.
+ */
+const listEnrolled = async (supabase: SupabaseClient, studentId: string): Promise<Classroom[]> => {
+    const { data, error } = await (supabase.from('classroom_members') as any)
+        .select('classrooms(id, name, teacher_id, teacher_email, created_at)')
+        .eq('student_id', studentId)
+        .order('joined_at', { ascending: true });
+    if (error) throw error;
+    return (data ?? []).map((row: any) => row.classrooms).filter(Boolean);
+};
+
+/**
+ * Crée une classe avec un code d'inscription unique.
+ * @param supabase Le client Supabase (clé de service).
+ * @param teacher L'enseignant.
+ * @param name Le nom de la classe.
+ */
+const createClassroom = async (supabase: SupabaseClient, teacher: AuthUser, name: string): Promise<Classroom> => {
+    const row = await withFreshCode<ClassroomRow>(code => (supabase.from('classrooms') as any)
+        .insert({ name: name.trim(), join_code: code, teacher_id: teacher.id, teacher_email: teacher.email ?? null })
+        .select()
+        .single());
+    return { ...row, student_count: 0 };
+};
+
+/**
+ * Remplace le code d'une classe (l'ancien cesse de fonctionner ; les élèves inscrits restent).
+ * @param supabase Le client Supabase (clé de service).
+ * @param classroomId L'ID de la classe.
+ * @returns Le nouveau code.
+ */
+const regenerateCode = async (supabase: SupabaseClient, classroomId: string): Promise<string> => {
+    const row = await withFreshCode<ClassroomRow>(code => (supabase.from('classrooms') as any)
+        .update({ join_code: code })
+        .eq('id', classroomId)
+        .select()
+        .single());
+    return row.join_code;
+};
+
+const renameClassroom = async (supabase: SupabaseClient, classroomId: string, name: string): Promise<void> => {
+    const { error } = await (supabase.from('classrooms') as any).update({ name: name.trim() }).eq('id', classroomId);
+    if (error) throw error;
+};
+
+const deleteClassroom = async (supabase: SupabaseClient, classroomId: string): Promise<void> => {
+    const { error } = await (supabase.from('classrooms') as any).delete().eq('id', classroomId);
+    if (error) throw error;
+};
+
+/**
+ * Retire un élève d'une classe (utilisé par l'enseignant, et par l'élève qui la quitte).
+ */
+const removeMember = async (supabase: SupabaseClient, classroomId: string, studentId: string): Promise<void> => {
+    const { error } = await (supabase.from('classroom_members') as any)
+        .delete()
+        .eq('classroom_id', classroomId)
+        .eq('student_id', studentId);
+    if (error) throw error;
+};
+
+/**
+ * Inscrit un élève dans la classe correspondant au code.
+ * @param supabase Le client Supabase (clé de service).
+ * @param studentId L'ID de l'élève.
+ * @param rawCode Le code tel que saisi.
+ * @returns La classe rejointe.
+ */
+const joinByCode = async (supabase: SupabaseClient, studentId: string, rawCode: string): Promise<Classroom> => {
+    const { data: classroom, error } = await (supabase.from('classrooms') as any)
+        .select('id, name, teacher_id, teacher_email, created_at')
+        .eq('join_code', normalizeJoinCode(rawCode))
+        .maybeSingle();
+    if (error) throw error;
+    if (!classroom) throw new NotFoundError("Aucune classe ne correspond à ce code.");
+    if (classroom.teacher_id === studentId) throw new BadRequestError("Vous êtes l'enseignant de cette classe.");
+
+    const { error: insertError } = await (supabase.from('classroom_members') as any)
+        .insert({ classroom_id: classroom.id, student_id: studentId });
+    if (insertError) {
+        if (insertError.code === '23505') throw new ConflictError("Vous faites déjà partie de cette classe.");
+        throw insertError;
+    }
+    return classroom;
+};
+
+/**
+ * Progression des élèves inscrits : XP, exercices terminés (et comment) et tentatives de quiz.
+ * @param supabase Le client Supabase (clé de service).
+ * @param classroomId L'ID de la classe.
+ */
+const getClassroomProgress = async (supabase: SupabaseClient, classroomId: string): Promise<ClassroomStudentProgress[]> => {
+    const { data: members, error } = await (supabase.from('classroom_members') as any)
+        .select('student_id, joined_at, profiles(email, xp)')
+        .eq('classroom_id', classroomId);
+    if (error) throw error;
+    if (!members?.length) return [];
+
+    const studentIds: string[] = members.map((m: any) => m.student_id);
+    const [{ data: exercises, error: exercisesError }, { data: attempts, error: attemptsError }] = await Promise.all([
+        (supabase.from('user_exercise_progress') as any).select('user_id, exercise_id, method').in('user_id', studentIds),
+        (supabase.from('user_quiz_attempts') as any).select('*').in('user_id', studentIds),
+    ]);
+    if (exercisesError) throw exercisesError;
+    if (attemptsError) throw attemptsError;
+
+    return members.map((m: any): ClassroomStudentProgress => {
+        const completed = (exercises ?? []).filter((e: any) => e.user_id === m.student_id);
+        return {
+            id: m.student_id,
+            email: m.profiles?.email ?? '',
+            xp: m.profiles?.xp ?? 0,
+            joined_at: m.joined_at,
+            completed_exercises: completed.map((e: any) => e.exercise_id),
+            completion_methods: Object.fromEntries(completed.filter((e: any) => e.method).map((e: any) => [e.exercise_id, e.method])),
+            quiz_attempts: (attempts ?? []).filter((a: UserQuizAttempt) => a.user_id === m.student_id),
+        };
+    });
+};
+
+export default {
+    getManagedClassroom, listTeaching, listEnrolled, createClassroom, regenerateCode,
+    renameClassroom, deleteClassroom, removeMember, joinByCode, getClassroomProgress,
+};
@@ -15,6 +15,15 @@ export const AI_USAGE_LIMITS = {
 
     // Nombre de reconnaissances d'écriture par image.
     OCR: 30,
+
+    // Nombre de recherches sémantiques (la recherche par mots-clés n'est pas limitée).
+    SEARCH: 100,
 };
 
 export type AiCallType = keyof typeof AI_USAGE_LIMITS;
+
+/**
+ * Nombre de jours pendant lesquels un élément supprimé reste dans la corbeille
+ * avant d'être purgé définitivement.
+ */
+export const TRASH_RETENTION_DAYS = 30;
@@ -0,0 +1,244 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import {
+    Level, Chapter, BundleScope, BundleImageAsset, CurriculumBundle, BundleImportOptions,
+    BundleImportChange, BundleImportPreview, ValidationIssue,
+} from '../../src/types.js';
+import { CurriculumRows, curriculumToRows, emptyCurriculumRows } from '../../src/utils/curriculum-rows.js';
+import { collectIssues } from './validation.js';
+import { BUNDLE_IMAGE_EXTENSIONS, curriculumBundleSchema } from './schemas.js';
+
+/*
+-- Les images embarquées dans un paquet importé sont téléversées dans ce bucket public.
+-- Dans Supabase : Storage > New bucket > "curriculum-images" (Public bucket activé).
+*/
+
+export const BUNDLE_FORMAT = 'maths-faciles-curriculum';
+export const BUNDLE_VERSION = 1;
+const IMAGE_BUCKET = 'curriculum-images';
+
+type Table = keyof CurriculumRows;
+
+// Tables in parent-before-child order, with the table and column of their parent.
+const TABLE_PARENTS: [Table, Table | null, string | null][] = [
+    ['levels', null, null],
+    ['chapters', 'levels', 'level_id'],
+    ['series', 'chapters', 'chapter_id'],
+    ['exercises', 'series', 'series_id'],
+    ['quizzes', 'chapters', 'chapter_id'],
+    ['quiz_questions', 'quizzes', 'quiz_id'],
+];
+
+// --- Validation ---
+
+/**
+ * Vérifie la structure d'un paquet et renvoie la liste des problèmes trouvés (vide si valide).
+ * @param input Le contenu JSON reçu.
+ */
+const validateBundle = (input: unknown): ValidationIssue[] => {
+    const issues = collectIssues(curriculumBundleSchema, input);
+    if (issues.length > 0) return issues;
+
+    const bundle = input as CurriculumBundle;
+    if (bundle.version !== BUNDLE_VERSION) {
+        return [{ path: 'version', message: `Version de paquet non prise en charge (attendue : ${BUNDLE_VERSION}).` }];
+    }
+
+    // IDs are primary keys: they must be unique per table within the bundle.
+    const rows = curriculumToRows(bundle.levels);
+    for (const [table] of TABLE_PARENTS) {
+        const seen = new Set<string>();
+        for (const row of rows[table]) {
+            if (seen.has(row.id)) issues.push({ path: table, message: `Identifiant en double dans le paquet : ${row.id}` });
+            seen.add(row.id);
+        }
+    }
+    return issues;
+};
+
+// --- Export ---
+
+const stripRevisions = (levels: Level[]): Level[] => JSON.parse(JSON.stringify(levels, (key, value) => key === 'updatedAt' ? undefined : value));
+
+/**
+ * Construit un paquet pour la portée demandée.
+ * @param curriculum Le programme complet.
+ * @param scope Le programme entier, un niveau ou un chapitre.
+ * @param images Les images à embarquer (optionnel).
+ * @returns Le paquet, ou null si l'élément demandé n'existe pas.
+ */
+const buildBundle = (curriculum: Level[], scope: BundleScope, images?: BundleImageAsset[]): CurriculumBundle | null => {
+    let levels: Level[] = curriculum;
+    if (scope.type !== 'curriculum') {
+        const level = curriculum.find(l => l.id === scope.levelId);
+        if (!level) return null;
+        levels = [level];
+        if (scope.type === 'chapter') {
+            const chapter = level.chapters.find(c => c.id === scope.chapterId);
+            if (!chapter) return null;
+            levels = [{ ...level, chapters: [chapter] }];
+        }
+    }
+
+    return {
+        format: BUNDLE_FORMAT,
+        version: BUNDLE_VERSION,
+        exportedAt: new Date().toISOString(),
+        scope,
+        levels: stripRevisions(levels),
+        ...(images ? { assets: { images } } : {}),
+    };
+};
+
+/**
+ * Télécharge les images référencées par les exercices pour les embarquer dans le paquet.
+ * Une image inaccessible, ou d'un type non accepté (voir BUNDLE_IMAGE_EXTENSIONS), est ignorée :
+ * l'exercice garde alors son URL d'origine.
+ * @param levels Les niveaux exportés.
+ */
+const fetchImageAssets = async (levels: Level[]): Promise<BundleImageAsset[]> => {
+    const urls = new Set<string>();
+    levels.forEach(l => l.chapters.forEach((c: Chapter) => c.series.forEach(s => s.exercises.forEach(e => {
+        if (e.imageUrl) urls.add(e.imageUrl);
+    }))));
+
+    const assets: BundleImageAsset[] = [];
+    for (const url of urls) {
+        try {
+            const response = await fetch(url);
+            if (!response.ok) throw new Error(`HTTP ${response.status}`);
+            const mimeType = (response.headers.get('content-type') || 'image/png').split(';')[0].trim().toLowerCase();
+            if (!BUNDLE_IMAGE_EXTENSIONS.has(mimeType)) throw new Error(`Type d'image non accepté : ${mimeType}`);
+            const buffer = Buffer.from(await response.arrayBuffer());
+            assets.push({ url, mimeType, data: buffer.toString('base64') });
+        } catch (e) {
+            console.warn(`Image could not be embedded in the bundle (${url}):`, e);
+        }
+    }
+    return assets;
+};
+
+// --- Import ---
+
+const rowLabel = (row: any): string => {
+    const label: string = row.level_name ?? row.title ?? row.question ?? row.statement ?? row.id;
+    return label.length > 80 ? `${label.slice(0, 80)}…` : label;
+};
+
+const changedFieldsOf = (row: any, liveRow: any): string[] =>
+    Object.keys(row)
+        .filter(key => key !== 'id' && key !== 'position')
+        .filter(key => JSON.stringify(row[key] ?? null) !== JSON.stringify(liveRow[key] ?? null));
+
+/**
+ * Calcule les lignes à écrire et l'aperçu des changements pour un import.
+ * L'import est additif : les éléments absents du paquet ne sont jamais supprimés.
+ * @param bundle Le paquet validé.
+ * @param live Les lignes actuelles du programme.
+ * @param options Stratégie de collision et niveau cible éventuel.
+ */
+const planImport = (bundle: CurriculumBundle, live: CurriculumRows, options: BundleImportOptions): { rows: CurriculumRows; preview: BundleImportPreview } => {
+    const bundleRows = curriculumToRows(bundle.levels);
+    if (options.targetLevelId) {
+        // Only the chapters are imported, under the chosen level.
+        bundleRows.levels = [];
+        bundleRows.chapters.forEach(chapter => { chapter.level_id = options.targetLevelId!; });
+    }
+
+    const liveById = Object.fromEntries(TABLE_PARENTS.map(([table]) =>
+        [table, new Map<string, any>((live[table] as any[]).map(row => [row.id, row]))]
+    )) as Record<Table, Map<string, any>>;
+    const idMaps = Object.fromEntries(TABLE_PARENTS.map(([table]) => [table, new Map<string, string>()])) as Record<Table, Map<string, string>>;
+    const usedIds = Object.fromEntries(TABLE_PARENTS.map(([table]) => [table, new Set(liveById[table].keys())])) as Record<Table, Set<string>>;
+
+    // Next free position under each live parent, so new items are appended after existing siblings.
+    const nextPosition = new Map<string, number>();
+    const appendPosition = (table: Table, parentKey: string) => {
+        if (!nextPosition.has(`${table}:${parentKey}`)) {
+            const parentColumn = TABLE_PARENTS.find(([t]) => t === table)![2];
+            const siblings = (live[table] as any[]).filter(row => !parentColumn || row[parentColumn] === parentKey);
+            nextPosition.set(`${table}:${parentKey}`, siblings.reduce((max, row) => Math.max(max, row.position + 1), 0));
+        }
+        const position = nextPosition.get(`${table}:${parentKey}`)!;
+        nextPosition.set(`${table}:${parentKey}`, position + 1);
+        return position;
+    };
+
+    const suffix = Date.now().toString(36);
+    const uniqueId = (table: Table, id: string) => {
+        let candidate = `${id}-${suffix}`;
+        for (let n = 2; usedIds[table].has(candidate); n++) candidate = `${id}-${suffix}-${n}`;
+        usedIds[table].add(candidate);
+        return candidate;
+    };
+
+    const rows = emptyCurriculumRows();
+    const changes: BundleImportChange[] = [];
+
+    for (const [table, parentTable, parentColumn] of TABLE_PARENTS) {
+        for (const bundleRow of bundleRows[table] as any[]) {
+            const row = { ...bundleRow };
+            if (parentTable && parentColumn) {
+                row[parentColumn] = idMaps[parentTable].get(row[parentColumn]) ?? row[parentColumn];
+            }
+            const parentKey = parentColumn ? row[parentColumn] : '';
+            const parentIsLive = !parentTable || liveById[parentTable].has(parentKey);
+            const liveRow = liveById[table].get(row.id);
+
+            let status: BundleImportChange['status'];
+            let changedFields: string[] | undefined;
+            if (!liveRow) {
+                status = 'create';
+                if (parentIsLive) row.position = appendPosition(table, parentKey);
+            } else if (options.strategy === 'skip') {
+                status = 'skip';
+            } else if (options.strategy === 'duplicate') {
+                status = 'duplicate';
+                row.id = uniqueId(table, row.id);
+                if (parentIsLive) row.position = appendPosition(table, parentKey);
+            } else {
+                changedFields = changedFieldsOf(row, liveRow);
+                status = changedFields.length > 0 ? 'update' : 'unchanged';
+                row.position = liveRow.position; // Existing items keep their place
+            }
+
+            idMaps[table].set(bundleRow.id, row.id);
+            changes.push({ table, id: bundleRow.id, finalId: row.id, label: rowLabel(row), status, changedFields });
+            if (status !== 'skip' && status !== 'unchanged') (rows[table] as any[]).push(row);
+        }
+    }
+
+    const summary = { create: 0, update: 0, unchanged: 0, skip: 0, duplicate: 0 };
+    changes.forEach(change => { summary[change.status]++; });
+
+    const imageUrls = new Set(rows.exercises.map(e => e.image_url).filter(Boolean));
+    const imageCount = (bundle.assets?.images ?? []).filter(image => imageUrls.has(image.url)).length;
+
+    return { rows, preview: { changes, summary, imageCount } };
+};
+
+/**
+ * Téléverse les images embarquées dans le bucket public et réécrit les `image_url`
+ * des exercices importés vers leur nouvelle adresse.
+ * @param supabase Le client Supabase (clé de service).
+ * @param rows Les lignes à importer (modifiées sur place).
+ * @param images Les images embarquées dans le paquet.
+ */
+const uploadImageAssets = async (supabase: SupabaseClient, rows: CurriculumRows, images: BundleImageAsset[]) => {
+    const imagesByUrl = new Map(images.map(image => [image.url, image]));
+    for (const exercise of rows.exercises) {
+        const image = exercise.image_url ? imagesByUrl.get(exercise.image_url) : undefined;
+        const extension = image && BUNDLE_IMAGE_EXTENSIONS.get(image.mimeType);
+        if (!image || !extension) continue; // The bundle schema only accepts the listed types
+
+        const path = `imports/${exercise.id}.${extension}`;
+        const { error } = await supabase.storage
+            .from(IMAGE_BUCKET)
+            .upload(path, Buffer.from(image.data, 'base64'), { contentType: image.mimeType, upsert: true });
+        if (error) {
+            throw new Error(`Échec du téléversement de l'image de l'exercice ${exercise.id} : ${error.message}`);
+        }
+        exercise.image_url = supabase.storage.from(IMAGE_BUCKET).getPublicUrl(path).data.publicUrl;
+    }
+};
+
+export default { validateBundle, buildBundle, fetchImageAssets, planImport, uploadImageAssets };
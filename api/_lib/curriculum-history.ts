@@ -0,0 +1,152 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { CurriculumRevision } from '../../src/types.js';
+import { CurriculumRows, emptyCurriculumRows } from '../../src/utils/curriculum-rows.js';
+
+/*
+-- Journal d'audit des modifications du programme : une ligne par action réussie de
+-- `update-curriculum`. `before`/`after` contiennent les lignes touchées au format
+-- `CurriculumRows` (l'élément seul pour une modification, tout son sous-arbre pour une
+-- suppression ou une restauration, le programme entier pour item_type = 'curriculum').
+CREATE TABLE public.curriculum_revisions (
+  id BIGSERIAL PRIMARY KEY,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  admin_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  admin_email TEXT,
+  action TEXT NOT NULL,
+  item_type TEXT NOT NULL,
+  item_id TEXT,
+  level_id TEXT,
+  chapter_id TEXT,
+  payload JSONB,
+  before JSONB,
+  after JSONB
+);
+CREATE INDEX curriculum_revisions_item_idx ON public.curriculum_revisions(item_type, item_id);
+CREATE INDEX curriculum_revisions_level_idx ON public.curriculum_revisions(level_id, chapter_id);
+
+-- Accès uniquement via la clé de service (API d'administration).
+ALTER TABLE public.curriculum_revisions ENABLE ROW LEVEL SECURITY;
+*/
+
+type NewRevision = Omit<CurriculumRevision, 'id' | 'created_at'> & { admin_id: string | null };
+
+export interface RevisionFilters {
+    itemType?: string;
+    itemId?: string;
+    levelId?: string;
+    chapterId?: string;
+    beforeId?: number; // Pagination : révisions plus anciennes que cet ID
+    limit?: number;
+}
+
+/**
+ * Enregistre une révision dans le journal d'audit.
+ * Une erreur est journalisée mais ne bloque pas : la modification est déjà appliquée.
+ * @param supabase Le client Supabase (clé de service).
+ * @param revision La révision à enregistrer.
+ */
+const recordRevision = async (supabase: SupabaseClient, revision: NewRevision) => {
+    const { error } = await (supabase
+        .from('curriculum_revisions') as any)
+        .insert(revision);
+
+    if (error) {
+        console.error(`Error recording curriculum revision for action ${revision.action}:`, error);
+    }
+};
+
+/**
+ * Liste les révisions, des plus récentes aux plus anciennes.
+ * Les instantanés du programme entier sont omis pour alléger la réponse.
+ * @param supabase Le client Supabase (clé de service).
+ * @param filters Filtres optionnels par élément, niveau ou chapitre.
+ */
+const listRevisions = async (supabase: SupabaseClient, filters: RevisionFilters): Promise<CurriculumRevision[]> => {
+    let query = (supabase
+        .from('curriculum_revisions') as any)
+        .select('*')
+        .order('id', { ascending: false })
+        .limit(Math.min(filters.limit ?? 50, 200));
+
+    if (filters.itemType) query = query.eq('item_type', filters.itemType);
+    if (filters.itemId) query = query.eq('item_id', filters.itemId);
+    if (filters.levelId) query = query.eq('level_id', filters.levelId);
+    if (filters.chapterId) query = query.eq('chapter_id', filters.chapterId);
+    if (filters.beforeId) query = query.lt('id', filters.beforeId);
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    return (data ?? []).map((revision: CurriculumRevision) =>
+        revision.item_type === 'curriculum' ? { ...revision, before: null, after: null } : revision
+    );
+};
+
+/**
+ * Récupère une révision par son ID.
+ * @param supabase Le client Supabase (clé de service).
+ * @param revisionId L'ID de la révision.
+ */
+const getRevision = async (supabase: SupabaseClient, revisionId: number): Promise<CurriculumRevision | null> => {
+    const { data, error } = await (supabase
+        .from('curriculum_revisions') as any)
+        .select('*')
+        .eq('id', revisionId)
+        .maybeSingle();
+    if (error) throw error;
+    return data;
+};
+
+/**
+ * Reconstruit l'état du programme juste après la révision `revisionId`, en annulant
+ * une à une (de la plus récente à la plus ancienne) toutes les révisions postérieures.
+ * @param supabase Le client Supabase (clé de service).
+ * @param current L'état actuel du programme.
+ * @param revisionId La révision cible.
+ */
+const rewindTo = async (supabase: SupabaseClient, current: CurriculumRows, revisionId: number): Promise<CurriculumRows> => {
+    const { data, error } = await (supabase
+        .from('curriculum_revisions') as any)
+        .select('id, item_type, before, after')
+        .gt('id', revisionId)
+        .order('id', { ascending: false });
+    if (error) throw error;
+
+    const state = new Map<keyof CurriculumRows, Map<string, any>>();
+    for (const [table, rows] of Object.entries(current) as [keyof CurriculumRows, any[]][]) {
+        state.set(table, new Map(rows.map(row => [row.id, row])));
+    }
+
+    for (const revision of (data ?? []) as CurriculumRevision[]) {
+        if (revision.item_type === 'curriculum') {
+            // A whole-curriculum restore: its `before` is the complete previous state.
+            for (const [table, rows] of Object.entries(revision.before ?? emptyCurriculumRows()) as [keyof CurriculumRows, any[]][]) {
+                state.set(table, new Map(rows.map(row => [row.id, row])));
+            }
+            continue;
+        }
+        for (const [table, rows] of Object.entries(revision.after ?? {}) as [keyof CurriculumRows, any[]][]) {
+            rows.forEach(row => state.get(table)?.delete(row.id));
+        }
+        for (const [table, rows] of Object.entries(revision.before ?? {}) as [keyof CurriculumRows, any[]][]) {
+            rows.forEach(row => state.get(table)?.set(row.id, row));
+        }
+    }
+
+    // Drop rows whose parent no longer exists so the result satisfies the foreign keys.
+    const rowsOf = (table: keyof CurriculumRows) => Array.from(state.get(table)?.values() ?? []);
+    const result = emptyCurriculumRows();
+    result.levels = rowsOf('levels');
+    const levelIds = new Set(result.levels.map(l => l.id));
+    result.chapters = rowsOf('chapters').filter(c => levelIds.has(c.level_id));
+    const chapterIds = new Set(result.chapters.map(c => c.id));
+    result.series = rowsOf('series').filter(s => chapterIds.has(s.chapter_id));
+    const seriesIds = new Set(result.series.map(s => s.id));
+    result.exercises = rowsOf('exercises').filter(e => seriesIds.has(e.series_id));
+    result.quizzes = rowsOf('quizzes').filter(q => chapterIds.has(q.chapter_id));
+    const quizIds = new Set(result.quizzes.map(q => q.id));
+    result.quiz_questions = rowsOf('quiz_questions').filter(q => quizIds.has(q.quiz_id));
+    return result;
+};
+
+export default { recordRevision, listRevisions, getRevision, rewindTo };
@@ -0,0 +1,131 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { DeletionInfo, TrashItem } from '../../src/types.js';
+import { CurriculumRows } from '../../src/utils/curriculum-rows.js';
+import { TRASH_RETENTION_DAYS } from './config.js';
+
+/*
+-- Corbeille : un élément supprimé y est conservé avec tout son sous-arbre (format
+-- `CurriculumRows`) avant d'être effacé des tables du programme. La restauration
+-- réinsère les lignes avec leurs IDs d'origine, de sorte que les lignes de
+-- user_exercise_progress / user_quiz_attempts (qui référencent ces IDs) redeviennent valides.
+CREATE TABLE public.curriculum_trash (
+  id BIGSERIAL PRIMARY KEY,
+  item_type TEXT NOT NULL,
+  item_id TEXT NOT NULL,
+  item_name TEXT NOT NULL DEFAULT '',
+  level_id TEXT,
+  chapter_id TEXT,
+  snapshot JSONB NOT NULL,
+  deleted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  deleted_by_email TEXT,
+  deleted_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+CREATE INDEX curriculum_trash_deleted_at_idx ON public.curriculum_trash(deleted_at);
+CREATE INDEX curriculum_trash_item_idx ON public.curriculum_trash(item_type, item_id);
+
+-- Accès uniquement via la clé de service (API d'administration).
+ALTER TABLE public.curriculum_trash ENABLE ROW LEVEL SECURITY;
+*/
+
+export interface TrashEntry {
+    id: number;
+    item_type: DeletionInfo['type'];
+    item_id: string;
+    item_name: string;
+    level_id: string | null;
+    chapter_id: string | null;
+    snapshot: CurriculumRows;
+    deleted_by: string | null;
+    deleted_by_email: string | null;
+    deleted_at: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toTrashItem = ({ snapshot, deleted_by: _deletedBy, ...entry }: TrashEntry): TrashItem => ({
+    ...entry,
+    expires_at: new Date(new Date(entry.deleted_at).getTime() + TRASH_RETENTION_DAYS * DAY_MS).toISOString(),
+    counts: Object.fromEntries(Object.entries(snapshot ?? {}).map(([table, rows]) => [table, (rows as any[]).length])),
+});
+
+/**
+ * Place un élément supprimé (et son sous-arbre) dans la corbeille.
+ * @param supabase Le client Supabase (clé de service).
+ * @param entry L'élément et l'instantané de ses lignes.
+ * @returns L'ID de l'entrée créée.
+ */
+const moveToTrash = async (supabase: SupabaseClient, entry: Omit<TrashEntry, 'id' | 'deleted_at'>): Promise<number> => {
+    const { data, error } = await (supabase
+        .from('curriculum_trash') as any)
+        .insert(entry)
+        .select('id')
+        .single();
+
+    if (error) {
+        // Bloquant : sans copie dans la corbeille, la suppression ne doit pas avoir lieu.
+        throw new Error(`Impossible de placer l'élément dans la corbeille : ${error.message}`);
+    }
+    return data.id;
+};
+
+/**
+ * Liste le contenu de la corbeille, du plus récent au plus ancien.
+ * @param supabase Le client Supabase (clé de service).
+ */
+const listTrash = async (supabase: SupabaseClient): Promise<TrashItem[]> => {
+    const { data, error } = await (supabase
+        .from('curriculum_trash') as any)
+        .select('*')
+        .order('deleted_at', { ascending: false });
+    if (error) throw error;
+    return (data ?? []).map(toTrashItem);
+};
+
+/**
+ * Récupère une entrée de la corbeille par son ID.
+ * @param supabase Le client Supabase (clé de service).
+ * @param trashId L'ID de l'entrée.
+ */
+const getTrashEntry = async (supabase: SupabaseClient, trashId: number): Promise<TrashEntry | null> => {
+    const { data, error } = await (supabase
+        .from('curriculum_trash') as any)
+        .select('*')
+        .eq('id', trashId)
+        .maybeSingle();
+    if (error) throw error;
+    return data;
+};
+
+/**
+ * Supprime des entrées de la corbeille, par ID ou pour un élément donné
+ * (par exemple quand il a été restauré depuis l'historique).
+ * @param supabase Le client Supabase (clé de service).
+ * @param filter L'ID de l'entrée, ou le type et l'ID de l'élément.
+ */
+const removeFromTrash = async (supabase: SupabaseClient, filter: { trashId: number } | { itemType: string; itemId: string }) => {
+    let query = (supabase.from('curriculum_trash') as any).delete();
+    query = 'trashId' in filter
+        ? query.eq('id', filter.trashId)
+        : query.eq('item_type', filter.itemType).eq('item_id', filter.itemId);
+    const { error } = await query;
+    if (error) throw error;
+};
+
+/**
+ * Purge définitivement les entrées plus anciennes que `olderThanDays` jours.
+ * @param supabase Le client Supabase (clé de service).
+ * @param olderThanDays Ancienneté minimale (par défaut TRASH_RETENTION_DAYS).
+ * @returns Le nombre d'entrées purgées.
+ */
+const purgeTrash = async (supabase: SupabaseClient, olderThanDays: number = TRASH_RETENTION_DAYS): Promise<number> => {
+    const threshold = new Date(Date.now() - olderThanDays * DAY_MS).toISOString();
+    const { data, error } = await (supabase
+        .from('curriculum_trash') as any)
+        .delete()
+        .lte('deleted_at', threshold)
+        .select('id');
+    if (error) throw error;
+    return data?.length ?? 0;
+};
+
+export default { moveToTrash, listTrash, getTrashEntry, removeFromTrash, purgeTrash };
@@ -1,23 +1,266 @@
 
-import { Level, Exercise } from '../../src/types.js';
+import { Level, Exercise, DeletionInfo } from '../../src/types.js';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import {
+    CURRICULUM_SELECT, CurriculumRows, emptyCurriculumRows, rowsToCurriculum,
+    rowToLevel, rowToChapter, rowToSeries, rowToExercise, rowToQuiz, rowToQuizQuestion,
+} from '../../src/utils/curriculum-rows.js';
+import { ConflictError } from './errors.js';
+import { requireEnv } from './middleware.js';
+
+/*
+-- The curriculum is stored in one table per entity instead of a single JSONB row.
+-- Every table uses the existing text IDs as primary key, so user progress
+-- (user_exercise_progress.exercise_id, user_quiz_attempts.quiz_id) keeps pointing at the same items.
+-- Run this in the Supabase SQL Editor, then run `scripts/migrate-curriculum-to-tables.ts`.
+
+CREATE OR REPLACE FUNCTION public.set_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TABLE public.levels (
+  id TEXT PRIMARY KEY,
+  level_name TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  position INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.chapters (
+  id TEXT PRIMARY KEY,
+  level_id TEXT NOT NULL REFERENCES public.levels(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  summary TEXT NOT NULL DEFAULT '',
+  video_links JSONB NOT NULL DEFAULT '[]'::jsonb,
+  position INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+CREATE INDEX chapters_level_id_idx ON public.chapters(level_id);
+
+CREATE TABLE public.series (
+  id TEXT PRIMARY KEY,
+  chapter_id TEXT NOT NULL REFERENCES public.chapters(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  position INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+CREATE INDEX series_chapter_id_idx ON public.series(chapter_id);
+
+CREATE TABLE public.exercises (
+  id TEXT PRIMARY KEY,
+  series_id TEXT NOT NULL REFERENCES public.series(id) ON DELETE CASCADE,
+  statement TEXT NOT NULL,
+  correction_snippet TEXT NOT NULL DEFAULT '',
+  full_correction TEXT,
+  image_url TEXT,
+  latex_formula TEXT,
+  skills JSONB NOT NULL DEFAULT '[]', -- Compétences travaillées (string[])
+  difficulty SMALLINT CHECK (difficulty BETWEEN 1 AND 5),
+  estimated_minutes SMALLINT,
+  source TEXT,               -- e.g. 'Bac 2019 session normale'
+  tags JSONB NOT NULL DEFAULT '[]',
+  prerequisites JSONB NOT NULL DEFAULT '[]',
+  position INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+CREATE INDEX exercises_series_id_idx ON public.exercises(series_id);
+
+CREATE TABLE public.quizzes (
+  id TEXT PRIMARY KEY,
+  chapter_id TEXT NOT NULL REFERENCES public.chapters(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  position INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+CREATE INDEX quizzes_chapter_id_idx ON public.quizzes(chapter_id);
+
+CREATE TABLE public.quiz_questions (
+  id TEXT PRIMARY KEY,
+  quiz_id TEXT NOT NULL REFERENCES public.quizzes(id) ON DELETE CASCADE,
+  question TEXT NOT NULL,
+  options JSONB,
+  correct_answer_index INT,
+  -- Question types: 'single', 'multiple', 'numeric', 'symbolic', 'ordering', 'trueFalse'.
+  -- answer_key holds the answer of the types other than 'single'/'trueFalse' (see QuizAnswerKeyColumn).
+  type TEXT NOT NULL DEFAULT 'single',
+  answer_key JSONB,
+  explanation TEXT,
+  skills JSONB NOT NULL DEFAULT '[]',
+  position INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+CREATE INDEX quiz_questions_quiz_id_idx ON public.quiz_questions(quiz_id);
+
+-- updated_at triggers and public read access (writes go through the service key only).
+DO $$
+DECLARE t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['levels','chapters','series','exercises','quizzes','quiz_questions'] LOOP
+    EXECUTE format('CREATE TRIGGER on_%1$s_update BEFORE UPDATE ON public.%1$I FOR EACH ROW EXECUTE FUNCTION public.set_updated_at()', t);
+    EXECUTE format('ALTER TABLE public.%I ENABLE ROW LEVEL SECURITY', t);
+    EXECUTE format('CREATE POLICY "Allow public read access" ON public.%I FOR SELECT USING (true)', t);
+  END LOOP;
+END $$;
+
+-- Upserts a batch of rows (shape of `CurriculumRows`) in a single transaction.
+-- Parents are written before children so foreign keys are always satisfied.
+CREATE OR REPLACE FUNCTION public.upsert_curriculum_rows(payload JSONB)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO public.levels (id, level_name, description, position)
+  SELECT id, level_name, COALESCE(description, ''), COALESCE(position, 0)
+  FROM jsonb_to_recordset(COALESCE(payload->'levels', '[]'::jsonb))
+    AS x(id TEXT, level_name TEXT, description TEXT, position INT)
+  ON CONFLICT (id) DO UPDATE SET level_name = EXCLUDED.level_name, description = EXCLUDED.description, position = EXCLUDED.position;
+
+  INSERT INTO public.chapters (id, level_id, title, summary, video_links, position)
+  SELECT id, level_id, title, COALESCE(summary, ''), COALESCE(video_links, '[]'::jsonb), COALESCE(position, 0)
+  FROM jsonb_to_recordset(COALESCE(payload->'chapters', '[]'::jsonb))
+    AS x(id TEXT, level_id TEXT, title TEXT, summary TEXT, video_links JSONB, position INT)
+  ON CONFLICT (id) DO UPDATE SET level_id = EXCLUDED.level_id, title = EXCLUDED.title, summary = EXCLUDED.summary,
+    video_links = EXCLUDED.video_links, position = EXCLUDED.position;
+
+  INSERT INTO public.series (id, chapter_id, title, position)
+  SELECT id, chapter_id, title, COALESCE(position, 0)
+  FROM jsonb_to_recordset(COALESCE(payload->'series', '[]'::jsonb))
+    AS x(id TEXT, chapter_id TEXT, title TEXT, position INT)
+  ON CONFLICT (id) DO UPDATE SET chapter_id = EXCLUDED.chapter_id, title = EXCLUDED.title, position = EXCLUDED.position;
+
+  INSERT INTO public.exercises (id, series_id, statement, correction_snippet, full_correction, image_url, latex_formula, skills,
+    difficulty, estimated_minutes, source, tags, prerequisites, position)
+  SELECT id, series_id, statement, COALESCE(correction_snippet, ''), full_correction, image_url, latex_formula, COALESCE(skills, '[]'::jsonb),
+    difficulty, estimated_minutes, source, COALESCE(tags, '[]'::jsonb), COALESCE(prerequisites, '[]'::jsonb), COALESCE(position, 0)
+  FROM jsonb_to_recordset(COALESCE(payload->'exercises', '[]'::jsonb))
+    AS x(id TEXT, series_id TEXT, statement TEXT, correction_snippet TEXT, full_correction TEXT, image_url TEXT, latex_formula TEXT, skills JSONB,
+      difficulty SMALLINT, estimated_minutes SMALLINT, source TEXT, tags JSONB, prerequisites JSONB, position INT)
+  ON CONFLICT (id) DO UPDATE SET series_id = EXCLUDED.series_id, statement = EXCLUDED.statement,
+    correction_snippet = EXCLUDED.correction_snippet, full_correction = EXCLUDED.full_correction,
+    image_url = EXCLUDED.image_url, latex_formula = EXCLUDED.latex_formula, skills = EXCLUDED.skills,
+    difficulty = EXCLUDED.difficulty, estimated_minutes = EXCLUDED.estimated_minutes, source = EXCLUDED.source,
+    tags = EXCLUDED.tags, prerequisites = EXCLUDED.prerequisites, position = EXCLUDED.position;
+
+  INSERT INTO public.quizzes (id, chapter_id, title, position)
+  SELECT id, chapter_id, title, COALESCE(position, 0)
+  FROM jsonb_to_recordset(COALESCE(payload->'quizzes', '[]'::jsonb))
+    AS x(id TEXT, chapter_id TEXT, title TEXT, position INT)
+  ON CONFLICT (id) DO UPDATE SET chapter_id = EXCLUDED.chapter_id, title = EXCLUDED.title, position = EXCLUDED.position;
+
+  INSERT INTO public.quiz_questions (id, quiz_id, question, type, options, correct_answer_index, answer_key, explanation, skills, position)
+  SELECT id, quiz_id, question, COALESCE(type, 'single'), options, correct_answer_index, answer_key, explanation, COALESCE(skills, '[]'::jsonb), COALESCE(position, 0)
+  FROM jsonb_to_recordset(COALESCE(payload->'quiz_questions', '[]'::jsonb))
+    AS x(id TEXT, quiz_id TEXT, question TEXT, type TEXT, options JSONB, correct_answer_index INT, answer_key JSONB, explanation TEXT, skills JSONB, position INT)
+  ON CONFLICT (id) DO UPDATE SET quiz_id = EXCLUDED.quiz_id, question = EXCLUDED.question, type = EXCLUDED.type,
+    options = EXCLUDED.options, correct_answer_index = EXCLUDED.correct_answer_index, answer_key = EXCLUDED.answer_key,
+    explanation = EXCLUDED.explanation, skills = EXCLUDED.skills, position = EXCLUDED.position;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+-- Service key only: editors go through /api/update-curriculum (permission, validation, conflict check).
+REVOKE EXECUTE ON FUNCTION public.upsert_curriculum_rows(jsonb) FROM PUBLIC, anon, authenticated;
+
+-- Replaces the whole curriculum with the given rows in a single transaction
+-- (used to restore the curriculum to a previous revision). Rows that are absent from
+-- the payload are deleted, the others are upserted.
+CREATE OR REPLACE FUNCTION public.replace_curriculum_rows(payload JSONB)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM public.quiz_questions WHERE id NOT IN (SELECT x->>'id' FROM jsonb_array_elements(COALESCE(payload->'quiz_questions', '[]'::jsonb)) x);
+  DELETE FROM public.quizzes WHERE id NOT IN (SELECT x->>'id' FROM jsonb_array_elements(COALESCE(payload->'quizzes', '[]'::jsonb)) x);
+  DELETE FROM public.exercises WHERE id NOT IN (SELECT x->>'id' FROM jsonb_array_elements(COALESCE(payload->'exercises', '[]'::jsonb)) x);
+  DELETE FROM public.series WHERE id NOT IN (SELECT x->>'id' FROM jsonb_array_elements(COALESCE(payload->'series', '[]'::jsonb)) x);
+  DELETE FROM public.chapters WHERE id NOT IN (SELECT x->>'id' FROM jsonb_array_elements(COALESCE(payload->'chapters', '[]'::jsonb)) x);
+  DELETE FROM public.levels WHERE id NOT IN (SELECT x->>'id' FROM jsonb_array_elements(COALESCE(payload->'levels', '[]'::jsonb)) x);
+  PERFORM public.upsert_curriculum_rows(payload);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+-- Service key only: restores go through /api/update-curriculum ('curriculum.edit').
+REVOKE EXECUTE ON FUNCTION public.replace_curriculum_rows(jsonb) FROM PUBLIC, anon, authenticated;
+
+-- The legacy `curriculum` table (single JSONB row) is only read by the migration script
+-- and can be dropped once the migration has been verified.
+
+-- Exercise metadata, on databases created before it existed. Public, like the statement.
+ALTER TABLE public.exercises ADD COLUMN IF NOT EXISTS difficulty SMALLINT CHECK (difficulty BETWEEN 1 AND 5);
+ALTER TABLE public.exercises ADD COLUMN IF NOT EXISTS estimated_minutes SMALLINT;
+ALTER TABLE public.exercises ADD COLUMN IF NOT EXISTS source TEXT;
+ALTER TABLE public.exercises ADD COLUMN IF NOT EXISTS tags JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE public.exercises ADD COLUMN IF NOT EXISTS prerequisites JSONB NOT NULL DEFAULT '[]';
+GRANT SELECT (difficulty, estimated_minutes, source, tags, prerequisites) ON public.exercises TO anon, authenticated;
+*/
 
 // Define a type alias to help TypeScript's compiler with potentially deep types.
 type Curriculum = Level[];
 
+export type CurriculumTable = 'levels' | 'chapters' | 'series' | 'exercises' | 'quizzes' | 'quiz_questions';
+
+// Table of each item type, as named in `DeletionInfo['type']`.
+export const ITEM_TABLES: Record<DeletionInfo['type'], CurriculumTable> = {
+    level: 'levels',
+    chapter: 'chapters',
+    series: 'series',
+    exercise: 'exercises',
+    quiz: 'quizzes',
+    quizQuestion: 'quiz_questions',
+};
+
+// Column referencing the parent row, used to order siblings.
+const PARENT_COLUMN: Record<CurriculumTable, string | null> = {
+    levels: null,
+    chapters: 'level_id',
+    series: 'chapter_id',
+    exercises: 'series_id',
+    quizzes: 'chapter_id',
+    quiz_questions: 'quiz_id',
+};
+
+const ROW_MAPPER: Record<CurriculumTable, (row: any) => any> = {
+    levels: rowToLevel,
+    chapters: rowToChapter,
+    series: rowToSeries,
+    exercises: rowToExercise,
+    quizzes: rowToQuiz,
+    quiz_questions: rowToQuizQuestion,
+};
+
+/**
+ * Thrown when a write is based on an outdated revision of the item.
+ * Carries the current state so the client can offer to reload or overwrite.
+ */
+export class CurriculumConflictError extends ConflictError {
+    currentUpdatedAt: string | null;
+    current: any | null;
+
+    constructor(currentRow: any | null, table: CurriculumTable) {
+        super(currentRow
+            ? "Cet élément a été modifié par quelqu'un d'autre depuis votre dernier chargement."
+            : "Cet élément a été supprimé par quelqu'un d'autre depuis votre dernier chargement.",
+            'CURRICULUM_CONFLICT');
+        this.currentUpdatedAt = currentRow?.updated_at ?? null;
+        this.current = currentRow ? ROW_MAPPER[table](currentRow) : null;
+    }
+
+    details() {
+        return { currentUpdatedAt: this.currentUpdatedAt, current: this.current };
+    }
+}
+
 // Simple in-memory cache for the serverless function instance.
 let cachedCurriculum: Curriculum | null = null;
 let cacheTimestamp: number | null = null;
 const CACHE_DURATION_MS = 1 * 60 * 1000; // 1 minute cache
 
 function getSupabaseAdminClient(): SupabaseClient {
-    const supabaseUrl = process.env.SUPABASE_URL;
-    const supabaseServiceKey = process.env.SUPABASE_SERVICE_KEY;
-
-    if (!supabaseUrl || !supabaseServiceKey) {
-        throw new Error("Configuration du serveur incomplète: SUPABASE_URL et SUPABASE_SERVICE_KEY sont requis.");
-    }
-    return createClient(supabaseUrl, supabaseServiceKey);
+    const { SUPABASE_URL, SUPABASE_SERVICE_KEY } = requireEnv('SUPABASE_URL', 'SUPABASE_SERVICE_KEY');
+    return createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
 }
 
 /**
@@ -30,7 +273,7 @@ function invalidateCache() {
 }
 
 /**
- * Fetches the curriculum from Supabase, using an in-memory cache.
+ * Fetches the whole curriculum tree from the relational tables, using an in-memory cache.
  */
 async function getCurriculumFromSupabase(): Promise<Curriculum> {
     const now = Date.now();
@@ -41,23 +284,15 @@ async function getCurriculumFromSupabase(): Promise<Curriculum> {
     try {
         const supabase = getSupabaseAdminClient();
         const { data, error } = await (supabase
-            .from('curriculum') as any)
-            .select('data')
-            .eq('id', 1)
-            .single();
+            .from('levels') as any)
+            .select(CURRICULUM_SELECT);
 
-        if (error && error.code !== 'PGRST116') { // PGRST116: "single row not found"
+        if (error) {
             console.error("Error fetching curriculum from Supabase:", error);
             throw error;
         }
-        
-        const curriculumData = data?.data;
-        if (!curriculumData || !Array.isArray(curriculumData)) {
-            cachedCurriculum = [];
-        } else {
-            cachedCurriculum = curriculumData as Curriculum;
-        }
-        
+
+        cachedCurriculum = rowsToCurriculum(data ?? []);
         cacheTimestamp = now;
         return cachedCurriculum;
     } catch (error) {
@@ -66,40 +301,23 @@ async function getCurriculumFromSupabase(): Promise<Curriculum> {
     }
 }
 
-/**
- * Finds a specific exercise within the curriculum structure.
- */
-function findExerciseInCurriculum(levels: Curriculum, exerciseId: string): Exercise | undefined {
-    for (const level of levels) {
-        for (const chapter of level.chapters ?? []) {
-            for (const series of chapter.series ?? []) {
-                for (const exercise of series.exercises ?? []) {
-                    if (exercise.id === exerciseId) {
-                        return exercise;
-                    }
-                }
-            }
-        }
-    }
-    return undefined;
-}
-
 /**
  * Fetches all exercises and returns them in a Map for quick lookups.
  */
 const getAllExercisesMap = async (): Promise<Map<string, Exercise>> => {
-    const levels = await getCurriculumFromSupabase();
+    const supabase = getSupabaseAdminClient();
+    const { data, error } = await (supabase
+        .from('exercises') as any)
+        .select('*');
+
+    if (error) {
+        console.error("Error fetching exercises from Supabase:", error);
+        throw new Error("Could not load exercises from the server.");
+    }
+
     const allExercisesMap = new Map<string, Exercise>();
-    for (const level of levels) {
-        for (const chapter of level.chapters ?? []) {
-            for (const series of chapter.series ?? []) {
-                for (const exercise of series.exercises ?? []) {
-                    if (exercise?.id) {
-                        allExercisesMap.set(exercise.id, exercise);
-                    }
-                }
-            }
-        }
+    for (const row of data ?? []) {
+        allExercisesMap.set(row.id, rowToExercise(row));
     }
     return allExercisesMap;
 }
@@ -108,13 +326,216 @@ const getAllExercisesMap = async (): Promise<Map<string, Exercise>> => {
  * Retrieves a single exercise by its ID.
  */
 const getExerciseById = async (exerciseId: string): Promise<Exercise | undefined> => {
-    const curriculum = await getCurriculumFromSupabase();
-    return findExerciseInCurriculum(curriculum, exerciseId);
+    const supabase = getSupabaseAdminClient();
+    const { data, error } = await (supabase
+        .from('exercises') as any)
+        .select('*')
+        .eq('id', exerciseId)
+        .maybeSingle();
+
+    if (error) {
+        console.error(`Error fetching exercise ${exerciseId} from Supabase:`, error);
+        throw new Error("Could not load exercise from the server.");
+    }
+    return data ? rowToExercise(data) : undefined;
+}
+
+/**
+ * Finds the exercises whose embeddings are closest to the given one (`match_exercises`).
+ * Best-effort: returns [] when the exercise has no embedding or the lookup fails.
+ */
+const findSimilarExerciseIds = async (exerciseId: string, matchCount = 3): Promise<string[]> => {
+    const supabase = getSupabaseAdminClient();
+    const { data: currentExerciseData, error: fetchError } = await (supabase
+        .from('exercise_embeddings') as any)
+        .select('embedding')
+        .eq('exercise_id', exerciseId)
+        .maybeSingle();
+
+    if (fetchError || !currentExerciseData?.embedding) {
+        console.error(`Could not fetch embedding for exercise ${exerciseId}:`, fetchError?.message);
+        return [];
+    }
+
+    const { data, error: rpcError } = await (supabase.rpc as any)('match_exercises', {
+        query_embedding: currentExerciseData.embedding,
+        match_threshold: 0.75, // Similarity threshold (0 to 1). Adjust for best results.
+        match_count: matchCount,
+        exclude_id: exerciseId // Ensure we don't return the same exercise.
+    });
+
+    if (rpcError) {
+        console.error(`Error calling Supabase RPC 'match_exercises':`, rpcError.message);
+        return [];
+    }
+    return Array.isArray(data) ? data.map((item: { id: string }) => item.id).filter(Boolean) : [];
+}
+
+const fetchRow = async (table: CurriculumTable, id: string): Promise<any | null> => {
+    const supabase = getSupabaseAdminClient();
+    const { data, error } = await (supabase
+        .from(table) as any)
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+    if (error) throw error;
+    return data;
+}
+
+/**
+ * Checks that a parent row exists before inserting a child under it.
+ */
+const rowExists = async (table: CurriculumTable, id: string): Promise<boolean> => !!(await fetchRow(table, id));
+
+/**
+ * Inserts or updates a single curriculum row, with an optimistic concurrency check.
+ * `baseUpdatedAt` is the revision the client based its edit on (null for a new item):
+ * the write only succeeds if the row is still at that revision, otherwise a
+ * `CurriculumConflictError` is thrown. An existing row keeps its position; a new row
+ * is appended after its siblings. Returns the new `updated_at`.
+ */
+const saveCurriculumRow = async <T extends { id: string; position: number }>(table: CurriculumTable, row: T, baseUpdatedAt: string | null): Promise<string> => {
+    const supabase = getSupabaseAdminClient();
+    const { position: _position, ...fields } = row;
+
+    if (baseUpdatedAt) {
+        // The conditional filter makes the check and the write a single atomic statement.
+        const { data, error } = await (supabase
+            .from(table) as any)
+            .update(fields)
+            .eq('id', row.id)
+            .eq('updated_at', baseUpdatedAt)
+            .select('updated_at');
+        if (error) throw error;
+        if (!data?.length) throw new CurriculumConflictError(await fetchRow(table, row.id), table);
+        return data[0].updated_at;
+    }
+
+    const parentColumn = PARENT_COLUMN[table];
+    let query = (supabase.from(table) as any).select('position').order('position', { ascending: false }).limit(1);
+    if (parentColumn) query = query.eq(parentColumn, (row as any)[parentColumn]);
+    const { data: last, error: lastError } = await query;
+    if (lastError) throw lastError;
+    const position = last?.length ? last[0].position + 1 : 0;
+
+    const { data, error } = await (supabase
+        .from(table) as any)
+        .insert({ ...fields, position })
+        .select('updated_at')
+        .single();
+    if (error?.code === '23505') { // unique_violation: the item was created in the meantime
+        throw new CurriculumConflictError(await fetchRow(table, row.id), table);
+    }
+    if (error) throw error;
+    return data.updated_at;
+}
+
+/**
+ * Deletes a curriculum row if it is still at revision `baseUpdatedAt`.
+ * Children are removed by the ON DELETE CASCADE foreign keys.
+ * Deleting a row that no longer exists is a no-op.
+ */
+const deleteCurriculumRow = async (table: CurriculumTable, id: string, baseUpdatedAt: string | null): Promise<void> => {
+    const supabase = getSupabaseAdminClient();
+    let query = (supabase.from(table) as any).delete().eq('id', id);
+    if (baseUpdatedAt) query = query.eq('updated_at', baseUpdatedAt);
+    const { data, error } = await query.select('id');
+    if (error) throw error;
+    if (!data?.length) {
+        const current = await fetchRow(table, id);
+        if (current) throw new CurriculumConflictError(current, table);
+    }
+}
+
+const fetchRowsIn = async (table: CurriculumTable, column: string, values: string[]): Promise<any[]> => {
+    if (values.length === 0) return [];
+    const supabase = getSupabaseAdminClient();
+    const { data, error } = await (supabase
+        .from(table) as any)
+        .select('*')
+        .in(column, values);
+    if (error) throw error;
+    return data ?? [];
+}
+
+const stripTimestamps = ({ created_at: _createdAt, updated_at: _updatedAt, ...row }: any) => row;
+
+/**
+ * Snapshots a row as `CurriculumRows`, with all of its descendants when `withDescendants` is set.
+ * Returns empty rows when the item does not exist.
+ */
+const fetchSubtreeRows = async (table: CurriculumTable, id: string, withDescendants: boolean): Promise<CurriculumRows> => {
+    const rows = emptyCurriculumRows();
+    const root = await fetchRow(table, id);
+    if (!root) return rows;
+    rows[table].push(root);
+
+    if (withDescendants) {
+        if (table === 'levels') rows.chapters = await fetchRowsIn('chapters', 'level_id', [id]);
+        const chapterIds = rows.chapters.map(c => c.id);
+        if (table === 'levels' || table === 'chapters') {
+            rows.series = await fetchRowsIn('series', 'chapter_id', chapterIds);
+            rows.quizzes = await fetchRowsIn('quizzes', 'chapter_id', chapterIds);
+        }
+        if (['levels', 'chapters', 'series'].includes(table)) {
+            rows.exercises = await fetchRowsIn('exercises', 'series_id', rows.series.map(s => s.id));
+        }
+        if (['levels', 'chapters', 'quizzes'].includes(table)) {
+            rows.quiz_questions = await fetchRowsIn('quiz_questions', 'quiz_id', rows.quizzes.map(q => q.id));
+        }
+    }
+
+    for (const key of Object.keys(rows) as CurriculumTable[]) {
+        rows[key] = rows[key].map(stripTimestamps);
+    }
+    return rows;
+}
+
+/**
+ * Snapshots every row of the curriculum.
+ */
+const fetchAllRows = async (): Promise<CurriculumRows> => {
+    const supabase = getSupabaseAdminClient();
+    const rows = emptyCurriculumRows();
+    for (const table of Object.keys(rows) as CurriculumTable[]) {
+        const { data, error } = await (supabase
+            .from(table) as any)
+            .select('*');
+        if (error) throw error;
+        rows[table] = (data ?? []).map(stripTimestamps);
+    }
+    return rows;
+}
+
+/**
+ * Upserts a batch of rows atomically through the `upsert_curriculum_rows` RPC.
+ */
+const upsertCurriculumRows = async (rows: CurriculumRows): Promise<void> => {
+    const supabase = getSupabaseAdminClient();
+    const { error } = await (supabase.rpc as any)('upsert_curriculum_rows', { payload: rows });
+    if (error) throw error;
+}
+
+/**
+ * Replaces the whole curriculum atomically through the `replace_curriculum_rows` RPC.
+ */
+const replaceCurriculumRows = async (rows: CurriculumRows): Promise<void> => {
+    const supabase = getSupabaseAdminClient();
+    const { error } = await (supabase.rpc as any)('replace_curriculum_rows', { payload: rows });
+    if (error) throw error;
 }
 
 export default {
     getCurriculumFromSupabase,
     getExerciseById,
     getAllExercisesMap,
+    findSimilarExerciseIds,
+    rowExists,
+    saveCurriculumRow,
+    deleteCurriculumRow,
+    fetchSubtreeRows,
+    fetchAllRows,
+    upsertCurriculumRows,
+    replaceCurriculumRows,
     invalidateCache
-};
\ No newline at end of file
+};
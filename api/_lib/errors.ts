@@ -0,0 +1,72 @@
+import { ValidationIssue } from '../../src/types.js';
+
+/**
+ * Erreur renvoyée au client avec un statut HTTP et un code stable :
+ * `{ error: message, code, ...details }`. Toute autre erreur devient une 500.
+ */
+export class ApiError extends Error {
+    constructor(public status: number, public code: string, message: string) {
+        super(message);
+        this.name = new.target.name;
+    }
+
+    /** Champs ajoutés au corps de la réponse, en plus de `error` et `code`. */
+    details(): Record<string, unknown> {
+        return {};
+    }
+}
+
+export class BadRequestError extends ApiError {
+    constructor(message: string) { super(400, 'BAD_REQUEST', message); }
+}
+
+/**
+ * Requête qui ne respecte pas son schéma. `issues` liste les chemins fautifs.
+ */
+export class ValidationError extends ApiError {
+    constructor(message: string, public issues: ValidationIssue[]) {
+        super(400, 'VALIDATION_FAILED', message);
+    }
+
+    details() {
+        return { issues: this.issues };
+    }
+}
+
+export class UnauthorizedError extends ApiError {
+    constructor(message = "L'authentification est requise.") { super(401, 'UNAUTHORIZED', message); }
+}
+
+export class ForbiddenError extends ApiError {
+    constructor(message = 'Action non autorisée.') { super(403, 'FORBIDDEN', message); }
+}
+
+export class NotFoundError extends ApiError {
+    constructor(message: string) { super(404, 'NOT_FOUND', message); }
+}
+
+export class MethodNotAllowedError extends ApiError {
+    constructor(method: string | undefined) { super(405, 'METHOD_NOT_ALLOWED', `Méthode ${method} non autorisée.`); }
+}
+
+export class ConflictError extends ApiError {
+    constructor(message: string, code = 'CONFLICT') { super(409, code, message); }
+}
+
+export class RateLimitError extends ApiError {
+    constructor(message: string) { super(429, 'RATE_LIMITED', message); }
+}
+
+/**
+ * Variable d'environnement manquante ou base de données incomplète.
+ */
+export class ConfigurationError extends ApiError {
+    constructor(message: string) { super(500, 'SERVER_MISCONFIGURED', message); }
+}
+
+/**
+ * Le service d'IA a renvoyé une réponse vide ou inexploitable.
+ */
+export class UpstreamError extends ApiError {
+    constructor(message: string) { super(502, 'AI_SERVICE_ERROR', message); }
+}
@@ -0,0 +1,165 @@
+import { SupabaseClient, User as AuthUser } from "@supabase/supabase-js";
+import { Leaderboard, LeaderboardEntry, LeaderboardProfile, LeaderboardQuery, Role } from '../../src/types.js';
+import { LEADERBOARD_PAGE_SIZE, RETAKE_MIN_INTERVAL_HOURS, weekStart } from '../../src/utils/leaderboard.js';
+import classrooms from './classrooms.js';
+import dataAccess from './data-access.js';
+import { ConflictError, ForbiddenError, NotFoundError } from './errors.js';
+
+/*
+-- Participation aux classements : seuls les élèves inscrits y figurent, sous leur pseudonyme.
+CREATE TABLE public.leaderboard_profiles (
+  user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  pseudonym TEXT NOT NULL,
+  opted_in_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+CREATE UNIQUE INDEX leaderboard_profiles_pseudonym_idx ON public.leaderboard_profiles(lower(pseudonym));
+
+-- Écriture via /api/leaderboards (clé de service). Lecture par l'élève ; les classements
+-- sont calculés par le serveur et n'exposent que les pseudonymes.
+ALTER TABLE public.leaderboard_profiles ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view their own leaderboard profile."
+    ON public.leaderboard_profiles FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- Classement des élèves inscrits (toute la table, ou les membres d'une classe), XP du registre additionnée
+-- par la base : depuis un jour (heure de Casablanca) et sur certains chapitres si demandé, sans l'XP des quiz
+-- repassés moins de `p_retake_min_interval` après la tentative précédente. À égalité d'XP, même rang ;
+-- `position` départage par pseudonyme, pour paginer.
+CREATE OR REPLACE FUNCTION public.leaderboard(p_chapter_ids text[], p_classroom_id uuid, p_since date, p_retake_min_interval interval)
+RETURNS TABLE (user_id uuid, pseudonym text, xp bigint, rank bigint, "position" bigint)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  WITH players AS (
+    SELECT p.user_id, p.pseudonym FROM public.leaderboard_profiles p
+    WHERE p_classroom_id IS NULL
+       OR EXISTS (SELECT 1 FROM public.classroom_members m WHERE m.classroom_id = p_classroom_id AND m.student_id = p.user_id)
+  ),
+  farmed AS (
+    SELECT a.id::text AS attempt_id
+    FROM (
+      SELECT q.id, q.taken_at - lag(q.taken_at) OVER (PARTITION BY q.user_id, q.quiz_id ORDER BY q.taken_at) AS gap
+      FROM public.user_quiz_attempts q JOIN players pl ON pl.user_id = q.user_id
+    ) a
+    WHERE a.gap < p_retake_min_interval
+  ),
+  totals AS (
+    SELECT pl.user_id, pl.pseudonym, COALESCE(sum(l.amount), 0) AS xp
+    FROM players pl
+    LEFT JOIN public.xp_ledger l ON l.user_id = pl.user_id
+      AND (p_chapter_ids IS NULL OR l.chapter_id = ANY (p_chapter_ids))
+      AND (p_since IS NULL OR l.granted_at >= p_since::timestamp AT TIME ZONE 'Africa/Casablanca')
+      AND NOT (l.reason = 'quiz_improved' AND l.ref_id IN (SELECT attempt_id FROM farmed))
+    GROUP BY pl.user_id, pl.pseudonym
+  )
+  SELECT t.user_id, t.pseudonym, t.xp,
+         rank() OVER (ORDER BY t.xp DESC),
+         row_number() OVER (ORDER BY t.xp DESC, lower(t.pseudonym))
+  FROM totals t;
+$$;
+REVOKE EXECUTE ON FUNCTION public.leaderboard(text[], uuid, date, interval) FROM PUBLIC, anon, authenticated;
+*/
+
+/**
+ * La participation de l'élève aux classements.
+ */
+const getProfile = async (supabase: SupabaseClient, userId: string): Promise<LeaderboardProfile> => {
+    const { data, error } = await (supabase.from('leaderboard_profiles') as any)
+        .select('pseudonym')
+        .eq('user_id', userId)
+        .maybeSingle();
+    if (error) throw error;
+    return { optedIn: !!data, pseudonym: data?.pseudonym ?? null };
+};
+
+/**
+ * Inscrit l'élève aux classements sous ce pseudonyme (ou le renomme), ou le retire des classements (null).
+ * @throws {ConflictError} Si un autre élève utilise déjà ce pseudonyme.
+ */
+const updateProfile = async (supabase: SupabaseClient, userId: string, pseudonym: string | null): Promise<LeaderboardProfile> => {
+    if (pseudonym === null) {
+        const { error } = await (supabase.from('leaderboard_profiles') as any).delete().eq('user_id', userId);
+        if (error) throw error;
+        return { optedIn: false, pseudonym: null };
+    }
+    const { error } = await (supabase.from('leaderboard_profiles') as any)
+        .upsert({ user_id: userId, pseudonym: pseudonym.trim() }, { onConflict: 'user_id' });
+    if (error?.code === '23505') throw new ConflictError("Ce pseudonyme est déjà utilisé.", 'PSEUDONYM_TAKEN');
+    if (error) throw error;
+    return { optedIn: true, pseudonym: pseudonym.trim() };
+};
+
+// Whether the user may see the leaderboard of the classroom: its members, its teacher, or a role that sees
+// all students.
+const assertCanViewClassroom = async (supabase: SupabaseClient, classroomId: string, user: AuthUser, role: Role): Promise<void> => {
+    const { count, error } = await (supabase.from('classroom_members') as any)
+        .select('student_id', { count: 'exact', head: true })
+        .eq('classroom_id', classroomId)
+        .eq('student_id', user.id);
+    if (error) throw error;
+    if ((count ?? 0) > 0) return;
+    try {
+        await classrooms.getManagedClassroom(supabase, classroomId, user, role);
+    } catch (err) {
+        if (err instanceof NotFoundError) throw err;
+        throw new ForbiddenError("Vous ne faites pas partie de cette classe.");
+    }
+};
+
+// A row of `public.leaderboard`, as shown to the user.
+const toEntry = (row: any, userId: string): LeaderboardEntry => ({
+    rank: Number(row.rank),
+    pseudonym: row.pseudonym,
+    xp: Number(row.xp),
+    isMe: row.user_id === userId,
+});
+
+/**
+ * Une page d'un classement : XP de la semaine (depuis lundi, heure de Casablanca) ou de toujours, sur tout
+ * le programme, un niveau ou une classe. L'XP vient du registre d'XP, sans celle des quiz repassés à la
+ * chaîne ; elle est additionnée et classée par la base (voir `public.leaderboard`).
+ * @param supabase Le client Supabase (clé de service).
+ * @param user L'utilisateur authentifié.
+ * @param role Son rôle.
+ * @param query Période, portée et page (à partir de 1).
+ * @throws {NotFoundError} Si le niveau ou la classe n'existe pas.
+ * @throws {ForbiddenError} Si l'utilisateur ne peut pas voir le classement de la classe.
+ */
+const getLeaderboard = async (supabase: SupabaseClient, user: AuthUser, role: Role, query: LeaderboardQuery): Promise<Leaderboard> => {
+    const curriculum = await dataAccess.getCurriculumFromSupabase();
+    let chapterIds: string[] | null = null;
+    if (query.scope === 'level') {
+        const level = curriculum.find(l => l.id === query.scopeId);
+        if (!level) throw new NotFoundError("Niveau introuvable.");
+        chapterIds = (level.chapters ?? []).map(chapter => chapter.id);
+    }
+    if (query.scope === 'classroom') await assertCanViewClassroom(supabase, query.scopeId!, user, role);
+
+    const args = {
+        p_chapter_ids: chapterIds,
+        p_classroom_id: query.scope === 'classroom' ? query.scopeId : null,
+        p_since: query.period === 'week' ? weekStart() : null,
+        p_retake_min_interval: `${RETAKE_MIN_INTERVAL_HOURS} hours`,
+    };
+    const page = query.page ?? 1;
+    const [rows, me, profile] = await Promise.all([
+        (supabase.rpc as any)('leaderboard', args, { count: 'exact' })
+            .order('position')
+            .range((page - 1) * LEADERBOARD_PAGE_SIZE, page * LEADERBOARD_PAGE_SIZE - 1),
+        (supabase.rpc as any)('leaderboard', args).eq('user_id', user.id).maybeSingle(),
+        getProfile(supabase, user.id),
+    ]);
+    if (rows.error?.code === 'PGRST103') throw new NotFoundError("Cette page du classement n'existe pas."); // Past the last page
+    if (rows.error) throw rows.error;
+    if (me.error) throw me.error;
+
+    return {
+        entries: (rows.data ?? []).map((row: any) => toEntry(row, user.id)),
+        total: rows.count ?? 0,
+        page,
+        pageSize: LEADERBOARD_PAGE_SIZE,
+        me: me.data ? toEntry(me.data, user.id) : null,
+        profile,
+    };
+};
+
+export default { getProfile, updateProfile, getLeaderboard };
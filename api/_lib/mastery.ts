@@ -0,0 +1,102 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { Level, MasteryReport, QuizQuestion } from '../../src/types.js';
+import { MasteryEvidence, MasteryItem, buildMasteryReport } from '../../src/utils/mastery.js';
+import { attemptQuestionResults } from '../../src/utils/quiz-grading.js';
+import dataAccess from './data-access.js';
+
+/*
+-- Compétences travaillées par chaque exercice et chaque question (string[]), publiques.
+ALTER TABLE public.exercises ADD COLUMN IF NOT EXISTS skills JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE public.quiz_questions ADD COLUMN IF NOT EXISTS skills JSONB NOT NULL DEFAULT '[]';
+GRANT SELECT (skills) ON public.exercises TO anon, authenticated;
+GRANT SELECT (skills) ON public.quiz_questions TO anon, authenticated;
+
+-- Réponses de l'élève aux étapes du tuteur socratique (/api/validate-socratic-answer).
+CREATE TABLE public.tutor_step_results (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  exercise_id TEXT NOT NULL,
+  is_correct BOOLEAN NOT NULL,
+  answered_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+CREATE INDEX tutor_step_results_user_idx ON public.tutor_step_results(user_id);
+
+-- Écriture via la clé de service uniquement. Lecture par l'élève.
+ALTER TABLE public.tutor_step_results ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view their own tutor step results."
+    ON public.tutor_step_results FOR SELECT
+    USING (auth.uid() = user_id);
+*/
+
+// Exercises and questions of the curriculum with their skills, and the questions of each quiz in order.
+const indexCurriculum = (curriculum: Level[]): { items: MasteryItem[]; quizzes: Map<string, QuizQuestion[]> } => {
+    const items: MasteryItem[] = [];
+    const quizzes = new Map<string, QuizQuestion[]>();
+    for (const chapter of curriculum.flatMap(level => level.chapters ?? [])) {
+        for (const exercise of (chapter.series ?? []).flatMap(series => series.exercises ?? [])) {
+            items.push({ type: 'exercise', id: exercise.id, chapterId: chapter.id, skills: exercise.skills ?? [] });
+        }
+        for (const quiz of chapter.quizzes ?? []) {
+            quizzes.set(quiz.id, quiz.questions);
+            quiz.questions.forEach(question => items.push({ type: 'quizQuestion', id: question.id, chapterId: chapter.id, skills: question.skills ?? [] }));
+        }
+    }
+    return { items, quizzes };
+};
+
+/**
+ * Enregistre la réponse de l'élève à une étape du tuteur.
+ * @param supabase Le client Supabase (clé de service).
+ */
+const recordTutorStep = async (supabase: SupabaseClient, userId: string, exerciseId: string, isCorrect: boolean): Promise<void> => {
+    const { error } = await (supabase.from('tutor_step_results') as any)
+        .insert({ user_id: userId, exercise_id: exerciseId, is_correct: isCorrect });
+    if (error) {
+        // Non bloquant : l'élève reçoit la réponse du tuteur même si elle n'est pas enregistrée.
+        console.error(`Error recording tutor step for user ${userId}:`, error);
+    }
+};
+
+/**
+ * Rassemble les réponses notées de l'élève : vérifications de réponse, questions de quiz et étapes du tuteur.
+ */
+const loadEvidence = async (supabase: SupabaseClient, userId: string, quizzes: Map<string, QuizQuestion[]>): Promise<MasteryEvidence[]> => {
+    const [checks, attempts, tutorSteps] = await Promise.all([
+        (supabase.from('exercise_answer_checks') as any).select('exercise_id, is_correct, score, checked_at').eq('user_id', userId),
+        (supabase.from('user_quiz_attempts') as any).select('quiz_id, taken_at, answers, question_results').eq('user_id', userId),
+        (supabase.from('tutor_step_results') as any).select('exercise_id, is_correct, answered_at').eq('user_id', userId),
+    ]);
+    if (checks.error) throw checks.error;
+    if (attempts.error) throw attempts.error;
+    if (tutorSteps.error) throw tutorSteps.error;
+
+    const evidence: MasteryEvidence[] = [];
+    for (const check of checks.data ?? []) {
+        evidence.push({
+            source: 'answerCheck',
+            type: 'exercise',
+            id: check.exercise_id,
+            score: check.score ?? (check.is_correct ? 1 : 0),
+            answeredAt: check.checked_at,
+        });
+    }
+    for (const attempt of attempts.data ?? []) {
+        for (const result of attemptQuestionResults(attempt, quizzes.get(attempt.quiz_id) ?? [])) {
+            evidence.push({ source: 'quiz', type: 'quizQuestion', id: result.question_id, score: result.correct ? 1 : 0, answeredAt: attempt.taken_at });
+        }
+    }
+    for (const step of tutorSteps.data ?? []) {
+        evidence.push({ source: 'tutor', type: 'exercise', id: step.exercise_id, score: step.is_correct ? 1 : 0, answeredAt: step.answered_at });
+    }
+    return evidence;
+};
+
+/**
+ * Estime la maîtrise de l'élève pour chaque compétence et chaque chapitre.
+ */
+const getMastery = async (supabase: SupabaseClient, userId: string): Promise<MasteryReport> => {
+    const { items, quizzes } = indexCurriculum(await dataAccess.getCurriculumFromSupabase());
+    return buildMasteryReport(items, await loadEvidence(supabase, userId, quizzes));
+};
+
+export default { recordTutorStep, getMastery };
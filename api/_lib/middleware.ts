@@ -0,0 +1,132 @@
+import { createClient, SupabaseClient, User as AuthUser } from "@supabase/supabase-js";
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import aiUsageLimiter from './ai-usage-limiter.js';
+import { AI_USAGE_LIMITS, AiCallType } from './config.js';
+import { Permission, Role } from '../../src/types.js';
+import { hasPermission, toRole } from '../../src/utils/permissions.js';
+import { ApiError, ConfigurationError, ForbiddenError, MethodNotAllowedError, RateLimitError, UnauthorizedError } from './errors.js';
+
+// Composable wrappers shared by every endpoint:
+//
+//   export default withCors(['POST'], withAuth(withRateLimit('EXPLANATION', async (req, res, { supabase, user }) => { ... })));
+//
+// Handlers throw an `ApiError` (see errors.ts) instead of writing error responses themselves.
+
+export type ApiHandler = (req: VercelRequest, res: VercelResponse) => Promise<unknown>;
+
+export interface AuthContext {
+    supabase: SupabaseClient; // Service-role client
+    user: AuthUser;
+    role: Role; // From `profiles.role`
+}
+
+export type AuthedHandler = (req: VercelRequest, res: VercelResponse, ctx: AuthContext) => Promise<unknown>;
+
+const ALLOWED_HEADERS = 'Authorization, X-CSRF-Token, X-Requested-With, Accept, Accept-Version, Content-Length, Content-MD5, Content-Type, Date, X-Api-Version';
+
+const RATE_LIMIT_MESSAGES: Record<AiCallType, (limit: number) => string> = {
+    EXPLANATION: limit => `Vous avez atteint votre limite de ${limit} demandes d'explication par jour.`,
+    ANSWER_VALIDATION: limit => `Vous avez atteint votre limite de ${limit} validations de réponse par jour.`,
+    SOCRATIC_VALIDATION: limit => `Vous avez atteint votre limite de ${limit} vérifications par jour.`,
+    OCR: limit => `Vous avez atteint votre limite de ${limit} analyses d'image par jour.`,
+    SEARCH: limit => `Vous avez atteint votre limite de ${limit} recherches par jour.`,
+};
+
+/**
+ * Renvoie les variables d'environnement demandées, ou lève une ConfigurationError
+ * qui les liste toutes si certaines manquent.
+ * @param names Les noms des variables requises.
+ */
+export const requireEnv = <N extends string>(...names: N[]): Record<N, string> => {
+    const missing = names.filter(name => !process.env[name]);
+    if (missing.length > 0) {
+        throw new ConfigurationError(`Configuration du serveur incomplète. Variables d'environnement manquantes: ${missing.join(', ')}`);
+    }
+    return Object.fromEntries(names.map(name => [name, process.env[name]!])) as Record<N, string>;
+};
+
+/**
+ * Point d'entrée de chaque endpoint : en-têtes CORS, réponse au pré-vol OPTIONS,
+ * contrôle de la méthode, et conversion de toute erreur en `{ error, code }`.
+ * @param methods Les méthodes HTTP acceptées.
+ * @param handler Le handler de l'endpoint.
+ */
+export const withCors = (methods: string[], handler: ApiHandler) => async (req: VercelRequest, res: VercelResponse) => {
+    res.setHeader('Access-Control-Allow-Credentials', 'true');
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', [...methods, 'OPTIONS'].join(','));
+    res.setHeader('Access-Control-Allow-Headers', ALLOWED_HEADERS);
+
+    if (req.method === 'OPTIONS') {
+        res.status(200).end();
+        return;
+    }
+
+    try {
+        if (!methods.includes(req.method ?? '')) {
+            res.setHeader('Allow', methods.join(', '));
+            throw new MethodNotAllowedError(req.method);
+        }
+        await handler(req, res);
+    } catch (e: any) {
+        if (e instanceof ApiError) {
+            if (e.status >= 500) console.error(`Erreur dans ${req.url}:`, e);
+            return res.status(e.status).json({ error: e.message, code: e.code, ...e.details() });
+        }
+        console.error(`Erreur inattendue dans ${req.url}:`, e);
+        return res.status(500).json({ error: e?.message || "Une erreur interne est survenue.", code: 'INTERNAL_ERROR' });
+    }
+};
+
+/**
+ * Exige un jeton Bearer valide et fournit au handler l'utilisateur, son rôle et un client
+ * Supabase avec la clé de service.
+ * @param handler Le handler authentifié.
+ */
+export const withAuth = (handler: AuthedHandler): ApiHandler => async (req, res) => {
+    const { SUPABASE_URL, SUPABASE_SERVICE_KEY } = requireEnv('SUPABASE_URL', 'SUPABASE_SERVICE_KEY');
+
+    const token = req.headers.authorization?.split(' ')[1];
+    if (!token) throw new UnauthorizedError();
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+    const { data: { user }, error } = await supabase.auth.getUser(token);
+    if (error || !user) throw new UnauthorizedError("Jeton d'authentification invalide ou expiré.");
+
+    const { data: profile, error: profileError } = await (supabase.from('profiles') as any)
+        .select('role')
+        .eq('id', user.id)
+        .maybeSingle();
+    if (profileError) throw profileError;
+
+    return handler(req, res, { supabase, user, role: toRole(profile?.role) });
+};
+
+/**
+ * Comme `withAuth`, mais réservé aux rôles qui détiennent la permission (voir ROLE_PERMISSIONS).
+ * @param permission La permission requise.
+ * @param handler Le handler protégé.
+ */
+export const withPermission = (permission: Permission, handler: AuthedHandler): ApiHandler => withAuth(async (req, res, ctx) => {
+    if (!hasPermission(ctx.role, permission)) throw new ForbiddenError();
+    return handler(req, res, ctx);
+});
+
+/**
+ * Applique la limite quotidienne d'appels IA de l'utilisateur. L'appel est
+ * décompté avant le handler (des requêtes simultanées ne peuvent pas dépasser
+ * la limite), et rendu si le handler échoue.
+ * @param callType Le type d'appel (voir AI_USAGE_LIMITS).
+ * @param handler Le handler authentifié.
+ */
+export const withRateLimit = (callType: AiCallType, handler: AuthedHandler): AuthedHandler => async (req, res, ctx) => {
+    const claimed = await aiUsageLimiter.claimAiCalls(ctx.supabase, ctx.user.id, callType);
+    if (!claimed) throw new RateLimitError(RATE_LIMIT_MESSAGES[callType](AI_USAGE_LIMITS[callType]));
+
+    try {
+        return await handler(req, res, ctx);
+    } catch (error) {
+        await aiUsageLimiter.releaseAiCalls(ctx.supabase, claimed);
+        throw error;
+    }
+};
@@ -0,0 +1,203 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { CheckAnswerResponse, MockExam, MockExamFormat, MockExamItemResult, QuizAnswer } from '../../src/types.js';
+import { QuizQuestionRow, rowToQuizQuestion } from '../../src/utils/curriculum-rows.js';
+import { answerKeyOf, isAnswerCorrect } from '../../src/utils/quiz-grading.js';
+import {
+    MOCK_EXAM_FORMATS, MOCK_EXAM_SUBMIT_GRACE_MS, buildMockExamItems, exerciseScore, isMockExamRunning,
+} from '../../src/utils/mock-exam.js';
+import dataAccess from './data-access.js';
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from './errors.js';
+
+/*
+-- Examens blancs : un sujet tiré d'un niveau (exercices + questions de quiz), chronométré.
+-- Tant qu'un examen est en cours, /api/exercise-correction, /api/explain, /api/validate-socratic-answer
+-- et /api/check-answer sont refusés à l'élève. Les exercices sont notés après la remise de la copie,
+-- un par un, par /api/check-answer (avec mockExamId).
+CREATE TABLE public.mock_exams (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  level_id TEXT NOT NULL,
+  format TEXT NOT NULL,
+  items JSONB NOT NULL,   -- MockExamItem[]
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  ends_at TIMESTAMPTZ NOT NULL,
+  submitted_at TIMESTAMPTZ,
+  answers JSONB,          -- Une réponse par élément, à la remise
+  results JSONB           -- (MockExamItemResult | null)[], complété au fil de la correction
+);
+CREATE INDEX mock_exams_user_idx ON public.mock_exams(user_id, started_at DESC);
+
+-- Écriture via /api/mock-exams et /api/check-answer (clé de service). Lecture par l'élève.
+ALTER TABLE public.mock_exams ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view their own mock exams."
+    ON public.mock_exams FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- Note un élément sans écraser les autres : les exercices sont corrigés par des requêtes parallèles.
+CREATE OR REPLACE FUNCTION public.record_mock_exam_result(p_exam_id uuid, p_index int, p_result jsonb)
+RETURNS void
+LANGUAGE sql SECURITY DEFINER SET search_path = public
+AS $$
+  UPDATE public.mock_exams SET results = jsonb_set(results, ARRAY[p_index::text], p_result) WHERE id = p_exam_id;
+$$;
+REVOKE EXECUTE ON FUNCTION public.record_mock_exam_result(uuid, int, jsonb) FROM PUBLIC, anon, authenticated;
+*/
+
+const MAX_LISTED_EXAMS = 20;
+
+/**
+ * Renvoie l'examen en cours de l'élève, s'il y en a un.
+ */
+const getRunningExam = async (supabase: SupabaseClient, userId: string): Promise<MockExam | null> => {
+    const { data, error } = await (supabase.from('mock_exams') as any)
+        .select('*')
+        .eq('user_id', userId)
+        .is('submitted_at', null)
+        .gt('ends_at', new Date().toISOString())
+        .order('started_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+    if (error) throw error;
+    return data;
+};
+
+/**
+ * Refuse l'accès aux corrections, au tuteur et aux quiz pendant un examen blanc.
+ */
+const assertNoRunningExam = async (supabase: SupabaseClient, userId: string): Promise<void> => {
+    if (await getRunningExam(supabase, userId)) {
+        throw new ForbiddenError("Les corrections, le tuteur et les quiz sont indisponibles pendant un examen blanc.");
+    }
+};
+
+/**
+ * Liste les derniers examens de l'élève, du plus récent au plus ancien.
+ */
+const listExams = async (supabase: SupabaseClient, userId: string): Promise<MockExam[]> => {
+    const { data, error } = await (supabase.from('mock_exams') as any)
+        .select('*')
+        .eq('user_id', userId)
+        .order('started_at', { ascending: false })
+        .limit(MAX_LISTED_EXAMS);
+    if (error) throw error;
+    return data ?? [];
+};
+
+/**
+ * Renvoie un examen de l'élève.
+ * @throws NotFoundError si l'examen n'existe pas ou appartient à un autre élève.
+ */
+const getExam = async (supabase: SupabaseClient, userId: string, examId: string): Promise<MockExam> => {
+    const { data, error } = await (supabase.from('mock_exams') as any)
+        .select('*')
+        .eq('id', examId)
+        .eq('user_id', userId)
+        .maybeSingle();
+    if (error) throw error;
+    if (!data) throw new NotFoundError("Examen introuvable.");
+    return data;
+};
+
+/**
+ * Tire un sujet dans le niveau et démarre le chronomètre.
+ * @param supabase Le client Supabase (clé de service).
+ * @param userId L'élève.
+ * @param levelId Le niveau dont les chapitres forment le programme de l'examen.
+ * @param format La durée et la taille du sujet.
+ */
+const startExam = async (supabase: SupabaseClient, userId: string, levelId: string, format: MockExamFormat): Promise<MockExam> => {
+    if (await getRunningExam(supabase, userId)) throw new ConflictError("Un examen blanc est déjà en cours.");
+
+    const curriculum = await dataAccess.getCurriculumFromSupabase();
+    const level = curriculum.find(l => l.id === levelId);
+    if (!level) throw new NotFoundError("Niveau non trouvé.");
+    const items = buildMockExamItems(level, format);
+    if (items.length === 0) throw new BadRequestError("Ce niveau ne contient encore ni exercice ni quiz.");
+
+    const endsAt = new Date(Date.now() + MOCK_EXAM_FORMATS[format].durationMinutes * 60 * 1000);
+    const { data, error } = await (supabase.from('mock_exams') as any)
+        .insert({ user_id: userId, level_id: levelId, format, items, ends_at: endsAt.toISOString() })
+        .select()
+        .single();
+    if (error) throw error;
+    return data;
+};
+
+/**
+ * Remet la copie : note les questions de quiz avec le corrigé stocké et met à zéro les
+ * exercices sans réponse. Les autres exercices restent à corriger par /api/check-answer.
+ * @param supabase Le client Supabase (clé de service).
+ * @param exam L'examen de l'élève.
+ * @param answers Une réponse par élément du sujet (texte pour les exercices).
+ */
+const submitExam = async (supabase: SupabaseClient, exam: MockExam, answers: QuizAnswer[]): Promise<MockExam> => {
+    if (exam.submitted_at) throw new ConflictError("Cette copie a déjà été remise.");
+    if (Date.now() > new Date(exam.ends_at).getTime() + MOCK_EXAM_SUBMIT_GRACE_MS) {
+        throw new ConflictError("Le temps est écoulé : cette copie ne peut plus être remise.");
+    }
+    if (answers.length !== exam.items.length) throw new BadRequestError("Une réponse par élément du sujet est attendue.");
+
+    const questionIds = exam.items.filter(item => item.type === 'quizQuestion').map(item => item.id);
+    const { data: rows, error: questionsError } = questionIds.length
+        ? await (supabase.from('quiz_questions') as any).select('*').in('id', questionIds)
+        : { data: [], error: null };
+    if (questionsError) throw questionsError;
+    const questions = new Map((rows as QuizQuestionRow[]).map(row => [row.id, rowToQuizQuestion(row)]));
+
+    const results = exam.items.map((item, i): MockExamItemResult | null => {
+        const answer = answers[i] ?? null;
+        if (item.type === 'exercise') {
+            return typeof answer === 'string' && answer.trim() ? null : { score: 0 };
+        }
+        const question = questions.get(item.id);
+        if (!question) return { score: 0 }; // Deleted since the exam started
+        return { score: isAnswerCorrect(question, answer) ? item.points : 0, solution: answerKeyOf(question) };
+    });
+
+    const { data, error } = await (supabase.from('mock_exams') as any)
+        .update({ submitted_at: new Date().toISOString(), answers, results })
+        .eq('id', exam.id)
+        .is('submitted_at', null)
+        .select()
+        .maybeSingle();
+    if (error) throw error;
+    if (!data) throw new ConflictError("Cette copie a déjà été remise.");
+    return data;
+};
+
+export interface GradableExercise {
+    exam: MockExam;
+    index: number;
+    answer: string;
+}
+
+/**
+ * Retrouve, dans une copie remise, la réponse à un exercice qui n'est pas encore noté.
+ */
+const findGradableExercise = async (supabase: SupabaseClient, userId: string, examId: string, exerciseId: string): Promise<GradableExercise> => {
+    const exam = await getExam(supabase, userId, examId);
+    if (!exam.submitted_at || isMockExamRunning(exam)) throw new ConflictError("La copie doit être remise avant la correction.");
+    const index = exam.items.findIndex(item => item.type === 'exercise' && item.id === exerciseId);
+    if (index === -1) throw new NotFoundError("Cet exercice ne fait pas partie de l'examen.");
+    if (exam.results?.[index]) throw new ConflictError("Cet exercice a déjà été corrigé.");
+    const answer = exam.answers?.[index];
+    if (typeof answer !== 'string' || !answer.trim()) throw new BadRequestError("Aucune réponse n'a été rendue pour cet exercice.");
+    return { exam, index, answer };
+};
+
+/**
+ * Enregistre la note d'un exercice à partir du retour de /api/check-answer.
+ */
+const recordExerciseResult = async (supabase: SupabaseClient, target: GradableExercise, feedback: CheckAnswerResponse): Promise<void> => {
+    const result: MockExamItemResult = { score: exerciseScore(feedback, target.exam.items[target.index].points), feedback };
+    const { error } = await (supabase.rpc as any)('record_mock_exam_result', {
+        p_exam_id: target.exam.id,
+        p_index: target.index,
+        p_result: result,
+    });
+    if (error) throw error;
+};
+
+export default {
+    getRunningExam, assertNoRunningExam, listExams, getExam, startExam, submitExam, findGradableExercise, recordExerciseResult,
+};
@@ -0,0 +1,186 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { QuizAnswer, QuizAnswerKey, QuizQuestionResult, UserQuizAttempt } from '../../src/types.js';
+import { MAX_QUIZ_ATTEMPTS } from '../../src/utils/quiz-attempts.js';
+import { XP_RULES } from '../../src/utils/xp.js';
+import { QuizQuestionRow, rowToQuizQuestion } from '../../src/utils/curriculum-rows.js';
+import { answerKeyOf, isAnswerCorrect } from '../../src/utils/quiz-grading.js';
+import { BadRequestError, ConflictError, NotFoundError } from './errors.js';
+
+/*
+-- Correction côté serveur : les bonnes réponses et les corrections complètes ne sont plus
+-- lisibles avec la clé anonyme. Le programme public est servi par /api/curriculum (sans ces champs),
+-- les quiz sont notés par /api/submit-quiz et les corrections lues par /api/exercise-correction.
+REVOKE SELECT ON public.quiz_questions FROM anon, authenticated;
+GRANT SELECT (id, quiz_id, question, options, position, created_at, updated_at) ON public.quiz_questions TO anon, authenticated;
+REVOKE SELECT ON public.exercises FROM anon, authenticated;
+GRANT SELECT (id, series_id, statement, correction_snippet, image_url, latex_formula, position, created_at, updated_at) ON public.exercises TO anon, authenticated;
+-- L'ancienne table `curriculum` (une ligne JSONB) contient aussi les corrigés : elle n'est plus lisible
+-- qu'avec la clé de service (scripts/migrate-curriculum-to-tables.ts).
+DROP POLICY "Allow public read access" ON public.curriculum;
+REVOKE SELECT ON public.curriculum FROM anon, authenticated;
+
+-- Les tentatives ne sont plus écrites par le navigateur.
+DROP POLICY IF EXISTS "Users can insert their own quiz attempts." ON public.user_quiz_attempts;
+
+-- Résultat de chaque question ([{ "question_id": "...", "correct": true }]), pour la révision espacée.
+ALTER TABLE public.user_quiz_attempts ADD COLUMN IF NOT EXISTS question_results JSONB;
+DROP FUNCTION IF EXISTS public.record_quiz_attempt(uuid, text, text, jsonb, int, int, int, int);
+
+-- Enregistre une tentative et crédite l'XP dans la même transaction. Le verrou sur le profil
+-- sérialise les soumissions d'un même élève : deux envois simultanés ne peuvent pas
+-- comparer leur score au même « meilleur score » et être crédités deux fois.
+CREATE OR REPLACE FUNCTION public.record_quiz_attempt(
+  p_user_id uuid, p_quiz_id text, p_chapter_id text, p_answers jsonb, p_question_results jsonb, p_score int, p_total int,
+  p_completion_xp int, p_improvement_xp int
+)
+RETURNS public.user_quiz_attempts
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_best int;
+  v_xp int;
+  v_attempt public.user_quiz_attempts;
+BEGIN
+  PERFORM 1 FROM public.profiles WHERE id = p_user_id FOR UPDATE;
+  SELECT max(score) INTO v_best FROM public.user_quiz_attempts WHERE user_id = p_user_id AND quiz_id = p_quiz_id;
+  v_xp := CASE WHEN v_best IS NULL THEN p_completion_xp ELSE GREATEST(p_score - v_best, 0) * p_improvement_xp END;
+
+  INSERT INTO public.user_quiz_attempts (user_id, quiz_id, chapter_id, score, total_questions, answers, question_results, xp_awarded)
+  VALUES (p_user_id, p_quiz_id, p_chapter_id, p_score, p_total, p_answers, p_question_results, v_xp)
+  RETURNING * INTO v_attempt;
+
+  IF v_xp > 0 THEN
+    UPDATE public.profiles SET xp = xp + v_xp WHERE id = p_user_id;
+  END IF;
+  RETURN v_attempt;
+END;
+$$;
+REVOKE EXECUTE ON FUNCTION public.record_quiz_attempt(uuid, text, text, jsonb, jsonb, int, int, int, int) FROM PUBLIC, anon, authenticated;
+
+-- Types de questions (choix multiples, numérique, expression, remise en ordre, vrai/faux) :
+-- le type est public, le corrigé (answer_key) ne l'est pas.
+ALTER TABLE public.quiz_questions ADD COLUMN IF NOT EXISTS type TEXT NOT NULL DEFAULT 'single';
+ALTER TABLE public.quiz_questions ADD COLUMN IF NOT EXISTS answer_key JSONB;
+GRANT SELECT (type) ON public.quiz_questions TO anon, authenticated;
+
+-- Explication de chaque question, renvoyée avec le corrigé après la soumission (non lisible avant).
+ALTER TABLE public.quiz_questions ADD COLUMN IF NOT EXISTS explanation TEXT;
+
+-- Barème d'XP (XP_RULES) : la première tentative rapporte p_completion_xp plus p_per_question_xp par bonne
+-- réponse, une reprise p_per_question_xp par question gagnée sur le meilleur score. Chaque XP accordée
+-- est inscrite au registre (xp_ledger, voir api/_lib/xp.ts) avec la tentative pour référence.
+DROP FUNCTION IF EXISTS public.record_quiz_attempt(uuid, text, text, jsonb, jsonb, int, int, int, int);
+CREATE OR REPLACE FUNCTION public.record_quiz_attempt(
+  p_user_id uuid, p_quiz_id text, p_chapter_id text, p_answers jsonb, p_question_results jsonb, p_score int, p_total int,
+  p_completion_xp int, p_per_question_xp int
+)
+RETURNS public.user_quiz_attempts
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_best int;
+  v_xp int;
+  v_attempt public.user_quiz_attempts;
+BEGIN
+  PERFORM 1 FROM public.profiles WHERE id = p_user_id FOR UPDATE;
+  SELECT max(score) INTO v_best FROM public.user_quiz_attempts WHERE user_id = p_user_id AND quiz_id = p_quiz_id;
+  v_xp := CASE WHEN v_best IS NULL THEN p_completion_xp + p_score * p_per_question_xp
+               ELSE GREATEST(p_score - v_best, 0) * p_per_question_xp END;
+
+  INSERT INTO public.user_quiz_attempts (user_id, quiz_id, chapter_id, score, total_questions, answers, question_results, xp_awarded)
+  VALUES (p_user_id, p_quiz_id, p_chapter_id, p_score, p_total, p_answers, p_question_results, v_xp)
+  RETURNING * INTO v_attempt;
+
+  IF v_xp > 0 THEN
+    INSERT INTO public.xp_ledger (user_id, amount, reason, ref_id, chapter_id)
+    VALUES (p_user_id, v_xp, CASE WHEN v_best IS NULL THEN 'quiz_completed' ELSE 'quiz_improved' END, v_attempt.id::text, p_chapter_id);
+    UPDATE public.profiles SET xp = xp + v_xp WHERE id = p_user_id;
+  END IF;
+  RETURN v_attempt;
+END;
+$$;
+REVOKE EXECUTE ON FUNCTION public.record_quiz_attempt(uuid, text, text, jsonb, jsonb, int, int, int, int) FROM PUBLIC, anon, authenticated;
+*/
+
+interface GradedQuiz {
+    chapterId: string;
+    score: number;
+    results: boolean[];
+    solutions: QuizAnswerKey[];
+    questionIds: string[];
+}
+
+/**
+ * Note les réponses d'un élève avec le corrigé stocké.
+ * @param supabase Le client Supabase (clé de service).
+ * @param quizId L'ID du quiz.
+ * @param answers La réponse à chaque question, dans l'ordre du quiz (null si aucune).
+ */
+const gradeQuiz = async (supabase: SupabaseClient, quizId: string, answers: QuizAnswer[]): Promise<GradedQuiz> => {
+    const { data: quiz, error } = await (supabase.from('quizzes') as any)
+        .select('id, chapter_id, quiz_questions(*)')
+        .eq('id', quizId)
+        .maybeSingle();
+    if (error) throw error;
+    if (!quiz) throw new NotFoundError("Quiz non trouvé.");
+
+    const questions = ([...(quiz.quiz_questions ?? [])] as QuizQuestionRow[])
+        .sort((a, b) => (a.position ?? 0) - (b.position ?? 0))
+        .map(rowToQuizQuestion);
+    if (questions.length === 0) throw new BadRequestError("Ce quiz ne contient aucune question.");
+    if (answers.length !== questions.length) {
+        throw new ConflictError("Ce quiz a été modifié depuis son chargement. Rechargez la page puis recommencez.");
+    }
+
+    const results = questions.map((question, i) => isAnswerCorrect(question, answers[i]));
+    return {
+        chapterId: quiz.chapter_id,
+        score: results.filter(Boolean).length,
+        results,
+        solutions: questions.map(answerKeyOf),
+        questionIds: questions.map(question => question.id),
+    };
+};
+
+/**
+ * Refuse une nouvelle tentative si l'élève a atteint MAX_QUIZ_ATTEMPTS.
+ */
+const checkAttemptsLeft = async (supabase: SupabaseClient, userId: string, quizId: string): Promise<void> => {
+    if (MAX_QUIZ_ATTEMPTS === null) return;
+    const { count, error } = await (supabase.from('user_quiz_attempts') as any)
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .eq('quiz_id', quizId);
+    if (error) throw error;
+    if ((count ?? 0) >= MAX_QUIZ_ATTEMPTS) {
+        throw new ConflictError(`Vous avez déjà utilisé vos ${MAX_QUIZ_ATTEMPTS} tentatives pour ce quiz.`);
+    }
+};
+
+/**
+ * Enregistre la tentative notée et crédite l'XP (voir `record_quiz_attempt`).
+ * @returns La tentative enregistrée ; `xp_awarded` contient l'XP gagné.
+ */
+const recordAttempt = async (
+    supabase: SupabaseClient,
+    userId: string,
+    quizId: string,
+    answers: QuizAnswer[],
+    graded: GradedQuiz
+): Promise<UserQuizAttempt> => {
+    const { data, error } = await (supabase.rpc as any)('record_quiz_attempt', {
+        p_user_id: userId,
+        p_quiz_id: quizId,
+        p_chapter_id: graded.chapterId,
+        p_answers: answers,
+        p_question_results: graded.results.map((correct, i): QuizQuestionResult => ({ question_id: graded.questionIds[i], correct })),
+        p_score: graded.score,
+        p_total: graded.results.length,
+        p_completion_xp: XP_RULES.quizCompletion,
+        p_per_question_xp: XP_RULES.quizPerQuestion,
+    });
+    if (error) throw error;
+    return data;
+};
+
+export default { gradeQuiz, checkAttemptsLeft, recordAttempt };
@@ -0,0 +1,31 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { Recommendation } from '../../src/types.js';
+import { summarizeAttempts } from '../../src/utils/quiz-attempts.js';
+import { recommendNext } from '../../src/utils/recommendations.js';
+import dataAccess from './data-access.js';
+import mastery from './mastery.js';
+
+/**
+ * Propose à l'élève les prochains exercices, quiz ou vidéos.
+ * @param supabase Le client Supabase (clé de service).
+ * @param userId L'élève.
+ * @param afterExerciseId L'exercice que l'élève vient de terminer, s'il y en a un.
+ */
+const getRecommendations = async (supabase: SupabaseClient, userId: string, afterExerciseId?: string): Promise<Recommendation[]> => {
+    const [curriculum, progress, attempts, report] = await Promise.all([
+        dataAccess.getCurriculumFromSupabase(),
+        (supabase.from('user_exercise_progress') as any).select('exercise_id, completed_at').eq('user_id', userId),
+        (supabase.from('user_quiz_attempts') as any).select('quiz_id, score, total_questions, taken_at').eq('user_id', userId),
+        mastery.getMastery(supabase, userId),
+    ]);
+    if (progress.error) throw progress.error;
+    if (attempts.error) throw attempts.error;
+
+    const history = {
+        completedExercises: new Map<string, string>((progress.data ?? []).map((row: any) => [row.exercise_id, row.completed_at])),
+        quizSummaries: summarizeAttempts(attempts.data ?? []),
+    };
+    return recommendNext(curriculum, history, report, afterExerciseId);
+};
+
+export default { getRecommendations };
@@ -0,0 +1,188 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import {
+    Level, QuizAnswer, QuizQuestion, ReviewActionResults, ReviewItem, ReviewItemType, ReviewQueue, ReviewRating,
+} from '../../src/types.js';
+import { answerKeyOf, attemptQuestionResults, isAnswerCorrect } from '../../src/utils/quiz-grading.js';
+import {
+    COMPLETED_EXERCISE_QUALITY, CORRECT_ANSWER_QUALITY, DAILY_REVIEW_EXERCISES, DAILY_REVIEW_QUESTIONS, REVIEW_RATING_QUALITY,
+    ReviewEvent, WRONG_ANSWER_QUALITY, buildReviewStates, isDueOn, reviewKey,
+} from '../../src/utils/spaced-repetition.js';
+import { activityDay, addDays } from '../../src/utils/streaks.js';
+import dataAccess from './data-access.js';
+import { ForbiddenError, NotFoundError } from './errors.js';
+
+/*
+-- Révision espacée (SM-2). Le calendrier n'est pas stocké : il est recalculé à chaque lecture à partir
+-- de l'historique (résultats par question de user_quiz_attempts, user_exercise_progress) et des révisions.
+CREATE TABLE public.review_events (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  item_type TEXT NOT NULL,    -- 'quizQuestion' | 'exercise'
+  item_id TEXT NOT NULL,
+  quality SMALLINT NOT NULL,  -- Échelle SM-2, de 0 (oublié) à 5 (parfait)
+  reviewed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+CREATE INDEX review_events_user_idx ON public.review_events(user_id, reviewed_at);
+
+-- Écriture via /api/reviews (clé de service). Lecture par l'élève.
+ALTER TABLE public.review_events ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view their own review events."
+    ON public.review_events FOR SELECT
+    USING (auth.uid() = user_id);
+*/
+
+// Where each reviewable item sits, from the full curriculum (answer keys included).
+interface ReviewableItems {
+    questions: Map<string, { question: QuizQuestion; chapterId: string }>;
+    quizzes: Map<string, QuizQuestion[]>;      // Questions in quiz order
+    exercises: Map<string, string>;            // Exercise ID -> chapter ID
+}
+
+const indexCurriculum = (curriculum: Level[]): ReviewableItems => {
+    const items: ReviewableItems = { questions: new Map(), quizzes: new Map(), exercises: new Map() };
+    for (const chapter of curriculum.flatMap(level => level.chapters ?? [])) {
+        for (const exercise of (chapter.series ?? []).flatMap(series => series.exercises ?? [])) {
+            items.exercises.set(exercise.id, chapter.id);
+        }
+        for (const quiz of chapter.quizzes ?? []) {
+            items.quizzes.set(quiz.id, quiz.questions);
+            quiz.questions.forEach(question => items.questions.set(question.id, { question, chapterId: chapter.id }));
+        }
+    }
+    return items;
+};
+
+/**
+ * Rassemble l'historique de l'élève sous forme de révisions notées, pour les éléments encore au programme.
+ * Les tentatives enregistrées avant `question_results` sont renotées avec le corrigé actuel,
+ * si le quiz a toujours le même nombre de questions.
+ */
+const loadHistory = async (supabase: SupabaseClient, userId: string, items: ReviewableItems): Promise<ReviewEvent[]> => {
+    const [attempts, progress, reviews] = await Promise.all([
+        (supabase.from('user_quiz_attempts') as any).select('quiz_id, taken_at, answers, question_results').eq('user_id', userId),
+        (supabase.from('user_exercise_progress') as any).select('exercise_id, completed_at').eq('user_id', userId),
+        (supabase.from('review_events') as any).select('item_type, item_id, quality, reviewed_at').eq('user_id', userId),
+    ]);
+    if (attempts.error) throw attempts.error;
+    if (progress.error) throw progress.error;
+    if (reviews.error) throw reviews.error;
+
+    const events: ReviewEvent[] = [];
+    for (const attempt of attempts.data ?? []) {
+        for (const result of attemptQuestionResults(attempt, items.quizzes.get(attempt.quiz_id) ?? [])) {
+            if (!items.questions.has(result.question_id)) continue;
+            events.push({
+                type: 'quizQuestion',
+                id: result.question_id,
+                quality: result.correct ? CORRECT_ANSWER_QUALITY : WRONG_ANSWER_QUALITY,
+                reviewedAt: attempt.taken_at,
+            });
+        }
+    }
+    for (const row of progress.data ?? []) {
+        if (!items.exercises.has(row.exercise_id)) continue;
+        events.push({ type: 'exercise', id: row.exercise_id, quality: COMPLETED_EXERCISE_QUALITY, reviewedAt: row.completed_at });
+    }
+    for (const row of reviews.data ?? []) {
+        const known = row.item_type === 'exercise' ? items.exercises.has(row.item_id) : items.questions.has(row.item_id);
+        if (!known) continue;
+        events.push({ type: row.item_type, id: row.item_id, quality: row.quality, reviewedAt: row.reviewed_at });
+    }
+    return events;
+};
+
+/**
+ * Calcule la séance de révision du jour et les compteurs du tableau de bord.
+ * Les exercices à revoir sont accompagnés d'exercices proches (embeddings) pour s'entraîner.
+ */
+const getQueue = async (supabase: SupabaseClient, userId: string): Promise<ReviewQueue> => {
+    const items = indexCurriculum(await dataAccess.getCurriculumFromSupabase());
+    const states = buildReviewStates(await loadHistory(supabase, userId, items));
+
+    const today = activityDay(new Date());
+    const inAWeek = addDays(today, 6);
+
+    const scheduled: ReviewItem[] = [...states.entries()].map(([key, state]) => {
+        const separator = key.indexOf(':');
+        const type = key.slice(0, separator) as ReviewItemType;
+        const id = key.slice(separator + 1);
+        const chapterId = type === 'exercise' ? items.exercises.get(id)! : items.questions.get(id)!.chapterId;
+        return { type, id, chapterId, state };
+    });
+    const due = scheduled
+        .filter(item => isDueOn(item.state, today))
+        .sort((a, b) => a.state.dueAt.localeCompare(b.state.dueAt));
+
+    const session = [
+        ...due.filter(item => item.type === 'quizQuestion').slice(0, DAILY_REVIEW_QUESTIONS),
+        ...await Promise.all(due.filter(item => item.type === 'exercise').slice(0, DAILY_REVIEW_EXERCISES).map(async item => ({
+            ...item,
+            similarExerciseIds: (await dataAccess.findSimilarExerciseIds(item.id, 3)).filter(id => items.exercises.has(id)),
+        }))),
+    ].sort((a, b) => a.state.dueAt.localeCompare(b.state.dueAt));
+
+    return {
+        items: session,
+        dueToday: due.length,
+        dueThisWeek: scheduled.filter(item => isDueOn(item.state, inAWeek)).length,
+        scheduled: scheduled.length,
+    };
+};
+
+const recordReview = async (supabase: SupabaseClient, userId: string, event: ReviewEvent): Promise<void> => {
+    const { error } = await (supabase.from('review_events') as any).insert({
+        user_id: userId,
+        item_type: event.type,
+        item_id: event.id,
+        quality: event.quality,
+        reviewed_at: event.reviewedAt,
+    });
+    if (error) throw error;
+};
+
+/**
+ * Note la réponse à une question en révision et l'ajoute à l'historique. Seules les questions à réviser
+ * aujourd'hui sont acceptées : la route ne sert pas à obtenir le corrigé de n'importe quelle question.
+ * @returns Le verdict, le corrigé et la prochaine échéance de la question.
+ * @throws {ForbiddenError} Si la question n'est pas à réviser aujourd'hui.
+ */
+const answerQuestion = async (supabase: SupabaseClient, userId: string, questionId: string, answer: QuizAnswer): Promise<ReviewActionResults['ANSWER_QUESTION']> => {
+    const items = indexCurriculum(await dataAccess.getCurriculumFromSupabase());
+    const entry = items.questions.get(questionId);
+    if (!entry) throw new NotFoundError("Question non trouvée.");
+
+    const history = await loadHistory(supabase, userId, items);
+    const previous = buildReviewStates(history).get(reviewKey('quizQuestion', questionId));
+    if (!previous || !isDueOn(previous, activityDay(new Date()))) {
+        throw new ForbiddenError("Cette question n'est pas à réviser aujourd'hui.");
+    }
+
+    const correct = isAnswerCorrect(entry.question, answer);
+    const event: ReviewEvent = {
+        type: 'quizQuestion',
+        id: questionId,
+        quality: correct ? CORRECT_ANSWER_QUALITY : WRONG_ANSWER_QUALITY,
+        reviewedAt: new Date().toISOString(),
+    };
+    await recordReview(supabase, userId, event);
+
+    const state = buildReviewStates([...history, event]).get(reviewKey('quizQuestion', questionId))!;
+    return { correct, solution: answerKeyOf(entry.question), state };
+};
+
+/**
+ * Enregistre l'auto-évaluation de l'élève sur un exercice revu.
+ * @returns La prochaine échéance de l'exercice.
+ */
+const rateExercise = async (supabase: SupabaseClient, userId: string, exerciseId: string, rating: ReviewRating): Promise<ReviewActionResults['RATE_EXERCISE']> => {
+    const items = indexCurriculum(await dataAccess.getCurriculumFromSupabase());
+    if (!items.exercises.has(exerciseId)) throw new NotFoundError("Exercice non trouvé.");
+
+    const history = await loadHistory(supabase, userId, items);
+    const event: ReviewEvent = { type: 'exercise', id: exerciseId, quality: REVIEW_RATING_QUALITY[rating], reviewedAt: new Date().toISOString() };
+    await recordReview(supabase, userId, event);
+
+    return { state: buildReviewStates([...history, event]).get(reviewKey('exercise', exerciseId))! };
+};
+
+export default { getQueue, answerQuestion, rateExercise };
@@ -0,0 +1,398 @@
+import {
+    Level, Chapter, Series, Exercise, Quiz, QuizQuestion, QuizAnswer, VideoLink, DeletionInfo, DialogueMessage,
+    CurriculumActionPayload, CurriculumActionPayloads, BundleScope, BundleImageAsset, CurriculumBundle, BundleImportOptions, Role,
+    ClassroomAction, ClassroomActionPayloads, AssignmentAction, AssignmentActionPayloads, CurriculumItemRef, ValidationIssue,
+    MockExamAction, MockExamActionPayloads, ReviewAction, ReviewActionPayloads, DailyGoal, LeaderboardQuery, LeaderboardProfileUpdate,
+} from '../../src/types.js';
+import { ROLES } from '../../src/utils/permissions.js';
+import { QUIZ_QUESTION_TYPES, questionType } from '../../src/utils/quiz-grading.js';
+import { parseMath } from '../../src/utils/math-expression.js';
+import { PSEUDONYM_PATTERN } from '../../src/utils/leaderboard.js';
+import { v, Schema } from './validation.js';
+
+// Schemas of the API request bodies. Curriculum schemas are typed against `src/types.ts`,
+// so adding a field to a type without updating its schema fails the type-check.
+
+const MAX_ID_LENGTH = 200;
+const MAX_TEXT_LENGTH = 20000;
+
+const id = v.string({ nonEmpty: true, max: MAX_ID_LENGTH });
+const text = v.string({ max: MAX_TEXT_LENGTH });
+const updatedAt = v.optional(v.string());
+
+// --- Curriculum items ---
+
+const labels = v.array(v.string({ max: 100 }), { max: 20 });
+
+const exerciseSchema = v.object<Exercise>({
+    id,
+    statement: v.string({ nonEmpty: true, max: MAX_TEXT_LENGTH }),
+    correctionSnippet: text,
+    fullCorrection: v.optional(text),
+    hasFullCorrection: v.optional(v.boolean()),
+    imageUrl: v.optional(v.string({ max: 2000 })),
+    latexFormula: v.optional(text),
+    skills: v.optional(labels),
+    difficulty: v.optional(v.number({ integer: true, min: 1, max: 5 })),
+    estimatedMinutes: v.optional(v.number({ integer: true, min: 1, max: 600 })),
+    source: v.optional(v.string({ max: 200 })),
+    tags: v.optional(labels),
+    prerequisites: v.optional(labels),
+    updatedAt,
+});
+
+const optionIndex = v.number({ integer: true, min: 0 });
+
+/**
+ * Vérifie que le corrigé correspond au type de la question. Les questions à choix unique
+ * écrites avant les autres types peuvent ne pas avoir de bonne réponse : elles restent acceptées.
+ */
+const answerKeyIssue = (q: QuizQuestion): ValidationIssue | null => {
+    const optionCount = q.options?.length ?? 0;
+    const isOption = (index: number) => index < optionCount;
+    switch (questionType(q)) {
+        case 'single':
+            return q.correctAnswerIndex !== undefined && !isOption(q.correctAnswerIndex)
+                ? { path: 'correctAnswerIndex', message: "L'indice de la bonne réponse ne correspond à aucune option." }
+                : null;
+        case 'trueFalse':
+            return q.correctAnswerIndex !== 0 && q.correctAnswerIndex !== 1
+                ? { path: 'correctAnswerIndex', message: "Indiquez si l'affirmation est vraie ou fausse." }
+                : null;
+        case 'multiple':
+            if (optionCount < 2) return { path: 'options', message: "Au moins 2 options sont attendues." };
+            return !q.correctAnswerIndices?.length || !q.correctAnswerIndices.every(isOption)
+                ? { path: 'correctAnswerIndices', message: "Cochez au moins une bonne réponse parmi les options." }
+                : null;
+        case 'ordering': {
+            if (optionCount < 2) return { path: 'options', message: "Au moins 2 éléments à ordonner sont attendus." };
+            const order = q.correctOrder ?? [];
+            return order.length !== optionCount || new Set(order).size !== optionCount || !order.every(isOption)
+                ? { path: 'correctOrder', message: "L'ordre attendu doit reprendre chaque élément une seule fois." }
+                : null;
+        }
+        case 'numeric':
+            return q.numericAnswer ? null : { path: 'numericAnswer', message: "La valeur attendue est requise." };
+        case 'symbolic':
+            if (!q.expectedLatex?.trim()) return { path: 'expectedLatex', message: "L'expression attendue est requise." };
+            try {
+                parseMath(q.expectedLatex);
+                return null;
+            } catch {
+                return { path: 'expectedLatex', message: "L'expression attendue ne peut pas être lue par le correcteur." };
+            }
+    }
+};
+
+const quizQuestionSchema = v.refine(
+    v.object<QuizQuestion>({
+        id,
+        question: v.string({ nonEmpty: true, max: MAX_TEXT_LENGTH }),
+        type: v.optional(v.literal(...QUIZ_QUESTION_TYPES)),
+        options: v.optional(v.array(text, { max: 20 })),
+        correctAnswerIndex: v.optional(optionIndex),
+        correctAnswerIndices: v.optional(v.array(optionIndex, { max: 20 })),
+        numericAnswer: v.optional(v.object<{ value: number; tolerance: number }>({ value: v.number(), tolerance: v.number({ min: 0 }) })),
+        expectedLatex: v.optional(v.string({ max: 2000 })),
+        correctOrder: v.optional(v.array(optionIndex, { max: 20 })),
+        explanation: v.optional(text),
+        skills: v.optional(labels),
+        updatedAt,
+    }),
+    answerKeyIssue
+);
+
+const videoLinkSchema = v.object<VideoLink>({ id, title: v.string({ max: 500 }) });
+
+const levelFields = { id, levelName: v.string({ nonEmpty: true, max: 200 }), description: text, updatedAt };
+const chapterFields = { id, title: v.string({ nonEmpty: true, max: 500 }), summary: text, videoLinks: v.optional(v.array(videoLinkSchema)), updatedAt };
+const seriesFields = { id, title: v.string({ nonEmpty: true, max: 500 }), updatedAt };
+const quizFields = { id, title: v.string({ nonEmpty: true, max: 500 }), updatedAt };
+
+// Complete subtrees, as found in a bundle.
+const seriesSchema = v.object<Series>({ ...seriesFields, exercises: v.array(exerciseSchema) });
+const quizSchema = v.object<Quiz>({ ...quizFields, questions: v.array(quizQuestionSchema) });
+const chapterSchema = v.object<Chapter>({ ...chapterFields, series: v.array(seriesSchema), quizzes: v.array(quizSchema) });
+export const levelSchema = v.object<Level>({ ...levelFields, chapters: v.array(chapterSchema) });
+
+// --- /api/update-curriculum ---
+
+const deletionInfoSchema = v.object<DeletionInfo>({
+    type: v.literal('level', 'chapter', 'series', 'exercise', 'quiz', 'quizQuestion'),
+    ids: v.object<DeletionInfo['ids']>({
+        levelId: id,
+        chapterId: v.optional(id),
+        seriesId: v.optional(id),
+        exerciseId: v.optional(id),
+        quizId: v.optional(id),
+        questionId: v.optional(id),
+    }),
+    name: v.string(),
+});
+
+const actionPayloadSchemas: { [A in keyof CurriculumActionPayloads]: Schema<CurriculumActionPayloads[A]> } = {
+    ADD_OR_UPDATE_LEVEL: v.object({ level: v.object<Omit<Level, 'chapters'>>(levelFields) }),
+    ADD_OR_UPDATE_CHAPTER: v.object({ levelId: id, chapter: v.object<Omit<Chapter, 'series' | 'quizzes'>>(chapterFields) }),
+    ADD_OR_UPDATE_SERIES: v.object({ levelId: id, chapterId: id, series: v.object<Omit<Series, 'exercises'>>(seriesFields) }),
+    ADD_OR_UPDATE_EXERCISE: v.object({ levelId: id, chapterId: id, seriesId: id, exercise: exerciseSchema }),
+    ADD_OR_UPDATE_QUIZ: v.object({ levelId: id, chapterId: id, quiz: v.object<Omit<Quiz, 'questions'>>(quizFields) }),
+    ADD_OR_UPDATE_QUIZ_QUESTION: v.object({ levelId: id, chapterId: id, quizId: id, question: quizQuestionSchema }),
+    DELETE_ITEM: deletionInfoSchema,
+    RESTORE_ITEM: v.object({ trashId: v.number({ integer: true, min: 1 }) }),
+    PURGE_TRASH: v.object({ trashId: v.optional(v.number({ integer: true, min: 1 })), olderThanDays: v.optional(v.number({ min: 0 })) }),
+    RESTORE_REVISION: v.object({ revisionId: v.number({ integer: true, min: 1 }), side: v.literal('before', 'after') }),
+    RESTORE_CURRICULUM: v.object({ revisionId: v.number({ integer: true, min: 1 }) }),
+};
+
+export const curriculumActionSchema = v.variant<CurriculumActionPayload>('action', Object.fromEntries(
+    Object.entries(actionPayloadSchemas).map(([action, payload]) => [action, v.object({
+        action: v.literal(action),
+        payload,
+        baseUpdatedAt: v.nullable(v.string()),
+    })])
+));
+
+// --- /api/curriculum-bundle ---
+
+const bundleScopeSchema = v.variant<BundleScope>('type', {
+    curriculum: v.object({ type: v.literal('curriculum') }),
+    level: v.object({ type: v.literal('level'), levelId: id }),
+    chapter: v.object({ type: v.literal('chapter'), levelId: id, chapterId: id }),
+});
+
+// Image types a bundle may embed, with the extension they are stored under. No SVG: it can carry scripts,
+// and imported images are served from our public bucket.
+export const BUNDLE_IMAGE_EXTENSIONS = new Map([['image/png', 'png'], ['image/jpeg', 'jpg'], ['image/gif', 'gif'], ['image/webp', 'webp']]);
+
+const bundleImageSchema = v.refine(
+    v.object<BundleImageAsset>({ url: v.string({ nonEmpty: true }), mimeType: v.string(), data: v.string({ nonEmpty: true }) }),
+    image => BUNDLE_IMAGE_EXTENSIONS.has(image.mimeType)
+        ? null
+        : { path: 'mimeType', message: "Type d'image non accepté (PNG, JPEG, GIF ou WebP uniquement)." }
+);
+
+export const curriculumBundleSchema = v.object<CurriculumBundle>({
+    format: v.literal('maths-faciles-curriculum'),
+    version: v.number({ integer: true }),
+    exportedAt: v.string(),
+    scope: bundleScopeSchema,
+    levels: v.array(levelSchema),
+    assets: v.optional(v.object({ images: v.array(bundleImageSchema) })),
+});
+
+export const bundleImportSchema = v.object<{ bundle: unknown; options: BundleImportOptions; mode: 'preview' | 'apply' }>({
+    bundle: v.object<{}>({}), // Validated separately, to report its issues under their own paths
+    options: v.object<BundleImportOptions>({ strategy: v.literal('overwrite', 'duplicate', 'skip'), targetLevelId: v.optional(id) }),
+    mode: v.literal('preview', 'apply'),
+});
+
+// --- AI endpoints ---
+
+const dialogueMessageSchema = v.object<DialogueMessage>({ role: v.literal('ai', 'user', 'system'), content: v.string({ max: MAX_TEXT_LENGTH }) });
+
+export const checkAnswerSchema = v.object<{ studentAnswer: string; exerciseId: string; mockExamId?: string }>({
+    studentAnswer: v.string({ nonEmpty: true, max: MAX_TEXT_LENGTH }),
+    exerciseId: id,
+    mockExamId: v.optional(id), // Grades the answer handed in with this exam instead of `studentAnswer`
+});
+
+export const explainSchema = v.object<{ prompt: string; chapterId: string; requestType: 'socratic' | 'direct'; exerciseId?: string }>({
+    prompt: v.string({ nonEmpty: true, max: MAX_TEXT_LENGTH }),
+    chapterId: id,
+    requestType: v.literal('socratic', 'direct'),
+    exerciseId: v.optional(id), // Socratic: the path is stored for this exercise (see /api/validate-socratic-answer)
+});
+
+export const socraticAnswerSchema = v.object<{
+    studentAnswer: string;
+    currentIaQuestion: string;
+    expectedAnswerKeywords: string[];
+    exerciseStatement: string;
+    exerciseCorrection: string;
+    dialogueHistory: DialogueMessage[];
+    exerciseId?: string;
+}>({
+    studentAnswer: v.string({ max: MAX_TEXT_LENGTH }), // May be empty
+    currentIaQuestion: v.string({ nonEmpty: true, max: MAX_TEXT_LENGTH }),
+    expectedAnswerKeywords: v.array(v.string({ max: 500 }), { max: 50 }),
+    exerciseStatement: v.string({ nonEmpty: true, max: MAX_TEXT_LENGTH }),
+    exerciseCorrection: v.string({ nonEmpty: true, max: MAX_TEXT_LENGTH }),
+    dialogueHistory: v.array(dialogueMessageSchema, { max: 200 }),
+    exerciseId: v.optional(id), // Grades the stored path's current step, and records the result for the skill mastery
+});
+
+export const findSimilarSchema = v.object<{ exerciseId: string; levelId: string }>({ exerciseId: id, levelId: id });
+
+const imageSchema = v.refine(
+    v.object<{ image: string; mimeType: string }>({ image: v.string({ nonEmpty: true }), mimeType: v.string() }),
+    payload => payload.mimeType.startsWith('image/') ? null : { path: 'mimeType', message: "Type d'image invalide." }
+);
+
+export const ocrSchema = imageSchema;
+export const ocrMultipageSchema = v.object<{ images: { image: string; mimeType: string }[] }>({
+    images: v.array(imageSchema, { nonEmpty: true }),
+});
+
+// --- Chat ---
+
+export const createRoomSchema = v.object<{ name: string; exercise_id: string }>({
+    name: v.string({ nonEmpty: true, max: 100 }),
+    exercise_id: id,
+});
+
+export const sendMessageSchema = v.object<{ room_id: string; content: string }>({
+    room_id: id,
+    content: v.string({ nonEmpty: true, max: 2000 }),
+});
+
+export const roomQuerySchema = v.object<{ room_id: string }>({ room_id: id });
+export const exerciseQuerySchema = v.object<{ exercise_id: string }>({ exercise_id: id });
+
+// --- Roles ---
+
+export const setRoleSchema = v.object<{ userId: string; role: Role }>({
+    userId: id,
+    role: v.literal(...ROLES),
+});
+
+// --- /api/classrooms ---
+
+const classroomName = v.string({ nonEmpty: true, max: 100 });
+
+const classroomPayloadSchemas: { [A in keyof ClassroomActionPayloads]: Schema<ClassroomActionPayloads[A]> } = {
+    CREATE: v.object({ name: classroomName }),
+    RENAME: v.object({ classroomId: id, name: classroomName }),
+    REGENERATE_CODE: v.object({ classroomId: id }),
+    DELETE: v.object({ classroomId: id }),
+    REMOVE_STUDENT: v.object({ classroomId: id, studentId: id }),
+    JOIN: v.object({ code: v.string({ nonEmpty: true, max: 20 }) }),
+    LEAVE: v.object({ classroomId: id }),
+};
+
+export const classroomActionSchema = v.variant<ClassroomAction>('action', Object.fromEntries(
+    Object.entries(classroomPayloadSchemas).map(([action, payload]) => [action, v.object({ action: v.literal(action), payload })])
+));
+
+export const classroomQuerySchema = v.object<{ classroomId: string }>({ classroomId: id });
+
+// --- /api/assignments ---
+
+const curriculumItemRefSchema = v.object<CurriculumItemRef>({ type: v.literal('exercise', 'quiz'), id });
+
+const isoDate = v.refine(v.string({ nonEmpty: true, max: 40 }), value =>
+    Number.isNaN(Date.parse(value)) ? { path: '', message: "Date invalide." } : null
+);
+
+const assignmentFields = {
+    title: v.string({ nonEmpty: true, max: 200 }),
+    instructions: v.string({ max: 5000 }),
+    dueAt: isoDate,
+    items: v.array(curriculumItemRefSchema, { nonEmpty: true, max: 50 }),
+};
+
+const assignmentPayloadSchemas: { [A in keyof AssignmentActionPayloads]: Schema<AssignmentActionPayloads[A]> } = {
+    CREATE: v.object({ classroomId: id, ...assignmentFields }),
+    UPDATE: v.object({ assignmentId: id, ...assignmentFields }),
+    DELETE: v.object({ assignmentId: id }),
+};
+
+export const assignmentActionSchema = v.variant<AssignmentAction>('action', Object.fromEntries(
+    Object.entries(assignmentPayloadSchemas).map(([action, payload]) => [action, v.object({ action: v.literal(action), payload })])
+));
+
+export const assignmentQuerySchema = v.object<{ assignmentId: string }>({ assignmentId: id });
+
+// --- /api/submit-quiz ---
+
+// An option index, option indices (multiple choice, ordering) or a typed value (numeric, symbolic;
+// in a mock exam, the written answer to an exercise).
+const answerSchema = (maxTextLength: number): Schema<QuizAnswer> => ({
+    check: (value, path, issues) => {
+        if (value === null) return;
+        if (typeof value === 'number') return optionIndex.check(value, path, issues);
+        if (typeof value === 'string') return v.string({ max: maxTextLength }).check(value, path, issues);
+        if (Array.isArray(value)) return v.array(optionIndex, { max: 20 }).check(value, path, issues);
+        issues.push({ path, message: "Réponse invalide." });
+    },
+});
+const quizAnswerSchema = answerSchema(2000);
+
+export const submitQuizSchema = v.object<{ quizId: string; answers: QuizAnswer[] }>({
+    quizId: id,
+    answers: v.array(quizAnswerSchema, { max: 200 }),
+});
+
+export const completeExerciseSchema = v.object<{ exerciseId: string }>({ exerciseId: id });
+
+// --- /api/mock-exams ---
+
+const mockExamPayloadSchemas: { [K in keyof MockExamActionPayloads]: Schema<MockExamActionPayloads[K]> } = {
+    START: v.object({ levelId: id, format: v.literal('short', 'bac') }),
+    SUBMIT: v.object({ examId: id, answers: v.array(answerSchema(MAX_TEXT_LENGTH), { max: 50 }) }),
+};
+
+export const mockExamActionSchema = v.variant<MockExamAction>('action', Object.fromEntries(
+    Object.entries(mockExamPayloadSchemas).map(([action, payload]) => [action, v.object({ action: v.literal(action), payload })])
+));
+
+export const mockExamQuerySchema = v.object<{ examId: string }>({ examId: id });
+
+// --- /api/recommendations ---
+
+export const recommendationQuerySchema = v.object<{ afterExerciseId?: string }>({ afterExerciseId: v.optional(id) });
+
+// --- /api/streaks ---
+
+const goalCount = v.number({ integer: true, min: 0, max: 20 });
+
+export const dailyGoalSchema = v.refine(
+    v.object<DailyGoal>({ exercises: goalCount, quizzes: goalCount }),
+    goal => goal.exercises > 0 || goal.quizzes > 0 ? null : { path: 'exercises', message: "L'objectif doit compter au moins un exercice ou un quiz." }
+);
+
+// --- /api/search ---
+
+export const searchQuerySchema = v.object<{ q: string; semantic?: '1' }>({
+    q: v.string({ nonEmpty: true, max: 200 }),
+    semantic: v.optional(v.literal('1')),
+});
+
+// --- /api/leaderboards ---
+
+// Query-string values are strings: the handler converts the page.
+export const leaderboardQuerySchema = v.refine(
+    v.object<Omit<LeaderboardQuery, 'page'> & { page?: string }>({
+        period: v.literal('week', 'allTime'),
+        scope: v.literal('global', 'level', 'classroom'),
+        scopeId: v.optional(id),
+        page: v.optional(v.string({ max: 4 })),
+    }),
+    query => {
+        if (query.scope !== 'global' && !query.scopeId) return { path: 'scopeId', message: "Le niveau ou la classe est requis." };
+        if (query.page !== undefined && !/^[1-9]\d*$/.test(query.page)) return { path: 'page', message: "Numéro de page invalide." };
+        return null;
+    }
+);
+
+export const leaderboardProfileSchema = v.object<LeaderboardProfileUpdate>({
+    pseudonym: v.nullable(v.refine(
+        v.string({ nonEmpty: true, max: 24 }),
+        pseudonym => PSEUDONYM_PATTERN.test(pseudonym.trim()) ? null : { path: 'pseudonym', message: "Le pseudonyme doit compter de 3 à 24 lettres, chiffres, espaces, « - » ou « _ »." }
+    )),
+});
+
+// --- /api/reviews ---
+
+const reviewPayloadSchemas: { [K in keyof ReviewActionPayloads]: Schema<ReviewActionPayloads[K]> } = {
+    ANSWER_QUESTION: v.object({ questionId: id, answer: quizAnswerSchema }),
+    RATE_EXERCISE: v.object({ exerciseId: id, rating: v.literal('again', 'hard', 'good', 'easy') }),
+};
+
+export const reviewActionSchema = v.variant<ReviewAction>('action', Object.fromEntries(
+    Object.entries(reviewPayloadSchemas).map(([action, payload]) => [action, v.object({ action: v.literal(action), payload })])
+));
+
+// --- /api/exercise-correction ---
+
+export const exerciseCorrectionQuerySchema = v.object<{ exerciseId: string }>({ exerciseId: id });
+
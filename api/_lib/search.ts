@@ -0,0 +1,95 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { GoogleGenAI } from "@google/genai";
+import { Level, SearchResult, VideoChunk } from '../../src/types.js';
+import { exerciseMatchResults, keywordSearch, mergeSearchResults, searchTerms, videoChunkResults } from '../../src/utils/curriculum-search.js';
+import aiUsageLimiter from './ai-usage-limiter.js';
+import dataAccess from './data-access.js';
+
+/*
+-- Passages des vidéos les plus proches d'une requête (voir scripts/generate-video-embeddings.ts).
+CREATE OR REPLACE FUNCTION public.match_video_chunks(query_embedding vector(768), match_threshold float, match_count int)
+RETURNS TABLE (id bigint, chapter_id text, video_id text, chunk_text text, start_time_seconds int, similarity float)
+LANGUAGE sql STABLE
+AS $$
+  SELECT c.id, c.chapter_id, c.video_id, c.chunk_text, c.start_time_seconds, 1 - (c.embedding <=> query_embedding) AS similarity
+  FROM public.video_transcript_chunks c
+  WHERE 1 - (c.embedding <=> query_embedding) > match_threshold
+  ORDER BY c.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+*/
+
+// Same model as scripts/generate-*-embeddings.ts: query and content vectors must be comparable.
+const EMBEDDING_MODEL = 'text-embedding-004';
+
+// A query is shorter than the content it is compared to: its similarities are lower than between two exercises.
+const EXERCISE_MATCH_THRESHOLD = 0.5;
+const VIDEO_MATCH_THRESHOLD = 0.5;
+const SEMANTIC_MATCH_COUNT = 10;
+
+const embedQuery = async (apiKey: string, query: string): Promise<number[] | null> => {
+    const ai = new GoogleGenAI({ apiKey });
+    const result = await ai.models.embedContent({ model: EMBEDDING_MODEL, contents: query });
+    return result.embeddings?.[0]?.values ?? null;
+};
+
+// Exercises and video passages close to the query's embedding.
+const semanticSearch = async (supabase: SupabaseClient, curriculum: Level[], embedding: number[]): Promise<SearchResult[]> => {
+    const [exercises, chunks] = await Promise.all([
+        (supabase.rpc as any)('match_exercises', {
+            query_embedding: embedding,
+            match_threshold: EXERCISE_MATCH_THRESHOLD,
+            match_count: SEMANTIC_MATCH_COUNT,
+            exclude_id: '', // No exercise to exclude (NULL would exclude them all)
+        }),
+        (supabase.rpc as any)('match_video_chunks', {
+            query_embedding: embedding,
+            match_threshold: VIDEO_MATCH_THRESHOLD,
+            match_count: SEMANTIC_MATCH_COUNT,
+        }),
+    ]);
+    if (exercises.error) console.error(`Error calling Supabase RPC 'match_exercises':`, exercises.error.message);
+    if (chunks.error) console.error(`Error calling Supabase RPC 'match_video_chunks':`, chunks.error.message);
+
+    const matches = (exercises.data ?? []).map((item: { id: string; similarity?: number }) => ({
+        id: item.id,
+        similarity: item.similarity ?? EXERCISE_MATCH_THRESHOLD,
+    }));
+    return [
+        ...exerciseMatchResults(curriculum, matches),
+        ...videoChunkResults(curriculum, (chunks.data ?? []) as VideoChunk[]),
+    ];
+};
+
+/**
+ * Recherche dans tout le programme : mots-clés (chapitres, énoncés, questions de quiz) et, si demandé,
+ * proximité sémantique (exercices, transcriptions des vidéos). La partie sémantique est décomptée dans la
+ * limite quotidienne 'SEARCH' ; au-delà, ou si l'IA est indisponible, seuls les mots-clés sont utilisés.
+ * @param supabase Le client Supabase (clé de service).
+ * @param userId L'élève qui cherche.
+ * @param query La requête.
+ * @param semantic Chercher aussi par le sens.
+ */
+const search = async (supabase: SupabaseClient, userId: string, query: string, semantic: boolean): Promise<SearchResult[]> => {
+    if (searchTerms(query).length === 0) return [];
+    const curriculum = await dataAccess.getCurriculumFromSupabase();
+    const keyword = keywordSearch(curriculum, query);
+    if (!semantic) return mergeSearchResults(keyword, []);
+
+    let semanticResults: SearchResult[] = [];
+    const apiKey = process.env.GEMINI_API_KEY;
+    const claimed = apiKey ? await aiUsageLimiter.claimAiCalls(supabase, userId, 'SEARCH') : null;
+    if (apiKey && claimed) {
+        try {
+            const embedding = await embedQuery(apiKey, query);
+            if (!embedding) throw new Error("Empty embedding");
+            semanticResults = await semanticSearch(supabase, curriculum, embedding);
+        } catch (error) {
+            console.error("Semantic search failed, falling back to keywords:", error);
+            await aiUsageLimiter.releaseAiCalls(supabase, claimed);
+        }
+    }
+    return mergeSearchResults(keyword, semanticResults);
+};
+
+export default { search };
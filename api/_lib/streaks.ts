@@ -0,0 +1,77 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { ActivityDay, ActivitySummary, DailyGoal } from '../../src/types.js';
+import { DEFAULT_DAILY_GOAL, activityDay, countActivity, heatmapStart, isGoalMet, summarizeStreak } from '../../src/utils/streaks.js';
+
+/*
+-- Objectif quotidien de chaque élève (DEFAULT_DAILY_GOAL tant qu'il n'en a pas choisi).
+CREATE TABLE public.daily_goals (
+  user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  exercises INTEGER NOT NULL CHECK (exercises >= 0),
+  quizzes INTEGER NOT NULL CHECK (quizzes >= 0),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (exercises > 0 OR quizzes > 0)
+);
+
+-- Écriture via /api/streaks (clé de service). Lecture par l'élève.
+ALTER TABLE public.daily_goals ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view their own daily goal."
+    ON public.daily_goals FOR SELECT
+    USING (auth.uid() = user_id);
+*/
+
+/**
+ * L'objectif quotidien de l'élève.
+ */
+const getGoal = async (supabase: SupabaseClient, userId: string): Promise<DailyGoal> => {
+    const { data, error } = await (supabase.from('daily_goals') as any)
+        .select('exercises, quizzes')
+        .eq('user_id', userId)
+        .maybeSingle();
+    if (error) throw error;
+    return data ? { exercises: data.exercises, quizzes: data.quizzes } : DEFAULT_DAILY_GOAL;
+};
+
+/**
+ * Enregistre l'objectif quotidien de l'élève.
+ */
+const setGoal = async (supabase: SupabaseClient, userId: string, goal: DailyGoal): Promise<DailyGoal> => {
+    const { error } = await (supabase.from('daily_goals') as any)
+        .upsert({ user_id: userId, exercises: goal.exercises, quizzes: goal.quizzes, updated_at: new Date().toISOString() });
+    if (error) throw error;
+    return goal;
+};
+
+/**
+ * Les jours d'activité de l'élève (exercices terminés et tentatives de quiz), du plus ancien au plus récent.
+ */
+const loadActivity = async (supabase: SupabaseClient, userId: string): Promise<ActivityDay[]> => {
+    const [progress, attempts] = await Promise.all([
+        (supabase.from('user_exercise_progress') as any).select('completed_at').eq('user_id', userId),
+        (supabase.from('user_quiz_attempts') as any).select('taken_at').eq('user_id', userId),
+    ]);
+    if (progress.error) throw progress.error;
+    if (attempts.error) throw attempts.error;
+    return countActivity(
+        (progress.data ?? []).map((row: any) => row.completed_at),
+        (attempts.data ?? []).map((row: any) => row.taken_at),
+    );
+};
+
+/**
+ * Objectif du jour, série en cours (avec les jours gelés) et activité de la période du calendrier.
+ */
+const getActivitySummary = async (supabase: SupabaseClient, userId: string): Promise<ActivitySummary> => {
+    const [goal, days] = await Promise.all([getGoal(supabase, userId), loadActivity(supabase, userId)]);
+    const today = activityDay(new Date());
+    const todayActivity = days.find(day => day.date === today) ?? { date: today, exercises: 0, quizzes: 0 };
+    const start = heatmapStart(today);
+    return {
+        goal,
+        today: todayActivity,
+        todayGoalMet: isGoalMet(todayActivity, goal),
+        streak: summarizeStreak(days, goal, today),
+        days: days.filter(day => day.date >= start),
+    };
+};
+
+export default { getGoal, setGoal, loadActivity, getActivitySummary };
@@ -0,0 +1,128 @@
+import { ValidationIssue } from '../../src/types.js';
+import { ValidationError } from './errors.js';
+
+/**
+ * Un schéma vérifie une valeur et consigne chaque problème avec son chemin
+ * (ex. `level.chapters[2].title`). Le paramètre `T` ne sert qu'au typage :
+ * un schéma déclaré `Schema<Exercise>` doit couvrir chaque champ de `Exercise`.
+ */
+export interface Schema<T> {
+    readonly check: (value: unknown, path: string, issues: ValidationIssue[]) => void;
+    readonly __type?: T;
+}
+
+const schema = <T>(check: Schema<T>['check']): Schema<T> => ({ check });
+const join = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+const string = (options: { nonEmpty?: boolean; max?: number } = {}) => schema<string>((value, path, issues) => {
+    if (typeof value !== 'string') {
+        issues.push({ path, message: value === undefined ? "Champ requis." : "Une chaîne de caractères est attendue." });
+    } else if (options.nonEmpty && value.trim().length === 0) {
+        issues.push({ path, message: "Ne doit pas être vide." });
+    } else if (options.max !== undefined && value.length > options.max) {
+        issues.push({ path, message: `Trop long (${options.max} caractères maximum).` });
+    }
+});
+
+const number = (options: { integer?: boolean; min?: number; max?: number } = {}) => schema<number>((value, path, issues) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push({ path, message: value === undefined ? "Champ requis." : "Un nombre est attendu." });
+    } else if (options.integer && !Number.isInteger(value)) {
+        issues.push({ path, message: "Un entier est attendu." });
+    } else if (options.min !== undefined && value < options.min) {
+        issues.push({ path, message: `Doit être supérieur ou égal à ${options.min}.` });
+    } else if (options.max !== undefined && value > options.max) {
+        issues.push({ path, message: `Doit être inférieur ou égal à ${options.max}.` });
+    }
+});
+
+const boolean = () => schema<boolean>((value, path, issues) => {
+    if (typeof value !== 'boolean') issues.push({ path, message: value === undefined ? "Champ requis." : "Un booléen est attendu." });
+});
+
+const literal = <T extends string>(...values: T[]) => schema<T>((value, path, issues) => {
+    if (!values.includes(value as T)) issues.push({ path, message: `Valeur attendue : ${values.join(', ')}.` });
+});
+
+const array = <T>(item: Schema<T>, options: { max?: number; nonEmpty?: boolean } = {}) => schema<T[]>((value, path, issues) => {
+    if (!Array.isArray(value)) {
+        issues.push({ path, message: value === undefined ? "Champ requis." : "Un tableau est attendu." });
+        return;
+    }
+    if (options.nonEmpty && value.length === 0) issues.push({ path, message: "Ne doit pas être vide." });
+    if (options.max !== undefined && value.length > options.max) {
+        issues.push({ path, message: `Trop d'éléments (${options.max} maximum).` });
+        return;
+    }
+    value.forEach((element, i) => item.check(element, `${path}[${i}]`, issues));
+});
+
+// Every key of `T` must be listed, optional ones included, so the schema follows the type.
+const object = <T>(shape: { [K in keyof T]-?: Schema<T[K]> }) => schema<T>((value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, message: value === undefined ? "Champ requis." : "Un objet est attendu." });
+        return;
+    }
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+        (shape[key] as Schema<unknown>).check((value as any)[key], join(path, key), issues);
+    }
+});
+
+const optional = <T>(inner: Schema<T>) => schema<T | undefined>((value, path, issues) => {
+    if (value !== undefined) inner.check(value, path, issues);
+});
+
+const nullable = <T>(inner: Schema<T>) => schema<T | null>((value, path, issues) => {
+    if (value !== null) inner.check(value, path, issues);
+});
+
+/**
+ * Choisit la variante selon la valeur d'un champ discriminant (ex. `type`).
+ */
+const variant = <T>(key: string, variants: Record<string, Schema<any>>) => schema<T>((value, path, issues) => {
+    const tag = (value as any)?.[key];
+    const inner = typeof tag === 'string' ? variants[tag] : undefined;
+    if (!inner) {
+        issues.push({ path: join(path, key), message: `Valeur attendue : ${Object.keys(variants).join(', ')}.` });
+        return;
+    }
+    inner.check(value, path, issues);
+});
+
+/**
+ * Ajoute une règle propre au type une fois sa structure validée
+ * (ex. un indice de bonne réponse compris dans les options).
+ */
+const refine = <T>(inner: Schema<T>, rule: (value: T) => ValidationIssue | null) => schema<T>((value, path, issues) => {
+    const before = issues.length;
+    inner.check(value, path, issues);
+    if (issues.length > before) return;
+    const issue = rule(value as T);
+    if (issue) issues.push({ path: join(path, issue.path), message: issue.message });
+});
+
+export const v = { string, number, boolean, literal, array, object, optional, nullable, variant, refine };
+
+/**
+ * Liste les problèmes d'une valeur sans lever d'erreur.
+ * @param s Le schéma attendu.
+ * @param value La valeur à vérifier.
+ * @param path Préfixe des chemins signalés.
+ */
+export const collectIssues = <T>(s: Schema<T>, value: unknown, path = ''): ValidationIssue[] => {
+    const issues: ValidationIssue[] = [];
+    s.check(value, path, issues);
+    return issues;
+};
+
+/**
+ * Vérifie une valeur et la renvoie typée, ou lève une ValidationError.
+ * @param s Le schéma attendu.
+ * @param value La valeur reçue (généralement `req.body`).
+ * @param message Le message d'erreur principal renvoyé au client.
+ */
+export const parse = <T>(s: Schema<T>, value: unknown, message = "Requête invalide."): T => {
+    const issues = collectIssues(s, value);
+    if (issues.length > 0) throw new ValidationError(message, issues);
+    return value as T;
+};
@@ -0,0 +1,300 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { Exercise, ExerciseCompletionMethod, XpGrant } from '../../src/types.js';
+import { XP_RULES, exerciseXp } from '../../src/utils/xp.js';
+import { locateItem } from '../../src/utils/curriculum-tree.js';
+import dataAccess from './data-access.js';
+import { AnswerCheckRow } from './answer-checks.js';
+import { NotFoundError } from './errors.js';
+
+/*
+-- Registre d'XP : une ligne par XP accordée, avec sa raison. profiles.xp en est la somme ;
+-- seul le serveur accorde de l'XP (grant_xp, record_quiz_attempt), le navigateur ne fait que l'afficher.
+CREATE TABLE public.xp_ledger (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  reason TEXT NOT NULL,  -- XpReason
+  ref_id TEXT NOT NULL,  -- L'exercice, ou la tentative de quiz
+  chapter_id TEXT,
+  granted_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+-- Une même raison ne rapporte qu'une fois par exercice (ou par tentative).
+CREATE UNIQUE INDEX xp_ledger_once_idx ON public.xp_ledger(user_id, reason, ref_id);
+
+-- Écriture via la clé de service uniquement. Lecture par l'élève.
+ALTER TABLE public.xp_ledger ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view their own XP ledger."
+    ON public.xp_ledger FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- Accorde l'XP et l'inscrit au registre dans la même transaction. Renvoie l'XP accordée
+-- (0 si cette raison a déjà rapporté pour cette référence).
+CREATE OR REPLACE FUNCTION public.grant_xp(p_user_id uuid, p_amount int, p_reason text, p_ref_id text, p_chapter_id text)
+RETURNS int
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_id bigint;
+BEGIN
+  IF p_amount <= 0 THEN RETURN 0; END IF;
+  INSERT INTO public.xp_ledger (user_id, amount, reason, ref_id, chapter_id)
+  VALUES (p_user_id, p_amount, p_reason, p_ref_id, p_chapter_id)
+  ON CONFLICT (user_id, reason, ref_id) DO NOTHING
+  RETURNING id INTO v_id;
+  IF v_id IS NULL THEN RETURN 0; END IF;
+  UPDATE public.profiles SET xp = xp + p_amount WHERE id = p_user_id;
+  RETURN p_amount;
+END;
+$$;
+REVOKE EXECUTE ON FUNCTION public.grant_xp(uuid, int, text, text, text) FROM PUBLIC, anon, authenticated;
+
+-- Le navigateur n'écrit plus la progression ni l'XP (voir /api/complete-exercise).
+DROP POLICY IF EXISTS "Users can insert their own progress." ON public.user_exercise_progress;
+DROP FUNCTION IF EXISTS public.increment_xp(uuid, integer);
+
+-- Reprise de l'historique : les exercices terminés (à l'ancien barème de 25 XP) et l'XP des quiz,
+-- puis profiles.xp recalculé depuis le registre (ce qui retire l'XP des exercices validés plusieurs fois).
+INSERT INTO public.xp_ledger (user_id, amount, reason, ref_id, chapter_id, granted_at)
+SELECT p.user_id, 25, 'exercise_completed', p.exercise_id, s.chapter_id, p.completed_at
+FROM public.user_exercise_progress p
+LEFT JOIN public.exercises e ON e.id = p.exercise_id
+LEFT JOIN public.series s ON s.id = e.series_id
+ON CONFLICT DO NOTHING;
+INSERT INTO public.xp_ledger (user_id, amount, reason, ref_id, chapter_id, granted_at)
+SELECT a.user_id, a.xp_awarded,
+       CASE WHEN a.taken_at = min(a.taken_at) OVER (PARTITION BY a.user_id, a.quiz_id) THEN 'quiz_completed' ELSE 'quiz_improved' END,
+       a.id::text, a.chapter_id, a.taken_at
+FROM public.user_quiz_attempts a WHERE a.xp_awarded > 0
+ON CONFLICT DO NOTHING;
+UPDATE public.profiles p SET xp = COALESCE((SELECT sum(amount) FROM public.xp_ledger l WHERE l.user_id = p.id), 0);
+
+-- Un élève ne peut pas écrire son XP lui-même : seule la clé de service la modifie (même principe que protect_profile_role),
+-- et un profil créé par le navigateur commence à 0.
+CREATE OR REPLACE FUNCTION public.protect_profile_xp()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.xp IS DISTINCT FROM OLD.xp AND auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'Modification de l''XP non autorisée.' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$ language plpgsql security definer;
+
+CREATE TRIGGER on_profile_xp_update
+  BEFORE UPDATE OF xp ON public.profiles
+  FOR EACH ROW EXECUTE PROCEDURE public.protect_profile_xp();
+
+DROP POLICY "Users can insert their own profile." ON public.profiles;
+CREATE POLICY "Users can insert their own profile."
+    ON public.profiles FOR INSERT
+    WITH CHECK (auth.uid() = id AND role = 'student' AND xp = 0);
+
+-- Comment l'exercice a été terminé (ExerciseCompletionMethod) et la dernière correction reçue avant
+-- (CheckAnswerResponse). Null pour les progressions enregistrées avant leur ajout.
+ALTER TABLE public.user_exercise_progress ADD COLUMN IF NOT EXISTS method TEXT;
+ALTER TABLE public.user_exercise_progress ADD COLUMN IF NOT EXISTS feedback JSONB;
+
+-- Première consultation de la correction complète par l'élève (/api/exercise-correction). Les vérifications et
+-- séances du tuteur qui la suivent ne comptent plus pour la façon dont l'exercice est terminé, ni pour le bonus.
+CREATE TABLE public.exercise_correction_views (
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  exercise_id TEXT NOT NULL,
+  viewed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, exercise_id)
+);
+
+-- Écriture via la clé de service uniquement. Lecture par l'élève.
+ALTER TABLE public.exercise_correction_views ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view their own correction views."
+    ON public.exercise_correction_views FOR SELECT
+    USING (auth.uid() = user_id);
+*/
+
+/**
+ * Accorde de l'XP et l'inscrit au registre (voir `grant_xp`).
+ * @param supabase Le client Supabase (clé de service).
+ * @param userId L'élève.
+ * @param grant La raison et le montant.
+ * @param refId L'exercice ou la tentative concernée.
+ * @param chapterId Son chapitre, pour les classements par niveau.
+ * @returns L'XP accordée : 0 si cette raison a déjà rapporté pour cette référence.
+ */
+const grantXp = async (supabase: SupabaseClient, userId: string, grant: XpGrant, refId: string, chapterId: string | null): Promise<number> => {
+    const { data, error } = await (supabase.rpc as any)('grant_xp', {
+        p_user_id: userId,
+        p_amount: grant.amount,
+        p_reason: grant.reason,
+        p_ref_id: refId,
+        p_chapter_id: chapterId,
+    });
+    if (error) throw error;
+    return data ?? 0;
+};
+
+// Grants each rule in turn; returns those that were actually granted.
+const grantAll = async (supabase: SupabaseClient, userId: string, grants: XpGrant[], refId: string, chapterId: string | null): Promise<XpGrant[]> => {
+    const granted: XpGrant[] = [];
+    for (const grant of grants) {
+        const amount = await grantXp(supabase, userId, grant, refId, chapterId);
+        if (amount > 0) granted.push({ reason: grant.reason, amount });
+    }
+    return granted;
+};
+
+// The exercise with its chapter, from the curriculum.
+const findExercise = async (exerciseId: string): Promise<{ exercise: Exercise; chapterId: string }> => {
+    const curriculum = await dataAccess.getCurriculumFromSupabase();
+    const located = locateItem(curriculum, { type: 'exercise', id: exerciseId });
+    const exercise = located?.series?.exercises.find(e => e.id === exerciseId);
+    if (!located || !exercise) throw new NotFoundError("Exercice non trouvé.");
+    return { exercise, chapterId: located.chapter.id };
+};
+
+// The answer checks of the student on this exercise up to `until`, oldest first.
+const listChecks = async (supabase: SupabaseClient, userId: string, exerciseId: string, until: string): Promise<AnswerCheckRow[]> => {
+    const { data, error } = await (supabase.from('exercise_answer_checks') as any)
+        .select('user_id, exercise_id, is_correct, summary, score, feedback, checked_at')
+        .eq('user_id', userId)
+        .eq('exercise_id', exerciseId)
+        .lte('checked_at', until)
+        .order('checked_at', { ascending: true });
+    if (error) throw error;
+    return data ?? [];
+};
+
+const hasFinishedTutorSession = async (supabase: SupabaseClient, userId: string, exerciseId: string, until: string): Promise<boolean> => {
+    const { count, error } = await (supabase.from('tutor_sessions') as any)
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .eq('exercise_id', exerciseId)
+        .lte('finished_at', until);
+    if (error) throw error;
+    return (count ?? 0) > 0;
+};
+
+// When the student first opened the full correction of the exercise, if ever.
+const correctionViewedAt = async (supabase: SupabaseClient, userId: string, exerciseId: string): Promise<string | null> => {
+    const { data, error } = await (supabase.from('exercise_correction_views') as any)
+        .select('viewed_at')
+        .eq('user_id', userId)
+        .eq('exercise_id', exerciseId)
+        .maybeSingle();
+    if (error) throw error;
+    return data?.viewed_at ?? null;
+};
+
+// How the completion was earned (see ExerciseCompletionMethod).
+const completionMethod = (lastCheck: AnswerCheckRow | undefined, tutorFinished: boolean): ExerciseCompletionMethod => {
+    if (lastCheck?.is_correct) return 'verified';
+    if (tutorFinished) return 'tutor';
+    if (lastCheck && (lastCheck.score ?? 0) > 0) return 'partial';
+    return 'self_declared';
+};
+
+/**
+ * Enregistre que l'élève a ouvert la correction complète de l'exercice (seule la première fois compte).
+ * @throws Si l'enregistrement échoue : la correction n'est alors pas envoyée.
+ */
+const recordCorrectionView = async (supabase: SupabaseClient, userId: string, exerciseId: string): Promise<void> => {
+    const { error } = await (supabase.from('exercise_correction_views') as any)
+        .upsert({ user_id: userId, exercise_id: exerciseId }, { onConflict: 'user_id,exercise_id', ignoreDuplicates: true });
+    if (error) throw error;
+};
+
+/**
+ * Le total d'XP de l'élève.
+ */
+const getXp = async (supabase: SupabaseClient, userId: string): Promise<number> => {
+    const { data, error } = await (supabase.from('profiles') as any).select('xp').eq('id', userId).single();
+    if (error) throw error;
+    return data.xp ?? 0;
+};
+
+// The recorded completion of the exercise, if any.
+const findCompletion = async (
+    supabase: SupabaseClient,
+    userId: string,
+    exerciseId: string
+): Promise<{ method: ExerciseCompletionMethod | null; completed_at: string } | null> => {
+    const { data, error } = await (supabase.from('user_exercise_progress') as any)
+        .select('method, completed_at')
+        .eq('user_id', userId)
+        .eq('exercise_id', exerciseId)
+        .maybeSingle();
+    if (error) throw error;
+    return data;
+};
+
+// Records the completion with how it was earned and the last correction the student received, from what
+// happened until `until`. When a concurrent request recorded it first, returns that one.
+const recordCompletion = async (
+    supabase: SupabaseClient,
+    userId: string,
+    exerciseId: string,
+    checks: AnswerCheckRow[],
+    until: string
+): Promise<{ method: ExerciseCompletionMethod | null; completed_at: string }> => {
+    const lastCheck = checks[checks.length - 1];
+    const method = completionMethod(lastCheck, await hasFinishedTutorSession(supabase, userId, exerciseId, until));
+    const { data, error } = await (supabase.from('user_exercise_progress') as any)
+        .insert({ user_id: userId, exercise_id: exerciseId, method, feedback: lastCheck?.feedback ?? null })
+        .select('method, completed_at')
+        .single();
+    if (error?.code === '23505') return (await findCompletion(supabase, userId, exerciseId))!; // unique_violation
+    if (error) throw error;
+    return data;
+};
+
+/**
+ * Enregistre qu'un élève a terminé un exercice, avec la façon dont il l'a réussi (ExerciseCompletionMethod) et
+ * sa dernière correction, et lui accorde l'XP selon XP_RULES : la difficulté de l'exercice et cette façon,
+ * plus un bonus si sa première réponse vérifiée était juste. Chaque règle ne rapporte qu'une fois par exercice.
+ * Ce qui suit la première consultation de la correction complète ne compte pas : sans réponse validée ni séance
+ * du tuteur avant, l'exercice est auto-déclaré.
+ * @param supabase Le client Supabase (clé de service).
+ * @param userId L'élève.
+ * @param exerciseId L'exercice terminé.
+ * @throws {NotFoundError} Si l'exercice n'existe pas.
+ */
+const completeExercise = async (
+    supabase: SupabaseClient,
+    userId: string,
+    exerciseId: string
+): Promise<{ alreadyCompleted: boolean; method: ExerciseCompletionMethod | null; grants: XpGrant[] }> => {
+    const { exercise, chapterId } = await findExercise(exerciseId);
+
+    const existing = await findCompletion(supabase, userId, exerciseId);
+    const completedAt = existing?.completed_at ?? new Date().toISOString();
+    const viewedAt = await correctionViewedAt(supabase, userId, exerciseId);
+    const until = viewedAt && Date.parse(viewedAt) < Date.parse(completedAt) ? viewedAt : completedAt;
+    const checks = await listChecks(supabase, userId, exerciseId, until);
+    const completion = existing ?? await recordCompletion(supabase, userId, exerciseId, checks, until);
+
+    // Granted even when already completed: the ledger ignores what was granted before, and this completes
+    // a grant that failed after the progress was recorded.
+    // (Completions recorded before methods were kept already have their XP in the ledger.)
+    const grants: XpGrant[] = [{ reason: 'exercise_completed', amount: exerciseXp(exercise.difficulty, completion.method ?? 'self_declared') }];
+    if (checks[0]?.is_correct) grants.push({ reason: 'first_try_bonus', amount: XP_RULES.firstTryBonus });
+    return {
+        alreadyCompleted: !!existing,
+        method: completion.method,
+        grants: await grantAll(supabase, userId, grants, exerciseId, chapterId),
+    };
+};
+
+/**
+ * Accorde l'XP d'une séance du tuteur menée jusqu'au bout (une fois par exercice). Non bloquant.
+ * @returns L'XP accordée.
+ */
+const grantTutorSession = async (supabase: SupabaseClient, userId: string, exerciseId: string): Promise<number> => {
+    try {
+        const { chapterId } = await findExercise(exerciseId);
+        return await grantXp(supabase, userId, { reason: 'tutor_session', amount: XP_RULES.tutorSession }, exerciseId, chapterId);
+    } catch (err) {
+        // Non bloquant : l'élève reçoit la réponse du tuteur même si l'XP n'est pas accordée.
+        console.error(`Error granting tutor session XP to user ${userId}:`, err);
+        return 0;
+    }
+};
+
+export default { grantXp, getXp, recordCorrectionView, completeExercise, grantTutorSession };
@@ -0,0 +1,14 @@
+import achievements from "./_lib/achievements.js";
+import { withCors, withAuth } from "./_lib/middleware.js";
+
+// Badges of the signed-in student. Exercises, quizzes and tutor sessions evaluate the rules themselves
+// (/api/complete-exercise, /api/submit-quiz, /api/validate-socratic-answer); the dashboard evaluates them
+// on arrival with POST, so that streaks and mastery unlock their badges.
+//   GET  -> BadgeStatus[]: every badge, unlocked or not, in gallery order
+//   POST -> { unlockedBadges }: evaluates the rules and records the badges just unlocked
+export default withCors(['GET', 'POST'], withAuth(async (req, res, { supabase, user }) => {
+    if (req.method === 'GET') {
+        return res.status(200).json(await achievements.getBadgeGallery(supabase, user.id));
+    }
+    return res.status(200).json({ unlockedBadges: await achievements.evaluateBadges(supabase, user.id) });
+}));
@@ -0,0 +1,55 @@
+import { hasPermission } from '../src/utils/permissions.js';
+import assignments from "./_lib/assignments.js";
+import classrooms from "./_lib/classrooms.js";
+import { parse } from "./_lib/validation.js";
+import { assignmentActionSchema, assignmentQuerySchema, classroomQuerySchema } from "./_lib/schemas.js";
+import { withCors, withAuth } from "./_lib/middleware.js";
+import { BadRequestError, ForbiddenError, NotFoundError } from "./_lib/errors.js";
+
+// Homework assignments.
+//   GET                  -> { assignments }: the student's "À faire", across all their classes
+//   GET ?classroomId=    -> { assignments }: the class's assignments with completion counts (teacher)
+//   GET ?assignmentId=   -> AssignmentReport: per-student status on each item (teacher)
+//   POST { action, payload } -> see AssignmentActionPayloads (teacher)
+export default withCors(['GET', 'POST'], withAuth(async (req, res, { supabase, user, role }) => {
+    if (req.method === 'GET') {
+        if (req.query.assignmentId !== undefined) {
+            const { assignmentId } = parse(assignmentQuerySchema, req.query);
+            const assignment = await assignments.getAssignment(supabase, assignmentId);
+            if (!assignment) throw new NotFoundError("Devoir introuvable.");
+            await classrooms.getManagedClassroom(supabase, assignment.classroom_id, user, role);
+            return res.status(200).json(await assignments.buildReport(supabase, assignment));
+        }
+        if (req.query.classroomId !== undefined) {
+            const { classroomId } = parse(classroomQuerySchema, req.query);
+            await classrooms.getManagedClassroom(supabase, classroomId, user, role);
+            return res.status(200).json({ assignments: await assignments.listForClassroom(supabase, classroomId) });
+        }
+        return res.status(200).json({ assignments: await assignments.listForStudent(supabase, user.id) });
+    }
+
+    if (!hasPermission(role, 'classrooms.manage')) throw new ForbiddenError();
+    const body = parse(assignmentActionSchema, req.body, "Requête de gestion de devoir invalide.");
+
+    if (body.action === 'CREATE') {
+        await classrooms.getManagedClassroom(supabase, body.payload.classroomId, user, role);
+        const assignment = await assignments.createAssignment(supabase, user.id, body.payload);
+        return res.status(201).json({ success: true, message: "Devoir créé.", assignment });
+    }
+
+    const existing = await assignments.getAssignment(supabase, body.payload.assignmentId);
+    if (!existing) throw new NotFoundError("Devoir introuvable.");
+    await classrooms.getManagedClassroom(supabase, existing.classroom_id, user, role);
+
+    switch (body.action) {
+        case 'UPDATE': {
+            const assignment = await assignments.updateAssignment(supabase, existing.id, body.payload);
+            return res.status(200).json({ success: true, message: "Devoir mis à jour.", assignment });
+        }
+        case 'DELETE':
+            await assignments.deleteAssignment(supabase, existing.id);
+            return res.status(200).json({ success: true, message: "Devoir supprimé." });
+        default:
+            throw new BadRequestError("Action inconnue.");
+    }
+}));
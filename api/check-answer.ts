@@ -1,85 +1,43 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
-import { createClient } from "@supabase/supabase-js";
-import type { VercelRequest, VercelResponse } from '@vercel/node';
-import aiUsageLimiter from './_lib/ai-usage-limiter.js';
+import { answerCheckScore } from "../src/utils/mastery.js";
 import dataAccess from "./_lib/data-access.js";
+import answerChecks from "./_lib/answer-checks.js";
+import mockExams, { GradableExercise } from "./_lib/mock-exams.js";
 import { cleanLatex, validateMathResponse } from "./_lib/math-validator.js";
-
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-    res.setHeader('Access-Control-Allow-Credentials', 'true');
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'POST,OPTIONS');
-    res.setHeader(
-        'Access-Control-Allow-Headers',
-        'Authorization, X-CSRF-Token, X-Requested-With, Accept, Accept-Version, Content-Length, Content-MD5, Content-Type, Date, X-Api-Version'
-    );
-    
-    if (req.method === 'OPTIONS') {
-        res.status(200).end();
-        return;
-    }
-
-    if (req.method !== 'POST') {
-        return res.status(405).json({ error: 'Method Not Allowed' });
-    }
-
-    const apiKey = process.env.GEMINI_API_KEY;
-    const supabaseUrl = process.env.SUPABASE_URL;
-    const supabaseServiceKey = process.env.SUPABASE_SERVICE_KEY;
-
-    const missingVars = [];
-    if (!apiKey) missingVars.push('GEMINI_API_KEY');
-    if (!supabaseUrl) missingVars.push('SUPABASE_URL');
-    if (!supabaseServiceKey) missingVars.push('SUPABASE_SERVICE_KEY');
-
-    if (missingVars.length > 0) {
-        const errorMsg = `Configuration du serveur incomplète. Variables d'environnement manquantes: ${missingVars.join(', ')}`;
-        return res.status(500).json({ error: errorMsg });
+import { parse } from "./_lib/validation.js";
+import { checkAnswerSchema } from "./_lib/schemas.js";
+import { withCors, withAuth, withRateLimit, requireEnv } from "./_lib/middleware.js";
+import { NotFoundError, UpstreamError } from "./_lib/errors.js";
+
+// Evaluates a student's written answer against the exercise's reference correction.
+// With `mockExamId`, grades the answer handed in with that mock exam and records its mark.
+export default withCors(['POST'], withAuth(withRateLimit('ANSWER_VALIDATION', async (req, res, { supabase, user }) => {
+    const { GEMINI_API_KEY: apiKey } = requireEnv('GEMINI_API_KEY');
+
+    let { studentAnswer, exerciseId, mockExamId } = parse(checkAnswerSchema, req.body);
+
+    // No feedback while a mock exam is being sat; afterwards, the copy handed in is what gets graded.
+    let examExercise: GradableExercise | null = null;
+    if (mockExamId) {
+        examExercise = await mockExams.findGradableExercise(supabase, user.id, mockExamId, exerciseId);
+        studentAnswer = examExercise.answer;
+    } else {
+        await mockExams.assertNoRunningExam(supabase, user.id);
     }
 
-    try {
-        // --- User Authentication ---
-        const authHeader = req.headers.authorization;
-        if (!authHeader) {
-            return res.status(401).json({ error: 'L\'authentification est requise.' });
-        }
-        const token = authHeader.split(' ')[1];
-        const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
-        const { data: { user }, error: userError } = await supabase.auth.getUser(token);
-
-        if (userError || !user) {
-            return res.status(401).json({ error: 'Jeton d\'authentification invalide ou expiré.' });
-        }
-
-        // --- Rate Limiting ---
-        const { limitExceeded, limit } = await aiUsageLimiter.checkUsageLimit(supabase, user.id, 'ANSWER_VALIDATION');
-        if (limitExceeded) {
-             const error: any = new Error(`Vous avez atteint votre limite de ${limit} validations de réponse par jour.`);
-             error.status = 429;
-             throw error;
-        }
-        
-        // --- Main Logic ---
-        let { studentAnswer, exerciseId } = req.body;
-        if (!studentAnswer || !exerciseId) {
-            return res.status(400).json({ error: "Les champs 'studentAnswer' et 'exerciseId' sont requis." });
-        }
-
-        // Clean the student's answer to ensure it uses standard LaTeX delimiters
-        studentAnswer = cleanLatex(studentAnswer);
-        
-        // --- Fetch Exercise using the new optimized method ---
-        const exercise = await dataAccess.getExerciseById(exerciseId);
-        if (!exercise) {
-            return res.status(404).json({ error: "Exercice non trouvé." });
-        }
+    // Clean the student's answer to ensure it uses standard LaTeX delimiters
+    studentAnswer = cleanLatex(studentAnswer);
+    
+    // --- Fetch Exercise using the new optimized method ---
+    const exercise = await dataAccess.getExerciseById(exerciseId);
+    if (!exercise) throw new NotFoundError("Exercice non trouvé.");
 
-        // Truncate the correction context to avoid overly long prompts
-        const correctionContext = exercise.fullCorrection || exercise.correctionSnippet;
-        const truncatedCorrection = correctionContext.length > 2500 ? (correctionContext.substring(0, 2500) + "\n...") : correctionContext;
+    // Truncate the correction context to avoid overly long prompts
+    const correctionContext = exercise.fullCorrection || exercise.correctionSnippet;
+    const truncatedCorrection = correctionContext.length > 2500 ? (correctionContext.substring(0, 2500) + "\n...") : correctionContext;
 
-        const systemInstruction = `
+    const systemInstruction = `
 # PERSONA
 Tu es "Prof Ayoub", un correcteur de mathématiques pour lycéens marocains. Ton ton est expert, rigoureux et encourageant. Tu utilises un français simple et clair.
 
@@ -129,7 +87,7 @@ Le champ \`evaluation\` doit être l'une des trois valeurs suivantes, sans excep
 Dans les chaînes de caractères (\`summary\`, \`explanation\`), ton utilisation des symboles \`$\` ou \`$$\` est **STRICTEMENT INTERDITE**. Utilise **UNIQUEMENT** des caractères Unicode pour les mathématiques (ex: ƒ(𝑥), 𝑥², ∈, ∀). Toute sortie contenant des délimiteurs LaTeX sera considérée comme une erreur.
 `;
 
-        const userPrompt = `
+    const userPrompt = `
 L'élève a soumis sa réponse à l'exercice suivant. Évalue-la en suivant scrupuleusement tes instructions.
 
 --- ÉNONCÉ DE L'EXERCICE ---
@@ -142,79 +100,84 @@ ${studentAnswer}
 
 GÉNÈRE L'OBJET JSON MAINTENANT.
 `;
-        
-        const answerSchema = {
-            type: Type.OBJECT,
-            properties: {
-                is_globally_correct: {
-                    type: Type.BOOLEAN,
-                    description: "True si la réponse globale de l'élève est majoritairement correcte."
-                },
-                summary: {
-                    type: Type.STRING,
-                    description: "Un court bilan général de la réponse de l'élève."
-                },
-                detailed_feedback: {
-                    type: Type.ARRAY,
-                    description: "Une liste de feedbacks détaillés pour chaque partie de la réponse.",
-                    items: {
-                        type: Type.OBJECT,
-                        properties: {
-                            part_title: {
-                                type: Type.STRING,
-                                description: "Le titre de la partie évaluée (ex: 'Question 1a', 'Factorisation')."
-                            },
-                            evaluation: {
-                                type: Type.STRING,
-                                description: "L'évaluation de cette partie. Doit être une de ces valeurs : 'correct', 'incorrect', 'partial'."
-                            },
-                            explanation: {
-                                type: Type.STRING,
-                                description: "L'explication détaillée pour cette partie, en Markdown et LaTeX."
-                            }
+    
+    const answerSchema = {
+        type: Type.OBJECT,
+        properties: {
+            is_globally_correct: {
+                type: Type.BOOLEAN,
+                description: "True si la réponse globale de l'élève est majoritairement correcte."
+            },
+            summary: {
+                type: Type.STRING,
+                description: "Un court bilan général de la réponse de l'élève."
+            },
+            detailed_feedback: {
+                type: Type.ARRAY,
+                description: "Une liste de feedbacks détaillés pour chaque partie de la réponse.",
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        part_title: {
+                            type: Type.STRING,
+                            description: "Le titre de la partie évaluée (ex: 'Question 1a', 'Factorisation')."
+                        },
+                        evaluation: {
+                            type: Type.STRING,
+                            description: "L'évaluation de cette partie. Doit être une de ces valeurs : 'correct', 'incorrect', 'partial'."
                         },
-                        required: ["part_title", "evaluation", "explanation"]
-                    }
+                        explanation: {
+                            type: Type.STRING,
+                            description: "L'explication détaillée pour cette partie, en Markdown et LaTeX."
+                        }
+                    },
+                    required: ["part_title", "evaluation", "explanation"]
                 }
-            },
-            required: ["is_globally_correct", "summary", "detailed_feedback"]
-        };
-
-
-        const ai = new GoogleGenAI({ apiKey: apiKey! });
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: userPrompt,
-            config: {
-                systemInstruction,
-                responseMimeType: "application/json",
-                responseSchema: answerSchema
             }
-        });
-        
-        const jsonText = response.text;
-        if (!jsonText) {
-            throw new Error("L'IA a retourné une réponse vide. Le modèle est peut-être surchargé, veuillez réessayer.");
-        }
-        
-        let parsedJson;
-        try {
-            parsedJson = JSON.parse(jsonText.trim());
-        } catch (e) {
-            console.error("Failed to parse JSON from AI in check-answer. Raw response:", jsonText);
-            throw new Error("La réponse de l'IA était mal formatée. Veuillez réessayer.");
+        },
+        required: ["is_globally_correct", "summary", "detailed_feedback"]
+    };
+
+
+    const ai = new GoogleGenAI({ apiKey });
+    const response = await ai.models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: userPrompt,
+        config: {
+            systemInstruction,
+            responseMimeType: "application/json",
+            responseSchema: answerSchema
         }
+    });
+    
+    const jsonText = response.text;
+    if (!jsonText) {
+        throw new UpstreamError("L'IA a retourné une réponse vide. Le modèle est peut-être surchargé, veuillez réessayer.");
+    }
+    
+    let parsedJson;
+    try {
+        parsedJson = JSON.parse(jsonText.trim());
+    } catch (e) {
+        console.error("Failed to parse JSON from AI in check-answer. Raw response:", jsonText);
+        throw new UpstreamError("La réponse de l'IA était mal formatée. Veuillez réessayer.");
+    }
 
-        const cleanedJson = validateMathResponse(parsedJson);
-
-        await aiUsageLimiter.logAiCall(supabase, user.id, 'ANSWER_VALIDATION');
-        
-        return res.status(200).json(cleanedJson);
+    const cleanedJson = validateMathResponse(parsedJson);
 
-    } catch (e: any) {
-        console.error("Critical error in 'check-answer' function:", e);
-        const status = e.status || 500;
-        const message = e.message || "Une erreur interne est survenue.";
-        return res.status(status).json({ error: message });
+    if (examExercise) {
+        await mockExams.recordExerciseResult(supabase, examExercise, cleanedJson);
     }
-}
+
+    // Kept for the teacher's homework report and the student's skill mastery.
+    await answerChecks.recordAnswerCheck(supabase, {
+        user_id: user.id,
+        exercise_id: exerciseId,
+        is_correct: cleanedJson.is_globally_correct === true,
+        summary: typeof cleanedJson.summary === 'string' ? cleanedJson.summary : '',
+        score: answerCheckScore(cleanedJson),
+        feedback: cleanedJson,
+    });
+
+    return res.status(200).json(cleanedJson);
+})));
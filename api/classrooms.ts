@@ -0,0 +1,69 @@
+import { hasPermission } from '../src/utils/permissions.js';
+import classrooms from "./_lib/classrooms.js";
+import { parse } from "./_lib/validation.js";
+import { classroomActionSchema, classroomQuerySchema } from "./_lib/schemas.js";
+import { withCors, withAuth } from "./_lib/middleware.js";
+import { BadRequestError, ForbiddenError } from "./_lib/errors.js";
+
+// Teacher classrooms and enrollment.
+//   GET                 -> { teaching, enrolled }: the classes the user teaches and the ones they joined
+//   GET ?classroomId=   -> { students }: progress of the enrolled students (teacher of the class only)
+//   POST { action, payload } -> see ClassroomActionPayloads
+export default withCors(['GET', 'POST'], withAuth(async (req, res, { supabase, user, role }) => {
+    const canManage = hasPermission(role, 'classrooms.manage');
+
+    if (req.method === 'GET') {
+        if (req.query.classroomId !== undefined) {
+            const { classroomId } = parse(classroomQuerySchema, req.query);
+            await classrooms.getManagedClassroom(supabase, classroomId, user, role);
+            const students = await classrooms.getClassroomProgress(supabase, classroomId);
+            return res.status(200).json({ students });
+        }
+
+        const [teaching, enrolled] = await Promise.all([
+            canManage ? classrooms.listTeaching(supabase, user.id) : Promise.resolve([]),
+            classrooms.listEnrolled(supabase, user.id),
+        ]);
+        return res.status(200).json({ teaching, enrolled });
+    }
+
+    const body = parse(classroomActionSchema, req.body, "Requête de gestion de classe invalide.");
+
+    // Enrollment actions are open to every signed-in user.
+    if (body.action === 'JOIN') {
+        const classroom = await classrooms.joinByCode(supabase, user.id, body.payload.code);
+        return res.status(200).json({ success: true, message: `Vous avez rejoint la classe « ${classroom.name} ».`, classroom });
+    }
+    if (body.action === 'LEAVE') {
+        await classrooms.removeMember(supabase, body.payload.classroomId, user.id);
+        return res.status(200).json({ success: true, message: "Vous avez quitté la classe." });
+    }
+
+    if (!canManage) throw new ForbiddenError();
+
+    if (body.action === 'CREATE') {
+        const classroom = await classrooms.createClassroom(supabase, user, body.payload.name);
+        return res.status(201).json({ success: true, message: "Classe créée.", classroom });
+    }
+
+    const { classroomId } = body.payload;
+    await classrooms.getManagedClassroom(supabase, classroomId, user, role);
+
+    switch (body.action) {
+        case 'RENAME':
+            await classrooms.renameClassroom(supabase, classroomId, body.payload.name);
+            return res.status(200).json({ success: true, message: "Classe renommée." });
+        case 'REGENERATE_CODE': {
+            const joinCode = await classrooms.regenerateCode(supabase, classroomId);
+            return res.status(200).json({ success: true, message: "Nouveau code généré.", joinCode });
+        }
+        case 'DELETE':
+            await classrooms.deleteClassroom(supabase, classroomId);
+            return res.status(200).json({ success: true, message: "Classe supprimée." });
+        case 'REMOVE_STUDENT':
+            await classrooms.removeMember(supabase, classroomId, body.payload.studentId);
+            return res.status(200).json({ success: true, message: "Élève retiré de la classe." });
+        default:
+            throw new BadRequestError("Action inconnue.");
+    }
+}));
@@ -0,0 +1,21 @@
+import xp from "./_lib/xp.js";
+import achievements from "./_lib/achievements.js";
+import { parse } from "./_lib/validation.js";
+import { completeExerciseSchema } from "./_lib/schemas.js";
+import { withCors, withAuth } from "./_lib/middleware.js";
+import { ExerciseCompletionResult } from "../src/types.js";
+
+// Records that the student completed an exercise and how (verified answer, tutor, partial answer or
+// self-declared), grants its XP from the rule table (each rule once per exercise, see api/_lib/xp.ts), then
+// evaluates the badges.
+export default withCors(['POST'], withAuth(async (req, res, { supabase, user }) => {
+    const { exerciseId } = parse(completeExerciseSchema, req.body, "Exercice invalide.");
+
+    const { alreadyCompleted, method, grants } = await xp.completeExercise(supabase, user.id, exerciseId);
+    const unlockedBadges = await achievements.evaluateBadges(supabase, user.id);
+
+    const result: ExerciseCompletionResult = {
+        alreadyCompleted, method, grants, xp: await xp.getXp(supabase, user.id), unlockedBadges,
+    };
+    return res.status(200).json(result);
+}));
@@ -0,0 +1,71 @@
+import { BundleScope, CurriculumBundle } from '../src/types.js';
+import dataAccess from "./_lib/data-access.js";
+import curriculumHistory from "./_lib/curriculum-history.js";
+import curriculumBundle from "./_lib/curriculum-bundle.js";
+import { parse } from "./_lib/validation.js";
+import { bundleImportSchema } from "./_lib/schemas.js";
+import { withCors, withPermission } from "./_lib/middleware.js";
+import { BadRequestError, NotFoundError, ValidationError } from "./_lib/errors.js";
+
+// Exports (GET) and imports (POST) curriculum bundles for the admin "Import / Export" screen.
+// An import is first previewed (`mode: 'preview'`), then applied atomically (`mode: 'apply'`).
+export default withCors(['GET', 'POST'], withPermission('curriculum.edit', async (req, res, { supabase, user }) => {
+    // --- Export ---
+    if (req.method === 'GET') {
+        const { scope: scopeType = 'curriculum', levelId, chapterId, includeImages } = req.query as Record<string, string | undefined>;
+        let scope: BundleScope;
+        if (scopeType === 'curriculum') scope = { type: 'curriculum' };
+        else if (scopeType === 'level' && levelId) scope = { type: 'level', levelId };
+        else if (scopeType === 'chapter' && levelId && chapterId) scope = { type: 'chapter', levelId, chapterId };
+        else throw new BadRequestError("Portée d'export invalide.");
+
+        dataAccess.invalidateCache(); // Always export the latest saved state
+        const curriculum = await dataAccess.getCurriculumFromSupabase();
+        const bundle = curriculumBundle.buildBundle(curriculum, scope);
+        if (!bundle) throw new NotFoundError("L'élément à exporter est introuvable.");
+
+        if (includeImages === '1') {
+            bundle.assets = { images: await curriculumBundle.fetchImageAssets(bundle.levels) };
+        }
+        return res.status(200).json(bundle);
+    }
+
+    // --- Import ---
+    const { bundle: rawBundle, options, mode } = parse(bundleImportSchema, req.body, "Requête d'import invalide.");
+
+    const issues = curriculumBundle.validateBundle(rawBundle);
+    if (issues.length > 0) throw new ValidationError("Le paquet est invalide.", issues);
+    const bundle = rawBundle as CurriculumBundle;
+
+    const before = await dataAccess.fetchAllRows();
+    if (options.targetLevelId && !before.levels.some(level => level.id === options.targetLevelId)) {
+        throw new BadRequestError("Le niveau cible n'existe pas.");
+    }
+
+    const { rows, preview } = curriculumBundle.planImport(bundle, before, options);
+    if (mode === 'preview') {
+        return res.status(200).json(preview);
+    }
+
+    // Images are uploaded first so the imported rows point to their new URLs.
+    if (bundle.assets?.images?.length) {
+        await curriculumBundle.uploadImageAssets(supabase, rows, bundle.assets.images);
+    }
+    await dataAccess.upsertCurriculumRows(rows); // Single transaction: all or nothing
+    dataAccess.invalidateCache();
+
+    await curriculumHistory.recordRevision(supabase, {
+        admin_id: user.id,
+        admin_email: user.email ?? null,
+        action: 'IMPORT_BUNDLE',
+        item_type: 'curriculum',
+        item_id: null,
+        level_id: null,
+        chapter_id: null,
+        payload: { scope: bundle.scope, exportedAt: bundle.exportedAt, options, summary: preview.summary },
+        before,
+        after: await dataAccess.fetchAllRows(),
+    });
+
+    return res.status(200).json({ success: true, message: "Import effectué avec succès.", summary: preview.summary });
+}));
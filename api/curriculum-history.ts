@@ -0,0 +1,18 @@
+import curriculumHistory from "./_lib/curriculum-history.js";
+import { withCors, withPermission } from "./_lib/middleware.js";
+
+// Lists curriculum revisions for the admin history screen.
+export default withCors(['GET'], withPermission('curriculum.edit', async (req, res, { supabase }) => {
+    // --- Query ---
+    const { itemType, itemId, levelId, chapterId, beforeId, limit } = req.query as Record<string, string | undefined>;
+    const revisions = await curriculumHistory.listRevisions(supabase, {
+        itemType,
+        itemId,
+        levelId,
+        chapterId,
+        beforeId: beforeId ? Number(beforeId) : undefined,
+        limit: limit ? Number(limit) : undefined,
+    });
+
+    return res.status(200).json({ revisions });
+}));
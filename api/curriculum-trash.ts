@@ -0,0 +1,14 @@
+import curriculumTrash from "./_lib/curriculum-trash.js";
+import { TRASH_RETENTION_DAYS } from "./_lib/config.js";
+import { withCors, withPermission } from "./_lib/middleware.js";
+
+// Lists the curriculum trash for the admin "Corbeille" screen.
+// Entries older than TRASH_RETENTION_DAYS are purged before listing.
+export default withCors(['GET'], withPermission('curriculum.edit', async (req, res, { supabase }) => {
+    // --- Query ---
+    const purged = await curriculumTrash.purgeTrash(supabase);
+    if (purged > 0) console.log(`${purged} expired trash entries purged.`);
+
+    const items = await curriculumTrash.listTrash(supabase);
+    return res.status(200).json({ items, retentionDays: TRASH_RETENTION_DAYS });
+}));
@@ -0,0 +1,21 @@
+import dataAccess from "./_lib/data-access.js";
+import { withCors, withPermission } from "./_lib/middleware.js";
+import { toPublicCurriculum } from "../src/utils/curriculum-tree.js";
+
+// Full tree with answer keys and corrections, for the editors. Never from this instance's cache: the
+// cache is only cleared on the instance that saved a change (/api/update-curriculum).
+const getFullCurriculum = withPermission('curriculum.edit', async (_req, res) => {
+    res.setHeader('Cache-Control', 'no-store');
+    dataAccess.invalidateCache();
+    return res.status(200).json({ curriculum: await dataAccess.getCurriculumFromSupabase() });
+});
+
+// Curriculum read path.
+//   GET          -> { curriculum }: public tree, without quiz answers nor full corrections (no auth)
+//   GET ?full=1  -> { curriculum }: complete tree ('curriculum.edit')
+export default withCors(['GET'], async (req, res) => {
+    if (req.query.full !== undefined) return getFullCurriculum(req, res);
+
+    res.setHeader('Cache-Control', 's-maxage=60, stale-while-revalidate=300');
+    return res.status(200).json({ curriculum: toPublicCurriculum(await dataAccess.getCurriculumFromSupabase()) });
+});
@@ -0,0 +1,21 @@
+import dataAccess from "./_lib/data-access.js";
+import mockExams from "./_lib/mock-exams.js";
+import xp from "./_lib/xp.js";
+import { parse } from "./_lib/validation.js";
+import { exerciseCorrectionQuerySchema } from "./_lib/schemas.js";
+import { withCors, withAuth } from "./_lib/middleware.js";
+import { NotFoundError } from "./_lib/errors.js";
+
+// Full correction of one exercise, left out of the public curriculum. Signed-in users only,
+// and not during a mock exam. The view is recorded first: what the student checks afterwards no longer
+// counts as a verified answer (see completeExercise).
+export default withCors(['GET'], withAuth(async (req, res, { supabase, user }) => {
+    const { exerciseId } = parse(exerciseCorrectionQuerySchema, req.query);
+    await mockExams.assertNoRunningExam(supabase, user.id);
+
+    const exercise = await dataAccess.getExerciseById(exerciseId);
+    if (!exercise) throw new NotFoundError("Exercice non trouvé.");
+    await xp.recordCorrectionView(supabase, user.id, exerciseId);
+
+    return res.status(200).json({ fullCorrection: exercise.fullCorrection ?? null });
+}));
@@ -1,81 +1,41 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
-import { createClient } from "@supabase/supabase-js";
-import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { AIResponse } from "../src/types.js";
-import aiUsageLimiter from "./_lib/ai-usage-limiter.js";
 import { cleanLatex, validateMathResponse } from "./_lib/math-validator.js";
-
-// This function runs on Vercel's servers (Node.js environment)
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-    res.setHeader('Access-Control-Allow-Credentials', 'true');
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'POST,OPTIONS');
-    res.setHeader(
-        'access-control-allow-headers',
-        'authorization, x-csrf-token, x-requested-with, accept, accept-version, content-length, content-md5, content-type, date, x-api-version'
-    );
-
-    if (req.method === 'OPTIONS') {
-        res.status(200).end();
-        return;
-    }
-
-    if (req.method !== 'POST') {
-        res.setHeader('Allow', ['POST']);
-        return res.status(405).end(`Method ${req.method} Not Allowed`);
-    }
-
-    const apiKey = process.env.GEMINI_API_KEY; 
-    const supabaseUrl = process.env.SUPABASE_URL;
-    const supabaseServiceKey = process.env.SUPABASE_SERVICE_KEY;
-
-    const missingVars = [];
-    if (!apiKey) missingVars.push('GEMINI_API_KEY');
-    if (!supabaseUrl) missingVars.push('SUPABASE_URL');
-    if (!supabaseServiceKey) missingVars.push('SUPABASE_SERVICE_KEY');
-
-    if (missingVars.length > 0) {
-        const errorMsg = `Configuration du serveur incomplète. Variables d'environnement manquantes: ${missingVars.join(', ')}`;
-        return res.status(500).json({ error: errorMsg });
-    }
-
-    try {
-        // --- User Authentication & Rate Limiting ---
-        const authHeader = req.headers.authorization;
-        if (!authHeader) {
-            return res.status(401).json({ error: 'L\'authentification est requise.' });
+import mockExams from "./_lib/mock-exams.js";
+import achievements from "./_lib/achievements.js";
+import dataAccess from "./_lib/data-access.js";
+import { parse } from "./_lib/validation.js";
+import { explainSchema } from "./_lib/schemas.js";
+import { withCors, withAuth, withRateLimit, requireEnv } from "./_lib/middleware.js";
+import { ForbiddenError, NotFoundError, UpstreamError } from "./_lib/errors.js";
+
+// Answers a student's question about an exercise, either directly or as a socratic path. A socratic path for an
+// exercise (`exerciseId`) is built with its full correction, which the browser does not get, and stored, to be
+// followed by /api/validate-socratic-answer.
+// Unavailable during a mock exam.
+export default withCors(['POST'], withAuth(withRateLimit('EXPLANATION', async (req, res, { supabase, user }) => {
+    const { GEMINI_API_KEY: apiKey } = requireEnv('GEMINI_API_KEY');
+    await mockExams.assertNoRunningExam(supabase, user.id);
+
+    // --- Body Validation ---
+    const { prompt: rawPrompt, chapterId, requestType, exerciseId } = parse(explainSchema, req.body);
+
+    // Clean prompt and ensure it has a definite string type
+    let prompt: string = cleanLatex(rawPrompt);
+    if (requestType === 'socratic' && exerciseId) {
+        const exercise = await dataAccess.getExerciseById(exerciseId);
+        if (!exercise) throw new NotFoundError("Exercice non trouvé.");
+        if (exercise.fullCorrection) {
+            prompt += `\n# CORRECTION COMPLÈTE DE RÉFÉRENCE (pour construire le parcours, ne jamais la donner à l'élève)\n${exercise.fullCorrection}\n`;
         }
-        const token = authHeader.split(' ')[1];
-        const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
-        const { data: { user }, error: userError } = await supabase.auth.getUser(token);
-
-        if (userError || !user) {
-            return res.status(401).json({ error: 'Jeton d\'authentification invalide ou expiré.' });
-        }
-
-        const { limitExceeded, limit } = await aiUsageLimiter.checkUsageLimit(supabase, user.id, 'EXPLANATION');
-        if (limitExceeded) {
-             const error: any = new Error(`Vous avez atteint votre limite de ${limit} demandes d'explication par jour.`);
-             error.status = 429;
-             throw error;
-        }
-        
-        // --- Body Validation ---
-        const { prompt: rawPrompt, chapterId, requestType } = req.body as { prompt?: string, chapterId?: string, requestType?: 'socratic' | 'direct' };
-
-        if (!rawPrompt || typeof rawPrompt !== 'string' || !chapterId || typeof chapterId !== 'string' || !requestType) {
-            return res.status(400).json({ error: "Les champs 'prompt', 'chapterId', et 'requestType' sont requis et doivent être valides." });
-        }
-
-        // Clean prompt and ensure it has a definite string type
-        const prompt: string = cleanLatex(rawPrompt);
-        
-        const ai = new GoogleGenAI({ apiKey: apiKey! });
-        const finalResponse: AIResponse = {};
-        
-        // --- System instruction ---
-        const systemInstruction = `
+    }
+    
+    const ai = new GoogleGenAI({ apiKey });
+    const finalResponse: AIResponse = {};
+    
+    // --- System instruction ---
+    const systemInstruction = `
 # CONTEXTE
 Tu es un tuteur de mathématiques expert et bienveillant. Tu t'adresses à des lycéens marocains pour qui le français est une deuxième langue. Ton langage doit être très simple, clair et encourageant.
 
@@ -130,100 +90,91 @@ Analyse la "DEMANDE ÉLÈVE" dans le prompt. Réponds UNIQUEMENT avec un objet J
     \`\`\`
 `;
 
-        // --- Main AI Generation Logic ---
-        const generateResponse = async (promptForAI: string) => {
-            let responseSchema;
-            
-            if (requestType === 'socratic') {
-                responseSchema = {
-                    type: Type.OBJECT,
-                    properties: {
-                        is_on_topic: { type: Type.BOOLEAN, description: "True si la question de l'élève concerne l'exercice de maths." },
-                        starting_step_index: {
-                            type: Type.INTEGER,
-                            description: "Basé sur le travail déjà fourni par l'élève, l'index de la prochaine question à poser. 0 si l'élève n'a rien commencé. Si l'élève a tout fini, renvoyer un nombre égal à la longueur du 'path'."
-                        },
-                        path: {
-                            type: Type.ARRAY,
-                            description: "Le parcours socratique pour guider l'élève.",
-                            items: {
-                                type: Type.OBJECT,
-                                properties: {
-                                    ia_question: { type: Type.STRING, description: "La question qui guide l'élève. Doit être en français simple." },
-                                    student_response_prompt: { type: Type.STRING, description: "Un court message pour la zone de saisie de l'élève (ex: 'Ta réponse...')." },
-                                    expected_answer_keywords: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Mots-clés pour vérifier la réponse de l'élève." },
-                                    positive_feedback: { type: Type.STRING, description: "Feedback encourageant si la réponse est juste. Doit être en français simple." },
-                                    hint_for_wrong_answer: { type: Type.STRING, description: "Indice si la réponse est fausse. Doit être en français simple et ne pas donner la solution." },
-                                },
-                                required: ["ia_question", "student_response_prompt", "expected_answer_keywords", "positive_feedback", "hint_for_wrong_answer"]
-                            }
-                        }
-                    },
-                    required: ["is_on_topic", "starting_step_index", "path"]
-                };
-            } else { // 'direct'
-                 responseSchema = {
-                    type: Type.OBJECT,
-                    properties: {
-                         is_on_topic: { type: Type.BOOLEAN, description: "True si la question de l'élève concerne l'exercice de maths." },
-                         explanation: { type: Type.STRING, description: "L'explication directe et complète. Doit être en français simple, structurée avec Markdown (###, *)." }
+    // --- Main AI Generation Logic ---
+    const generateResponse = async (promptForAI: string) => {
+        let responseSchema;
+        
+        if (requestType === 'socratic') {
+            responseSchema = {
+                type: Type.OBJECT,
+                properties: {
+                    is_on_topic: { type: Type.BOOLEAN, description: "True si la question de l'élève concerne l'exercice de maths." },
+                    starting_step_index: {
+                        type: Type.INTEGER,
+                        description: "Basé sur le travail déjà fourni par l'élève, l'index de la prochaine question à poser. 0 si l'élève n'a rien commencé. Si l'élève a tout fini, renvoyer un nombre égal à la longueur du 'path'."
                     },
-                    required: ["is_on_topic"]
-                };
+                    path: {
+                        type: Type.ARRAY,
+                        description: "Le parcours socratique pour guider l'élève.",
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                ia_question: { type: Type.STRING, description: "La question qui guide l'élève. Doit être en français simple." },
+                                student_response_prompt: { type: Type.STRING, description: "Un court message pour la zone de saisie de l'élève (ex: 'Ta réponse...')." },
+                                expected_answer_keywords: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Mots-clés pour vérifier la réponse de l'élève." },
+                                positive_feedback: { type: Type.STRING, description: "Feedback encourageant si la réponse est juste. Doit être en français simple." },
+                                hint_for_wrong_answer: { type: Type.STRING, description: "Indice si la réponse est fausse. Doit être en français simple et ne pas donner la solution." },
+                            },
+                            required: ["ia_question", "student_response_prompt", "expected_answer_keywords", "positive_feedback", "hint_for_wrong_answer"]
+                        }
+                    }
+                },
+                required: ["is_on_topic", "starting_step_index", "path"]
+            };
+        } else { // 'direct'
+             responseSchema = {
+                type: Type.OBJECT,
+                properties: {
+                     is_on_topic: { type: Type.BOOLEAN, description: "True si la question de l'élève concerne l'exercice de maths." },
+                     explanation: { type: Type.STRING, description: "L'explication directe et complète. Doit être en français simple, structurée avec Markdown (###, *)." }
+                },
+                required: ["is_on_topic"]
+            };
+        }
+        
+        const response = await ai.models.generateContent({
+            model: 'gemini-2.5-flash',
+            contents: promptForAI,
+            config: {
+                systemInstruction,
+                responseMimeType: "application/json",
+                responseSchema
             }
-            
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: promptForAI,
-                config: {
-                    systemInstruction,
-                    responseMimeType: "application/json",
-                    responseSchema
-                }
-            });
+        });
 
-            const jsonText = response.text;
-            if (!jsonText) {
-                throw new Error("L'IA a retourné une réponse vide. Veuillez réessayer.");
-            }
-            
-            let parsedJson;
-            try {
-                parsedJson = JSON.parse(jsonText.trim());
-            } catch (e) {
-                console.error("Failed to parse JSON from AI in explain. Raw response:", jsonText);
-                throw new Error("La réponse de l'IA était mal formatée. Veuillez réessayer.");
-            }
-            
-            if (parsedJson.is_on_topic === false) {
-                 const error: any = new Error("Je ne peux répondre qu'à des questions concernant cet exercice de mathématiques.");
-                 error.status = 403; // Forbidden
-                 throw error;
-            }
+        const jsonText = response.text;
+        if (!jsonText) {
+            throw new UpstreamError("L'IA a retourné une réponse vide. Veuillez réessayer.");
+        }
+        
+        let parsedJson;
+        try {
+            parsedJson = JSON.parse(jsonText.trim());
+        } catch (e) {
+            console.error("Failed to parse JSON from AI in explain. Raw response:", jsonText);
+            throw new UpstreamError("La réponse de l'IA était mal formatée. Veuillez réessayer.");
+        }
+        
+        if (parsedJson.is_on_topic === false) {
+            throw new ForbiddenError("Je ne peux répondre qu'à des questions concernant cet exercice de mathématiques.");
+        }
 
-            // Nettoyage et validation de la réponse JSON avant de la traiter.
-            const cleanedJson = validateMathResponse(parsedJson);
+        // Nettoyage et validation de la réponse JSON avant de la traiter.
+        const cleanedJson = validateMathResponse(parsedJson);
 
-            if(requestType === 'socratic') {
-                finalResponse.socraticPath = cleanedJson.path;
-                finalResponse.startingStepIndex = cleanedJson.starting_step_index;
-            } else {
-                finalResponse.explanation = cleanedJson.explanation;
+        if(requestType === 'socratic') {
+            finalResponse.socraticPath = cleanedJson.path;
+            finalResponse.startingStepIndex = cleanedJson.starting_step_index;
+            if (exerciseId) {
+                await achievements.startTutorPath(supabase, user.id, exerciseId, cleanedJson.path, cleanedJson.starting_step_index);
             }
-        };
-
-        // --- Run main generation task ---
-        await generateResponse(prompt);
-
-        // Log successful AI call
-        await aiUsageLimiter.logAiCall(supabase, user.id, 'EXPLANATION');
+        } else {
+            finalResponse.explanation = cleanedJson.explanation;
+        }
+    };
 
-        return res.status(200).json(finalResponse);
+    // --- Run main generation task ---
+    await generateResponse(prompt);
 
-    } catch (e: any) {
-        console.error("Critical error in 'explain' function:", e);
-        const status = e.status || 500;
-        const message = e.message || "Une erreur interne est survenue.";
-        return res.status(status).json({ error: message });
-    }
-}
+    return res.status(200).json(finalResponse);
+})));
@@ -0,0 +1,16 @@
+import leaderboards from "./_lib/leaderboards.js";
+import { parse } from "./_lib/validation.js";
+import { leaderboardProfileSchema, leaderboardQuerySchema } from "./_lib/schemas.js";
+import { withCors, withAuth } from "./_lib/middleware.js";
+
+// Opt-in XP leaderboards, by pseudonym.
+//   GET ?period=week|allTime&scope=global|level|classroom&scopeId=&page= -> Leaderboard
+//   POST { pseudonym }                                                     -> LeaderboardProfile (null opts out)
+export default withCors(['GET', 'POST'], withAuth(async (req, res, { supabase, user, role }) => {
+    if (req.method === 'GET') {
+        const { page, ...query } = parse(leaderboardQuerySchema, req.query, "Classement invalide.");
+        return res.status(200).json(await leaderboards.getLeaderboard(supabase, user, role, { ...query, page: page ? Number(page) : undefined }));
+    }
+    const { pseudonym } = parse(leaderboardProfileSchema, req.body, "Pseudonyme invalide.");
+    return res.status(200).json(await leaderboards.updateProfile(supabase, user.id, pseudonym));
+}));
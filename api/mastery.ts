@@ -0,0 +1,8 @@
+import mastery from "./_lib/mastery.js";
+import { withCors, withAuth } from "./_lib/middleware.js";
+
+// Skill and chapter mastery of the signed-in student, estimated from answer checks, quiz results and tutor steps.
+//   GET -> MasteryReport
+export default withCors(['GET'], withAuth(async (req, res, { supabase, user }) => {
+    return res.status(200).json(await mastery.getMastery(supabase, user.id));
+}));
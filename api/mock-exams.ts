@@ -0,0 +1,38 @@
+import mockExams from "./_lib/mock-exams.js";
+import { parse } from "./_lib/validation.js";
+import { mockExamActionSchema, mockExamQuerySchema } from "./_lib/schemas.js";
+import { withCors, withAuth } from "./_lib/middleware.js";
+import { BadRequestError } from "./_lib/errors.js";
+
+// Timed mock Bac exams.
+//   GET              -> { running, exams }: the exam being sat (if any) and the latest exams
+//   GET ?examId=     -> { exam }
+//   POST { action, payload } -> see MockExamActionPayloads; returns { exam }
+export default withCors(['GET', 'POST'], withAuth(async (req, res, { supabase, user }) => {
+    if (req.method === 'GET') {
+        if (req.query.examId !== undefined) {
+            const { examId } = parse(mockExamQuerySchema, req.query);
+            return res.status(200).json({ exam: await mockExams.getExam(supabase, user.id, examId) });
+        }
+        const [running, exams] = await Promise.all([
+            mockExams.getRunningExam(supabase, user.id),
+            mockExams.listExams(supabase, user.id),
+        ]);
+        return res.status(200).json({ running, exams });
+    }
+
+    const body = parse(mockExamActionSchema, req.body, "Requête d'examen blanc invalide.");
+    switch (body.action) {
+        case 'START': {
+            const exam = await mockExams.startExam(supabase, user.id, body.payload.levelId, body.payload.format);
+            return res.status(201).json({ exam });
+        }
+        case 'SUBMIT': {
+            const existing = await mockExams.getExam(supabase, user.id, body.payload.examId);
+            const exam = await mockExams.submitExam(supabase, existing, body.payload.answers);
+            return res.status(200).json({ exam });
+        }
+        default:
+            throw new BadRequestError("Action inconnue.");
+    }
+}));
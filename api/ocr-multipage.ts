@@ -1,76 +1,29 @@
 import { GoogleGenAI } from "@google/genai";
-import { createClient } from "@supabase/supabase-js";
-import type { VercelRequest, VercelResponse } from '@vercel/node';
 import aiUsageLimiter from './_lib/ai-usage-limiter.js';
-
-
-interface ImagePayload {
-    image: string; // base64 encoded
-    mimeType: string;
-}
-
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-    res.setHeader('Access-Control-Allow-Credentials', 'true');
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'POST,OPTIONS');
-    res.setHeader(
-        'Access-Control-Allow-Headers',
-        'Authorization, X-CSRF-Token, X-Requested-With, Accept, Accept-Version, Content-Length, Content-MD5, Content-Type, Date, X-Api-Version'
-    );
+import { parse } from "./_lib/validation.js";
+import { ocrMultipageSchema } from "./_lib/schemas.js";
+import { withCors, withAuth, requireEnv } from "./_lib/middleware.js";
+import { BadRequestError, RateLimitError } from "./_lib/errors.js";
+
+// Transcribes several photos of handwritten work (one per page) into a single text.
+// Each image counts as one OCR call against the daily limit.
+export default withCors(['POST'], withAuth(async (req, res, { supabase, user }) => {
+    const { GEMINI_API_KEY: apiKey } = requireEnv('GEMINI_API_KEY');
+
+    // --- Body validation ---
+    const { images } = parse(ocrMultipageSchema, req.body);
     
-    if (req.method === 'OPTIONS') {
-        res.status(200).end();
-        return;
-    }
-
-    if (req.method !== 'POST') {
-        return res.status(405).json({ error: 'Method Not Allowed' });
-    }
-
-    const apiKey = process.env.GEMINI_API_KEY;
-    const supabaseUrl = process.env.SUPABASE_URL;
-    const supabaseServiceKey = process.env.SUPABASE_SERVICE_KEY;
-
-    const missingVars = [];
-    if (!apiKey) missingVars.push('GEMINI_API_KEY');
-    if (!supabaseUrl) missingVars.push('SUPABASE_URL');
-    if (!supabaseServiceKey) missingVars.push('SUPABASE_SERVICE_KEY');
-
-    if (missingVars.length > 0) {
-        const errorMsg = `Configuration du serveur incomplète. Variables d'environnement manquantes: ${missingVars.join(', ')}`;
-        return res.status(500).json({ error: errorMsg });
-    }
-
-    try {
-        // --- User Authentication & Rate Limiting ---
-        const authHeader = req.headers.authorization;
-        if (!authHeader) {
-            return res.status(401).json({ error: 'L\'authentification est requise.' });
-        }
-        const token = authHeader.split(' ')[1];
-        const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
-        const { data: { user }, error: userError } = await supabase.auth.getUser(token);
-
-        if (userError || !user) {
-            return res.status(401).json({ error: 'Jeton d\'authentification invalide ou expiré.' });
-        }
-        
-        // --- Body validation ---
-        const { images } = req.body as { images?: ImagePayload[] };
-        if (!Array.isArray(images) || images.length === 0) {
-            return res.status(400).json({ error: "Le champ 'images' (un tableau d'objets image) est requis." });
-        }
-        
-        // --- Check usage limit before processing ---
+    // --- Count the calls against the usage limit before processing ---
+    const claimed = await aiUsageLimiter.claimAiCalls(supabase, user.id, 'OCR', images.length);
+    if (!claimed) {
         const { usageCount, limit } = await aiUsageLimiter.checkUsageLimit(supabase, user.id, 'OCR');
-        const callsLeft = limit - usageCount;
-        if (images.length > callsLeft) {
-            return res.status(429).json({ error: `Vous essayez de téléverser ${images.length} images, mais il ne vous reste que ${callsLeft} analyses d'image pour aujourd'hui.` });
-        }
+        const callsLeft = Math.max(0, limit - usageCount);
+        throw new RateLimitError(`Vous essayez de téléverser ${images.length} images, mais il ne vous reste que ${callsLeft} analyses d'image pour aujourd'hui.`);
+    }
 
-        const ai = new GoogleGenAI({ apiKey: apiKey! });
+    const ai = new GoogleGenAI({ apiKey });
 
-        const ocrPromptText = `
+    const ocrPromptText = `
 # MISSION
 Transcrire l'écriture manuscrite de l'image en texte brut.
 
@@ -92,43 +45,33 @@ Transcrire l'écriture manuscrite de l'image en texte brut.
 # INSTRUCTION FINALE
 Transcris le contenu de l'image ou des images fournies en suivant ces règles à la lettre. La sortie doit être du texte brut et lisible.`;
 
-        // --- STEP 1: OCR on all images in parallel ---
-        const ocrPromises = images.map(imagePayload => {
-            const ocrImagePart = { inlineData: { data: imagePayload.image, mimeType: imagePayload.mimeType } };
-            const ocrTextPart = { text: ocrPromptText };
-            
-            return ai.models.generateContent({
-               model: 'gemini-2.5-flash',
-               contents: { parts: [ocrImagePart, ocrTextPart] },
-               config: {
-                   thinkingConfig: { thinkingBudget: 0 }
-               }
-            });
+    // --- STEP 1: OCR on all images in parallel ---
+    const ocrPromises = images.map(imagePayload => {
+        const ocrImagePart = { inlineData: { data: imagePayload.image, mimeType: imagePayload.mimeType } };
+        const ocrTextPart = { text: ocrPromptText };
+        
+        return ai.models.generateContent({
+           model: 'gemini-2.5-flash',
+           contents: { parts: [ocrImagePart, ocrTextPart] },
+           config: {
+               thinkingConfig: { thinkingBudget: 0 }
+           }
         });
+    });
 
-        const ocrResults = await Promise.all(ocrPromises);
-
-        // --- Log successful calls ---
-        const logPromises = images.map(() => aiUsageLimiter.logAiCall(supabase, user.id, 'OCR'));
-        await Promise.all(logPromises);
+    const ocrResults = await Promise.all(ocrPromises).catch(async error => {
+        await aiUsageLimiter.releaseAiCalls(supabase, claimed);
+        throw error;
+    });
 
-        // --- Combine results ---
-        const combinedText = ocrResults.map(ocrResponse => {
-            return ocrResponse.text?.trim() ?? '';
-        }).join('\\n'); // Join pages with a standard newline character
-        
-        if (!combinedText.trim()) {
-            return res.status(400).json({ error: "L'IA n'a pas pu extraire de texte des images fournies. Essayez des photos plus nettes." });
-        }
-        
-        return res.status(200).json({ text: combinedText.trim() });
-
-    } catch (error: any) {
-        console.error("Error in ocr-multipage:", error);
-        let message = "Une erreur serveur est survenue lors du traitement de la ou des image(s).";
-        if (error.message) {
-            message = `Erreur du service IA: ${error.message}`;
-        }
-        return res.status(500).json({ error: message });
+    // --- Combine results ---
+    const combinedText = ocrResults.map(ocrResponse => {
+        return ocrResponse.text?.trim() ?? '';
+    }).join('\\n'); // Join pages with a standard newline character
+    
+    if (!combinedText.trim()) {
+        throw new BadRequestError("L'IA n'a pas pu extraire de texte des images fournies. Essayez des photos plus nettes.");
     }
-}
\ No newline at end of file
+    
+    return res.status(200).json({ text: combinedText.trim() });
+}));
@@ -0,0 +1,12 @@
+import recommendations from "./_lib/recommendations.js";
+import { parse } from "./_lib/validation.js";
+import { recommendationQuerySchema } from "./_lib/schemas.js";
+import { withCors, withAuth } from "./_lib/middleware.js";
+
+// What the signed-in student should do next, from their progress, quiz scores and mastery.
+//   GET                  -> Recommendation[], most relevant first
+//   GET ?afterExerciseId= -> the same, continuing from the exercise just completed
+export default withCors(['GET'], withAuth(async (req, res, { supabase, user }) => {
+    const { afterExerciseId } = parse(recommendationQuerySchema, req.query);
+    return res.status(200).json(await recommendations.getRecommendations(supabase, user.id, afterExerciseId));
+}));
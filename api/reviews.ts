@@ -0,0 +1,27 @@
+import reviews from "./_lib/reviews.js";
+import mockExams from "./_lib/mock-exams.js";
+import { parse } from "./_lib/validation.js";
+import { reviewActionSchema } from "./_lib/schemas.js";
+import { withCors, withAuth } from "./_lib/middleware.js";
+import { BadRequestError } from "./_lib/errors.js";
+
+// Spaced-repetition review (SM-2) of quiz questions and exercises.
+//   GET                      -> ReviewQueue: today's session and the counters of the dashboard
+//   POST { action, payload } -> see ReviewActionPayloads; returns ReviewActionResults[action]
+export default withCors(['GET', 'POST'], withAuth(async (req, res, { supabase, user }) => {
+    if (req.method === 'GET') {
+        return res.status(200).json(await reviews.getQueue(supabase, user.id));
+    }
+
+    const body = parse(reviewActionSchema, req.body, "Requête de révision invalide.");
+    // Answering a question reveals its answer key.
+    await mockExams.assertNoRunningExam(supabase, user.id);
+    switch (body.action) {
+        case 'ANSWER_QUESTION':
+            return res.status(200).json(await reviews.answerQuestion(supabase, user.id, body.payload.questionId, body.payload.answer));
+        case 'RATE_EXERCISE':
+            return res.status(200).json(await reviews.rateExercise(supabase, user.id, body.payload.exerciseId, body.payload.rating));
+        default:
+            throw new BadRequestError("Action inconnue.");
+    }
+}));
@@ -0,0 +1,13 @@
+import search from "./_lib/search.js";
+import { parse } from "./_lib/validation.js";
+import { searchQuerySchema } from "./_lib/schemas.js";
+import { withCors, withAuth } from "./_lib/middleware.js";
+
+// Searches the whole curriculum by keywords, and by meaning when asked (the search bar asks on Enter only:
+// each semantic search counts against the daily 'SEARCH' limit).
+//   GET ?q=             -> SearchResult[], best first, keywords only
+//   GET ?q=&semantic=1  -> SearchResult[], keywords and meaning
+export default withCors(['GET'], withAuth(async (req, res, { supabase, user }) => {
+    const { q, semantic } = parse(searchQuerySchema, req.query, "Veuillez saisir une recherche.");
+    return res.status(200).json(await search.search(supabase, user.id, q, semantic === '1'));
+}));
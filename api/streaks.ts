@@ -0,0 +1,15 @@
+import streaks from "./_lib/streaks.js";
+import { parse } from "./_lib/validation.js";
+import { dailyGoalSchema } from "./_lib/schemas.js";
+import { withCors, withAuth } from "./_lib/middleware.js";
+
+// Daily goal, streak and activity calendar of the signed-in student.
+//   GET                         -> ActivitySummary
+//   POST { exercises, quizzes } -> ActivitySummary, with the new daily goal
+export default withCors(['GET', 'POST'], withAuth(async (req, res, { supabase, user }) => {
+    if (req.method === 'POST') {
+        const goal = parse(dailyGoalSchema, req.body, "Objectif quotidien invalide.");
+        await streaks.setGoal(supabase, user.id, goal);
+    }
+    return res.status(200).json(await streaks.getActivitySummary(supabase, user.id));
+}));
@@ -0,0 +1,25 @@
+import quizSubmissions from "./_lib/quiz-submissions.js";
+import achievements from "./_lib/achievements.js";
+import mockExams from "./_lib/mock-exams.js";
+import { parse } from "./_lib/validation.js";
+import { submitQuizSchema } from "./_lib/schemas.js";
+import { withCors, withAuth } from "./_lib/middleware.js";
+import { QuizSubmissionResult } from "../src/types.js";
+
+// Grades a quiz attempt against the stored answer key, records it and awards the XP in one transaction,
+// then evaluates the badges. Closed during a mock exam: the result reveals the answer key.
+export default withCors(['POST'], withAuth(async (req, res, { supabase, user }) => {
+    const { quizId, answers } = parse(submitQuizSchema, req.body, "Soumission de quiz invalide.");
+    await mockExams.assertNoRunningExam(supabase, user.id);
+
+    await quizSubmissions.checkAttemptsLeft(supabase, user.id, quizId);
+    const graded = await quizSubmissions.gradeQuiz(supabase, quizId, answers);
+    const attempt = await quizSubmissions.recordAttempt(supabase, user.id, quizId, answers, graded);
+
+    const unlockedBadges = await achievements.evaluateBadges(supabase, user.id);
+
+    const result: QuizSubmissionResult = {
+        attempt, xpGained: attempt.xp_awarded ?? 0, results: graded.results, solutions: graded.solutions, unlockedBadges,
+    };
+    return res.status(200).json(result);
+}));
@@ -1,196 +1,279 @@
 
 
-import { createClient } from "@supabase/supabase-js";
-import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { SupabaseClient, User as AuthUser } from "@supabase/supabase-js";
 import { Level, Chapter, Series, Exercise, Quiz, QuizQuestion, DeletionInfo } from "../src/types.js";
-import dataAccess from "./_lib/data-access.js";
-
-// This function runs on Vercel's servers (Node.js environment)
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-    // Standard CORS headers
-    res.setHeader('Access-Control-Allow-Credentials', 'true');
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'POST,OPTIONS');
-    res.setHeader(
-        'access-control-allow-headers',
-        'authorization, x-csrf-token, x-requested-with, accept, accept-version, content-length, content-md5, content-type, date, x-api-version'
-    );
-
-    if (req.method === 'OPTIONS') {
-        res.status(200).end();
-        return;
-    }
+import dataAccess, { ITEM_TABLES } from "./_lib/data-access.js";
+import curriculumHistory from "./_lib/curriculum-history.js";
+import curriculumTrash from "./_lib/curriculum-trash.js";
+import { CurriculumRows, emptyCurriculumRows } from "../src/utils/curriculum-rows.js";
+import { levelToRow, chapterToRow, seriesToRow, exerciseToRow, quizToRow, quizQuestionToRow } from "../src/utils/curriculum-rows.js";
+import { parse } from "./_lib/validation.js";
+import { curriculumActionSchema } from "./_lib/schemas.js";
+import { withCors, withPermission } from "./_lib/middleware.js";
+import { BadRequestError, ConflictError, NotFoundError } from "./_lib/errors.js";
+
+interface ActionTarget {
+    itemType: DeletionInfo['type'];
+    itemId: string;
+    levelId: string | null;
+    chapterId: string | null;
+}
 
-    if (req.method !== 'POST') {
-        return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+/**
+ * Identifies the item an edit action applies to, for the audit record.
+ */
+function getActionTarget(action: string, payload: any): ActionTarget | null {
+    const levelId = payload.levelId ?? null;
+    const chapterId = payload.chapterId ?? null;
+    switch (action) {
+        case 'ADD_OR_UPDATE_LEVEL': return { itemType: 'level', itemId: payload.level?.id, levelId: payload.level?.id, chapterId: null };
+        case 'ADD_OR_UPDATE_CHAPTER': return { itemType: 'chapter', itemId: payload.chapter?.id, levelId, chapterId: payload.chapter?.id };
+        case 'ADD_OR_UPDATE_SERIES': return { itemType: 'series', itemId: payload.series?.id, levelId, chapterId };
+        case 'ADD_OR_UPDATE_EXERCISE': return { itemType: 'exercise', itemId: payload.exercise?.id, levelId, chapterId };
+        case 'ADD_OR_UPDATE_QUIZ': return { itemType: 'quiz', itemId: payload.quiz?.id, levelId, chapterId };
+        case 'ADD_OR_UPDATE_QUIZ_QUESTION': return { itemType: 'quizQuestion', itemId: payload.question?.id, levelId, chapterId };
+        case 'DELETE_ITEM': {
+            const { type, ids } = payload as DeletionInfo;
+            const itemId = { level: ids.levelId, chapter: ids.chapterId, series: ids.seriesId, exercise: ids.exerciseId, quiz: ids.quizId, quizQuestion: ids.questionId }[type];
+            return itemId ? { itemType: type, itemId, levelId: ids.levelId ?? null, chapterId: ids.chapterId ?? null } : null;
+        }
+        default: return null;
     }
+}
 
+/**
+ * Re-inserts snapshot rows with their original IDs.
+ * A missing parent (deleted, or still in the trash) is reported as a 409.
+ */
+async function upsertSnapshot(snapshot: CurriculumRows) {
     try {
-        // --- Environment Variable Validation ---
-        const supabaseUrl = process.env.SUPABASE_URL;
-        const supabaseServiceKey = process.env.SUPABASE_SERVICE_KEY;
-        const adminEmail = process.env.ADMIN_EMAIL;
-
-        if (!supabaseUrl || !supabaseServiceKey || !adminEmail) {
-            const missingVars = [];
-            if (!supabaseUrl) missingVars.push('SUPABASE_URL');
-            if (!supabaseServiceKey) missingVars.push('SUPABASE_SERVICE_KEY');
-            if (!adminEmail) missingVars.push('ADMIN_EMAIL');
-            throw new Error(`Configuration du serveur incomplète: ${missingVars.join(', ')} manquant(es).`);
+        await dataAccess.upsertCurriculumRows(snapshot);
+    } catch (e: any) {
+        if (e?.code === '23503') { // foreign_key_violation
+            throw new ConflictError("L'élément parent n'existe plus. Restaurez-le d'abord (il est peut-être dans la corbeille).");
         }
+        throw e;
+    }
+}
 
-        // --- Authentication & Authorization ---
-        const authHeader = req.headers.authorization;
-        if (!authHeader) return res.status(401).json({ error: 'Authentification requise.' });
-        
-        const token = authHeader.split(' ')[1];
-        const supabase = createClient(supabaseUrl, supabaseServiceKey);
-        const { data: { user }, error: userError } = await supabase.auth.getUser(token);
-
-        if (userError || !user) return res.status(401).json({ error: 'Jeton invalide ou expiré.' });
-        if (user.email?.toLowerCase() !== adminEmail.toLowerCase()) return res.status(403).json({ error: 'Action non autorisée.' });
-
-        // --- Action Dispatching ---
-        const { action, payload } = req.body;
-        if (!action || !payload) return res.status(400).json({ error: "L'action et le payload sont requis." });
-
-        let curriculum = await dataAccess.getCurriculumFromSupabase();
-
-        switch (action) {
-            case 'ADD_OR_UPDATE_LEVEL': {
-                const levelData = payload.level as Level;
-                const index = curriculum.findIndex(l => l.id === levelData.id);
-                if (index > -1) {
-                    curriculum[index] = { ...curriculum[index], ...levelData };
-                } else {
-                    curriculum.push(levelData);
-                }
-                break;
-            }
-            case 'ADD_OR_UPDATE_CHAPTER': {
-                const { levelId, chapter: chapterData } = payload as { levelId: string, chapter: Chapter };
-                const level = curriculum.find(l => l.id === levelId);
-                if (!level) throw new Error(`Niveau ${levelId} non trouvé.`);
-                const index = level.chapters.findIndex(c => c.id === chapterData.id);
-                if (index > -1) {
-                    level.chapters[index] = { ...level.chapters[index], ...chapterData };
-                } else {
-                    level.chapters.push(chapterData);
-                }
-                break;
-            }
-             case 'ADD_OR_UPDATE_SERIES': {
-                const { levelId, chapterId, series: seriesData } = payload as { levelId: string, chapterId: string, series: Series };
-                const chapter = curriculum.find(l => l.id === levelId)?.chapters.find(c => c.id === chapterId);
-                if (!chapter) throw new Error(`Chapitre ${chapterId} non trouvé.`);
-                const index = chapter.series.findIndex(s => s.id === seriesData.id);
-                if (index > -1) {
-                    chapter.series[index] = { ...chapter.series[index], ...seriesData };
-                } else {
-                    chapter.series.push(seriesData);
-                }
-                break;
-            }
-             case 'ADD_OR_UPDATE_EXERCISE': {
-                const { levelId, chapterId, seriesId, exercise } = payload as { levelId: string, chapterId: string, seriesId: string, exercise: Exercise };
-                const series = curriculum.find(l => l.id === levelId)?.chapters.find(c => c.id === chapterId)?.series.find(s => s.id === seriesId);
-                if (!series) throw new Error(`Série ${seriesId} non trouvée.`);
-                const index = series.exercises.findIndex(e => e.id === exercise.id);
-                if (index > -1) {
-                    series.exercises[index] = exercise;
-                } else {
-                    series.exercises.push(exercise);
-                }
-                break;
-            }
-            case 'ADD_OR_UPDATE_QUIZ': {
-                const { levelId, chapterId, quiz: quizData } = payload as { levelId: string, chapterId: string, quiz: Quiz };
-                const chapter = curriculum.find(l => l.id === levelId)?.chapters.find(c => c.id === chapterId);
-                if (!chapter) throw new Error(`Chapitre ${chapterId} non trouvé.`);
-                if (!chapter.quizzes) { // Defensive check
-                    chapter.quizzes = [];
-                }
-                const index = chapter.quizzes.findIndex(q => q.id === quizData.id);
-                if (index > -1) {
-                    chapter.quizzes[index] = { ...chapter.quizzes[index], ...quizData };
-                } else {
-                    chapter.quizzes.push(quizData);
-                }
-                break;
-            }
-            case 'ADD_OR_UPDATE_QUIZ_QUESTION': {
-                const { levelId, chapterId, quizId, question: encodedQuestion } = payload as { levelId: string, chapterId: string, quizId: string, question: QuizQuestion };
-                const quiz = curriculum.find(l => l.id === levelId)?.chapters.find(c => c.id === chapterId)?.quizzes.find(q => q.id === quizId);
-                if (!quiz) throw new Error(`Quiz ${quizId} non trouvé.`);
-                if (!quiz.questions) {
-                    quiz.questions = [];
-                }
-
-                // Decode the question and options text upon receiving it
-                const question: QuizQuestion = {
-                    ...encodedQuestion,
-                    question: decodeURIComponent(encodedQuestion.question),
-                    options: encodedQuestion.options?.map(opt => decodeURIComponent(opt))
-                };
-
-                const index = quiz.questions.findIndex(q => q.id === question.id);
-                if (index > -1) {
-                    quiz.questions[index] = question;
-                } else {
-                    quiz.questions.push(question);
-                }
-                break;
-            }
-            case 'DELETE_ITEM': {
-                const { type, ids } = payload as DeletionInfo;
-                const { levelId, chapterId, seriesId, exerciseId, quizId, questionId } = ids;
-                
-                switch(type) {
-                    case 'level':
-                        curriculum = curriculum.filter(l => l.id !== levelId);
-                        break;
-                    case 'chapter':
-                        curriculum.find(l => l.id === levelId)!.chapters = curriculum.find(l => l.id === levelId)!.chapters.filter(c => c.id !== chapterId);
-                        break;
-                    case 'series': 
-                        const chapterForSeries = curriculum.find(l => l.id === levelId)?.chapters.find(c => c.id === chapterId);
-                        if(chapterForSeries) chapterForSeries.series = chapterForSeries.series.filter(s => s.id !== seriesId);
-                        break;
-                    case 'exercise':
-                        const seriesForEx = curriculum.find(l => l.id === levelId)?.chapters.find(c => c.id === chapterId)?.series.find(s => s.id === seriesId);
-                        if(seriesForEx) seriesForEx.exercises = seriesForEx.exercises.filter(e => e.id !== exerciseId);
-                        break;
-                    case 'quiz':
-                         const chapterForQuiz = curriculum.find(l => l.id === levelId)?.chapters.find(c => c.id === chapterId);
-                         if(chapterForQuiz) chapterForQuiz.quizzes = chapterForQuiz.quizzes.filter(q => q.id !== quizId);
-                        break;
-                    case 'quizQuestion':
-                        const quizForQuestion = curriculum.find(l => l.id === levelId)?.chapters.find(c => c.id === chapterId)?.quizzes.find(q => q.id === quizId);
-                        if(quizForQuestion) quizForQuestion.questions = quizForQuestion.questions.filter(qu => qu.id !== questionId);
-                        break;
-                }
-                break;
-            }
-            default:
-                return res.status(400).json({ error: `Action inconnue: ${action}` });
+/**
+ * Restores one item to the state recorded in a revision.
+ * `side: 'before'` undoes the revision, `side: 'after'` brings back the version it produced.
+ */
+async function restoreRevision(supabase: SupabaseClient, user: AuthUser, payload: { revisionId: number; side: 'before' | 'after' }) {
+    const revision = await curriculumHistory.getRevision(supabase, payload.revisionId);
+    if (!revision || revision.item_type === 'curriculum' || !revision.item_id) {
+        throw new NotFoundError(`Révision ${payload.revisionId} introuvable ou non restaurable élément par élément.`);
+    }
+
+    const table = ITEM_TABLES[revision.item_type];
+    const snapshot = payload.side === 'after' ? revision.after : revision.before;
+    const before = await dataAccess.fetchSubtreeRows(table, revision.item_id, true);
+
+    const snapshotIsEmpty = !snapshot || Object.values(snapshot).every(rows => rows.length === 0);
+    if (snapshotIsEmpty) {
+        // The item did not exist at that point (undoing its creation).
+        await dataAccess.deleteCurriculumRow(table, revision.item_id, null);
+    } else {
+        await upsertSnapshot(snapshot as CurriculumRows);
+        // The item is back in the curriculum: its trash entry (if any) is now obsolete.
+        await curriculumTrash.removeFromTrash(supabase, { itemType: revision.item_type, itemId: revision.item_id });
+    }
+
+    const after = await dataAccess.fetchSubtreeRows(table, revision.item_id, true);
+    await curriculumHistory.recordRevision(supabase, {
+        admin_id: user.id,
+        admin_email: user.email ?? null,
+        action: 'RESTORE_REVISION',
+        item_type: revision.item_type,
+        item_id: revision.item_id,
+        level_id: revision.level_id,
+        chapter_id: revision.chapter_id,
+        payload,
+        before,
+        after,
+    });
+}
+
+/**
+ * Restores an item from the trash with its original IDs, so the progress rows of
+ * `user_exercise_progress` and `user_quiz_attempts` that reference them apply again.
+ */
+async function restoreTrashItem(supabase: SupabaseClient, user: AuthUser, payload: { trashId: number }) {
+    const entry = await curriculumTrash.getTrashEntry(supabase, payload.trashId);
+    if (!entry) {
+        throw new NotFoundError("Cet élément n'est plus dans la corbeille.");
+    }
+
+    const table = ITEM_TABLES[entry.item_type];
+    if (await dataAccess.rowExists(table, entry.item_id)) {
+        throw new ConflictError(`Un élément avec l'identifiant ${entry.item_id} existe déjà dans le programme.`);
+    }
+
+    await upsertSnapshot(entry.snapshot);
+    await curriculumTrash.removeFromTrash(supabase, { trashId: entry.id });
+
+    await curriculumHistory.recordRevision(supabase, {
+        admin_id: user.id,
+        admin_email: user.email ?? null,
+        action: 'RESTORE_ITEM',
+        item_type: entry.item_type,
+        item_id: entry.item_id,
+        level_id: entry.level_id,
+        chapter_id: entry.chapter_id,
+        payload,
+        before: emptyCurriculumRows(),
+        after: await dataAccess.fetchSubtreeRows(table, entry.item_id, true),
+    });
+}
+
+/**
+ * Restores the whole curriculum to its state right after the given revision.
+ * The restore is itself recorded, so it can be undone the same way.
+ */
+async function restoreCurriculum(supabase: SupabaseClient, user: AuthUser, payload: { revisionId: number }) {
+    const revision = await curriculumHistory.getRevision(supabase, payload.revisionId);
+    if (!revision) {
+        throw new NotFoundError(`Révision ${payload.revisionId} introuvable.`);
+    }
+
+    const before = await dataAccess.fetchAllRows();
+    const target = await curriculumHistory.rewindTo(supabase, before, revision.id);
+    await dataAccess.replaceCurriculumRows(target);
+
+    await curriculumHistory.recordRevision(supabase, {
+        admin_id: user.id,
+        admin_email: user.email ?? null,
+        action: 'RESTORE_CURRICULUM',
+        item_type: 'curriculum',
+        item_id: null,
+        level_id: null,
+        chapter_id: null,
+        payload,
+        before,
+        after: target,
+    });
+}
+
+// Applies one admin edit action to the curriculum and records it in the history.
+export default withCors(['POST'], withPermission('curriculum.edit', async (req, res, { supabase, user }) => {
+    // --- Action Dispatching ---
+    // The payload is checked against the schema of its action before anything is written.
+    const { action, payload, baseUpdatedAt } = parse(curriculumActionSchema, req.body, "Requête de mise à jour du programme invalide.");
+
+    if (action === 'RESTORE_REVISION' || action === 'RESTORE_CURRICULUM' || action === 'RESTORE_ITEM') {
+        if (action === 'RESTORE_REVISION') await restoreRevision(supabase, user, payload);
+        if (action === 'RESTORE_CURRICULUM') await restoreCurriculum(supabase, user, payload);
+        if (action === 'RESTORE_ITEM') await restoreTrashItem(supabase, user, payload);
+        dataAccess.invalidateCache();
+        return res.status(200).json({ success: true, message: "Restauration effectuée avec succès." });
+    }
+
+    if (action === 'PURGE_TRASH') {
+        const { trashId, olderThanDays } = payload as { trashId?: number; olderThanDays?: number };
+        if (trashId) {
+            await curriculumTrash.removeFromTrash(supabase, { trashId });
+            return res.status(200).json({ success: true, message: "Élément supprimé définitivement.", purged: 1 });
         }
-        
-        // Save the entire updated curriculum back to the database
-        const { error: updateError } = await (supabase
-            .from('curriculum') as any)
-            .update({ data: curriculum })
-            .eq('id', 1);
-
-        if (updateError) {
-            throw new Error(`Échec de la sauvegarde dans la base de données : ${updateError.message}`);
+        const purged = await curriculumTrash.purgeTrash(supabase, olderThanDays);
+        return res.status(200).json({ success: true, message: `${purged} élément(s) supprimé(s) définitivement.`, purged });
+    }
+
+    const target = getActionTarget(action, payload);
+    if (!target) throw new BadRequestError(`Action inconnue ou élément non identifié: ${action}`);
+
+    // Snapshot for the audit record: a deletion removes the whole subtree.
+    const targetTable = ITEM_TABLES[target.itemType];
+    const isDeletion = action === 'DELETE_ITEM';
+    const before = await dataAccess.fetchSubtreeRows(targetTable, target.itemId, isDeletion);
+
+    // Each action writes only the affected row; children of containers are left untouched.
+    // Writes are conditional on `baseUpdatedAt` and throw a CurriculumConflictError when stale.
+    let updatedAt: string | null = null;
+    switch (action) {
+        case 'ADD_OR_UPDATE_LEVEL': {
+            const levelData = payload.level as Level;
+            updatedAt = await dataAccess.saveCurriculumRow('levels', levelToRow(levelData, 0), baseUpdatedAt);
+            break;
         }
-        
-        dataAccess.invalidateCache();
+        case 'ADD_OR_UPDATE_CHAPTER': {
+            const { levelId, chapter: chapterData } = payload as { levelId: string, chapter: Chapter };
+            if (!await dataAccess.rowExists('levels', levelId)) throw new NotFoundError(`Niveau ${levelId} non trouvé.`);
+            updatedAt = await dataAccess.saveCurriculumRow('chapters', chapterToRow(chapterData, levelId, 0), baseUpdatedAt);
+            break;
+        }
+         case 'ADD_OR_UPDATE_SERIES': {
+            const { chapterId, series: seriesData } = payload as { levelId: string, chapterId: string, series: Series };
+            if (!await dataAccess.rowExists('chapters', chapterId)) throw new NotFoundError(`Chapitre ${chapterId} non trouvé.`);
+            updatedAt = await dataAccess.saveCurriculumRow('series', seriesToRow(seriesData, chapterId, 0), baseUpdatedAt);
+            break;
+        }
+         case 'ADD_OR_UPDATE_EXERCISE': {
+            const { seriesId, exercise } = payload as { levelId: string, chapterId: string, seriesId: string, exercise: Exercise };
+            if (!await dataAccess.rowExists('series', seriesId)) throw new NotFoundError(`Série ${seriesId} non trouvée.`);
+            updatedAt = await dataAccess.saveCurriculumRow('exercises', exerciseToRow(exercise, seriesId, 0), baseUpdatedAt);
+            break;
+        }
+        case 'ADD_OR_UPDATE_QUIZ': {
+            const { chapterId, quiz: quizData } = payload as { levelId: string, chapterId: string, quiz: Quiz };
+            if (!await dataAccess.rowExists('chapters', chapterId)) throw new NotFoundError(`Chapitre ${chapterId} non trouvé.`);
+            updatedAt = await dataAccess.saveCurriculumRow('quizzes', quizToRow(quizData, chapterId, 0), baseUpdatedAt);
+            break;
+        }
+        case 'ADD_OR_UPDATE_QUIZ_QUESTION': {
+            const { quizId, question: encodedQuestion } = payload as { levelId: string, chapterId: string, quizId: string, question: QuizQuestion };
+            if (!await dataAccess.rowExists('quizzes', quizId)) throw new NotFoundError(`Quiz ${quizId} non trouvé.`);
 
-        return res.status(200).json({ success: true, message: "Curriculum mis à jour avec succès." });
+            // Decode the question, options and explanation text upon receiving it
+            const question: QuizQuestion = {
+                ...encodedQuestion,
+                question: decodeURIComponent(encodedQuestion.question),
+                options: encodedQuestion.options?.map(opt => decodeURIComponent(opt)),
+                explanation: encodedQuestion.explanation !== undefined ? decodeURIComponent(encodedQuestion.explanation) : undefined,
+            };
 
-    } catch (e: any) {
-        console.error(`Erreur critique dans 'update-curriculum' pour l'action '${req.body.action}':`, e);
-        return res.status(500).json({ error: e.message || "Une erreur interne est survenue." });
+            updatedAt = await dataAccess.saveCurriculumRow('quiz_questions', quizQuestionToRow(question, quizId, 0), baseUpdatedAt);
+            break;
+        }
+        case 'DELETE_ITEM': {
+            // The item and its descendants are kept in the trash before being removed.
+            if (before[targetTable].length === 0) break; // Already gone
+            const trashId = await curriculumTrash.moveToTrash(supabase, {
+                item_type: target.itemType,
+                item_id: target.itemId,
+                item_name: (payload as DeletionInfo).name ?? '',
+                level_id: target.levelId,
+                chapter_id: target.chapterId,
+                snapshot: before,
+                deleted_by: user.id,
+                deleted_by_email: user.email ?? null,
+            });
+            try {
+                await dataAccess.deleteCurriculumRow(targetTable, target.itemId, baseUpdatedAt);
+            } catch (e) {
+                await curriculumTrash.removeFromTrash(supabase, { trashId });
+                throw e;
+            }
+            break;
+        }
+        default:
+            throw new BadRequestError(`Action inconnue: ${action}`);
     }
-}
+    
+    dataAccess.invalidateCache();
+
+    await curriculumHistory.recordRevision(supabase, {
+        admin_id: user.id,
+        admin_email: user.email ?? null,
+        action,
+        item_type: target.itemType,
+        item_id: target.itemId,
+        level_id: target.levelId,
+        chapter_id: target.chapterId,
+        payload,
+        before,
+        after: isDeletion ? null : await dataAccess.fetchSubtreeRows(targetTable, target.itemId, false),
+    });
+
+    return res.status(200).json({ success: true, message: "Curriculum mis à jour avec succès.", updatedAt });
+}));
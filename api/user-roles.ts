@@ -0,0 +1,37 @@
+import { Profile } from '../src/types.js';
+import { toRole } from '../src/utils/permissions.js';
+import { parse } from "./_lib/validation.js";
+import { setRoleSchema } from "./_lib/schemas.js";
+import { withCors, withPermission } from "./_lib/middleware.js";
+import { BadRequestError, NotFoundError } from "./_lib/errors.js";
+
+// Lists users with their role (GET) and grants or revokes a role (POST) for the admin "Rôles" screen.
+export default withCors(['GET', 'POST'], withPermission('roles.manage', async (req, res, { supabase, user }) => {
+    if (req.method === 'GET') {
+        const { data, error } = await (supabase.from('profiles') as any)
+            .select('id, email, xp, role')
+            .order('email', { ascending: true });
+        if (error) throw error;
+
+        const users: Omit<Profile, 'level'>[] = (data ?? []).map((row: any) => ({ ...row, role: toRole(row.role) }));
+        return res.status(200).json({ users });
+    }
+
+    const { userId, role } = parse(setRoleSchema, req.body);
+
+    // An admin cannot demote themselves, so there is always at least one account able to manage roles.
+    if (userId === user.id && role !== 'admin') {
+        throw new BadRequestError("Vous ne pouvez pas retirer votre propre rôle d'administrateur.");
+    }
+
+    const { data, error } = await (supabase.from('profiles') as any)
+        .update({ role })
+        .eq('id', userId)
+        .select('id, email, xp, role')
+        .maybeSingle();
+    if (error) throw error;
+    if (!data) throw new NotFoundError("Utilisateur introuvable.");
+
+    console.log(`Role of ${data.email} set to '${role}' by ${user.email}.`);
+    return res.status(200).json({ success: true, message: "Rôle mis à jour.", user: { ...data, role: toRole(data.role) } });
+}));
@@ -1,105 +1,64 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
-import { createClient } from "@supabase/supabase-js";
-import type { VercelRequest, VercelResponse } from '@vercel/node';
-import type { DialogueMessage } from '../src/types.js';
-import aiUsageLimiter from './_lib/ai-usage-limiter.js';
 import { cleanLatex } from "./_lib/math-validator.js";
-
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-    res.setHeader('Access-Control-Allow-Credentials', 'true');
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'POST,OPTIONS');
-    res.setHeader(
-        'Access-Control-Allow-Headers',
-        'Authorization, X-CSRF-Token, X-Requested-With, Accept, Accept-Version, Content-Length, Content-MD5, Content-Type, Date, X-Api-Version'
-    );
-    
-    if (req.method === 'OPTIONS') {
-        res.status(200).end();
-        return;
+import mockExams from "./_lib/mock-exams.js";
+import mastery from "./_lib/mastery.js";
+import achievements from "./_lib/achievements.js";
+import xp from "./_lib/xp.js";
+import dataAccess from "./_lib/data-access.js";
+import { parse } from "./_lib/validation.js";
+import { socraticAnswerSchema } from "./_lib/schemas.js";
+import { withCors, withAuth, withRateLimit, requireEnv } from "./_lib/middleware.js";
+import { NotFoundError, UpstreamError } from "./_lib/errors.js";
+
+// Checks a student's answer to the current step of a socratic tutoring dialogue. With an exercise, the step is the
+// one of the path stored by /api/explain, and the statement and correction come from the curriculum: a right answer
+// to its last step finishes the session, grants its XP once per exercise (`xpGained`) and evaluates the badges
+// (`unlockedBadges`). Unavailable during a mock exam.
+export default withCors(['POST'], withAuth(withRateLimit('SOCRATIC_VALIDATION', async (req, res, { supabase, user }) => {
+    const { GEMINI_API_KEY: apiKey } = requireEnv('GEMINI_API_KEY');
+    await mockExams.assertNoRunningExam(supabase, user.id);
+
+    let { studentAnswer, currentIaQuestion, expectedAnswerKeywords, exerciseStatement, exerciseCorrection, dialogueHistory, exerciseId } = parse(socraticAnswerSchema, req.body);
+
+    const exercise = exerciseId ? await dataAccess.getExerciseById(exerciseId) : undefined;
+    if (exerciseId && !exercise) throw new NotFoundError("Exercice non trouvé.");
+    const tutorStep = exerciseId ? await achievements.getTutorStep(supabase, user.id, exerciseId) : null;
+    if (exercise) {
+        exerciseStatement = exercise.statement;
+        exerciseCorrection = exercise.fullCorrection || exercise.correctionSnippet || exerciseCorrection;
     }
-
-    if (req.method !== 'POST') {
-        return res.status(405).json({ error: 'Method Not Allowed' });
+    if (tutorStep) {
+        currentIaQuestion = tutorStep.step.ia_question;
+        expectedAnswerKeywords = tutorStep.step.expected_answer_keywords;
     }
 
-    const apiKey = process.env.GEMINI_API_KEY;
-    const supabaseUrl = process.env.SUPABASE_URL;
-    const supabaseServiceKey = process.env.SUPABASE_SERVICE_KEY;
-
-    const missingVars = [];
-    if (!apiKey) missingVars.push('GEMINI_API_KEY');
-    if (!supabaseUrl) missingVars.push('SUPABASE_URL');
-    if (!supabaseServiceKey) missingVars.push('SUPABASE_SERVICE_KEY');
-
-    if (missingVars.length > 0) {
-        const errorMsg = `Configuration du serveur incomplète. Variables d'environnement manquantes: ${missingVars.join(', ')}`;
-        return res.status(500).json({ error: errorMsg });
-    }
-
-    try {
-        const authHeader = req.headers.authorization;
-        if (!authHeader) {
-            return res.status(401).json({ error: 'L\'authentification est requise.' });
-        }
-        const token = authHeader.split(' ')[1];
-        const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
-        const { data: { user }, error: userError } = await supabase.auth.getUser(token);
-
-        if (userError || !user) {
-            return res.status(401).json({ error: 'Jeton d\'authentification invalide ou expiré.' });
-        }
-
-        const { limitExceeded, limit } = await aiUsageLimiter.checkUsageLimit(supabase, user.id, 'SOCRATIC_VALIDATION');
-        if (limitExceeded) {
-            const error: any = new Error(`Vous avez atteint votre limite de ${limit} vérifications par jour.`);
-            error.status = 429;
-            throw error;
-        }
-        
-        let { studentAnswer, currentIaQuestion, expectedAnswerKeywords, exerciseStatement, exerciseCorrection, dialogueHistory } = req.body as { 
-            studentAnswer?: string, 
-            currentIaQuestion?: string, 
-            expectedAnswerKeywords?: string[],
-            exerciseStatement?: string,
-            exerciseCorrection?: string,
-            dialogueHistory?: DialogueMessage[]
-        };
-        
-        if (studentAnswer === undefined) {
-             return res.status(400).json({ error: "Le champ 'studentAnswer' est requis (peut être vide)." });
-        }
-        if (!currentIaQuestion || !Array.isArray(expectedAnswerKeywords) || !exerciseStatement || !exerciseCorrection || !Array.isArray(dialogueHistory)) {
-            return res.status(400).json({ error: "Les champs 'currentIaQuestion', 'expectedAnswerKeywords', 'exerciseStatement', 'exerciseCorrection' et 'dialogueHistory' sont requis." });
-        }
-
-        // Clean student answer to ensure consistent LaTeX format
-        studentAnswer = cleanLatex(studentAnswer);
-        
-        const ai = new GoogleGenAI({ apiKey: apiKey! });
-        
-        const answerSchema = {
-            type: Type.OBJECT,
-            properties: {
-                is_correct: {
-                    type: Type.BOOLEAN,
-                    description: "True si la réponse de l'élève est conceptuellement correcte, sinon false."
-                },
-                feedback_message: {
-                    type: Type.STRING,
-                    description: "Si correct, un feedback positif. Si incorrect, un indice contextuel basé sur l'erreur de l'élève. Doit être encourageant et en français simple."
-                }
+    // Clean student answer to ensure consistent LaTeX format
+    studentAnswer = cleanLatex(studentAnswer);
+    
+    const ai = new GoogleGenAI({ apiKey });
+    
+    const answerSchema = {
+        type: Type.OBJECT,
+        properties: {
+            is_correct: {
+                type: Type.BOOLEAN,
+                description: "True si la réponse de l'élève est conceptuellement correcte, sinon false."
             },
-            required: ["is_correct", "feedback_message"],
-        };
+            feedback_message: {
+                type: Type.STRING,
+                description: "Si correct, un feedback positif. Si incorrect, un indice contextuel basé sur l'erreur de l'élève. Doit être encourageant et en français simple."
+            }
+        },
+        required: ["is_correct", "feedback_message"],
+    };
 
-        const formattedHistory = (dialogueHistory || [])
-            .slice(-10) // Take last 10 messages to avoid overly long prompts
-            .map(msg => `${msg.role === 'ai' ? 'Tuteur' : 'Élève'}: ${msg.content}`)
-            .join('\n\n');
+    const formattedHistory = (dialogueHistory || [])
+        .slice(-10) // Take last 10 messages to avoid overly long prompts
+        .map(msg => `${msg.role === 'ai' ? 'Tuteur' : 'Élève'}: ${msg.content}`)
+        .join('\n\n');
 
-        const promptText = `
+    const promptText = `
 # CONTEXTE GLOBAL
 Tu es un tuteur de mathématiques expert. Ton rôle est d'évaluer la réponse d'un élève à TA DERNIÈRE question, en te basant sur l'HISTORIQUE COMPLET de la conversation pour être le plus pertinent possible.
 
@@ -132,40 +91,43 @@ ${formattedHistory}
 Réponds UNIQUEMENT avec un objet JSON valide suivant ce schéma : \`{ "is_correct": boolean, "feedback_message": "Ton message ici..." }\`.
 Dans ton \`feedback_message\`, l'utilisation des délimiteurs LaTeX comme \`$\` ou \`$$\` est **STRICTEMENT INTERDITE**. Utilise **UNIQUEMENT** des caractères Unicode pour les mathématiques (ex: ƒ(𝑥), 𝑥², ∈).
 `;
-        
-        const requestPayload = {
-            model: 'gemini-2.5-flash',
-            contents: promptText,
-            config: { 
-                responseMimeType: "application/json", 
-                responseSchema: answerSchema
-            }
-        };
-        
-
-        const response = await ai.models.generateContent(requestPayload);
-        
-        const jsonText = response.text;
-        if (!jsonText) {
-            throw new Error("L'IA a retourné une réponse vide. Veuillez réessayer.");
-        }
-        
-        let parsedJson;
-        try {
-            parsedJson = JSON.parse(jsonText.trim());
-        } catch (e) {
-            console.error("Failed to parse JSON from AI in validate-socratic-answer. Raw response:", jsonText);
-            throw new Error("La réponse de l'IA était mal formatée. Veuillez réessayer.");
+    
+    const requestPayload = {
+        model: 'gemini-2.5-flash',
+        contents: promptText,
+        config: { 
+            responseMimeType: "application/json", 
+            responseSchema: answerSchema
         }
-        
-        await aiUsageLimiter.logAiCall(supabase, user.id, 'SOCRATIC_VALIDATION');
-        
-        return res.status(200).json(parsedJson);
-
-    } catch (error: any) {
-        console.error("Error in validate-socratic-answer:", error);
-        const status = error.status || 500;
-        const message = error.message || "Une erreur interne est survenue.";
-        return res.status(status).json({ error: message });
+    };
+    
+
+    const response = await ai.models.generateContent(requestPayload);
+    
+    const jsonText = response.text;
+    if (!jsonText) {
+        throw new UpstreamError("L'IA a retourné une réponse vide. Veuillez réessayer.");
     }
-}
+    
+    let parsedJson;
+    try {
+        parsedJson = JSON.parse(jsonText.trim());
+    } catch (e) {
+        console.error("Failed to parse JSON from AI in validate-socratic-answer. Raw response:", jsonText);
+        throw new UpstreamError("La réponse de l'IA était mal formatée. Veuillez réessayer.");
+    }
+
+    if (exerciseId && typeof parsedJson.is_correct === 'boolean') {
+        await mastery.recordTutorStep(supabase, user.id, exerciseId, parsedJson.is_correct);
+    }
+
+    // A right answer moves the stored path on; the session is finished when that was its last step.
+    if (exerciseId && tutorStep && parsedJson.is_correct === true
+        && await achievements.advanceTutorPath(supabase, user.id, exerciseId, tutorStep)) {
+        await achievements.recordTutorSession(supabase, user.id, exerciseId);
+        parsedJson.xpGained = await xp.grantTutorSession(supabase, user.id, exerciseId);
+        parsedJson.unlockedBadges = await achievements.evaluateBadges(supabase, user.id);
+    }
+    
+    return res.status(200).json(parsedJson);
+})));
@@ -0,0 +1,83 @@
+// Migrates the curriculum from the legacy single-row `curriculum` JSONB table into the
+// relational tables (levels, chapters, series, exercises, quizzes, quiz_questions).
+// To run this script:
+// 1. Create the tables and the `upsert_curriculum_rows` function (SQL in api/_lib/data-access.ts)
+// 2. Make sure you have a .env file with SUPABASE_URL and SUPABASE_SERVICE_KEY
+// 3. Run `npx ts-node scripts/migrate-curriculum-to-tables.ts`
+//    Add `--from-file` to import public/data.json instead of the JSONB row.
+import 'dotenv/config';
+import { createClient } from '@supabase/supabase-js';
+import curriculumData from '../public/data.json';
+import { Level } from '../src/types';
+import { curriculumToRows } from '../src/utils/curriculum-rows';
+
+// --- Load Environment Variables ---
+const SUPABASE_URL = process.env.SUPABASE_URL;
+const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_KEY;
+
+if (!SUPABASE_URL || !SUPABASE_SERVICE_KEY) {
+    throw new Error("Missing environment variables. Make sure SUPABASE_URL and SUPABASE_SERVICE_KEY are set in your .env file.");
+}
+
+// --- Initialize Client ---
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY, {
+    auth: {
+        autoRefreshToken: false,
+        persistSession: false
+    }
+});
+
+async function loadSourceCurriculum(): Promise<Level[]> {
+    if (process.argv.includes('--from-file')) {
+        console.log("📄 Reading curriculum from public/data.json...");
+        return curriculumData.levels as Level[];
+    }
+
+    console.log("🗄️  Reading curriculum from the legacy 'curriculum' JSONB row...");
+    const { data, error } = await (supabase
+        .from('curriculum') as any)
+        .select('data')
+        .eq('id', 1)
+        .single();
+
+    if (error && error.code !== 'PGRST116') {
+        throw new Error(`Could not read the legacy curriculum row: ${error.message}`);
+    }
+    if (data?.data && Array.isArray(data.data) && data.data.length > 0) {
+        return data.data as Level[];
+    }
+
+    console.warn("⚠️ Legacy row is missing or empty. Falling back to public/data.json.");
+    return curriculumData.levels as Level[];
+}
+
+async function migrateCurriculum() {
+    console.log("🚀 Starting curriculum migration...");
+
+    const levels = await loadSourceCurriculum();
+    const rows = curriculumToRows(levels);
+
+    // IDs must be unique per table: they are the primary keys referenced by user progress.
+    for (const [table, tableRows] of Object.entries(rows)) {
+        const ids = new Set<string>();
+        for (const row of tableRows as { id: string }[]) {
+            if (ids.has(row.id)) {
+                throw new Error(`Duplicate ID '${row.id}' in table '${table}'. Fix the source data before migrating.`);
+            }
+            ids.add(row.id);
+        }
+    }
+
+    console.log(`Found ${rows.levels.length} levels, ${rows.chapters.length} chapters, ${rows.series.length} series, ` +
+        `${rows.exercises.length} exercises, ${rows.quizzes.length} quizzes and ${rows.quiz_questions.length} questions.`);
+
+    // Single RPC call so the whole migration runs in one transaction.
+    const { error } = await (supabase.rpc as any)('upsert_curriculum_rows', { payload: rows });
+    if (error) {
+        throw new Error(`Migration failed: ${error.message}`);
+    }
+
+    console.log("✅ Curriculum migration finished!");
+}
+
+migrateCurriculum().catch(console.error);
@@ -4,15 +4,52 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { addStyles } from 'react-mathquill';
 import { Header } from '@/components/Header';
 import { Footer } from '@/components/Footer';
-import { Level, Chapter, Exercise, Quiz, Series, QuizQuestion, DeletionInfo, ModalState, View, CurriculumActionPayload, ExerciseContext, DialogueMessage } from '@/types';
+import { Level, Chapter, Exercise, Quiz, Series, QuizQuestion, DeletionInfo, ModalState, View, CurriculumActionPayload, CurriculumConflict, ValidationIssue, ExerciseContext, DialogueMessage, CurriculumItemRef, SearchResult } from '@/types';
 import { SpinnerIcon } from '@/components/icons';
 import { useAuth } from '@/contexts/AuthContext';
 import { getCurriculum } from '@/services/api';
 import { getSupabase } from '@/services/authService';
+import { locateItem } from '@/utils/curriculum-tree';
+import { hasPermission } from '@/utils/permissions';
 import { MainContent } from '@/components/MainContent';
 import { ModalManager } from '@/components/ModalManager';
 import { NavigationSidebar } from '@/components/NavigationSidebar';
 
+// Raised when the server rejects a write because the item changed since it was loaded (HTTP 409).
+class CurriculumConflictError extends Error {
+    conflict: CurriculumConflict;
+    constructor(conflict: CurriculumConflict) {
+        super(conflict.error);
+        this.name = 'CurriculumConflictError';
+        this.conflict = conflict;
+    }
+}
+
+/**
+ * Finds the `updatedAt` revision of an item in the loaded curriculum, used as the base
+ * revision of a write. Returns null when the item is new (not in the curriculum yet).
+ */
+const findUpdatedAt = (levels: Level[] | null, type: DeletionInfo['type'], id: string | undefined): string | null => {
+    if (!levels || !id) return null;
+    for (const level of levels) {
+        if (type === 'level' && level.id === id) return level.updatedAt ?? null;
+        for (const chapter of level.chapters ?? []) {
+            if (type === 'chapter' && chapter.id === id) return chapter.updatedAt ?? null;
+            for (const series of chapter.series ?? []) {
+                if (type === 'series' && series.id === id) return series.updatedAt ?? null;
+                const exercise = type === 'exercise' ? series.exercises?.find(e => e.id === id) : undefined;
+                if (exercise) return exercise.updatedAt ?? null;
+            }
+            for (const quiz of chapter.quizzes ?? []) {
+                if (type === 'quiz' && quiz.id === id) return quiz.updatedAt ?? null;
+                const question = type === 'quizQuestion' ? quiz.questions?.find(q => q.id === id) : undefined;
+                if (question) return question.updatedAt ?? null;
+            }
+        }
+    }
+    return null;
+};
+
 const callUpdateApi = async (body: CurriculumActionPayload) => {
     const supabase = getSupabase();
     const { data: { session } } = await supabase.auth.getSession();
@@ -31,7 +68,15 @@ const callUpdateApi = async (body: CurriculumActionPayload) => {
 
     if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.error || "La mise à jour a échoué.");
+        // Other 409s (e.g. restoring under a missing parent) are plain errors.
+        if (errorData.code === 'CURRICULUM_CONFLICT') {
+            throw new CurriculumConflictError(errorData as CurriculumConflict);
+        }
+        // A 400 lists the rejected fields: show them to the admin.
+        const details = Array.isArray(errorData.issues)
+            ? '\n' + errorData.issues.map((issue: ValidationIssue) => `${issue.path} : ${issue.message}`).join('\n')
+            : '';
+        throw new Error((errorData.error || "La mise à jour a échoué.") + details);
     }
     return response.json(); 
 };
@@ -69,10 +114,13 @@ export const App: React.FC = () => {
 
     useEffect(() => { addStyles(); }, []);
 
+    // Editors load the complete tree (answer keys, full corrections); everyone else the public one.
+    const canEditCurriculum = hasPermission(user, 'curriculum.edit');
+
     const fetchInitialData = useCallback(async () => {
         setIsLoadingData(true);
         try {
-            const data = await getCurriculum();
+            const data = await getCurriculum(canEditCurriculum);
             setCurriculum(data);
         } catch (error) {
             console.error("❌ Erreur lors du chargement du programme :", error);
@@ -80,11 +128,11 @@ export const App: React.FC = () => {
         } finally {
             setIsLoadingData(false);
         }
-    }, []);
+    }, [canEditCurriculum]);
 
     useEffect(() => {
-        fetchInitialData();
-    }, [fetchInitialData]);
+        if (!isAuthLoading) fetchInitialData();
+    }, [fetchInitialData, isAuthLoading]);
 
     useEffect(() => {
         if (!isAuthLoading) {
@@ -93,7 +141,7 @@ export const App: React.FC = () => {
                      setView('dashboard');
                 }
             } else {
-                const protectedViews: View[] = ['dashboard', 'chat', 'courses', 'chapters', 'chapterHome', 'seriesList', 'exerciseList', 'exercise', 'quiz', 'tutor'];
+                const protectedViews: View[] = ['dashboard', 'chat', 'courses', 'chapters', 'chapterHome', 'seriesList', 'exerciseList', 'exercise', 'quiz', 'tutor', 'history', 'trash', 'bundle', 'roles', 'classrooms', 'mockExam', 'review'];
                 if (protectedViews.includes(view)) {
                     setView('home');
                 }
@@ -155,6 +203,15 @@ export const App: React.FC = () => {
     const handleSelectSeries = (seriesId: string) => { setSelectedSeriesId(seriesId); resetSelections('series'); setView('exerciseList'); };
     const handleSelectExercise = (exerciseId: string) => { setSelectedExerciseId(exerciseId); setSelectedRoomId(null); setView('exercise'); };
     const handleSelectQuiz = (quizId: string) => { setSelectedQuizId(quizId); setView('quiz'); };
+    const handleOpenItem = (ref: CurriculumItemRef) => {
+        const item = curriculum && locateItem(curriculum, ref);
+        if (!item) return;
+        setSelectedLevelId(item.level.id);
+        setSelectedChapterId(item.chapter.id);
+        setSelectedSeriesId(item.series?.id ?? null);
+        if (ref.type === 'exercise') handleSelectExercise(ref.id);
+        else handleSelectQuiz(ref.id);
+    };
     const handleNavigateToChat = (context: ExerciseContext) => { setSelectedExerciseContext(context); setView('chat'); };
     const handleNavigateToTutor = (context: ExerciseContext) => { setSelectedExerciseContext(context); setView('tutor'); };
     const handleNavigateToTimestamp = (levelId: string, chapterId: string, videoId: string, time: number) => {
@@ -163,6 +220,24 @@ export const App: React.FC = () => {
         setVideoNavigation({ videoId, time });
         setView('chapterHome');
     };
+    const handleOpenSearchResult = (result: SearchResult) => {
+        if (result.type === 'video') {
+            handleNavigateToTimestamp(result.levelId, result.chapterId, result.id, result.startTime ?? 0);
+            return;
+        }
+        resetSelections('all');
+        setSelectedLevelId(result.levelId);
+        setSelectedChapterId(result.chapterId);
+        if (result.type === 'exercise' && result.exerciseContext) {
+            setSelectedSeriesId(result.exerciseContext.seriesId);
+            setSelectedExerciseContext(result.exerciseContext);
+            handleSelectExercise(result.exerciseContext.exerciseId);
+        } else if (result.type === 'quizQuestion' && result.quizId) {
+            handleSelectQuiz(result.quizId);
+        } else {
+            setView('chapterHome');
+        }
+    };
     const handleSelectRoom = (roomId: string | null) => setSelectedRoomId(roomId);
     
     const handleUpdateTutorSession = useCallback((exerciseId: string, dialogue: DialogueMessage[]) => {
@@ -177,8 +252,12 @@ export const App: React.FC = () => {
     const openModal = (modalState: ModalState) => setModal(modalState);
     const closeModal = () => setModal(null);
     
-    const handleCRUDError = (error: unknown, operation: string) => {
+    const handleCRUDError = (error: unknown, operation: string, request?: CurriculumActionPayload, mine?: Record<string, any>) => {
         console.error(`${operation} a échoué, restauration de l'état.`, error);
+        if (error instanceof CurriculumConflictError && request) {
+            openModal({ type: 'conflict', payload: { operation, request, mine: mine ?? null, conflict: error.conflict } });
+            return;
+        }
         alert(`La sauvegarde a échoué (${operation}). Vos modifications ont été annulées.\nErreur: ${error instanceof Error ? error.message : String(error)}`);
     };
 
@@ -199,11 +278,12 @@ export const App: React.FC = () => {
         setCurriculum(optimisticCurriculum);
         closeModal();
 
+        const request: CurriculumActionPayload = { action: 'ADD_OR_UPDATE_LEVEL', payload: { level: levelData }, baseUpdatedAt: findUpdatedAt(originalCurriculum, 'level', levelData.id) };
         try {
-            await callUpdateApi({ action: 'ADD_OR_UPDATE_LEVEL', payload: { level: levelData } });
+            await callUpdateApi(request);
             await fetchInitialData(); // Re-sync with database
         } catch (error) {
-            handleCRUDError(error, 'niveau');
+            handleCRUDError(error, 'niveau', request, levelData);
             setCurriculum(originalCurriculum);
         }
     };
@@ -228,11 +308,12 @@ export const App: React.FC = () => {
         setCurriculum(optimisticCurriculum);
         closeModal();
 
+        const request: CurriculumActionPayload = { action: 'ADD_OR_UPDATE_CHAPTER', payload: { levelId: selectedLevelId, chapter: chapterData }, baseUpdatedAt: findUpdatedAt(originalCurriculum, 'chapter', chapterData.id) };
         try {
-            await callUpdateApi({ action: 'ADD_OR_UPDATE_CHAPTER', payload: { levelId: selectedLevelId, chapter: chapterData } });
+            await callUpdateApi(request);
             await fetchInitialData(); // Re-sync with database
         } catch (error) {
-            handleCRUDError(error, 'chapitre');
+            handleCRUDError(error, 'chapitre', request, chapterData);
             setCurriculum(originalCurriculum);
         }
     };
@@ -261,11 +342,12 @@ export const App: React.FC = () => {
         setCurriculum(optimisticCurriculum);
         closeModal();
 
+        const request: CurriculumActionPayload = { action: 'ADD_OR_UPDATE_SERIES', payload: { levelId: selectedLevelId, chapterId, series: seriesData }, baseUpdatedAt: findUpdatedAt(originalCurriculum, 'series', seriesData.id) };
         try {
-            await callUpdateApi({ action: 'ADD_OR_UPDATE_SERIES', payload: { levelId: selectedLevelId, chapterId, series: seriesData } });
+            await callUpdateApi(request);
             await fetchInitialData(); // Re-sync with database
         } catch (error) {
-            handleCRUDError(error, 'série');
+            handleCRUDError(error, 'série', request, seriesData);
             setCurriculum(originalCurriculum);
         }
     };
@@ -298,11 +380,12 @@ export const App: React.FC = () => {
         setCurriculum(optimisticCurriculum);
         closeModal();
 
+        const request: CurriculumActionPayload = { action: 'ADD_OR_UPDATE_EXERCISE', payload: { levelId: selectedLevelId, chapterId: selectedChapterId, seriesId, exercise: exerciseData }, baseUpdatedAt: findUpdatedAt(originalCurriculum, 'exercise', exerciseData.id) };
         try {
-            await callUpdateApi({ action: 'ADD_OR_UPDATE_EXERCISE', payload: { levelId: selectedLevelId, chapterId: selectedChapterId, seriesId, exercise: exerciseData } });
+            await callUpdateApi(request);
             await fetchInitialData(); // Re-sync with database
         } catch (error) {
-            handleCRUDError(error, 'exercice');
+            handleCRUDError(error, 'exercice', request, exerciseData);
             setCurriculum(originalCurriculum);
         }
     };
@@ -330,11 +413,12 @@ export const App: React.FC = () => {
         
         setCurriculum(optimisticCurriculum);
     
+        const request: CurriculumActionPayload = { action: 'ADD_OR_UPDATE_QUIZ', payload: { levelId: selectedLevelId, chapterId, quiz: quizData }, baseUpdatedAt: findUpdatedAt(originalCurriculum, 'quiz', quizData.id) };
         try {
-            await callUpdateApi({ action: 'ADD_OR_UPDATE_QUIZ', payload: { levelId: selectedLevelId, chapterId, quiz: quizData } });
+            await callUpdateApi(request);
             await fetchInitialData(); 
         } catch (error) {
-            handleCRUDError(error, 'quiz');
+            handleCRUDError(error, 'quiz', request, quizData);
             setCurriculum(originalCurriculum);
             throw error;
         }
@@ -344,18 +428,20 @@ export const App: React.FC = () => {
         if (!selectedLevelId) return;
     
         const originalCurriculum = curriculum;
+
+        // Encode question, options and explanation text to safely transmit special characters like '?'
+        const encodedQuestionData = {
+            ...questionData,
+            question: encodeURIComponent(questionData.question),
+            options: questionData.options?.map(opt => encodeURIComponent(opt)),
+            explanation: questionData.explanation !== undefined ? encodeURIComponent(questionData.explanation) : undefined,
+        };
+        const request: CurriculumActionPayload = { action: 'ADD_OR_UPDATE_QUIZ_QUESTION', payload: { levelId: selectedLevelId, chapterId, quizId, question: encodedQuestionData }, baseUpdatedAt: findUpdatedAt(originalCurriculum, 'quizQuestion', questionData.id) };
     
         try {
-            // Encode question and options text to safely transmit special characters like '?'
-            const encodedQuestionData = {
-                ...questionData,
-                question: encodeURIComponent(questionData.question),
-                options: questionData.options?.map(opt => encodeURIComponent(opt))
-            };
-
-            await callUpdateApi({ action: 'ADD_OR_UPDATE_QUIZ_QUESTION', payload: { levelId: selectedLevelId, chapterId, quizId, question: encodedQuestionData } });
+            await callUpdateApi(request);
             
-            const freshData = await getCurriculum();
+            const freshData = await getCurriculum(canEditCurriculum);
             setCurriculum(freshData);
     
             const freshQuiz = freshData.find(l => l.id === selectedLevelId)
@@ -366,7 +452,7 @@ export const App: React.FC = () => {
                 openModal({ type: 'editQuiz', payload: { quiz: freshQuiz, chapterId } });
             }
         } catch (error) {
-            handleCRUDError(error, 'question de quiz');
+            handleCRUDError(error, 'question de quiz', request, questionData);
             setCurriculum(originalCurriculum);
             throw error;
         }
@@ -401,15 +487,53 @@ export const App: React.FC = () => {
             if (updatedQuiz) openModal({ type: 'editQuiz', payload: { quiz: updatedQuiz, chapterId: ids.chapterId } });
         }
 
+        const deletedId = { level: ids.levelId, chapter: ids.chapterId, series: ids.seriesId, exercise: ids.exerciseId, quiz: ids.quizId, quizQuestion: ids.questionId }[type];
+        const request: CurriculumActionPayload = { action: 'DELETE_ITEM', payload: delInfo, baseUpdatedAt: findUpdatedAt(originalCurriculum, type, deletedId) };
         try {
-            await callUpdateApi({ action: 'DELETE_ITEM', payload: delInfo });
+            await callUpdateApi(request);
             await fetchInitialData(); // Re-sync with database
         } catch (error) {
-            handleCRUDError(error, 'suppression');
-            setCurriculum(originalCurriculum);
             if (type === 'quizQuestion') closeModal();
+            handleCRUDError(error, 'suppression', request);
+            setCurriculum(originalCurriculum);
         }
     };
+
+    // --- REVISION HISTORY ---
+    const handleRestoreRevision = async (revisionId: number, side: 'before' | 'after') => {
+        await callUpdateApi({ action: 'RESTORE_REVISION', payload: { revisionId, side }, baseUpdatedAt: null });
+        await fetchInitialData();
+    };
+
+    const handleRestoreCurriculum = async (revisionId: number) => {
+        await callUpdateApi({ action: 'RESTORE_CURRICULUM', payload: { revisionId }, baseUpdatedAt: null });
+        await fetchInitialData();
+    };
+
+    // --- TRASH ---
+    const handleRestoreTrashItem = async (trashId: number) => {
+        await callUpdateApi({ action: 'RESTORE_ITEM', payload: { trashId }, baseUpdatedAt: null });
+        await fetchInitialData();
+    };
+
+    const handlePurgeTrash = async (options: { trashId?: number; olderThanDays?: number }) => {
+        await callUpdateApi({ action: 'PURGE_TRASH', payload: options, baseUpdatedAt: null });
+    };
+
+    // --- CONCURRENT EDIT RESOLUTION ---
+    const handleReloadAfterConflict = async () => {
+        await fetchInitialData();
+        closeModal();
+    };
+
+    // Re-sends the rejected write, based on the revision the server reported as current.
+    const handleOverwriteAfterConflict = async () => {
+        if (!modal || modal.type !== 'conflict') return;
+        const { request, conflict } = modal.payload;
+        await callUpdateApi({ ...request, baseUpdatedAt: conflict.currentUpdatedAt });
+        await fetchInitialData();
+        closeModal();
+    };
     
 
     if (isLoadingData || isAuthLoading) {
@@ -431,6 +555,7 @@ export const App: React.FC = () => {
                 onNavigate={handleNavigate}
                 showSidebarToggle={!!showSidebar}
                 onToggleSidebar={() => setIsSidebarOpen(!isSidebarOpen)}
+                onOpenSearchResult={handleOpenSearchResult}
             />
             <div className="flex-1 flex flex-row overflow-y-hidden">
                 {showSidebar && curriculum && (
@@ -458,11 +583,16 @@ export const App: React.FC = () => {
                                 tutorSessions={tutorSessions}
                                 videoNavigation={videoNavigation} onNavigate={handleNavigate} onSelectLevel={handleSelectLevel}
                                 onSelectChapter={handleSelectChapter} onSelectSeries={handleSelectSeries} onSelectSeriesList={handleSelectSeriesList}
-                                onSelectExercise={handleSelectExercise} onSelectQuiz={handleSelectQuiz} onNavigateToChat={handleNavigateToChat}
+                                onSelectExercise={handleSelectExercise} onSelectQuiz={handleSelectQuiz} onOpenItem={handleOpenItem} onNavigateToChat={handleNavigateToChat}
                                 onNavigateToTutor={handleNavigateToTutor} onNavigateToTimestamp={handleNavigateToTimestamp}
                                 onBackToDefault={handleBackToDefault} resetSelections={resetSelections} openModal={openModal}
                                 onSelectRoom={handleSelectRoom}
                                 onUpdateTutorSession={handleUpdateTutorSession}
+                                onRestoreRevision={handleRestoreRevision}
+                                onRestoreCurriculum={handleRestoreCurriculum}
+                                onRestoreTrashItem={handleRestoreTrashItem}
+                                onPurgeTrash={handlePurgeTrash}
+                                onImportComplete={fetchInitialData}
                             />
                         ) : (
                             <div className="text-center text-red-400">
@@ -479,6 +609,8 @@ export const App: React.FC = () => {
                 onSaveLevel={handleAddOrUpdateLevel} onSaveChapter={handleAddOrUpdateChapter} onSaveSeries={handleAddOrUpdateSeries}
                 onSaveExercise={handleAddOrUpdateExercise} onSaveQuiz={handleAddOrUpdateQuiz} onSaveQuizQuestion={handleAddOrUpdateQuizQuestion}
                 onConfirmDelete={handleConfirmDelete}
+                onReloadAfterConflict={handleReloadAfterConflict}
+                onOverwriteAfterConflict={handleOverwriteAfterConflict}
             />
         </div>
     );
@@ -0,0 +1,70 @@
+import React, { useMemo } from 'react';
+import { ActivityDay, DailyGoal } from '@/types';
+import { HEATMAP_WEEKS, addDays, heatmapStart, isGoalMet } from '@/utils/streaks';
+
+interface ActivityHeatmapProps {
+    days: ActivityDay[];
+    goal: DailyGoal;
+    today: string;
+    frozenDays: string[];
+}
+
+const WEEKDAY_LABELS = ['Lun', '', 'Mer', '', 'Ven', '', ''];
+
+const cellColor = (day: ActivityDay | undefined, goal: DailyGoal, frozen: boolean): string => {
+    if (frozen) return 'bg-sky-700';
+    const total = day ? day.exercises + day.quizzes : 0;
+    if (total === 0) return 'bg-slate-800';
+    if (isGoalMet(day, goal)) return total >= 4 ? 'bg-green-400' : 'bg-green-600';
+    return 'bg-green-900';
+};
+
+const describe = (date: string, day: ActivityDay | undefined, frozen: boolean): string => {
+    const label = new Date(`${date}T12:00:00Z`).toLocaleDateString('fr-FR', { weekday: 'long', day: 'numeric', month: 'long' });
+    if (frozen) return `${label} : jour gelé`;
+    if (!day) return `${label} : aucune activité`;
+    return `${label} : ${day.exercises} exercice(s), ${day.quizzes} quiz`;
+};
+
+/**
+ * GitHub-style calendar of the last `HEATMAP_WEEKS` weeks: one column per week (Monday first), one cell per day.
+ */
+export const ActivityHeatmap: React.FC<ActivityHeatmapProps> = ({ days, goal, today, frozenDays }) => {
+    const weeks = useMemo(() => {
+        const start = heatmapStart(today);
+        return Array.from({ length: HEATMAP_WEEKS }, (_, week) =>
+            Array.from({ length: 7 }, (_, weekday) => addDays(start, week * 7 + weekday)));
+    }, [today]);
+    const byDate = useMemo(() => new Map(days.map(day => [day.date, day])), [days]);
+    const frozen = useMemo(() => new Set(frozenDays), [frozenDays]);
+
+    return (
+        <div>
+            <div className="flex gap-1 overflow-x-auto pb-2">
+                <div className="flex flex-col gap-1 mr-1">
+                    {WEEKDAY_LABELS.map((label, index) => (
+                        <span key={index} className="h-3 text-[10px] leading-3 text-slate-500">{label}</span>
+                    ))}
+                </div>
+                {weeks.map(week => (
+                    <div key={week[0]} className="flex flex-col gap-1">
+                        {week.map(date => date > today
+                            ? <span key={date} className="w-3 h-3" />
+                            : (
+                                <span
+                                    key={date}
+                                    className={`w-3 h-3 rounded-sm ${cellColor(byDate.get(date), goal, frozen.has(date))} ${date === today ? 'ring-1 ring-slate-300' : ''}`}
+                                    title={describe(date, byDate.get(date), frozen.has(date))}
+                                />
+                            ))}
+                    </div>
+                ))}
+            </div>
+            <div className="mt-2 flex flex-wrap items-center gap-4 text-xs text-slate-400">
+                <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-green-900" /> Activité</span>
+                <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-green-600" /> Objectif atteint</span>
+                <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-sky-700" /> Jour gelé</span>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,196 @@
+import React, { useState, useRef } from 'react';
+import { SpinnerIcon, CameraIcon, TrashIcon, PlusCircleIcon } from './icons';
+import { MathKeyboard } from './MathKeyboard';
+import { MathJaxRenderer } from './MathJaxRenderer';
+import { extractTextFromImages } from '../services/geminiService';
+
+interface AnswerComposerProps {
+    title: string;
+    submitLabel: string;                  // Text mode
+    confirmLabel: string;                 // Photo mode, once the transcription has been checked
+    onSubmit: (answer: string) => void | Promise<void>;
+    onError: (message: string | null) => void;
+    isSubmitting?: boolean;
+    disabled?: boolean;
+    notice?: React.ReactNode;             // Shown between the title and the inputs
+}
+
+type UploadedImage = {
+    id: string;
+    src: string;
+    file: File;
+};
+
+/**
+ * Written answer to an exercise, typed with the math keyboard or photographed and transcribed
+ * (the student checks the transcription before it is submitted).
+ */
+export const AnswerComposer: React.FC<AnswerComposerProps> = ({ title, submitLabel, confirmLabel, onSubmit, onError, isSubmitting = false, disabled = false, notice }) => {
+    const [inputMode, setInputMode] = useState<'text' | 'photo'>('text');
+    const [isKeyboardOpen, setIsKeyboardOpen] = useState(false);
+
+    const [studentAnswer, setStudentAnswer] = useState<string>('');
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [uploadedImages, setUploadedImages] = useState<UploadedImage[]>([]);
+
+    const [ocrText, setOcrText] = useState<string>('');
+    const [isVerificationStep, setIsVerificationStep] = useState(false);
+    const [isOcrLoading, setIsOcrLoading] = useState(false);
+
+    const handleSubmit = async (answerText: string) => {
+        if (!answerText.trim()) return;
+        await onSubmit(answerText);
+        setIsVerificationStep(false);
+    };
+
+    const handleFilesSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = event.target.files;
+        if (!files) return;
+
+        onError(null);
+
+        const newImages: UploadedImage[] = Array.from(files).map((file: File) => ({
+            id: `${file.name}-${file.lastModified}-${Math.random()}`,
+            src: URL.createObjectURL(file),
+            file,
+        }));
+        setUploadedImages(prev => [...prev, ...newImages]);
+    };
+
+    const handleRemoveImage = (idToRemove: string) => {
+        setUploadedImages(prev => prev.filter(img => img.id !== idToRemove));
+    };
+
+    const handleExtractTextFromImages = async () => {
+        if (uploadedImages.length === 0) return;
+
+        setIsOcrLoading(true);
+        onError(null);
+
+        try {
+            setOcrText(await extractTextFromImages(uploadedImages.map(image => image.file)));
+            setIsVerificationStep(true);
+        } catch (err) {
+            onError(err instanceof Error ? err.message : 'Une erreur est survenue lors du traitement des images.');
+        } finally {
+            setIsOcrLoading(false);
+        }
+    };
+
+    return (
+        <div>
+             <div className="flex justify-between items-center mb-4">
+                <h3 className="text-xl font-semibold text-gray-200">{title}</h3>
+                <div className="flex items-center gap-2 p-1 bg-gray-700 rounded-lg">
+                    <button onClick={() => setInputMode('text')} className={`px-3 py-1 text-sm rounded-md ${inputMode === 'text' ? 'bg-brand-blue-600 text-white' : 'text-gray-300'}`}>Texte</button>
+                    <button onClick={() => setInputMode('photo')} className={`px-3 py-1 text-sm rounded-md ${inputMode === 'photo' ? 'bg-brand-blue-600 text-white' : 'text-gray-300'}`}>Photo</button>
+                </div>
+            </div>
+
+            {notice}
+
+            {inputMode === 'text' && (
+                <div className="space-y-4">
+                    {studentAnswer && !isKeyboardOpen && (
+                         <div className="p-4 bg-gray-900/50 rounded-lg border border-gray-600">
+                             <MathJaxRenderer content={`$$${studentAnswer}$$`} />
+                         </div>
+                    )}
+                    <button
+                        onClick={() => setIsKeyboardOpen(true)}
+                        className="w-full px-5 py-3 font-semibold text-white bg-gray-600 rounded-lg shadow-md hover:bg-gray-500 transition-colors"
+                        disabled={disabled}
+                    >
+                        {studentAnswer ? "Modifier ma réponse" : "Saisir ma réponse"}
+                    </button>
+
+                    {isKeyboardOpen && (
+                         <MathKeyboard 
+                            initialValue={studentAnswer}
+                            onConfirm={(latex) => { setStudentAnswer(latex); setIsKeyboardOpen(false); }}
+                            onClose={() => setIsKeyboardOpen(false)}
+                         />
+                    )}
+
+                    <button
+                        onClick={() => handleSubmit(studentAnswer)}
+                        disabled={isSubmitting || !studentAnswer.trim() || disabled}
+                        className="w-full flex items-center justify-center gap-2 px-5 py-3 font-semibold text-white bg-brand-blue-600 rounded-lg shadow-md hover:bg-brand-blue-700 disabled:opacity-70 disabled:cursor-not-allowed"
+                    >
+                        {isSubmitting && <SpinnerIcon className="w-5 h-5 animate-spin" />}
+                        {submitLabel}
+                    </button>
+                </div>
+            )}
+
+            {inputMode === 'photo' && (
+                isVerificationStep ? (
+                     <div className="space-y-4 animate-fade-in">
+                        <h4 className="font-semibold text-yellow-300">Vérifiez la transcription de vos photos</h4>
+                        <p className="text-sm text-slate-400">Corrigez le texte ci-dessous si nécessaire, puis soumettez-le pour vérification.</p>
+                        <textarea
+                            value={ocrText}
+                            onChange={(e) => setOcrText(e.target.value)}
+                            rows={10}
+                            className="w-full p-3 bg-slate-950 border-2 border-slate-700 rounded-lg text-slate-300 font-mono"
+                        />
+                        <div className="flex flex-col sm:flex-row gap-4">
+                            <button
+                                onClick={() => handleSubmit(ocrText)}
+                                disabled={isSubmitting || !ocrText.trim() || disabled}
+                                className="flex-1 flex items-center justify-center gap-2 px-5 py-3 font-semibold text-white bg-brand-blue-600 rounded-lg shadow-md hover:bg-brand-blue-700 disabled:opacity-70"
+                            >
+                                {isSubmitting && <SpinnerIcon className="w-5 h-5 animate-spin" />}
+                                {confirmLabel}
+                            </button>
+                            <button
+                                onClick={() => {
+                                    setIsVerificationStep(false);
+                                    setOcrText('');
+                                    setUploadedImages([]);
+                                }}
+                                disabled={isSubmitting}
+                                className="px-5 py-3 font-semibold text-slate-300 bg-slate-700 rounded-lg shadow-md hover:bg-slate-600 disabled:opacity-70"
+                            >
+                                Annuler
+                            </button>
+                        </div>
+                    </div>
+                ) : (
+                    <div className="space-y-4">
+                        <input type="file" accept="image/*" ref={fileInputRef} onChange={handleFilesSelected} className="hidden" multiple />
+                        {uploadedImages.length > 0 && (
+                            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+                                {uploadedImages.map((image) => (
+                                    <div key={image.id} className="relative group aspect-[3/4]">
+                                        <img src={image.src} alt="Copie de l'élève" className="rounded-lg w-full h-full object-cover" />
+                                        <button onClick={() => handleRemoveImage(image.id)} className="absolute top-1 right-1 p-1.5 bg-black/60 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity z-10">
+                                            <TrashIcon className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                ))}
+                                <button onClick={() => fileInputRef.current?.click()} disabled={isOcrLoading || disabled} className="flex flex-col items-center justify-center text-gray-400 border-2 border-dashed border-gray-600 rounded-lg hover:bg-gray-900/50 hover:border-brand-blue-500 transition-colors disabled:opacity-50">
+                                    <PlusCircleIcon className="w-8 h-8"/>
+                                    <span className="text-sm mt-1">Ajouter</span>
+                                </button>
+                            </div>
+                        )}
+
+                        <button
+                            onClick={uploadedImages.length === 0 ? () => fileInputRef.current?.click() : handleExtractTextFromImages}
+                            disabled={isOcrLoading || disabled}
+                            className="w-full flex items-center justify-center gap-3 px-5 py-3 font-semibold text-white bg-brand-blue-600 rounded-lg shadow-md hover:bg-brand-blue-700 transition-colors disabled:opacity-70"
+                        >
+                            {isOcrLoading ? (
+                                <SpinnerIcon className="w-6 h-6 animate-spin" />
+                            ) : (
+                            <CameraIcon className="w-6 h-6" />
+                            )}
+                            {uploadedImages.length === 0 ? "Prendre / Choisir des photos" : "Extraire le texte des photos"}
+                        </button>
+                    </div>
+                )
+             )}
+        </div>
+    );
+};
@@ -0,0 +1,24 @@
+import React from 'react';
+import { BadgeStatus } from '@/types';
+
+/**
+ * Every badge: unlocked ones in color with their date, the others greyed out with how to earn them.
+ */
+export const BadgeGallery: React.FC<{ badges: BadgeStatus[] }> = ({ badges }) => (
+    <ul className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+        {badges.map(badge => (
+            <li
+                key={badge.id}
+                className={`p-4 rounded-xl border text-center ${badge.unlockedAt ? 'bg-yellow-500/10 border-yellow-500/40' : 'bg-slate-800/50 border-slate-700 opacity-60'}`}
+                title={badge.description}
+            >
+                <span className={`text-4xl ${badge.unlockedAt ? '' : 'grayscale'}`} role="img" aria-hidden="true">{badge.icon}</span>
+                <p className="mt-2 font-semibold text-slate-100">{badge.name}</p>
+                <p className="mt-1 text-xs text-slate-400">{badge.description}</p>
+                {badge.unlockedAt && (
+                    <p className="mt-2 text-xs text-yellow-400">Obtenu le {new Date(badge.unlockedAt).toLocaleDateString('fr-FR')}</p>
+                )}
+            </li>
+        ))}
+    </ul>
+);
@@ -1,9 +1,13 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Chapter, Quiz, VideoLink } from '@/types';
-import { ArrowLeftIcon, BookOpenIcon, QuestionMarkCircleIcon, DocumentTextIcon, PlayCircleIcon, PencilIcon, PlusCircleIcon, TrashIcon } from '@/components/icons';
+import { ArrowLeftIcon, BookOpenIcon, QuestionMarkCircleIcon, DocumentTextIcon, PlayCircleIcon, PencilIcon, PlusCircleIcon, TrashIcon, StarIcon } from '@/components/icons';
 import { MathJaxRenderer, processMarkdownWithMath } from '@/components/MathJaxRenderer';
 import { useAuth } from '@/contexts/AuthContext';
+import { ChapterProgress } from '@/components/ChapterProgress';
+import { SkillMap } from '@/components/SkillMap';
+import { useMastery } from '@/hooks/useMastery';
+import { summarizeAttempts } from '@/utils/quiz-attempts';
 
 interface ChapterHomePageProps {
     chapter: Chapter;
@@ -28,7 +32,12 @@ export const ChapterHomePage: React.FC<ChapterHomePageProps> = ({
     onEditQuiz,
     onDeleteQuiz
 }) => {
-    const { isAdmin } = useAuth();
+    const { user, can } = useAuth();
+    const canEdit = can('curriculum.edit');
+    const quizSummaries = useMemo(() => summarizeAttempts(user?.quiz_attempts ?? []), [user]);
+    const exerciseIds = chapter.series.flatMap(s => s.exercises.map(e => e.id));
+    const { data: masteryReport } = useMastery(!!user && !canEdit);
+    const chapterMastery = masteryReport?.chapters.find(c => c.chapterId === chapter.id);
     const [activeVideo, setActiveVideo] = useState<VideoLink | null>(null);
     const [videoUrl, setVideoUrl] = useState<string | null>(null);
 
@@ -76,8 +85,16 @@ export const ChapterHomePage: React.FC<ChapterHomePageProps> = ({
                     <div>
                         <h2 className="text-3xl font-bold text-brand-blue-300">{chapter.title}</h2>
                         <p className="mt-2 text-lg text-gray-400">Explorez les ressources de cette leçon.</p>
+                        {user && !canEdit && (
+                            <ChapterProgress
+                                completedCount={exerciseIds.filter(id => user.completed_exercises.includes(id)).length}
+                                totalCount={exerciseIds.length}
+                                quizSummaries={chapter.quizzes.flatMap(q => quizSummaries.get(q.id) ?? [])}
+                                mastery={chapterMastery}
+                            />
+                        )}
                     </div>
-                    {isAdmin && (
+                    {canEdit && (
                         <button
                             onClick={() => onEditChapter(chapter)}
                             className="flex items-center gap-2 px-3 py-2 text-sm font-semibold rounded-lg transition-colors duration-200 bg-gray-700/80 border border-gray-600 hover:bg-gray-600 text-gray-300 shadow-lg"
@@ -91,6 +108,17 @@ export const ChapterHomePage: React.FC<ChapterHomePageProps> = ({
             </div>
 
             <div className="space-y-8">
+                {/* Skill Map Section */}
+                {chapterMastery && chapterMastery.skills.length > 0 && (
+                    <div className="bg-gray-800/50 backdrop-blur-md rounded-xl border border-gray-700/50 p-6">
+                        <h3 className="text-xl font-semibold text-brand-blue-300 flex items-center gap-3 mb-4">
+                            <StarIcon className="w-6 h-6" />
+                            Compétences du chapitre
+                        </h3>
+                        <SkillMap skills={chapterMastery.skills} />
+                    </div>
+                )}
+
                 {/* Video Section */}
                 <div className="bg-gray-800/50 backdrop-blur-md rounded-xl border border-gray-700/50 p-6">
                     <div className="flex justify-between items-center mb-4">
@@ -156,7 +184,7 @@ export const ChapterHomePage: React.FC<ChapterHomePageProps> = ({
                                 <QuestionMarkCircleIcon className="w-6 h-6" />
                                 Quiz
                             </h3>
-                            {isAdmin && (
+                            {canEdit && (
                                 <button
                                     onClick={onAddQuiz}
                                     className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold rounded-lg transition-colors duration-200 bg-green-600/50 hover:bg-green-600 text-white"
@@ -172,8 +200,13 @@ export const ChapterHomePage: React.FC<ChapterHomePageProps> = ({
                                 <div key={quiz.id} className="group flex items-center justify-between gap-2 bg-gray-700/50 hover:bg-gray-700 transition-colors rounded-lg p-3">
                                     <button onClick={() => onSelectQuiz(quiz.id)} className="flex-grow text-left text-gray-200">
                                         {quiz.title}
+                                        {quizSummaries.has(quiz.id) && (
+                                            <span className="block text-xs text-gray-400">
+                                                Meilleur : {quizSummaries.get(quiz.id)!.best} % · {quizSummaries.get(quiz.id)!.attempts} tentative(s)
+                                            </span>
+                                        )}
                                     </button>
-                                    {isAdmin && (
+                                    {canEdit && (
                                         <div className="flex items-center opacity-50 group-hover:opacity-100 transition-opacity">
                                             <button 
                                                 onClick={() => onEditQuiz(quiz)}
@@ -1,13 +1,17 @@
-import React, { useMemo } from 'react';
-import { Level, Chapter } from '@/types';
-import { ArrowLeftIcon, PlusCircleIcon, PencilIcon, TrashIcon, SpinnerIcon } from '@/components/icons';
+import React from 'react';
+import { Level, Chapter, ChapterMastery } from '@/types';
+import { ArrowLeftIcon, PlusCircleIcon, PencilIcon, TrashIcon, SpinnerIcon, ClockIcon } from '@/components/icons';
 import { useAuth } from '@/contexts/AuthContext';
 import { CircularProgressBar } from '@/components/CircularProgressBar';
+import { MASTERY_LEVEL_STYLES } from '@/components/SkillMap';
+import { MASTERY_LEVEL_LABELS } from '@/utils/mastery';
+import { useMastery } from '@/hooks/useMastery';
 
 interface ChapterListPageProps {
     level: Level;
     onSelectChapter: (chapterId: string) => void;
     onBack: () => void;
+    onStartMockExam: () => void;
     onAddChapter: () => void;
     onEditChapter: (chapter: Chapter) => void;
     onDeleteChapter: (chapterId: string, chapterTitle: string) => void;
@@ -15,52 +19,14 @@ interface ChapterListPageProps {
 
 const ChapterListItem: React.FC<{
     chapter: Chapter;
+    mastery: ChapterMastery | null; // Null for staff, signed-out visitors and chapters with nothing to evaluate
+    isMasteryLoading: boolean;
     onSelectChapter: (id: string) => void;
     onEditChapter: (ch: Chapter) => void;
     onDeleteChapter: (id: string, title: string) => void;
-}> = ({ chapter, onSelectChapter, onEditChapter, onDeleteChapter }) => {
-    const { user, isAdmin } = useAuth();
-
-    // The mastery calculation logic remains the same, it's robust.
-    const { mastery, isLoading } = useMemo(() => {
-        if (!user || isAdmin) {
-            return { mastery: null, isLoading: false };
-        }
-        
-        const allExerciseIdsInChapter = chapter.series.flatMap(s => s.exercises.map(e => e.id));
-        const totalExercises = allExerciseIdsInChapter.length;
-
-        const completedExercises = allExerciseIdsInChapter
-            .filter(id => user.completed_exercises.includes(id)).length;
-        const exerciseScore = totalExercises > 0 ? (completedExercises / totalExercises) : 1;
-
-        const quizIds = chapter.quizzes.map(q => q.id);
-        const chapterQuizAttempts = user.quiz_attempts.filter(attempt => attempt.chapter_id === chapter.id);
-        
-        let avgQuizScore = 1;
-        if (quizIds.length > 0) {
-            if (chapterQuizAttempts.length > 0) {
-                const totalScore = chapterQuizAttempts.reduce((acc, attempt) => acc + (attempt.score / attempt.total_questions), 0);
-                avgQuizScore = totalScore / chapterQuizAttempts.length;
-            } else {
-                 avgQuizScore = 0;
-            }
-        }
-        
-        const exerciseWeight = totalExercises > 0 ? 0.7 : 0;
-        const quizWeight = quizIds.length > 0 ? 0.3 : 0;
-        const totalWeight = exerciseWeight + quizWeight;
-
-        if (totalWeight === 0) {
-            return { mastery: 100, isLoading: false };
-        }
-
-        const finalMastery = ((exerciseScore * exerciseWeight) + (avgQuizScore * quizWeight)) / totalWeight;
-        const masteryPercentage = Math.round(finalMastery * 100);
-        
-        return { mastery: masteryPercentage, isLoading: false };
-
-    }, [chapter, user, isAdmin]);
+}> = ({ chapter, mastery, isMasteryLoading, onSelectChapter, onEditChapter, onDeleteChapter }) => {
+    const { can } = useAuth();
+    const canEdit = can('curriculum.edit');
 
     return (
         <div
@@ -77,7 +43,7 @@ const ChapterListItem: React.FC<{
                     <p className="mt-2 text-slate-400 text-sm line-clamp-2">{chapter.summary || "Résumé non disponible."}</p>
                 </div>
                 <div className="flex-shrink-0">
-                    {isAdmin ? (
+                    {canEdit ? (
                         <div className="flex items-center gap-1 opacity-25 group-hover:opacity-100 transition-opacity" onClick={e => e.stopPropagation()}>
                             <button 
                                 onClick={() => onEditChapter(chapter)} 
@@ -94,12 +60,17 @@ const ChapterListItem: React.FC<{
                                 <TrashIcon className="w-5 h-5" />
                             </button>
                         </div>
-                    ) : isLoading ? (
+                    ) : isMasteryLoading ? (
                         <div className="w-[60px] h-[60px] flex items-center justify-center">
                             <SpinnerIcon className="w-6 h-6 animate-spin text-slate-500" />
                         </div>
-                    ) : mastery !== null ? (
-                         <CircularProgressBar percentage={mastery} />
+                    ) : mastery && mastery.level !== 'notEvaluated' ? (
+                        <div className="flex flex-col items-center gap-1" title={`Maîtrise estimée sur ${mastery.evidenceCount} réponse(s)`}>
+                            <CircularProgressBar percentage={Math.round(mastery.score * 100)} colorClass={MASTERY_LEVEL_STYLES[mastery.level].text} />
+                            <span className={`text-xs ${MASTERY_LEVEL_STYLES[mastery.level].text}`}>{MASTERY_LEVEL_LABELS[mastery.level]}</span>
+                        </div>
+                    ) : mastery ? (
+                        <span className="text-xs text-slate-500">{MASTERY_LEVEL_LABELS.notEvaluated}</span>
                     ) : null}
                 </div>
             </div>
@@ -112,11 +83,14 @@ export const ChapterListPage: React.FC<ChapterListPageProps> = ({
     level, 
     onSelectChapter, 
     onBack,
+    onStartMockExam,
     onAddChapter,
     onEditChapter,
     onDeleteChapter
 }) => {
-    const { isAdmin } = useAuth();
+    const { user, can } = useAuth();
+    const canEdit = can('curriculum.edit');
+    const { data: masteryReport, isLoading: isMasteryLoading } = useMastery(!!user && !canEdit);
     
     return (
         <div className="max-w-5xl mx-auto">
@@ -130,7 +104,7 @@ export const ChapterListPage: React.FC<ChapterListPageProps> = ({
                         <h2 className="text-4xl font-extrabold text-slate-100">{level.levelName}</h2>
                         <p className="mt-2 text-lg text-slate-400">Choisissez une leçon à explorer.</p>
                     </div>
-                     {isAdmin && (
+                     {canEdit && (
                         <button
                             onClick={onAddChapter}
                             className="flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg transition-colors duration-200 bg-blue-600 hover:bg-blue-700 text-white flex-shrink-0"
@@ -139,6 +113,15 @@ export const ChapterListPage: React.FC<ChapterListPageProps> = ({
                             Ajouter un chapitre
                         </button>
                     )}
+                    {user && !canEdit && level.chapters.length > 0 && (
+                        <button
+                            onClick={onStartMockExam}
+                            className="flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg transition-colors duration-200 bg-blue-600 hover:bg-blue-700 text-white flex-shrink-0"
+                        >
+                            <ClockIcon className="w-5 h-5" />
+                            Examen blanc
+                        </button>
+                    )}
                 </div>
             </div>
             <div className="space-y-4">
@@ -147,6 +130,8 @@ export const ChapterListPage: React.FC<ChapterListPageProps> = ({
                         <ChapterListItem 
                             key={chapter.id}
                             chapter={chapter}
+                            mastery={masteryReport?.chapters.find(c => c.chapterId === chapter.id) ?? null}
+                            isMasteryLoading={isMasteryLoading}
                             onSelectChapter={onSelectChapter}
                             onEditChapter={onEditChapter}
                             onDeleteChapter={onDeleteChapter}
@@ -156,7 +141,7 @@ export const ChapterListPage: React.FC<ChapterListPageProps> = ({
                     <div className="text-center py-16 bg-slate-900 rounded-2xl border border-slate-800">
                         <h3 className="text-lg font-semibold text-slate-300">Aucun chapitre pour l'instant</h3>
                         <p className="text-slate-500 mt-2">
-                            {isAdmin ? "Cliquez sur 'Ajouter un chapitre' pour commencer." : "Le contenu sera bientôt disponible."}
+                            {canEdit ? "Cliquez sur 'Ajouter un chapitre' pour commencer." : "Le contenu sera bientôt disponible."}
                         </p>
                     </div>
                 )}
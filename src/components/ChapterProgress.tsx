@@ -1,31 +1,52 @@
-
 import React from 'react';
+import { ChapterMastery, QuizAttemptSummary } from '@/types';
+import { MASTERY_LEVEL_STYLES } from '@/components/SkillMap';
+import { MASTERY_LEVEL_LABELS } from '@/utils/mastery';
 
 interface ChapterProgressProps {
     completedCount: number;
     totalCount: number;
+    quizSummaries?: QuizAttemptSummary[]; // One per quiz of the chapter the student has taken
+    mastery?: ChapterMastery;             // Understanding, estimated from graded answers (completion says nothing about it)
 }
 
-export const ChapterProgress: React.FC<ChapterProgressProps> = ({ completedCount, totalCount }) => {
-    if (totalCount === 0) {
-        return null; // Don't show progress if there are no exercises
+const mean = (values: number[]) => Math.round(values.reduce((sum, v) => sum + v, 0) / values.length);
+
+export const ChapterProgress: React.FC<ChapterProgressProps> = ({ completedCount, totalCount, quizSummaries = [], mastery }) => {
+    if (totalCount === 0 && quizSummaries.length === 0) {
+        return null; // Don't show progress if there is nothing to track
     }
 
-    const percentage = (completedCount / totalCount) * 100;
+    const percentage = totalCount > 0 ? (completedCount / totalCount) * 100 : 0;
     const isCompleted = completedCount === totalCount;
 
     return (
         <div className="mt-3">
-            <div className="flex justify-between items-center text-xs text-gray-400 mb-1">
-                <span>Progression</span>
-                <span>{completedCount} / {totalCount} exercices</span>
-            </div>
-            <div className="w-full bg-gray-600/50 rounded-full h-2">
-                <div
-                    className={`h-2 rounded-full transition-all duration-500 ${isCompleted ? 'bg-green-500' : 'bg-brand-blue-500'}`}
-                    style={{ width: `${percentage}%` }}
-                ></div>
-            </div>
+            {totalCount > 0 && (
+                <>
+                    <div className="flex justify-between items-center text-xs text-gray-400 mb-1">
+                        <span>Progression</span>
+                        <span>{completedCount} / {totalCount} exercices</span>
+                    </div>
+                    <div className="w-full bg-gray-600/50 rounded-full h-2">
+                        <div
+                            className={`h-2 rounded-full transition-all duration-500 ${isCompleted ? 'bg-green-500' : 'bg-brand-blue-500'}`}
+                            style={{ width: `${percentage}%` }}
+                        ></div>
+                    </div>
+                </>
+            )}
+            {quizSummaries.length > 0 && (
+                <p className="mt-2 text-xs text-gray-400">
+                    Quiz : meilleur {mean(quizSummaries.map(s => s.best))} % · dernier {mean(quizSummaries.map(s => s.last))} % · moyenne {mean(quizSummaries.map(s => s.average))} %
+                </p>
+            )}
+            {mastery && (
+                <p className="mt-2 text-xs text-gray-400">
+                    Maîtrise : <span className={`font-semibold ${MASTERY_LEVEL_STYLES[mastery.level].text}`}>{MASTERY_LEVEL_LABELS[mastery.level]}</span>
+                    {mastery.level !== 'notEvaluated' && ` (${Math.round(mastery.score * 100)} %, ${mastery.evidenceCount} réponse${mastery.evidenceCount > 1 ? 's' : ''})`}
+                </p>
+            )}
         </div>
     );
 };
@@ -4,12 +4,14 @@ interface CircularProgressBarProps {
     percentage: number;
     size?: number;
     strokeWidth?: number;
+    colorClass?: string; // Defaults to green when complete, rose otherwise
 }
 
 export const CircularProgressBar: React.FC<CircularProgressBarProps> = ({ 
     percentage, 
     size = 60, 
-    strokeWidth = 5
+    strokeWidth = 5,
+    colorClass
 }) => {
     const [animatedPercentage, setAnimatedPercentage] = useState(0);
 
@@ -24,7 +26,7 @@ export const CircularProgressBar: React.FC<CircularProgressBarProps> = ({
     const circumference = 2 * Math.PI * radius;
     const offset = circumference - (animatedPercentage / 100) * circumference;
     
-    const color = percentage === 100 ? 'text-green-500' : 'text-rose-500';
+    const color = colorClass ?? (percentage === 100 ? 'text-green-500' : 'text-rose-500');
 
     return (
         <div className="relative flex-shrink-0" style={{ width: size, height: size }}>
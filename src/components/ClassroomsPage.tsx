@@ -0,0 +1,637 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Classroom, ClassroomStudentProgress, Level, CurriculumItemRef, TeacherAssignment, AssignmentReport, AssignmentItemStatus, ExerciseCompletionMethod } from '@/types';
+import { ArrowLeftIcon, SpinnerIcon, PlusCircleIcon, PencilIcon, TrashIcon, CheckCircleIcon, XCircleIcon } from '@/components/icons';
+import { getClassrooms, getClassroomProgress, sendClassroomAction, getClassroomAssignments, getAssignmentReport, sendAssignmentAction } from '@/services/api';
+import { COMPLETION_METHOD_LABELS, calculateLevel } from '@/utils/xp';
+import { listItems, locateItem, LocatedItem } from '@/utils/curriculum-tree';
+import { summarizeAttempts } from '@/utils/quiz-attempts';
+
+interface ClassroomsPageProps {
+    curriculum: Level[];
+    onBack: () => void;
+}
+
+// Average of the best score on each quiz taken (retakes do not count twice).
+const quizAverage = (student: ClassroomStudentProgress): number | null => {
+    const summaries = [...summarizeAttempts(student.quiz_attempts.filter(a => a.total_questions > 0)).values()];
+    if (summaries.length === 0) return null;
+    return Math.round(summaries.reduce((sum, s) => sum + s.best, 0) / summaries.length);
+};
+
+const ClassroomProgress: React.FC<{ classroom: Classroom; totalExercises: number; onChanged: () => void }> = ({ classroom, totalExercises, onChanged }) => {
+    const [students, setStudents] = useState<ClassroomStudentProgress[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [pendingId, setPendingId] = useState<string | null>(null);
+
+    const fetchStudents = useCallback(async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            setStudents(await getClassroomProgress(classroom.id));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Impossible de charger la progression de la classe.");
+        } finally {
+            setIsLoading(false);
+        }
+    }, [classroom.id]);
+
+    useEffect(() => {
+        fetchStudents();
+    }, [fetchStudents]);
+
+    const handleRemove = async (student: ClassroomStudentProgress) => {
+        if (!window.confirm(`Retirer ${student.email} de la classe ?`)) return;
+        setPendingId(student.id);
+        try {
+            await sendClassroomAction({ action: 'REMOVE_STUDENT', payload: { classroomId: classroom.id, studentId: student.id } });
+            setStudents(prev => prev.filter(s => s.id !== student.id));
+            onChanged();
+        } catch (err) {
+            alert(`L'opération a échoué.\nErreur: ${err instanceof Error ? err.message : String(err)}`);
+        } finally {
+            setPendingId(null);
+        }
+    };
+
+    if (isLoading) return <SpinnerIcon className="w-8 h-8 animate-spin text-brand-blue-500 mx-auto" />;
+    if (error) return <p className="text-red-400 text-center">{error}</p>;
+    if (students.length === 0) {
+        return <p className="text-center text-gray-500 py-8">Aucun élève inscrit. Partagez le code <span className="font-mono text-gray-300">{classroom.join_code}</span> pour qu'ils rejoignent la classe.</p>;
+    }
+
+    return (
+        <div className="overflow-x-auto">
+            <table className="w-full text-left">
+                <thead className="border-b-2 border-gray-600">
+                    <tr>
+                        <th className="p-3 text-sm font-semibold text-gray-400">Élève</th>
+                        <th className="p-3 text-sm font-semibold text-gray-400">Niveau</th>
+                        <th className="p-3 text-sm font-semibold text-gray-400">XP</th>
+                        <th className="p-3 text-sm font-semibold text-gray-400">Exercices terminés</th>
+                        <th className="p-3 text-sm font-semibold text-gray-400">Quiz (moyenne des meilleurs scores)</th>
+                        <th className="p-3"></th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {[...students].sort((a, b) => b.xp - a.xp).map(student => {
+                        const average = quizAverage(student);
+                        return (
+                            <tr key={student.id} className="border-b border-gray-700/50">
+                                <td className="p-3 text-gray-300">
+                                    {student.email}
+                                    <p className="text-xs text-gray-500">Inscrit le {new Date(student.joined_at).toLocaleDateString('fr-FR')}</p>
+                                </td>
+                                <td className="p-3 text-gray-300 font-bold">{calculateLevel(student.xp)}</td>
+                                <td className="p-3 text-gray-300">{student.xp.toLocaleString()}</td>
+                                <td className="p-3 text-gray-300">
+                                    {student.completed_exercises.length} / {totalExercises}
+                                    <CompletionMethodCounts methods={Object.values(student.completion_methods)} />
+                                </td>
+                                <td className="p-3 text-gray-300">
+                                    {average === null ? '—' : `${average} %`}
+                                    <span className="ml-1 text-xs text-gray-500">({new Set(student.quiz_attempts.map(a => a.quiz_id)).size} quiz, {student.quiz_attempts.length} tentative(s))</span>
+                                </td>
+                                <td className="p-3 text-right">
+                                    {pendingId === student.id
+                                        ? <SpinnerIcon className="w-5 h-5 animate-spin text-brand-blue-400 inline" />
+                                        : (
+                                            <button onClick={() => handleRemove(student)} disabled={pendingId !== null} className="text-xs text-gray-400 hover:text-red-400 disabled:opacity-50">
+                                                Retirer
+                                            </button>
+                                        )}
+                                </td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+// `<input type="datetime-local">` works in local time without a zone; the API stores ISO instants.
+const toLocalInput = (iso: string) => {
+    const date = new Date(iso);
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const formatDueDate = (iso: string) =>
+    new Date(iso).toLocaleString('fr-FR', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const itemLabel = (curriculum: Level[], ref: CurriculumItemRef) => {
+    const item = locateItem(curriculum, ref);
+    if (!item) return `${ref.type === 'quiz' ? 'Quiz' : 'Exercice'} supprimé (${ref.id})`;
+    return `${item.chapter.title} — ${ref.type === 'quiz' ? 'Quiz : ' : ''}${item.title}`;
+};
+
+interface AssignmentDraft {
+    title: string;
+    instructions: string;
+    dueAt: string; // datetime-local value
+    items: CurriculumItemRef[];
+}
+
+const AssignmentForm: React.FC<{
+    curriculum: Level[];
+    initial: AssignmentDraft;
+    isBusy: boolean;
+    onSubmit: (draft: AssignmentDraft) => void;
+    onCancel: () => void;
+}> = ({ curriculum, initial, isBusy, onSubmit, onCancel }) => {
+    const [draft, setDraft] = useState<AssignmentDraft>(initial);
+    const [picked, setPicked] = useState('');
+
+    const allItems = useMemo(() => listItems(curriculum), [curriculum]);
+    const chapters = useMemo(() => {
+        const groups = new Map<string, { label: string; items: LocatedItem[] }>();
+        for (const item of allItems) {
+            const key = item.chapter.id;
+            if (!groups.has(key)) groups.set(key, { label: `${item.level.levelName} — ${item.chapter.title}`, items: [] });
+            groups.get(key)!.items.push(item);
+        }
+        return [...groups.values()];
+    }, [allItems]);
+
+    const keyOf = (ref: CurriculumItemRef) => `${ref.type}:${ref.id}`;
+    const selectedKeys = new Set(draft.items.map(keyOf));
+
+    const handleAddItem = () => {
+        const item = allItems.find(i => keyOf(i.ref) === picked);
+        if (!item || selectedKeys.has(picked)) return;
+        setDraft(prev => ({ ...prev, items: [...prev.items, item.ref] }));
+        setPicked('');
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        onSubmit(draft);
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-3 p-4 mb-4 bg-gray-900/50 rounded-lg border border-gray-700">
+            <input
+                type="text"
+                value={draft.title}
+                onChange={e => setDraft(prev => ({ ...prev, title: e.target.value }))}
+                placeholder="Titre du devoir (ex. Suites numériques — série 2)"
+                maxLength={200}
+                required
+                className="w-full p-2 bg-gray-900 border border-gray-600 rounded-md text-gray-200"
+            />
+            <textarea
+                value={draft.instructions}
+                onChange={e => setDraft(prev => ({ ...prev, instructions: e.target.value }))}
+                placeholder="Consigne (facultative)"
+                rows={2}
+                className="w-full p-2 bg-gray-900 border border-gray-600 rounded-md text-gray-200"
+            />
+            <label className="flex items-center gap-3 text-sm text-gray-400">
+                À rendre pour le
+                <input
+                    type="datetime-local"
+                    value={draft.dueAt}
+                    onChange={e => setDraft(prev => ({ ...prev, dueAt: e.target.value }))}
+                    required
+                    className="p-2 bg-gray-900 border border-gray-600 rounded-md text-gray-200"
+                />
+            </label>
+
+            <div>
+                <p className="text-sm text-gray-400 mb-2">Exercices et quiz ({draft.items.length})</p>
+                <ul className="space-y-1 mb-2">
+                    {draft.items.map(ref => (
+                        <li key={keyOf(ref)} className="flex justify-between items-center gap-3 px-3 py-1.5 bg-gray-800 rounded text-sm text-gray-300">
+                            <span className="truncate">{itemLabel(curriculum, ref)}</span>
+                            <button
+                                type="button"
+                                onClick={() => setDraft(prev => ({ ...prev, items: prev.items.filter(i => keyOf(i) !== keyOf(ref)) }))}
+                                className="text-xs text-gray-400 hover:text-red-400 shrink-0"
+                            >
+                                Retirer
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+                <div className="flex gap-2">
+                    <select value={picked} onChange={e => setPicked(e.target.value)} className="flex-grow p-2 bg-gray-900 border border-gray-600 rounded-md text-gray-200 text-sm">
+                        <option value="">Choisir un exercice ou un quiz…</option>
+                        {chapters.map(group => (
+                            <optgroup key={group.label} label={group.label}>
+                                {group.items.map(item => (
+                                    <option key={keyOf(item.ref)} value={keyOf(item.ref)} disabled={selectedKeys.has(keyOf(item.ref))}>
+                                        {item.ref.type === 'quiz' ? 'Quiz : ' : ''}{item.title}
+                                    </option>
+                                ))}
+                            </optgroup>
+                        ))}
+                    </select>
+                    <button type="button" onClick={handleAddItem} disabled={!picked} className="px-3 py-2 text-sm font-semibold rounded-lg bg-gray-700/50 border border-gray-600 hover:bg-gray-700 text-gray-300 disabled:opacity-50">
+                        Ajouter
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex justify-end gap-2">
+                <button type="button" onClick={onCancel} className="px-4 py-2 text-sm rounded-lg text-gray-300 hover:bg-gray-700">Annuler</button>
+                <button
+                    type="submit"
+                    disabled={isBusy || !draft.title.trim() || !draft.dueAt || draft.items.length === 0}
+                    className="px-4 py-2 text-sm font-semibold rounded-lg bg-brand-blue-600 hover:bg-brand-blue-700 text-white disabled:opacity-50"
+                >
+                    Enregistrer
+                </button>
+            </div>
+        </form>
+    );
+};
+
+const METHOD_COLORS: Record<ExerciseCompletionMethod, string> = {
+    verified: 'text-green-400',
+    tutor: 'text-sky-400',
+    partial: 'text-yellow-400',
+    self_declared: 'text-gray-400',
+};
+
+// How many exercises were completed each way, e.g. "8 réponse validée · 3 auto-déclaré".
+const CompletionMethodCounts: React.FC<{ methods: ExerciseCompletionMethod[] }> = ({ methods }) => {
+    const counts = (Object.keys(COMPLETION_METHOD_LABELS) as ExerciseCompletionMethod[])
+        .map(method => ({ method, count: methods.filter(m => m === method).length }))
+        .filter(({ count }) => count > 0);
+    if (counts.length === 0) return null;
+    return (
+        <p className="text-xs">
+            {counts.map(({ method, count }, i) => (
+                <span key={method} className={METHOD_COLORS[method]}>
+                    {i > 0 && <span className="text-gray-600"> · </span>}
+                    {count} {COMPLETION_METHOD_LABELS[method].toLowerCase()}
+                </span>
+            ))}
+        </p>
+    );
+};
+
+const StatusCell: React.FC<{ status: AssignmentItemStatus }> = ({ status }) => {
+    const checks = status.check_count > 0 && (
+        <p className={`text-xs ${status.last_check_correct ? 'text-green-400' : 'text-orange-400'}`}>
+            {status.check_count} vérif. · {status.last_check_correct ? 'juste' : 'à revoir'}
+        </p>
+    );
+    if (!status.completed_at) {
+        return (
+            <td className="p-3 text-center">
+                <XCircleIcon className="w-5 h-5 text-gray-600 mx-auto" />
+                {checks}
+            </td>
+        );
+    }
+    return (
+        <td
+            className="p-3 text-center"
+            title={[`Terminé le ${formatDueDate(status.completed_at)}`, status.completion_feedback?.summary].filter(Boolean).join('\n')}
+        >
+            <CheckCircleIcon className={`w-5 h-5 mx-auto ${status.late ? 'text-orange-400' : 'text-green-400'}`} />
+            {status.late && <p className="text-xs text-orange-400">en retard</p>}
+            {status.completion_method && <p className={`text-xs ${METHOD_COLORS[status.completion_method]}`}>{COMPLETION_METHOD_LABELS[status.completion_method]}</p>}
+            {status.type === 'quiz' && status.total_questions ? <p className="text-xs text-gray-400">{status.score} / {status.total_questions}</p> : null}
+            {checks}
+        </td>
+    );
+};
+
+const AssignmentReportTable: React.FC<{ assignmentId: string; curriculum: Level[] }> = ({ assignmentId, curriculum }) => {
+    const [report, setReport] = useState<AssignmentReport | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        getAssignmentReport(assignmentId)
+            .then(setReport)
+            .catch(err => setError(err instanceof Error ? err.message : "Impossible de charger le suivi du devoir."));
+    }, [assignmentId]);
+
+    if (error) return <p className="text-red-400 text-center">{error}</p>;
+    if (!report) return <SpinnerIcon className="w-6 h-6 animate-spin text-brand-blue-500 mx-auto" />;
+    if (report.students.length === 0) return <p className="text-center text-gray-500 py-4">Aucun élève inscrit.</p>;
+
+    return (
+        <div className="overflow-x-auto mt-3">
+            <table className="w-full text-left text-sm">
+                <thead className="border-b-2 border-gray-600">
+                    <tr>
+                        <th className="p-3 font-semibold text-gray-400">Élève</th>
+                        {report.assignment.items.map((ref, index) => (
+                            <th key={`${ref.type}:${ref.id}`} title={itemLabel(curriculum, ref)} className="p-3 font-semibold text-gray-400 text-center">
+                                {ref.type === 'quiz' ? 'Q' : 'E'}{index + 1}
+                            </th>
+                        ))}
+                    </tr>
+                </thead>
+                <tbody>
+                    {report.students.map(student => (
+                        <tr key={student.id} className="border-b border-gray-700/50">
+                            <td className="p-3 text-gray-300">{student.email}</td>
+                            {student.statuses.map(status => <StatusCell key={`${status.type}:${status.id}`} status={status} />)}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            <ol className="mt-3 space-y-0.5 text-xs text-gray-500">
+                {report.assignment.items.map((ref, index) => (
+                    <li key={`${ref.type}:${ref.id}`}>{ref.type === 'quiz' ? 'Q' : 'E'}{index + 1} : {itemLabel(curriculum, ref)}</li>
+                ))}
+            </ol>
+        </div>
+    );
+};
+
+const ClassroomAssignments: React.FC<{ classroom: Classroom; curriculum: Level[] }> = ({ classroom, curriculum }) => {
+    const [assignments, setAssignments] = useState<TeacherAssignment[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [editing, setEditing] = useState<TeacherAssignment | 'new' | null>(null);
+    const [openId, setOpenId] = useState<string | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+
+    const fetchAssignments = useCallback(async () => {
+        setError(null);
+        try {
+            setAssignments(await getClassroomAssignments(classroom.id));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Impossible de charger les devoirs de la classe.");
+        } finally {
+            setIsLoading(false);
+        }
+    }, [classroom.id]);
+
+    useEffect(() => {
+        fetchAssignments();
+    }, [fetchAssignments]);
+
+    const run = async (action: () => Promise<void>) => {
+        setIsBusy(true);
+        try {
+            await action();
+        } catch (err) {
+            alert(`L'opération a échoué.\nErreur: ${err instanceof Error ? err.message : String(err)}`);
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleSave = (draft: AssignmentDraft) => run(async () => {
+        const fields = { title: draft.title.trim(), instructions: draft.instructions.trim(), dueAt: new Date(draft.dueAt).toISOString(), items: draft.items };
+        if (editing === 'new') {
+            await sendAssignmentAction({ action: 'CREATE', payload: { classroomId: classroom.id, ...fields } });
+        } else if (editing) {
+            await sendAssignmentAction({ action: 'UPDATE', payload: { assignmentId: editing.id, ...fields } });
+        }
+        setEditing(null);
+        await fetchAssignments();
+    });
+
+    const handleDelete = (assignment: TeacherAssignment) => {
+        if (!window.confirm(`Supprimer le devoir "${assignment.title}" ? La progression des élèves est conservée.`)) return;
+        run(async () => {
+            await sendAssignmentAction({ action: 'DELETE', payload: { assignmentId: assignment.id } });
+            await fetchAssignments();
+        });
+    };
+
+    if (isLoading) return <SpinnerIcon className="w-8 h-8 animate-spin text-brand-blue-500 mx-auto" />;
+    if (error) return <p className="text-red-400 text-center">{error}</p>;
+
+    // One week from now at 18:00, a sensible default deadline.
+    const defaultDueAt = () => {
+        const date = new Date(Date.now() + 7 * 24 * 3600 * 1000);
+        date.setHours(18, 0, 0, 0);
+        return toLocalInput(date.toISOString());
+    };
+
+    return (
+        <div>
+            {editing ? (
+                <AssignmentForm
+                    key={editing === 'new' ? 'new' : editing.id}
+                    curriculum={curriculum}
+                    initial={editing === 'new'
+                        ? { title: '', instructions: '', dueAt: defaultDueAt(), items: [] }
+                        : { title: editing.title, instructions: editing.instructions, dueAt: toLocalInput(editing.due_at), items: editing.items }}
+                    isBusy={isBusy}
+                    onSubmit={handleSave}
+                    onCancel={() => setEditing(null)}
+                />
+            ) : (
+                <button onClick={() => setEditing('new')} className="flex items-center gap-2 mb-4 px-4 py-2 text-sm font-semibold rounded-lg bg-brand-blue-600 hover:bg-brand-blue-700 text-white">
+                    <PlusCircleIcon className="w-5 h-5" />
+                    Nouveau devoir
+                </button>
+            )}
+
+            {assignments.length === 0 && !editing && <p className="text-center text-gray-500 py-8">Aucun devoir pour cette classe.</p>}
+            <ul className="space-y-3">
+                {assignments.map(assignment => {
+                    const overdue = new Date(assignment.due_at).getTime() < Date.now();
+                    return (
+                        <li key={assignment.id} className="p-3 bg-gray-900/50 rounded-lg border border-gray-700/50">
+                            <div className="flex flex-wrap justify-between items-center gap-3">
+                                <button onClick={() => setOpenId(openId === assignment.id ? null : assignment.id)} className="text-left min-w-0">
+                                    <p className="font-semibold text-gray-200 truncate">{assignment.title}</p>
+                                    <p className={`text-xs ${overdue ? 'text-orange-400' : 'text-gray-400'}`}>
+                                        Pour le {formatDueDate(assignment.due_at)} · {assignment.items.length} élément(s)
+                                    </p>
+                                </button>
+                                <div className="flex items-center gap-3">
+                                    <span className="text-sm text-gray-300">{assignment.completed_count} / {assignment.student_count} terminé(s)</span>
+                                    <button onClick={() => setEditing(assignment)} disabled={isBusy} title="Modifier" className="p-1.5 rounded-lg text-gray-400 hover:text-brand-blue-300 disabled:opacity-50">
+                                        <PencilIcon className="w-5 h-5" />
+                                    </button>
+                                    <button onClick={() => handleDelete(assignment)} disabled={isBusy} title="Supprimer" className="p-1.5 rounded-lg text-gray-400 hover:text-red-400 disabled:opacity-50">
+                                        <TrashIcon className="w-5 h-5" />
+                                    </button>
+                                </div>
+                            </div>
+                            {openId === assignment.id && <AssignmentReportTable assignmentId={assignment.id} curriculum={curriculum} />}
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+};
+
+export const ClassroomsPage: React.FC<ClassroomsPageProps> = ({ curriculum, onBack }) => {
+    const [classrooms, setClassrooms] = useState<Classroom[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [newName, setNewName] = useState('');
+    const [isBusy, setIsBusy] = useState(false);
+    const [tab, setTab] = useState<'students' | 'assignments'>('students');
+
+    const fetchClassrooms = useCallback(async () => {
+        setError(null);
+        try {
+            const { teaching } = await getClassrooms();
+            setClassrooms(teaching);
+            setSelectedId(prev => prev && teaching.some(c => c.id === prev) ? prev : teaching[0]?.id ?? null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Impossible de charger les classes.");
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchClassrooms();
+    }, [fetchClassrooms]);
+
+    const totalExercises = useMemo(() => curriculum.reduce((sum, level) =>
+        sum + (level.chapters ?? []).reduce((s, chapter) =>
+            s + (chapter.series ?? []).reduce((n, series) => n + (series.exercises?.length ?? 0), 0), 0), 0), [curriculum]);
+
+    const selected = classrooms.find(c => c.id === selectedId) ?? null;
+
+    const run = async (action: () => Promise<void>) => {
+        setIsBusy(true);
+        try {
+            await action();
+        } catch (err) {
+            alert(`L'opération a échoué.\nErreur: ${err instanceof Error ? err.message : String(err)}`);
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleCreate = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newName.trim()) return;
+        run(async () => {
+            const { classroom } = await sendClassroomAction({ action: 'CREATE', payload: { name: newName.trim() } });
+            setNewName('');
+            await fetchClassrooms();
+            if (classroom) setSelectedId(classroom.id);
+        });
+    };
+
+    const handleRename = (classroom: Classroom) => {
+        const name = window.prompt("Nouveau nom de la classe :", classroom.name)?.trim();
+        if (!name || name === classroom.name) return;
+        run(async () => {
+            await sendClassroomAction({ action: 'RENAME', payload: { classroomId: classroom.id, name } });
+            await fetchClassrooms();
+        });
+    };
+
+    const handleRegenerateCode = (classroom: Classroom) => {
+        if (!window.confirm("Générer un nouveau code ? L'ancien ne permettra plus de rejoindre la classe (les élèves inscrits restent).")) return;
+        run(async () => {
+            await sendClassroomAction({ action: 'REGENERATE_CODE', payload: { classroomId: classroom.id } });
+            await fetchClassrooms();
+        });
+    };
+
+    const handleDelete = (classroom: Classroom) => {
+        if (!window.confirm(`Supprimer la classe "${classroom.name}" ? Les élèves en seront retirés (leur progression est conservée).`)) return;
+        run(async () => {
+            await sendClassroomAction({ action: 'DELETE', payload: { classroomId: classroom.id } });
+            await fetchClassrooms();
+        });
+    };
+
+    return (
+        <div className="max-w-5xl mx-auto">
+            <div className="mb-8">
+                <button onClick={onBack} className="flex items-center gap-2 text-brand-blue-400 hover:text-brand-blue-300 transition-colors mb-4">
+                    <ArrowLeftIcon className="w-5 h-5" />
+                    Retour au tableau de bord
+                </button>
+                <h2 className="text-3xl font-bold text-brand-blue-300">Mes classes</h2>
+                <p className="mt-2 text-lg text-gray-400">Créez une classe, partagez son code, donnez des devoirs et suivez la progression de vos élèves.</p>
+            </div>
+
+            <form onSubmit={handleCreate} className="mb-6 flex gap-3">
+                <input
+                    type="text"
+                    value={newName}
+                    onChange={e => setNewName(e.target.value)}
+                    placeholder="Nom de la classe (ex. 2BAC SM 1)"
+                    maxLength={100}
+                    className="flex-grow p-2 bg-gray-900 border border-gray-600 rounded-md text-gray-200"
+                />
+                <button
+                    type="submit"
+                    disabled={isBusy || !newName.trim()}
+                    className="flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg bg-brand-blue-600 hover:bg-brand-blue-700 text-white disabled:opacity-50"
+                >
+                    <PlusCircleIcon className="w-5 h-5" />
+                    Créer la classe
+                </button>
+            </form>
+
+            {isLoading && <SpinnerIcon className="w-8 h-8 animate-spin text-brand-blue-500 mx-auto" />}
+            {error && <p className="text-red-400 text-center">{error}</p>}
+            {!isLoading && !error && classrooms.length === 0 && (
+                <p className="text-center text-gray-500 py-8">Vous n'avez pas encore de classe.</p>
+            )}
+            {!isLoading && !error && classrooms.length > 0 && (
+                <div className="grid md:grid-cols-[16rem_1fr] gap-6">
+                    <ul className="space-y-2">
+                        {classrooms.map(classroom => (
+                            <li key={classroom.id}>
+                                <button
+                                    onClick={() => setSelectedId(classroom.id)}
+                                    className={`w-full text-left p-3 rounded-lg border transition-colors ${classroom.id === selectedId ? 'bg-brand-blue-600/20 border-brand-blue-500' : 'bg-gray-800/50 border-gray-700/50 hover:bg-gray-800'}`}
+                                >
+                                    <p className="font-semibold text-gray-200 truncate">{classroom.name}</p>
+                                    <p className="text-xs text-gray-400">{classroom.student_count ?? 0} élève(s)</p>
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+
+                    {selected && (
+                        <div className="p-4 bg-gray-800/50 rounded-xl border border-gray-700/50">
+                            <div className="flex flex-wrap justify-between items-start gap-4 mb-4">
+                                <div>
+                                    <h3 className="text-xl font-semibold text-white">{selected.name}</h3>
+                                    <p className="text-sm text-gray-400 mt-1">
+                                        Code d'inscription : <span className="font-mono text-lg tracking-widest text-brand-blue-300">{selected.join_code}</span>
+                                    </p>
+                                </div>
+                                <div className="flex gap-2 items-center">
+                                    {isBusy && <SpinnerIcon className="w-5 h-5 animate-spin text-brand-blue-400" />}
+                                    <button onClick={() => navigator.clipboard?.writeText(selected.join_code ?? '')} className="px-3 py-1.5 text-xs font-semibold rounded-lg bg-gray-700/50 border border-gray-600 hover:bg-gray-700 text-gray-300">
+                                        Copier le code
+                                    </button>
+                                    <button onClick={() => handleRegenerateCode(selected)} disabled={isBusy} className="px-3 py-1.5 text-xs font-semibold rounded-lg bg-gray-700/50 border border-gray-600 hover:bg-gray-700 text-gray-300 disabled:opacity-50">
+                                        Nouveau code
+                                    </button>
+                                    <button onClick={() => handleRename(selected)} disabled={isBusy} title="Renommer" className="p-1.5 rounded-lg text-gray-400 hover:text-brand-blue-300 disabled:opacity-50">
+                                        <PencilIcon className="w-5 h-5" />
+                                    </button>
+                                    <button onClick={() => handleDelete(selected)} disabled={isBusy} title="Supprimer" className="p-1.5 rounded-lg text-gray-400 hover:text-red-400 disabled:opacity-50">
+                                        <TrashIcon className="w-5 h-5" />
+                                    </button>
+                                </div>
+                            </div>
+                            <div className="flex gap-2 mb-4 border-b border-gray-700">
+                                {([['students', 'Élèves'], ['assignments', 'Devoirs']] as const).map(([value, label]) => (
+                                    <button
+                                        key={value}
+                                        onClick={() => setTab(value)}
+                                        className={`px-4 py-2 text-sm font-semibold border-b-2 -mb-px ${tab === value ? 'border-brand-blue-500 text-brand-blue-300' : 'border-transparent text-gray-400 hover:text-gray-200'}`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                            {tab === 'students'
+                                ? <ClassroomProgress key={selected.id} classroom={selected} totalExercises={totalExercises} onChanged={fetchClassrooms} />
+                                : <ClassroomAssignments key={selected.id} classroom={selected} curriculum={curriculum} />}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from 'react';
+import { CurriculumItemRef, Recommendation } from '@/types';
+import { DocumentTextIcon, PlayCircleIcon, QuestionMarkCircleIcon, SpinnerIcon } from '@/components/icons';
+import { getRecommendations } from '@/services/api';
+import { RECOMMENDATION_REASON_LABELS } from '@/utils/recommendations';
+
+interface ContinueCardProps {
+    afterExerciseId?: string; // Continue from the exercise just completed
+    onOpenItem: (ref: CurriculumItemRef) => void;
+    onNavigateToTimestamp: (levelId: string, chapterId: string, videoId: string, time: number) => void;
+}
+
+const TARGET_ICONS = { exercise: DocumentTextIcon, quiz: QuestionMarkCircleIcon, video: PlayCircleIcon };
+
+/**
+ * "Continuer": the next exercise, quiz or video recommended to the student, and a couple of alternatives.
+ */
+export const ContinueCard: React.FC<ContinueCardProps> = ({ afterExerciseId, onOpenItem, onNavigateToTimestamp }) => {
+    const [recommendations, setRecommendations] = useState<Recommendation[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        getRecommendations(afterExerciseId)
+            .then(setRecommendations)
+            .catch(err => setError(err instanceof Error ? err.message : "Impossible de charger les recommandations."));
+    }, [afterExerciseId]);
+
+    const open = (recommendation: Recommendation) => {
+        const { target } = recommendation;
+        if (target.type === 'video') onNavigateToTimestamp(recommendation.levelId, recommendation.chapterId, target.id, 0);
+        else onOpenItem(target);
+    };
+
+    if (recommendations && recommendations.length === 0) return null;
+
+    const [next, ...others] = recommendations ?? [];
+    const NextIcon = next ? TARGET_ICONS[next.target.type] : null;
+
+    return (
+        <div className="bg-slate-900 p-6 rounded-2xl border border-slate-800">
+            <h3 className="font-semibold text-slate-200">Continuer</h3>
+            {!recommendations && !error && <SpinnerIcon className="mt-2 w-6 h-6 animate-spin text-blue-500" />}
+            {error && <p className="mt-1 text-sm text-red-400">{error}</p>}
+            {next && NextIcon && (
+                <div className="mt-3 flex flex-wrap justify-between items-center gap-4">
+                    <div className="flex items-start gap-3">
+                        <NextIcon className="w-8 h-8 text-blue-400 shrink-0" />
+                        <div>
+                            <p className="text-xs text-slate-400">{RECOMMENDATION_REASON_LABELS[next.reason]}</p>
+                            <p className="font-semibold text-slate-100">{next.title}</p>
+                            <p className="text-sm text-slate-400">{next.chapterTitle}</p>
+                        </div>
+                    </div>
+                    <button onClick={() => open(next)} className="px-5 py-3 font-semibold text-white bg-blue-600 rounded-lg shadow-md hover:bg-blue-700 transition-colors">
+                        Continuer
+                    </button>
+                </div>
+            )}
+            {others.length > 0 && (
+                <ul className="mt-4 pt-4 border-t border-slate-800 space-y-2">
+                    {others.map(recommendation => {
+                        const Icon = TARGET_ICONS[recommendation.target.type];
+                        return (
+                            <li key={`${recommendation.target.type}:${recommendation.target.id}`}>
+                                <button onClick={() => open(recommendation)} className="w-full flex items-center gap-3 text-left text-sm p-2 rounded-lg hover:bg-slate-800">
+                                    <Icon className="w-5 h-5 text-slate-400 shrink-0" />
+                                    <span className="flex-grow">
+                                        <span className="text-slate-200">{recommendation.title}</span>
+                                        <span className="block text-xs text-slate-500">{RECOMMENDATION_REASON_LABELS[recommendation.reason]} · {recommendation.chapterTitle}</span>
+                                    </span>
+                                </button>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+};
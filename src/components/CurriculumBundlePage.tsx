@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import { Level, BundleScope, CurriculumBundle, BundleCollisionStrategy, BundleImportPreview, BundleImportChange, ValidationIssue } from '@/types';
+import { ArrowLeftIcon, ArrowDownTrayIcon, SpinnerIcon } from '@/components/icons';
+import { exportCurriculumBundle, importCurriculumBundle, BundleValidationError } from '@/services/api';
+
+interface CurriculumBundlePageProps {
+    curriculum: Level[];
+    onBack: () => void;
+    onImportComplete: () => Promise<void>;
+}
+
+const STRATEGY_LABELS: Record<BundleCollisionStrategy, string> = {
+    overwrite: 'Écraser les éléments existants',
+    duplicate: 'Créer des copies',
+    skip: 'Ignorer les éléments existants',
+};
+
+const STATUS_LABELS: Record<BundleImportChange['status'], { label: string; className: string }> = {
+    create: { label: 'Créé', className: 'bg-green-900/60 text-green-300' },
+    update: { label: 'Modifié', className: 'bg-amber-900/60 text-amber-300' },
+    duplicate: { label: 'Copié', className: 'bg-brand-blue-900/60 text-brand-blue-300' },
+    unchanged: { label: 'Identique', className: 'bg-gray-700 text-gray-400' },
+    skip: { label: 'Ignoré', className: 'bg-gray-700 text-gray-400' },
+};
+
+const TABLE_LABELS: Record<string, string> = {
+    levels: 'Niveau', chapters: 'Chapitre', series: 'Série', exercises: 'Exercice', quizzes: 'Quiz', quiz_questions: 'Question',
+};
+
+/**
+ * Offers the bundle as a JSON file download, named after its scope and date.
+ */
+const downloadBundle = (bundle: CurriculumBundle) => {
+    const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    const scopeId = bundle.scope.type === 'chapter' ? bundle.scope.chapterId : bundle.scope.type === 'level' ? bundle.scope.levelId : 'programme';
+    link.href = url;
+    link.download = `maths-faciles-${scopeId}-${bundle.exportedAt.slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+export const CurriculumBundlePage: React.FC<CurriculumBundlePageProps> = ({ curriculum, onBack, onImportComplete }) => {
+    // Export
+    const [exportLevelId, setExportLevelId] = useState('');
+    const [exportChapterId, setExportChapterId] = useState('');
+    const [includeImages, setIncludeImages] = useState(false);
+    const [isExporting, setIsExporting] = useState(false);
+
+    // Import
+    const [bundle, setBundle] = useState<CurriculumBundle | null>(null);
+    const [fileName, setFileName] = useState('');
+    const [strategy, setStrategy] = useState<BundleCollisionStrategy>('skip');
+    const [targetLevelId, setTargetLevelId] = useState('');
+    const [preview, setPreview] = useState<BundleImportPreview | null>(null);
+    const [issues, setIssues] = useState<ValidationIssue[]>([]);
+    const [importError, setImportError] = useState<string | null>(null);
+    const [importMessage, setImportMessage] = useState<string | null>(null);
+    const [isWorking, setIsWorking] = useState(false);
+
+    const exportChapters = curriculum.find(l => l.id === exportLevelId)?.chapters ?? [];
+
+    const handleExport = async () => {
+        const scope: BundleScope = exportChapterId
+            ? { type: 'chapter', levelId: exportLevelId, chapterId: exportChapterId }
+            : exportLevelId ? { type: 'level', levelId: exportLevelId } : { type: 'curriculum' };
+        setIsExporting(true);
+        try {
+            downloadBundle(await exportCurriculumBundle(scope, includeImages));
+        } catch (err) {
+            alert(`L'export a échoué.\nErreur: ${err instanceof Error ? err.message : String(err)}`);
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const resetImport = () => {
+        setPreview(null);
+        setIssues([]);
+        setImportError(null);
+        setImportMessage(null);
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        resetImport();
+        setBundle(null);
+        if (!file) return;
+        setFileName(file.name);
+        try {
+            setBundle(JSON.parse(await file.text()));
+        } catch {
+            setImportError("Le fichier n'est pas un JSON valide.");
+        }
+    };
+
+    const runImport = async (mode: 'preview' | 'apply') => {
+        if (!bundle) return;
+        const options = { strategy, targetLevelId: targetLevelId || undefined };
+        setIsWorking(true);
+        setIssues([]);
+        setImportError(null);
+        try {
+            if (mode === 'preview') {
+                setPreview(await importCurriculumBundle(bundle, options, 'preview'));
+            } else {
+                const result = await importCurriculumBundle(bundle, options, 'apply');
+                await onImportComplete();
+                setPreview(null);
+                setImportMessage(result.message);
+            }
+        } catch (err) {
+            if (err instanceof BundleValidationError) setIssues(err.issues);
+            setImportError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const selectClassName = "px-3 py-2 bg-gray-900 border border-gray-600 rounded-lg text-gray-300 focus:outline-none focus:ring-2 focus:ring-brand-blue-500";
+    const pendingChanges = preview ? preview.summary.create + preview.summary.update + preview.summary.duplicate : 0;
+
+    return (
+        <div className="max-w-5xl mx-auto">
+            <div className="mb-8">
+                <button onClick={onBack} className="flex items-center gap-2 text-brand-blue-400 hover:text-brand-blue-300 transition-colors mb-4">
+                    <ArrowLeftIcon className="w-5 h-5" />
+                    Retour au tableau de bord
+                </button>
+                <h2 className="text-3xl font-bold text-brand-blue-300">Import / Export du programme</h2>
+                <p className="mt-2 text-lg text-gray-400">Transférez des niveaux ou des chapitres d'un environnement à l'autre.</p>
+            </div>
+
+            <section className="p-6 mb-8 bg-gray-800/50 rounded-xl border border-gray-700/50">
+                <h3 className="text-xl font-semibold text-white mb-4">Exporter</h3>
+                <div className="flex flex-wrap items-center gap-3">
+                    <select value={exportLevelId} onChange={e => { setExportLevelId(e.target.value); setExportChapterId(''); }} className={selectClassName} aria-label="Niveau à exporter">
+                        <option value="">Programme entier</option>
+                        {curriculum.map(level => <option key={level.id} value={level.id}>{level.levelName}</option>)}
+                    </select>
+                    <select value={exportChapterId} onChange={e => setExportChapterId(e.target.value)} className={selectClassName} disabled={!exportLevelId} aria-label="Chapitre à exporter">
+                        <option value="">Tout le niveau</option>
+                        {exportChapters.map(chapter => <option key={chapter.id} value={chapter.id}>{chapter.title}</option>)}
+                    </select>
+                    <label className="flex items-center gap-2 text-gray-300">
+                        <input type="checkbox" checked={includeImages} onChange={e => setIncludeImages(e.target.checked)} />
+                        Inclure les images
+                    </label>
+                    <button
+                        onClick={handleExport}
+                        disabled={isExporting}
+                        className="flex items-center gap-2 px-4 py-2 font-semibold rounded-lg bg-brand-blue-600 hover:bg-brand-blue-700 text-white disabled:opacity-50"
+                    >
+                        {isExporting ? <SpinnerIcon className="w-5 h-5 animate-spin" /> : <ArrowDownTrayIcon className="w-5 h-5" />}
+                        Télécharger
+                    </button>
+                </div>
+            </section>
+
+            <section className="p-6 bg-gray-800/50 rounded-xl border border-gray-700/50">
+                <h3 className="text-xl font-semibold text-white mb-4">Importer</h3>
+                <div className="flex flex-wrap items-center gap-3 mb-4">
+                    <label className="px-4 py-2 font-semibold rounded-lg bg-gray-700/50 border border-gray-600 hover:bg-gray-700 text-gray-300 cursor-pointer">
+                        Choisir un fichier…
+                        <input type="file" accept="application/json,.json" onChange={handleFileChange} className="hidden" />
+                    </label>
+                    {fileName && <span className="text-sm text-gray-400">{fileName}</span>}
+                </div>
+                <div className="flex flex-wrap items-center gap-3 mb-4">
+                    <select value={strategy} onChange={e => { setStrategy(e.target.value as BundleCollisionStrategy); resetImport(); }} className={selectClassName} aria-label="En cas de conflit d'identifiant">
+                        {Object.entries(STRATEGY_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                    </select>
+                    <select value={targetLevelId} onChange={e => { setTargetLevelId(e.target.value); resetImport(); }} className={selectClassName} aria-label="Niveau cible">
+                        <option value="">Niveaux d'origine du paquet</option>
+                        {curriculum.map(level => <option key={level.id} value={level.id}>Chapitres dans : {level.levelName}</option>)}
+                    </select>
+                    <button
+                        onClick={() => runImport('preview')}
+                        disabled={!bundle || isWorking}
+                        className="px-4 py-2 font-semibold rounded-lg bg-gray-700/50 border border-gray-600 hover:bg-gray-700 text-gray-300 disabled:opacity-50"
+                    >
+                        Prévisualiser
+                    </button>
+                    {isWorking && <SpinnerIcon className="w-5 h-5 animate-spin text-brand-blue-400" />}
+                </div>
+
+                {importError && <p className="text-red-400 mb-2">{importError}</p>}
+                {issues.length > 0 && (
+                    <ul className="mb-4 text-sm text-red-300 list-disc list-inside space-y-1">
+                        {issues.map((issue, i) => <li key={i}><code className="text-red-200">{issue.path || '(racine)'}</code> : {issue.message}</li>)}
+                    </ul>
+                )}
+                {importMessage && <p className="text-green-400 mb-2">{importMessage}</p>}
+
+                {preview && (
+                    <div>
+                        <p className="mb-3 text-gray-300">
+                            {preview.summary.create} création(s), {preview.summary.update} modification(s), {preview.summary.duplicate} copie(s),{' '}
+                            {preview.summary.skip} ignoré(s), {preview.summary.unchanged} identique(s)
+                            {preview.imageCount > 0 && `, ${preview.imageCount} image(s) à téléverser`}.
+                        </p>
+                        <div className="max-h-96 overflow-y-auto space-y-1 mb-4">
+                            {preview.changes.map(change => (
+                                <div key={`${change.table}:${change.id}`} className="flex items-center gap-2 text-sm p-2 bg-gray-900/50 rounded-lg">
+                                    <span className={`text-xs px-2 py-0.5 rounded-full shrink-0 ${STATUS_LABELS[change.status].className}`}>{STATUS_LABELS[change.status].label}</span>
+                                    <span className="text-xs text-gray-500 shrink-0">{TABLE_LABELS[change.table]}</span>
+                                    <span className="text-gray-300 truncate">{change.label}</span>
+                                    {change.changedFields && change.changedFields.length > 0 && (
+                                        <span className="text-xs text-gray-500 shrink-0">({change.changedFields.join(', ')})</span>
+                                    )}
+                                    {change.finalId !== change.id && <span className="text-xs text-gray-500 shrink-0">→ {change.finalId}</span>}
+                                </div>
+                            ))}
+                        </div>
+                        <button
+                            onClick={() => runImport('apply')}
+                            disabled={isWorking || pendingChanges === 0}
+                            className="px-4 py-2 font-semibold rounded-lg bg-green-600/80 border border-green-500 hover:bg-green-600 text-white disabled:opacity-50"
+                        >
+                            Appliquer l'import
+                        </button>
+                    </div>
+                )}
+            </section>
+        </div>
+    );
+};
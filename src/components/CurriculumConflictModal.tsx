@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { CurriculumConflict } from '@/types';
+import { XMarkIcon, SpinnerIcon, XCircleIcon } from './icons';
+import { MathJaxRenderer } from './MathJaxRenderer';
+
+interface CurriculumConflictModalProps {
+  operation: string;
+  isDelete: boolean;
+  mine: Record<string, any> | null;
+  conflict: CurriculumConflict;
+  onReload: () => Promise<void>;
+  onOverwrite: () => Promise<void>;
+  onClose: () => void;
+}
+
+// Children and bookkeeping fields are not edited through the modals, so they are not compared.
+const IGNORED_FIELDS = new Set(['id', 'updatedAt', 'chapters', 'series', 'quizzes', 'questions', 'exercises']);
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value, null, 1);
+};
+
+export const CurriculumConflictModal: React.FC<CurriculumConflictModalProps> = ({ operation, isDelete, mine, conflict, onReload, onOverwrite, onClose }) => {
+  const [pendingAction, setPendingAction] = useState<'reload' | 'overwrite' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const theirs = conflict.current as Record<string, any> | null;
+  const changedFields = mine && theirs
+    ? Array.from(new Set([...Object.keys(mine), ...Object.keys(theirs)]))
+        .filter(key => !IGNORED_FIELDS.has(key))
+        .filter(key => formatValue(mine[key]) !== formatValue(theirs[key]))
+    : [];
+
+  const run = async (action: 'reload' | 'overwrite') => {
+    setPendingAction(action);
+    setError(null);
+    try {
+      await (action === 'reload' ? onReload() : onOverwrite());
+      // onClose is called by the parent component upon success
+    } catch (err) {
+      console.error("Conflict resolution failed:", err);
+      setError(err instanceof Error ? err.message : 'La résolution du conflit a échoué.');
+      setPendingAction(null);
+    }
+  };
+
+  const overwriteLabel = isDelete ? 'Supprimer quand même' : theirs ? 'Écraser avec ma version' : 'Recréer avec ma version';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="conflict-title"
+      onClick={pendingAction ? undefined : onClose}
+    >
+      <div
+        className="bg-gray-800 rounded-xl border border-gray-700/50 shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <header className="flex items-center justify-between p-4 border-b border-gray-700">
+          <h2 id="conflict-title" className="text-lg font-bold text-amber-400 flex items-center gap-2">
+            <XCircleIcon className="w-5 h-5"/>
+            Modification concurrente ({operation})
+          </h2>
+          <button onClick={onClose} aria-label="Fermer" className="p-1 rounded-full text-gray-400 hover:bg-gray-700 hover:text-white" disabled={!!pendingAction}>
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </header>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <p className="text-gray-300">{conflict.error}</p>
+          {theirs && changedFields.length > 0 && !isDelete && (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-400">Champs qui diffèrent entre la version enregistrée et la vôtre :</p>
+              {changedFields.map(field => (
+                <div key={field} className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  <div className="p-3 bg-gray-900/50 rounded-lg border border-gray-700">
+                    <p className="text-xs font-semibold text-gray-400 mb-1">{field} — version enregistrée</p>
+                    <div className="text-sm text-gray-300 break-words"><MathJaxRenderer content={formatValue(theirs[field])} /></div>
+                  </div>
+                  <div className="p-3 bg-gray-900/50 rounded-lg border border-brand-blue-700/50">
+                    <p className="text-xs font-semibold text-brand-blue-300 mb-1">{field} — votre version</p>
+                    <div className="text-sm text-gray-300 break-words"><MathJaxRenderer content={formatValue(mine?.[field])} /></div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          <p className="text-sm text-gray-400">
+            Rechargez pour repartir de la version enregistrée, ou appliquez votre version par-dessus.
+          </p>
+        </div>
+
+        <footer className="flex-col items-stretch p-4 bg-gray-900/50 rounded-b-xl">
+           {error && (
+             <div className="mb-3 p-3 bg-red-900/30 border border-red-500/50 rounded-lg text-center">
+                 <p className="text-sm text-red-300">{error}</p>
+             </div>
+           )}
+           <div className="flex justify-end gap-4">
+              <button
+                type="button"
+                onClick={() => run('reload')}
+                disabled={!!pendingAction}
+                className="px-4 py-2 text-sm font-semibold rounded-lg transition-colors duration-200 bg-gray-700/50 border-2 border-gray-600 hover:bg-gray-700 hover:border-gray-500 text-gray-300 disabled:opacity-50 flex items-center gap-2"
+              >
+                {pendingAction === 'reload' && <SpinnerIcon className="w-4 h-4 animate-spin" />}
+                Recharger
+              </button>
+              <button
+                type="button"
+                onClick={() => run('overwrite')}
+                disabled={!!pendingAction}
+                className="px-4 py-2 text-sm font-semibold rounded-lg transition-colors duration-200 bg-amber-600 border-2 border-amber-500 text-white hover:bg-amber-700 disabled:opacity-50 flex items-center gap-2"
+              >
+                {pendingAction === 'overwrite' && <SpinnerIcon className="w-4 h-4 animate-spin" />}
+                {overwriteLabel}
+              </button>
+           </div>
+        </footer>
+      </div>
+    </div>
+  );
+};
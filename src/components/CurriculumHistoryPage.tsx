@@ -0,0 +1,173 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Level, CurriculumRevision } from '@/types';
+import { ArrowLeftIcon, SpinnerIcon } from '@/components/icons';
+import { getCurriculumRevisions } from '@/services/api';
+
+interface CurriculumHistoryPageProps {
+    curriculum: Level[];
+    onBack: () => void;
+    onRestoreRevision: (revisionId: number, side: 'before' | 'after') => Promise<void>;
+    onRestoreCurriculum: (revisionId: number) => Promise<void>;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+    ADD_OR_UPDATE_LEVEL: 'Niveau enregistré',
+    ADD_OR_UPDATE_CHAPTER: 'Chapitre enregistré',
+    ADD_OR_UPDATE_SERIES: 'Série enregistrée',
+    ADD_OR_UPDATE_EXERCISE: 'Exercice enregistré',
+    ADD_OR_UPDATE_QUIZ: 'Quiz enregistré',
+    ADD_OR_UPDATE_QUIZ_QUESTION: 'Question enregistrée',
+    DELETE_ITEM: 'Suppression',
+    RESTORE_REVISION: 'Restauration d\'un élément',
+    RESTORE_CURRICULUM: 'Restauration du programme',
+    IMPORT_BUNDLE: 'Import d\'un paquet',
+};
+
+const ITEM_TYPE_LABELS: Record<string, string> = {
+    level: 'Niveau', chapter: 'Chapitre', series: 'Série', exercise: 'Exercice', quiz: 'Quiz', quizQuestion: 'Question', curriculum: 'Programme',
+};
+
+const ITEM_TABLES: Record<string, string> = {
+    level: 'levels', chapter: 'chapters', series: 'series', exercise: 'exercises', quiz: 'quizzes', quizQuestion: 'quiz_questions',
+};
+
+/**
+ * Reads a human-readable name for the revised item from its snapshot row.
+ */
+const getItemLabel = (revision: CurriculumRevision): string => {
+    const table = ITEM_TABLES[revision.item_type];
+    const row = revision.after?.[table]?.find(r => r.id === revision.item_id)
+        ?? revision.before?.[table]?.find(r => r.id === revision.item_id);
+    const label: string | undefined = row?.level_name ?? row?.title ?? row?.question ?? row?.statement;
+    if (!label) return revision.item_id ?? 'Programme entier';
+    return label.length > 80 ? `${label.slice(0, 80)}…` : label;
+};
+
+const isEmptySnapshot = (snapshot: Record<string, any[]> | null) => !snapshot || Object.values(snapshot).every(rows => rows.length === 0);
+
+export const CurriculumHistoryPage: React.FC<CurriculumHistoryPageProps> = ({ curriculum, onBack, onRestoreRevision, onRestoreCurriculum }) => {
+    const [revisions, setRevisions] = useState<CurriculumRevision[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [levelId, setLevelId] = useState('');
+    const [chapterId, setChapterId] = useState('');
+    const [itemType, setItemType] = useState('');
+    const [pendingId, setPendingId] = useState<number | null>(null);
+
+    const chapters = curriculum.find(l => l.id === levelId)?.chapters ?? [];
+
+    const fetchRevisions = useCallback(async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            setRevisions(await getCurriculumRevisions({ levelId, chapterId, itemType }));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Impossible de charger l'historique.");
+        } finally {
+            setIsLoading(false);
+        }
+    }, [levelId, chapterId, itemType]);
+
+    useEffect(() => {
+        fetchRevisions();
+    }, [fetchRevisions]);
+
+    const runRestore = async (revisionId: number, restore: () => Promise<void>, confirmMessage: string) => {
+        if (!window.confirm(confirmMessage)) return;
+        setPendingId(revisionId);
+        try {
+            await restore();
+            await fetchRevisions();
+        } catch (err) {
+            alert(`La restauration a échoué.\nErreur: ${err instanceof Error ? err.message : String(err)}`);
+        } finally {
+            setPendingId(null);
+        }
+    };
+
+    const selectClassName = "px-3 py-2 bg-gray-900 border border-gray-600 rounded-lg text-gray-300 focus:outline-none focus:ring-2 focus:ring-brand-blue-500";
+
+    return (
+        <div className="max-w-5xl mx-auto">
+            <div className="mb-8">
+                <button onClick={onBack} className="flex items-center gap-2 text-brand-blue-400 hover:text-brand-blue-300 transition-colors mb-4">
+                    <ArrowLeftIcon className="w-5 h-5" />
+                    Retour au tableau de bord
+                </button>
+                <h2 className="text-3xl font-bold text-brand-blue-300">Historique du programme</h2>
+                <p className="mt-2 text-lg text-gray-400">Chaque modification est enregistrée et peut être annulée.</p>
+            </div>
+
+            <div className="flex flex-wrap gap-3 mb-6">
+                <select value={levelId} onChange={e => { setLevelId(e.target.value); setChapterId(''); }} className={selectClassName} aria-label="Filtrer par niveau">
+                    <option value="">Tous les niveaux</option>
+                    {curriculum.map(level => <option key={level.id} value={level.id}>{level.levelName}</option>)}
+                </select>
+                <select value={chapterId} onChange={e => setChapterId(e.target.value)} className={selectClassName} disabled={!levelId} aria-label="Filtrer par chapitre">
+                    <option value="">Tous les chapitres</option>
+                    {chapters.map(chapter => <option key={chapter.id} value={chapter.id}>{chapter.title}</option>)}
+                </select>
+                <select value={itemType} onChange={e => setItemType(e.target.value)} className={selectClassName} aria-label="Filtrer par type d'élément">
+                    <option value="">Tous les types</option>
+                    {Object.entries(ITEM_TYPE_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                </select>
+            </div>
+
+            {isLoading && <SpinnerIcon className="w-8 h-8 animate-spin text-brand-blue-500 mx-auto" />}
+            {error && <p className="text-red-400 text-center">{error}</p>}
+            {!isLoading && !error && revisions.length === 0 && (
+                <p className="text-center text-gray-500 py-8">Aucune modification enregistrée.</p>
+            )}
+            {!isLoading && !error && revisions.length > 0 && (
+                <div className="space-y-3">
+                    {revisions.map(revision => {
+                        const isPending = pendingId === revision.id;
+                        const isWholeCurriculum = revision.item_type === 'curriculum';
+                        return (
+                            <div key={revision.id} className="p-4 bg-gray-800/50 rounded-xl border border-gray-700/50 flex flex-col md:flex-row md:items-center justify-between gap-3">
+                                <div className="min-w-0">
+                                    <p className="text-sm text-gray-400">
+                                        {new Date(revision.created_at).toLocaleString('fr-FR')} · {revision.admin_email ?? 'inconnu'}
+                                    </p>
+                                    <p className="font-semibold text-gray-200">
+                                        {ACTION_LABELS[revision.action] ?? revision.action}
+                                        <span className="ml-2 text-xs font-normal px-2 py-0.5 rounded-full bg-gray-700 text-gray-300">{ITEM_TYPE_LABELS[revision.item_type]}</span>
+                                    </p>
+                                    {!isWholeCurriculum && <p className="text-sm text-gray-400 truncate">{getItemLabel(revision)}</p>}
+                                </div>
+                                <div className="flex flex-wrap gap-2 shrink-0">
+                                    {isPending && <SpinnerIcon className="w-5 h-5 animate-spin text-brand-blue-400" />}
+                                    {!isWholeCurriculum && (
+                                        <button
+                                            onClick={() => runRestore(revision.id, () => onRestoreRevision(revision.id, 'before'), "Annuler cette modification et remettre l'élément dans son état précédent ?")}
+                                            disabled={pendingId !== null}
+                                            className="px-3 py-1.5 text-xs font-semibold rounded-lg bg-gray-700/50 border border-gray-600 hover:bg-gray-700 text-gray-300 disabled:opacity-50"
+                                        >
+                                            {isEmptySnapshot(revision.before) ? 'Annuler la création' : 'Annuler'}
+                                        </button>
+                                    )}
+                                    {!isWholeCurriculum && !isEmptySnapshot(revision.after) && (
+                                        <button
+                                            onClick={() => runRestore(revision.id, () => onRestoreRevision(revision.id, 'after'), "Restaurer l'élément dans cette version ?")}
+                                            disabled={pendingId !== null}
+                                            className="px-3 py-1.5 text-xs font-semibold rounded-lg bg-brand-blue-600/80 border border-brand-blue-500 hover:bg-brand-blue-600 text-white disabled:opacity-50"
+                                        >
+                                            Restaurer cette version
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={() => runRestore(revision.id, () => onRestoreCurriculum(revision.id), "Remettre TOUT le programme dans l'état où il était juste après cette modification ? Les modifications plus récentes seront annulées.")}
+                                        disabled={pendingId !== null}
+                                        className="px-3 py-1.5 text-xs font-semibold rounded-lg bg-amber-600/80 border border-amber-500 hover:bg-amber-600 text-white disabled:opacity-50"
+                                    >
+                                        Restaurer tout le programme ici
+                                    </button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
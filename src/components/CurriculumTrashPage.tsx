@@ -0,0 +1,147 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { TrashItem } from '@/types';
+import { ArrowLeftIcon, SpinnerIcon, TrashIcon } from '@/components/icons';
+import { getTrashItems } from '@/services/api';
+
+interface CurriculumTrashPageProps {
+    onBack: () => void;
+    onRestoreItem: (trashId: number) => Promise<void>;
+    onPurgeTrash: (options: { trashId?: number; olderThanDays?: number }) => Promise<void>;
+}
+
+const ITEM_TYPE_LABELS: Record<string, string> = {
+    level: 'Niveau', chapter: 'Chapitre', series: 'Série', exercise: 'Exercice', quiz: 'Quiz', quizQuestion: 'Question',
+};
+
+const ITEM_TABLE_BY_TYPE: Record<string, string> = {
+    level: 'levels', chapter: 'chapters', series: 'series', exercise: 'exercises', quiz: 'quizzes', quizQuestion: 'quiz_questions',
+};
+
+const COUNT_LABELS: Record<string, string> = {
+    chapters: 'chapitre(s)', series: 'série(s)', exercises: 'exercice(s)', quizzes: 'quiz', quiz_questions: 'question(s)',
+};
+
+/**
+ * Summarizes what a trashed item contains, e.g. "3 chapitre(s), 12 exercice(s)".
+ */
+const describeContents = (item: TrashItem): string => {
+    const parts = Object.entries(COUNT_LABELS)
+        .map(([table, label]) => {
+            // The deleted item itself is counted in its own table.
+            const count = (item.counts[table] ?? 0) - (ITEM_TABLE_BY_TYPE[item.item_type] === table ? 1 : 0);
+            return count > 0 ? `${count} ${label}` : null;
+        })
+        .filter(Boolean);
+    return parts.length ? `Contient ${parts.join(', ')}` : '';
+};
+
+export const CurriculumTrashPage: React.FC<CurriculumTrashPageProps> = ({ onBack, onRestoreItem, onPurgeTrash }) => {
+    const [items, setItems] = useState<TrashItem[]>([]);
+    const [retentionDays, setRetentionDays] = useState<number | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [pendingId, setPendingId] = useState<number | 'all' | null>(null);
+
+    const fetchItems = useCallback(async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const data = await getTrashItems();
+            setItems(data.items);
+            setRetentionDays(data.retentionDays);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Impossible de charger la corbeille.");
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchItems();
+    }, [fetchItems]);
+
+    const run = async (id: number | 'all', action: () => Promise<void>, confirmMessage?: string) => {
+        if (confirmMessage && !window.confirm(confirmMessage)) return;
+        setPendingId(id);
+        try {
+            await action();
+            await fetchItems();
+        } catch (err) {
+            alert(`L'opération a échoué.\nErreur: ${err instanceof Error ? err.message : String(err)}`);
+        } finally {
+            setPendingId(null);
+        }
+    };
+
+    return (
+        <div className="max-w-4xl mx-auto">
+            <div className="mb-8">
+                <button onClick={onBack} className="flex items-center gap-2 text-brand-blue-400 hover:text-brand-blue-300 transition-colors mb-4">
+                    <ArrowLeftIcon className="w-5 h-5" />
+                    Retour au tableau de bord
+                </button>
+                <div className="flex justify-between items-center gap-4">
+                    <div>
+                        <h2 className="text-3xl font-bold text-brand-blue-300">Corbeille</h2>
+                        <p className="mt-2 text-lg text-gray-400">
+                            Les éléments supprimés sont conservés {retentionDays ?? '…'} jours avant d'être effacés définitivement.
+                        </p>
+                    </div>
+                    {items.length > 0 && (
+                        <button
+                            onClick={() => run('all', () => onPurgeTrash({ olderThanDays: 0 }), "Vider la corbeille ? Les éléments seront supprimés définitivement.")}
+                            disabled={pendingId !== null}
+                            className="flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg transition-colors duration-200 bg-red-600/80 border-2 border-red-500 hover:bg-red-600 text-white disabled:opacity-50 shrink-0"
+                        >
+                            {pendingId === 'all' ? <SpinnerIcon className="w-5 h-5 animate-spin" /> : <TrashIcon className="w-5 h-5" />}
+                            Vider la corbeille
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {isLoading && <SpinnerIcon className="w-8 h-8 animate-spin text-brand-blue-500 mx-auto" />}
+            {error && <p className="text-red-400 text-center">{error}</p>}
+            {!isLoading && !error && items.length === 0 && (
+                <p className="text-center text-gray-500 py-8">La corbeille est vide.</p>
+            )}
+            {!isLoading && !error && items.length > 0 && (
+                <div className="space-y-3">
+                    {items.map(item => (
+                        <div key={item.id} className="p-4 bg-gray-800/50 rounded-xl border border-gray-700/50 flex flex-col md:flex-row md:items-center justify-between gap-3">
+                            <div className="min-w-0">
+                                <p className="font-semibold text-gray-200 truncate">
+                                    <span className="mr-2 text-xs font-normal px-2 py-0.5 rounded-full bg-gray-700 text-gray-300">{ITEM_TYPE_LABELS[item.item_type]}</span>
+                                    {item.item_name || item.item_id}
+                                </p>
+                                <p className="text-sm text-gray-400">
+                                    Supprimé le {new Date(item.deleted_at).toLocaleString('fr-FR')} par {item.deleted_by_email ?? 'inconnu'}
+                                </p>
+                                <p className="text-xs text-gray-500">
+                                    {describeContents(item)}{describeContents(item) ? ' · ' : ''}Suppression définitive le {new Date(item.expires_at).toLocaleDateString('fr-FR')}
+                                </p>
+                            </div>
+                            <div className="flex gap-2 shrink-0 items-center">
+                                {pendingId === item.id && <SpinnerIcon className="w-5 h-5 animate-spin text-brand-blue-400" />}
+                                <button
+                                    onClick={() => run(item.id, () => onRestoreItem(item.id))}
+                                    disabled={pendingId !== null}
+                                    className="px-3 py-1.5 text-xs font-semibold rounded-lg bg-green-600/80 border border-green-500 hover:bg-green-600 text-white disabled:opacity-50"
+                                >
+                                    Restaurer
+                                </button>
+                                <button
+                                    onClick={() => run(item.id, () => onPurgeTrash({ trashId: item.id }), `Supprimer définitivement "${item.item_name || item.item_id}" ?`)}
+                                    disabled={pendingId !== null}
+                                    className="px-3 py-1.5 text-xs font-semibold rounded-lg bg-gray-700/50 border border-gray-600 hover:bg-gray-700 hover:text-red-400 text-gray-300 disabled:opacity-50"
+                                >
+                                    Supprimer définitivement
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
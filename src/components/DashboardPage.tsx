@@ -1,13 +1,26 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { BookOpenIcon, StarIcon, CheckCircleIcon, SpinnerIcon, QuestionMarkCircleIcon } from '@/components/icons';
-import { Profile } from '@/types';
+import { BookOpenIcon, StarIcon, CheckCircleIcon, SpinnerIcon, QuestionMarkCircleIcon, DocumentTextIcon, TrashIcon, ArrowDownTrayIcon, UserCircleIcon, UserGroupIcon } from '@/components/icons';
+import { Profile, View, Classroom, Level, CurriculumItemRef, StudentAssignment, ReviewQueue, BadgeStatus, ActivitySummary, DailyGoal } from '@/types';
 import * as userService from '@/services/userService';
+import { ROLE_LABELS } from '@/utils/permissions';
+import { getClassrooms, sendClassroomAction, getMyAssignments, getReviewQueue, evaluateBadges, getBadgeGallery, getActivitySummary, setDailyGoal } from '@/services/api';
+import { locateItem } from '@/utils/curriculum-tree';
+import { useMastery } from '@/hooks/useMastery';
+import { SkillMap } from '@/components/SkillMap';
+import { ContinueCard } from '@/components/ContinueCard';
+import { BadgeGallery } from '@/components/BadgeGallery';
+import { LeaderboardCard } from '@/components/LeaderboardCard';
+import { ActivityHeatmap } from '@/components/ActivityHeatmap';
+import { FREEZE_EARNED_EVERY, MAX_FREEZES } from '@/utils/streaks';
+import { useBadgeToasts } from '@/contexts/BadgeToastContext';
+import { summarizeAttempts } from '@/utils/quiz-attempts';
+import { getXPForLevel } from '@/utils/xp';
 
 const XPProgressBar: React.FC<{ xp: number; level: number }> = ({ xp, level }) => {
-    const xpForCurrentLevel = userService.getXPForLevel(level);
-    const xpForNextLevel = userService.getXPForLevel(level + 1);
+    const xpForCurrentLevel = getXPForLevel(level);
+    const xpForNextLevel = getXPForLevel(level + 1);
     
     const levelXP = xpForNextLevel - xpForCurrentLevel;
     const currentXPInLevel = xp - xpForCurrentLevel;
@@ -30,12 +43,16 @@ const XPProgressBar: React.FC<{ xp: number; level: number }> = ({ xp, level }) =
     );
 };
 
-const AdminDashboard: React.FC<{ onNavigateToCourses: () => void }> = ({ onNavigateToCourses }) => {
+// Dashboard of teachers, content editors and admins: each section requires its own permission.
+const StaffDashboard: React.FC<{ onNavigateToCourses: () => void; onNavigate: (view: View) => void }> = ({ onNavigateToCourses, onNavigate }) => {
+    const { user, can } = useAuth();
     const [profiles, setProfiles] = useState<Profile[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
+    const canViewStudents = can('students.view');
 
     useEffect(() => {
+        if (!canViewStudents) return;
         const fetchProfiles = async () => {
             try {
                 const fetchedProfiles = await userService.getAllProfiles();
@@ -47,59 +64,503 @@ const AdminDashboard: React.FC<{ onNavigateToCourses: () => void }> = ({ onNavig
             }
         };
         fetchProfiles();
-    }, []);
+    }, [canViewStudents]);
 
     return (
         <div className="max-w-4xl mx-auto space-y-8">
             <div>
-                <h2 className="text-3xl font-bold text-blue-300">Tableau de Bord Administrateur</h2>
+                <h2 className="text-3xl font-bold text-blue-300">Tableau de Bord {user ? ROLE_LABELS[user.role] : ''}</h2>
                 <p className="text-lg text-slate-400 mt-1">Supervision des élèves et gestion du contenu.</p>
             </div>
 
-            <div className="bg-slate-800/50 p-6 rounded-xl border border-slate-700/50">
-                <h3 className="text-xl font-semibold text-white mb-4">Gestion du Contenu</h3>
-                <p className="text-slate-400 mb-4">Accéder à l'interface pour ajouter, modifier ou supprimer des niveaux, chapitres, exercices et quiz.</p>
-                <button
-                    onClick={onNavigateToCourses}
-                    className="inline-flex items-center gap-3 px-5 py-3 font-semibold text-white bg-blue-600 rounded-lg shadow-md hover:bg-blue-700 transition-colors"
-                >
-                    <BookOpenIcon className="w-6 h-6" />
-                    Gérer les cours
+            {can('curriculum.edit') && (
+                <div className="bg-slate-800/50 p-6 rounded-xl border border-slate-700/50">
+                    <h3 className="text-xl font-semibold text-white mb-4">Gestion du Contenu</h3>
+                    <p className="text-slate-400 mb-4">Accéder à l'interface pour ajouter, modifier ou supprimer des niveaux, chapitres, exercices et quiz.</p>
+                    <div className="flex flex-wrap gap-3">
+                        <button
+                            onClick={onNavigateToCourses}
+                            className="inline-flex items-center gap-3 px-5 py-3 font-semibold text-white bg-blue-600 rounded-lg shadow-md hover:bg-blue-700 transition-colors"
+                        >
+                            <BookOpenIcon className="w-6 h-6" />
+                            Gérer les cours
+                        </button>
+                        <button
+                            onClick={() => onNavigate('history')}
+                            className="inline-flex items-center gap-3 px-5 py-3 font-semibold text-slate-200 bg-slate-700 rounded-lg shadow-md hover:bg-slate-600 transition-colors"
+                        >
+                            <DocumentTextIcon className="w-6 h-6" />
+                            Historique des modifications
+                        </button>
+                        <button
+                            onClick={() => onNavigate('trash')}
+                            className="inline-flex items-center gap-3 px-5 py-3 font-semibold text-slate-200 bg-slate-700 rounded-lg shadow-md hover:bg-slate-600 transition-colors"
+                        >
+                            <TrashIcon className="w-6 h-6" />
+                            Corbeille
+                        </button>
+                        <button
+                            onClick={() => onNavigate('bundle')}
+                            className="inline-flex items-center gap-3 px-5 py-3 font-semibold text-slate-200 bg-slate-700 rounded-lg shadow-md hover:bg-slate-600 transition-colors"
+                        >
+                            <ArrowDownTrayIcon className="w-6 h-6" />
+                            Import / Export
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {can('classrooms.manage') && (
+                <div className="bg-slate-800/50 p-6 rounded-xl border border-slate-700/50">
+                    <h3 className="text-xl font-semibold text-white mb-4">Mes classes</h3>
+                    <p className="text-slate-400 mb-4">Créer des classes, partager leur code d'inscription et suivre la progression de vos élèves.</p>
+                    <button
+                        onClick={() => onNavigate('classrooms')}
+                        className="inline-flex items-center gap-3 px-5 py-3 font-semibold text-white bg-blue-600 rounded-lg shadow-md hover:bg-blue-700 transition-colors"
+                    >
+                        <UserGroupIcon className="w-6 h-6" />
+                        Gérer mes classes
+                    </button>
+                </div>
+            )}
+
+            {can('roles.manage') && (
+                <div className="bg-slate-800/50 p-6 rounded-xl border border-slate-700/50">
+                    <h3 className="text-xl font-semibold text-white mb-4">Utilisateurs</h3>
+                    <p className="text-slate-400 mb-4">Attribuer les rôles d'enseignant, d'éditeur de contenu et d'administrateur.</p>
+                    <button
+                        onClick={() => onNavigate('roles')}
+                        className="inline-flex items-center gap-3 px-5 py-3 font-semibold text-slate-200 bg-slate-700 rounded-lg shadow-md hover:bg-slate-600 transition-colors"
+                    >
+                        <UserCircleIcon className="w-6 h-6" />
+                        Gérer les rôles
+                    </button>
+                </div>
+            )}
+
+            {canViewStudents && (
+                <div className="bg-slate-800/50 p-6 rounded-xl border border-slate-700/50">
+                    <h3 className="text-xl font-semibold text-white mb-4">Liste des Élèves</h3>
+                    {isLoading && <SpinnerIcon className="w-8 h-8 animate-spin text-blue-500 mx-auto" />}
+                    {error && <p className="text-red-400 text-center">{error}</p>}
+                    {!isLoading && !error && (
+                         <div className="overflow-x-auto">
+                            <table className="w-full text-left">
+                                <thead className="border-b-2 border-slate-600">
+                                    <tr>
+                                        <th className="p-3 text-sm font-semibold text-slate-400">Email</th>
+                                        <th className="p-3 text-sm font-semibold text-slate-400">Niveau</th>
+                                        <th className="p-3 text-sm font-semibold text-slate-400">XP</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {profiles.filter(p => p.role === 'student').sort((a,b) => b.xp - a.xp).map(profile => (
+                                        <tr key={profile.id} className="border-b border-slate-700/50">
+                                            <td className="p-3 text-slate-300">{profile.email}</td>
+                                            <td className="p-3 text-slate-300 font-bold">{profile.level}</td>
+                                            <td className="p-3 text-slate-300">{profile.xp.toLocaleString()}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+// Lets a student join classes with the code given by their teacher, and leave them.
+const MyClassroomsCard: React.FC = () => {
+    const [classrooms, setClassrooms] = useState<Classroom[]>([]);
+    const [code, setCode] = useState('');
+    const [isLoading, setIsLoading] = useState(true);
+    const [isBusy, setIsBusy] = useState(false);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    const fetchClassrooms = async () => {
+        try {
+            const { enrolled } = await getClassrooms();
+            setClassrooms(enrolled);
+        } catch (err) {
+            setMessage({ type: 'error', text: err instanceof Error ? err.message : "Impossible de charger vos classes." });
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchClassrooms();
+    }, []);
+
+    const handleJoin = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!code.trim()) return;
+        setIsBusy(true);
+        setMessage(null);
+        try {
+            const { message } = await sendClassroomAction({ action: 'JOIN', payload: { code: code.trim() } });
+            setMessage({ type: 'success', text: message });
+            setCode('');
+            await fetchClassrooms();
+        } catch (err) {
+            setMessage({ type: 'error', text: err instanceof Error ? err.message : "Impossible de rejoindre la classe." });
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleLeave = async (classroom: Classroom) => {
+        if (!window.confirm(`Quitter la classe "${classroom.name}" ? Votre enseignant ne verra plus votre progression.`)) return;
+        setIsBusy(true);
+        setMessage(null);
+        try {
+            await sendClassroomAction({ action: 'LEAVE', payload: { classroomId: classroom.id } });
+            setClassrooms(prev => prev.filter(c => c.id !== classroom.id));
+        } catch (err) {
+            setMessage({ type: 'error', text: err instanceof Error ? err.message : "Impossible de quitter la classe." });
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    return (
+        <div className="bg-slate-900 p-6 rounded-2xl border border-slate-800">
+            <h3 className="font-semibold text-slate-200 mb-4">Mes classes</h3>
+            {isLoading ? (
+                <SpinnerIcon className="w-6 h-6 animate-spin text-blue-500" />
+            ) : classrooms.length === 0 ? (
+                <p className="text-sm text-slate-400 mb-4">Vous ne faites partie d'aucune classe. Demandez le code à votre enseignant.</p>
+            ) : (
+                <ul className="space-y-2 mb-4">
+                    {classrooms.map(classroom => (
+                        <li key={classroom.id} className="flex justify-between items-center gap-3 p-3 bg-slate-800/50 rounded-lg">
+                            <div className="min-w-0">
+                                <p className="font-semibold text-slate-200 truncate">{classroom.name}</p>
+                                {classroom.teacher_email && <p className="text-xs text-slate-400">Enseignant : {classroom.teacher_email}</p>}
+                            </div>
+                            <button onClick={() => handleLeave(classroom)} disabled={isBusy} className="text-xs text-slate-400 hover:text-red-400 disabled:opacity-50 shrink-0">
+                                Quitter
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <form onSubmit={handleJoin} className="flex gap-3">
+                <input
+                    type="text"
+                    value={code}
+                    onChange={e => setCode(e.target.value.toUpperCase())}
+                    placeholder="Code de la classe"
+                    maxLength={20}
+                    className="flex-grow p-2 bg-slate-800 border border-slate-700 rounded-md text-slate-200 font-mono tracking-widest"
+                />
+                <button type="submit" disabled={isBusy || !code.trim()} className="px-4 py-2 text-sm font-semibold rounded-lg bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50">
+                    {isBusy ? <SpinnerIcon className="w-5 h-5 animate-spin" /> : 'Rejoindre'}
                 </button>
+            </form>
+            {message && <p className={`mt-3 text-sm ${message.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>{message.text}</p>}
+        </div>
+    );
+};
+
+const formatDueDate = (dueAt: string) =>
+    new Date(dueAt).toLocaleString('fr-FR', { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+// Homework of the student's classes that still has unfinished items, soonest due date first.
+const TodoAssignmentsCard: React.FC<{ curriculum: Level[]; onOpenItem: (ref: CurriculumItemRef) => void }> = ({ curriculum, onOpenItem }) => {
+    const [assignments, setAssignments] = useState<StudentAssignment[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        getMyAssignments()
+            .then(setAssignments)
+            .catch(err => setError(err instanceof Error ? err.message : "Impossible de charger les devoirs."))
+            .finally(() => setIsLoading(false));
+    }, []);
+
+    const todo = assignments.filter(a => a.statuses.some(s => !s.completed_at));
+    const doneCount = assignments.length - todo.length;
+
+    // Nothing to show to a student who is in no class.
+    if (!isLoading && !error && assignments.length === 0) return null;
+
+    return (
+        <div className="bg-slate-900 p-6 rounded-2xl border border-slate-800">
+            <h3 className="font-semibold text-slate-200 mb-4">À faire</h3>
+            {isLoading && <SpinnerIcon className="w-6 h-6 animate-spin text-blue-500" />}
+            {error && <p className="text-sm text-red-400">{error}</p>}
+            {!isLoading && !error && todo.length === 0 && (
+                <p className="text-sm text-green-400">Tous vos devoirs sont terminés. Bravo !</p>
+            )}
+            <ul className="space-y-4">
+                {todo.map(assignment => {
+                    const overdue = new Date(assignment.due_at).getTime() < Date.now();
+                    const completed = assignment.statuses.filter(s => s.completed_at).length;
+                    return (
+                        <li key={assignment.id} className="p-4 bg-slate-800/50 rounded-lg">
+                            <div className="flex flex-wrap justify-between items-baseline gap-2">
+                                <p className="font-semibold text-slate-200">{assignment.title}</p>
+                                <p className={`text-xs ${overdue ? 'text-red-400 font-semibold' : 'text-slate-400'}`}>
+                                    {overdue ? 'En retard — ' : ''}pour le {formatDueDate(assignment.due_at)}
+                                </p>
+                            </div>
+                            <p className="text-xs text-slate-500">{assignment.classroom_name} · {completed} / {assignment.statuses.length} terminé(s)</p>
+                            {assignment.instructions && <p className="mt-2 text-sm text-slate-300 whitespace-pre-line">{assignment.instructions}</p>}
+                            <ul className="mt-3 space-y-1">
+                                {assignment.statuses.map(status => {
+                                    const item = locateItem(curriculum, status);
+                                    return (
+                                        <li key={`${status.type}:${status.id}`}>
+                                            <button
+                                                onClick={() => onOpenItem(status)}
+                                                disabled={!item}
+                                                className="w-full flex items-center gap-2 text-left text-sm p-1.5 rounded hover:bg-slate-700/50 disabled:opacity-50 disabled:hover:bg-transparent"
+                                            >
+                                                {status.completed_at
+                                                    ? <CheckCircleIcon className="w-4 h-4 text-green-400 shrink-0" />
+                                                    : <span className="w-4 h-4 rounded-full border border-slate-500 shrink-0" />}
+                                                <span className={status.completed_at ? 'text-slate-500 line-through' : 'text-slate-200'}>
+                                                    {item ? `${status.type === 'quiz' ? 'Quiz' : 'Exercice'} : ${item.title}` : 'Élément retiré du programme'}
+                                                </span>
+                                                {status.late && <span className="text-xs text-orange-400">(rendu en retard)</span>}
+                                            </button>
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        </li>
+                    );
+                })}
+            </ul>
+            {doneCount > 0 && todo.length > 0 && <p className="mt-3 text-xs text-slate-500">{doneCount} devoir(s) terminé(s).</p>}
+        </div>
+    );
+};
+
+// Spaced-repetition counters and the entry to the daily "Révision" session.
+const ReviewCard: React.FC<{ onStartReview: () => void }> = ({ onStartReview }) => {
+    const [queue, setQueue] = useState<ReviewQueue | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        getReviewQueue()
+            .then(setQueue)
+            .catch(err => setError(err instanceof Error ? err.message : "Impossible de charger les révisions."));
+    }, []);
+
+    // Nothing has been studied yet: nothing to review.
+    if (queue && queue.scheduled === 0) return null;
+
+    return (
+        <div className="bg-slate-900 p-6 rounded-2xl border border-slate-800">
+            <div className="flex flex-wrap justify-between items-center gap-4">
+                <div>
+                    <h3 className="font-semibold text-slate-200">Révision</h3>
+                    {!queue && !error && <SpinnerIcon className="mt-2 w-6 h-6 animate-spin text-blue-500" />}
+                    {error && <p className="mt-1 text-sm text-red-400">{error}</p>}
+                    {queue && (
+                        <div className="mt-2 flex gap-6">
+                            <div>
+                                <p className="text-2xl font-bold text-white">{queue.dueToday}</p>
+                                <p className="text-xs text-slate-400">à réviser aujourd'hui</p>
+                            </div>
+                            <div>
+                                <p className="text-2xl font-bold text-slate-300">{queue.dueThisWeek}</p>
+                                <p className="text-xs text-slate-400">cette semaine</p>
+                            </div>
+                        </div>
+                    )}
+                </div>
+                {queue && queue.dueToday > 0 && (
+                    <button onClick={onStartReview} className="px-5 py-3 font-semibold text-white bg-blue-600 rounded-lg shadow-md hover:bg-blue-700 transition-colors">
+                        Commencer la révision
+                    </button>
+                )}
+                {queue && queue.dueToday === 0 && <p className="text-sm text-green-400">Tout est à jour pour aujourd'hui.</p>}
             </div>
+        </div>
+    );
+};
 
-            <div className="bg-slate-800/50 p-6 rounded-xl border border-slate-700/50">
-                <h3 className="text-xl font-semibold text-white mb-4">Liste des Élèves</h3>
-                {isLoading && <SpinnerIcon className="w-8 h-8 animate-spin text-blue-500 mx-auto" />}
-                {error && <p className="text-red-400 text-center">{error}</p>}
-                {!isLoading && !error && (
-                     <div className="overflow-x-auto">
-                        <table className="w-full text-left">
-                            <thead className="border-b-2 border-slate-600">
-                                <tr>
-                                    <th className="p-3 text-sm font-semibold text-slate-400">Email</th>
-                                    <th className="p-3 text-sm font-semibold text-slate-400">Niveau</th>
-                                    <th className="p-3 text-sm font-semibold text-slate-400">XP</th>
-                                </tr>
-                            </thead>
-                            <tbody>
-                                {profiles.sort((a,b) => b.xp - a.xp).map(profile => (
-                                    <tr key={profile.id} className="border-b border-slate-700/50">
-                                        <td className="p-3 text-slate-300">{profile.email}</td>
-                                        <td className="p-3 text-slate-300 font-bold">{profile.level}</td>
-                                        <td className="p-3 text-slate-300">{profile.xp.toLocaleString()}</td>
-                                    </tr>
-                                ))}
-                            </tbody>
-                        </table>
+// Estimated mastery of each skill of the curriculum, from the student's graded answers.
+const SkillMapCard: React.FC = () => {
+    const { data, isLoading, error } = useMastery(true);
+
+    return (
+        <div className="bg-slate-900 p-6 rounded-2xl border border-slate-800">
+            <h3 className="font-semibold text-slate-200">Mes compétences</h3>
+            <p className="mt-1 mb-4 text-sm text-slate-400">Estimées à partir de vos réponses vérifiées, de vos quiz et de vos échanges avec le tuteur.</p>
+            {isLoading && <SpinnerIcon className="w-6 h-6 animate-spin text-blue-500" />}
+            {error && <p className="text-sm text-red-400">{error}</p>}
+            {data && <SkillMap skills={data.skills} />}
+        </div>
+    );
+};
+
+// Today's goal, the streak with its freezes, and the activity calendar.
+const DailyGoalCard: React.FC = () => {
+    const [summary, setSummary] = useState<ActivitySummary | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [draftGoal, setDraftGoal] = useState<DailyGoal | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        getActivitySummary()
+            .then(setSummary)
+            .catch(err => setError(err instanceof Error ? err.message : "Impossible de charger votre activité."));
+    }, []);
+
+    const handleSaveGoal = async () => {
+        if (!draftGoal) return;
+        setIsSaving(true);
+        setError(null);
+        try {
+            setSummary(await setDailyGoal(draftGoal));
+            setDraftGoal(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Impossible d'enregistrer votre objectif.");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const goalParts = summary ? [
+        summary.goal.exercises > 0 && `${summary.today.exercises}/${summary.goal.exercises} exercices`,
+        summary.goal.quizzes > 0 && `${summary.today.quizzes}/${summary.goal.quizzes} quiz`,
+    ].filter(Boolean) : [];
+
+    return (
+        <div className="bg-slate-900 p-6 rounded-2xl border border-slate-800">
+            <h3 className="font-semibold text-slate-200">Objectif du jour</h3>
+            {!summary && !error && <SpinnerIcon className="mt-2 w-6 h-6 animate-spin text-blue-500" />}
+            {error && <p className="mt-1 text-sm text-red-400">{error}</p>}
+            {summary && (
+                <>
+                    <div className="mt-3 flex flex-wrap gap-8 items-start">
+                        <div>
+                            <p className="text-3xl font-bold text-orange-400">🔥 {summary.streak.current}</p>
+                            <p className="text-xs text-slate-400">jour(s) d'affilée · record : {summary.streak.longest}</p>
+                        </div>
+                        <div>
+                            <p className="text-3xl font-bold text-sky-400">{'❄️'.repeat(summary.streak.freezesAvailable) || '–'}</p>
+                            <p className="text-xs text-slate-400" title={`Un gel est gagné tous les ${FREEZE_EARNED_EVERY} jours de série (${MAX_FREEZES} au maximum). Il protège la série d'un jour manqué.`}>
+                                gel(s) de série disponible(s)
+                            </p>
+                        </div>
+                        <div className="flex-grow">
+                            <p className={`font-semibold ${summary.todayGoalMet ? 'text-green-400' : 'text-slate-200'}`}>
+                                {summary.todayGoalMet ? 'Objectif atteint aujourd\'hui !' : `Aujourd'hui : ${goalParts.join(' ou ')}`}
+                            </p>
+                            {!draftGoal ? (
+                                <button onClick={() => setDraftGoal(summary.goal)} className="mt-1 text-sm text-blue-400 hover:text-blue-300">
+                                    Modifier mon objectif
+                                </button>
+                            ) : (
+                                <div className="mt-2 flex flex-wrap items-center gap-2 text-sm text-slate-300">
+                                    <input type="number" min={0} max={20} value={draftGoal.exercises} onChange={e => setDraftGoal({ ...draftGoal, exercises: Number(e.target.value) })} className="w-16 p-1 bg-slate-800 border border-slate-700 rounded" aria-label="Exercices par jour" />
+                                    <span>exercices ou</span>
+                                    <input type="number" min={0} max={20} value={draftGoal.quizzes} onChange={e => setDraftGoal({ ...draftGoal, quizzes: Number(e.target.value) })} className="w-16 p-1 bg-slate-800 border border-slate-700 rounded" aria-label="Quiz par jour" />
+                                    <span>quiz par jour</span>
+                                    <button onClick={handleSaveGoal} disabled={isSaving} className="px-3 py-1 font-semibold text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-60">Enregistrer</button>
+                                    <button onClick={() => setDraftGoal(null)} className="px-3 py-1 text-slate-400 hover:text-slate-200">Annuler</button>
+                                </div>
+                            )}
+                        </div>
                     </div>
-                )}
+                    <div className="mt-6">
+                        <ActivityHeatmap days={summary.days} goal={summary.goal} today={summary.today.date} frozenDays={summary.streak.frozenDays} />
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+// Badge gallery. Evaluates the rules first, so that streaks and mastery unlock their badges on arrival.
+const BadgesCard: React.FC = () => {
+    const { announceBadges } = useBadgeToasts();
+    const [badges, setBadges] = useState<BadgeStatus[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        evaluateBadges()
+            .then(announceBadges)
+            .catch(err => console.error("Failed to evaluate badges:", err))
+            .then(getBadgeGallery)
+            .then(setBadges)
+            .catch(err => setError(err instanceof Error ? err.message : "Impossible de charger les badges."));
+    }, [announceBadges]);
+
+    const unlockedCount = badges?.filter(badge => badge.unlockedAt).length ?? 0;
+
+    return (
+        <div className="bg-slate-900 p-6 rounded-2xl border border-slate-800">
+            <div className="flex justify-between items-baseline mb-4">
+                <h3 className="font-semibold text-slate-200">Mes badges</h3>
+                {badges && <span className="text-sm text-slate-400">{unlockedCount} / {badges.length}</span>}
+            </div>
+            {!badges && !error && <SpinnerIcon className="w-6 h-6 animate-spin text-blue-500" />}
+            {error && <p className="text-sm text-red-400">{error}</p>}
+            {badges && <BadgeGallery badges={badges} />}
+        </div>
+    );
+};
+
+// Best, last and average score on each quiz taken, most recent first.
+const QuizResultsCard: React.FC<{ curriculum: Level[]; onOpenItem: (ref: CurriculumItemRef) => void }> = ({ curriculum, onOpenItem }) => {
+    const { user } = useAuth();
+    const summaries = useMemo(
+        () => [...summarizeAttempts(user?.quiz_attempts ?? []).values()].sort((a, b) => b.last_taken_at.localeCompare(a.last_taken_at)),
+        [user]
+    );
+
+    if (summaries.length === 0) return null;
+
+    return (
+        <div className="bg-slate-900 p-6 rounded-2xl border border-slate-800">
+            <h3 className="font-semibold text-slate-200 mb-4">Mes quiz</h3>
+            <div className="overflow-x-auto">
+                <table className="w-full text-left text-sm">
+                    <thead className="text-slate-400">
+                        <tr>
+                            <th className="pb-2 font-medium">Quiz</th>
+                            <th className="pb-2 font-medium text-center">Meilleur</th>
+                            <th className="pb-2 font-medium text-center">Dernier</th>
+                            <th className="pb-2 font-medium text-center">Moyenne</th>
+                            <th className="pb-2 font-medium text-center">Tentatives</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {summaries.map(summary => {
+                            const item = locateItem(curriculum, { type: 'quiz', id: summary.quiz_id });
+                            return (
+                                <tr key={summary.quiz_id} className="border-t border-slate-800">
+                                    <td className="py-2 pr-3">
+                                        {item ? (
+                                            <button onClick={() => onOpenItem(item.ref)} className="text-left text-slate-200 hover:text-blue-400">
+                                                {item.title}
+                                                <span className="block text-xs text-slate-500">{item.chapter.title}</span>
+                                            </button>
+                                        ) : <span className="text-slate-500">Quiz retiré du programme</span>}
+                                    </td>
+                                    <td className="py-2 text-center font-semibold text-green-400">{summary.best} %</td>
+                                    <td className="py-2 text-center text-slate-300">{summary.last} %</td>
+                                    <td className="py-2 text-center text-slate-300">{summary.average} %</td>
+                                    <td className="py-2 text-center text-slate-400">{summary.attempts}</td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
             </div>
         </div>
     );
 };
 
-const StudentDashboard: React.FC<{ onNavigateToCourses: () => void; }> = ({ onNavigateToCourses }) => {
+const StudentDashboard: React.FC<DashboardPageProps> = ({ curriculum, onNavigateToCourses, onNavigate, onOpenItem, onNavigateToTimestamp }) => {
     const { user } = useAuth();
     
     if (!user) return null;
@@ -107,7 +568,7 @@ const StudentDashboard: React.FC<{ onNavigateToCourses: () => void; }> = ({ onNa
     const statCards = [
         { icon: StarIcon, label: "Points d'XP", value: user.xp.toLocaleString(), color: "text-yellow-400", gradient: "from-yellow-500/20 to-slate-900" },
         { icon: CheckCircleIcon, label: "Exercices terminés", value: user.completed_exercises.length, color: "text-green-400", gradient: "from-green-500/20 to-slate-900" },
-        { icon: QuestionMarkCircleIcon, label: "Quiz tentés", value: user.quiz_attempts.length, color: "text-purple-400", gradient: "from-purple-500/20 to-slate-900" },
+        { icon: QuestionMarkCircleIcon, label: "Quiz tentés", value: new Set(user.quiz_attempts.map(a => a.quiz_id)).size, color: "text-purple-400", gradient: "from-purple-500/20 to-slate-900" },
     ]
 
     return (
@@ -124,6 +585,18 @@ const StudentDashboard: React.FC<{ onNavigateToCourses: () => void; }> = ({ onNa
                 <XPProgressBar xp={user.xp} level={user.level} />
             </div>
 
+            <DailyGoalCard />
+
+            <ContinueCard onOpenItem={onOpenItem} onNavigateToTimestamp={onNavigateToTimestamp} />
+
+            <ReviewCard onStartReview={() => onNavigate('review')} />
+
+            <SkillMapCard />
+
+            <TodoAssignmentsCard curriculum={curriculum} onOpenItem={onOpenItem} />
+
+            <MyClassroomsCard />
+
             <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
                 {statCards.map(card => (
                     <div key={card.label} className={`relative bg-slate-900 p-6 rounded-2xl border border-slate-800 overflow-hidden`}>
@@ -139,6 +612,12 @@ const StudentDashboard: React.FC<{ onNavigateToCourses: () => void; }> = ({ onNa
                 ))}
             </div>
 
+            <BadgesCard />
+
+            <LeaderboardCard curriculum={curriculum} />
+
+            <QuizResultsCard curriculum={curriculum} onOpenItem={onOpenItem} />
+
             <div className="relative bg-gradient-to-br from-blue-600/50 via-purple-600/50 to-slate-900/50 p-8 rounded-2xl border border-slate-700 text-center">
                  <h3 className="text-2xl font-bold text-white">Prêt à continuer ?</h3>
                  <p className="text-slate-300 mt-2 mb-6 max-w-md mx-auto">Plongez dans les leçons et continuez à accumuler de l'expérience.</p>
@@ -152,17 +631,21 @@ const StudentDashboard: React.FC<{ onNavigateToCourses: () => void; }> = ({ onNa
 };
 
 interface DashboardPageProps {
+    curriculum: Level[];
     onNavigateToCourses: () => void;
+    onNavigate: (view: View) => void;
+    onOpenItem: (ref: CurriculumItemRef) => void;
+    onNavigateToTimestamp: (levelId: string, chapterId: string, videoId: string, time: number) => void;
 }
 
-export const DashboardPage: React.FC<DashboardPageProps> = ({ onNavigateToCourses }) => {
-    const { user, isAdmin } = useAuth();
+export const DashboardPage: React.FC<DashboardPageProps> = ({ curriculum, onNavigateToCourses, onNavigate, onOpenItem, onNavigateToTimestamp }) => {
+    const { user, can } = useAuth();
 
     if (!user) {
         return <div className="text-center"><SpinnerIcon className="w-8 h-8 animate-spin mx-auto text-blue-500" /></div>;
     }
 
-    return isAdmin 
-        ? <AdminDashboard onNavigateToCourses={onNavigateToCourses} /> 
-        : <StudentDashboard onNavigateToCourses={onNavigateToCourses} />;
+    return can('curriculum.edit') || can('students.view') || can('classrooms.manage')
+        ? <StaffDashboard onNavigateToCourses={onNavigateToCourses} onNavigate={onNavigate} />
+        : <StudentDashboard curriculum={curriculum} onNavigateToCourses={onNavigateToCourses} onNavigate={onNavigate} onOpenItem={onOpenItem} onNavigateToTimestamp={onNavigateToTimestamp} />;
 };
\ No newline at end of file
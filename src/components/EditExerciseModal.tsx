@@ -5,6 +5,8 @@ import { Exercise } from '@/types';
 import { DesmosGraph } from '@/components/DesmosGraph';
 import { XMarkIcon, SpinnerIcon } from '@/components/icons';
 import { MathJaxRenderer, processMarkdownWithMath } from '@/components/MathJaxRenderer';
+import { normalizeSkills } from '@/utils/curriculum-rows';
+import { DIFFICULTY_LABELS, DIFFICULTY_LEVELS } from '@/utils/exercise-metadata';
 
 const emptyExercise: Omit<Exercise, 'id'> = {
   statement: '',
@@ -14,6 +16,13 @@ const emptyExercise: Omit<Exercise, 'id'> = {
   latexFormula: ''
 };
 
+// Comma-separated text of the label lists, as edited in the form.
+const toLabelInputs = (exercise: Exercise | null) => ({
+  skills: (exercise?.skills ?? []).join(', '),
+  tags: (exercise?.tags ?? []).join(', '),
+  prerequisites: (exercise?.prerequisites ?? []).join(', '),
+});
+
 const generateCorrectionContent = (data: any): string => {
   let content = '';
 
@@ -80,9 +89,11 @@ export const EditExerciseModal: React.FC<{
   const [isJsonImporterOpen, setIsJsonImporterOpen] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [labelInputs, setLabelInputs] = useState(toLabelInputs(exercise));
 
   useEffect(() => {
     setFormData(exercise || emptyExercise);
+    setLabelInputs(toLabelInputs(exercise));
   }, [exercise]);
 
   const isCreating = !exercise;
@@ -92,6 +103,16 @@ export const EditExerciseModal: React.FC<{
     setFormData(prev => ({ ...prev, [name]: value }));
   };
 
+  const handleNumberChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value === '' ? undefined : Number(value) }));
+  };
+
+  const handleLabelsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setLabelInputs(prev => ({ ...prev, [name]: value }));
+  };
+
   const handleJsonImport = () => {
     if (!jsonInput.trim()) {
       setError("Veuillez coller le contenu JSON");
@@ -143,7 +164,13 @@ export const EditExerciseModal: React.FC<{
         correctionSnippet: formData.fullCorrection?.split('\n')[0]?.substring(0, 250) || '',
         fullCorrection: formData.fullCorrection?.trim() || undefined,
         imageUrl: formData.imageUrl?.trim() || undefined,
-        latexFormula: formData.latexFormula?.trim() || undefined
+        latexFormula: formData.latexFormula?.trim() || undefined,
+        skills: normalizeSkills(labelInputs.skills.split(',')),
+        difficulty: formData.difficulty,
+        estimatedMinutes: formData.estimatedMinutes,
+        source: formData.source?.trim() || undefined,
+        tags: normalizeSkills(labelInputs.tags.split(',')),
+        prerequisites: normalizeSkills(labelInputs.prerequisites.split(','))
       }, seriesId);
     } catch (err) {
       setError("Erreur lors de la sauvegarde");
@@ -279,6 +306,93 @@ export const EditExerciseModal: React.FC<{
                   className="w-full p-3 bg-gray-900 border-2 border-gray-700 rounded-lg text-gray-300"
                 />
               </div>
+              <div className="lg:col-span-2">
+                <label className="block text-sm font-medium text-gray-300 mb-1">
+                  Compétences travaillées (séparées par des virgules)
+                </label>
+                <input
+                  type="text"
+                  name="skills"
+                  value={labelInputs.skills}
+                  onChange={handleLabelsChange}
+                  placeholder="Calcul de dérivées, Étude des variations"
+                  className="w-full p-3 bg-gray-900 border-2 border-gray-700 rounded-lg text-gray-300"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 pt-6 border-t border-gray-700/50">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">
+                  Difficulté (optionnel)
+                </label>
+                <select
+                  name="difficulty"
+                  value={formData.difficulty ?? ''}
+                  onChange={handleNumberChange}
+                  className="w-full p-3 bg-gray-900 border-2 border-gray-700 rounded-lg text-gray-300"
+                >
+                  <option value="">Non renseignée</option>
+                  {DIFFICULTY_LEVELS.map(level => (
+                    <option key={level} value={level}>{level} – {DIFFICULTY_LABELS[level]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">
+                  Durée estimée en minutes (optionnel)
+                </label>
+                <input
+                  type="number"
+                  name="estimatedMinutes"
+                  min={1}
+                  max={600}
+                  value={formData.estimatedMinutes ?? ''}
+                  onChange={handleNumberChange}
+                  className="w-full p-3 bg-gray-900 border-2 border-gray-700 rounded-lg text-gray-300"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">
+                  Source (optionnel)
+                </label>
+                <input
+                  type="text"
+                  name="source"
+                  value={formData.source || ''}
+                  onChange={handleInputChange}
+                  placeholder="Bac 2019 session normale"
+                  className="w-full p-3 bg-gray-900 border-2 border-gray-700 rounded-lg text-gray-300"
+                />
+              </div>
+              <div className="lg:col-span-3 grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">
+                    Étiquettes (séparées par des virgules)
+                  </label>
+                  <input
+                    type="text"
+                    name="tags"
+                    value={labelInputs.tags}
+                    onChange={handleLabelsChange}
+                    placeholder="Suites, Récurrence"
+                    className="w-full p-3 bg-gray-900 border-2 border-gray-700 rounded-lg text-gray-300"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">
+                    Prérequis (séparés par des virgules)
+                  </label>
+                  <input
+                    type="text"
+                    name="prerequisites"
+                    value={labelInputs.prerequisites}
+                    onChange={handleLabelsChange}
+                    placeholder="Limites usuelles, Dérivées"
+                    className="w-full p-3 bg-gray-900 border-2 border-gray-700 rounded-lg text-gray-300"
+                  />
+                </div>
+              </div>
             </div>
           </fieldset>
 
@@ -1,7 +1,11 @@
-
 import React, { useState, useEffect } from 'react';
-import { QuizQuestion } from '@/types';
+import { QuizQuestion, QuizQuestionType } from '@/types';
 import { XMarkIcon, PlusCircleIcon, TrashIcon, SpinnerIcon } from '@/components/icons';
+import { MathJaxRenderer } from '@/components/MathJaxRenderer';
+import { MathKeyboard } from '@/components/MathKeyboard';
+import { QUIZ_QUESTION_TYPES, QUIZ_QUESTION_TYPE_LABELS, TRUE_FALSE_OPTIONS, parseNumericAnswer, questionType } from '@/utils/quiz-grading';
+import { parseMath } from '@/utils/math-expression';
+import { normalizeSkills } from '@/utils/curriculum-rows';
 
 interface EditQuizQuestionModalProps {
   question: QuizQuestion | null;
@@ -11,31 +15,92 @@ interface EditQuizQuestionModalProps {
   onClose: () => void;
 }
 
-const emptyQuestion: Omit<QuizQuestion, 'id'> = {
+// Editable state of every type at once, so switching type does not lose what was typed.
+// Ordering questions are edited in the right order and shuffled on save.
+interface QuestionForm {
+  question: string;
+  type: QuizQuestionType;
+  options: string[];
+  correctAnswerIndex: number;
+  correctAnswerIndices: number[];
+  numericValue: string;
+  tolerance: string;
+  expectedLatex: string;
+  explanation: string;
+  skills: string; // Comma-separated
+}
+
+const emptyForm: QuestionForm = {
   question: '',
+  type: 'single',
   options: ['', '', '', ''],
   correctAnswerIndex: 0,
+  correctAnswerIndices: [],
+  numericValue: '',
+  tolerance: '0',
+  expectedLatex: '',
+  explanation: '',
+  skills: '',
+};
+
+const toForm = (question: QuizQuestion | null): QuestionForm => {
+  if (!question) return emptyForm;
+  const type = questionType(question);
+  const options = question.options ?? [];
+  return {
+    ...emptyForm,
+    question: question.question,
+    type,
+    options: type === 'trueFalse' ? emptyForm.options
+      : type === 'ordering' && question.correctOrder ? question.correctOrder.map(i => options[i] ?? '')
+      : options,
+    correctAnswerIndex: question.correctAnswerIndex ?? 0,
+    correctAnswerIndices: question.correctAnswerIndices ?? [],
+    numericValue: question.numericAnswer ? String(question.numericAnswer.value) : '',
+    tolerance: question.numericAnswer ? String(question.numericAnswer.tolerance) : '0',
+    expectedLatex: question.expectedLatex ?? '',
+    explanation: question.explanation ?? '',
+    skills: (question.skills ?? []).join(', '),
+  };
+};
+
+const usesOptions = (type: QuizQuestionType) => type === 'single' || type === 'multiple' || type === 'ordering';
+
+/**
+ * Shuffles the items of an ordering question, so they are not shown in the right order.
+ * @returns The shown options and, for each rank, the index of its item among them.
+ */
+const shuffleForOrdering = (items: string[]): { options: string[]; correctOrder: number[] } => {
+  let shown = items.map((_, i) => i);
+  for (let attempt = 0; attempt < 10 && shown.every((item, i) => item === i); attempt++) {
+    shown = [...shown].sort(() => Math.random() - 0.5);
+  }
+  return {
+    options: shown.map(item => items[item]),
+    correctOrder: items.map((_, item) => shown.indexOf(item)),
+  };
 };
 
 export const EditQuizQuestionModal: React.FC<EditQuizQuestionModalProps> = ({ question, quizId, chapterId, onSave, onClose }) => {
-  const [formData, setFormData] = useState(question || emptyQuestion);
+  const [formData, setFormData] = useState<QuestionForm>(toForm(question));
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [isKeyboardOpen, setIsKeyboardOpen] = useState(false);
 
   useEffect(() => {
-    setFormData(question || emptyQuestion);
+    setFormData(toForm(question));
   }, [question]);
 
   const isCreating = !question;
   const modalTitle = isCreating ? "Ajouter une question" : "Modifier la question";
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({ ...prev, [name]: value }));
   };
   
   const handleOptionChange = (index: number, value: string) => {
-      const newOptions = [...(formData.options || [])];
+      const newOptions = [...formData.options];
       newOptions[index] = value;
       setFormData(prev => ({ ...prev, options: newOptions }));
   };
@@ -44,44 +109,94 @@ export const EditQuizQuestionModal: React.FC<EditQuizQuestionModalProps> = ({ qu
     setFormData(prev => ({ ...prev, correctAnswerIndex: index }));
   }
 
+  const handleToggleCorrectAnswer = (index: number) => {
+    setFormData(prev => ({
+      ...prev,
+      correctAnswerIndices: prev.correctAnswerIndices.includes(index)
+        ? prev.correctAnswerIndices.filter(i => i !== index)
+        : [...prev.correctAnswerIndices, index].sort((a, b) => a - b),
+    }));
+  };
+
   const handleAddOption = () => {
-      setFormData(prev => ({ ...prev, options: [...(prev.options || []), ''] }));
+      setFormData(prev => ({ ...prev, options: [...prev.options, ''] }));
   };
 
   const handleRemoveOption = (index: number) => {
-      if ((formData.options?.length || 0) <= 2) {
+      if (formData.options.length <= 2) {
           setError("Une question doit avoir au moins 2 options.");
           return;
       }
       setError(null);
-      const newOptions = formData.options?.filter((_, i) => i !== index) || [];
-      const correctIndex = formData.correctAnswerIndex || 0;
+      const newOptions = formData.options.filter((_, i) => i !== index);
+      const correctIndex = formData.correctAnswerIndex;
       let newCorrectIndex = correctIndex;
       if (index === correctIndex) {
         newCorrectIndex = 0;
       } else if (index < correctIndex) {
         newCorrectIndex = correctIndex - 1;
       }
-      setFormData(prev => ({ ...prev, options: newOptions, correctAnswerIndex: newCorrectIndex }));
+      const newCorrectIndices = formData.correctAnswerIndices.filter(i => i !== index).map(i => (i > index ? i - 1 : i));
+      setFormData(prev => ({ ...prev, options: newOptions, correctAnswerIndex: newCorrectIndex, correctAnswerIndices: newCorrectIndices }));
+  };
+
+  /**
+   * Builds the saved question: only the answer key of the chosen type is kept.
+   * Returns an error message if the form is incomplete.
+   */
+  const buildQuestion = (): QuizQuestion | string => {
+    const base = {
+      id: question?.id || `q-${Date.now()}`,
+      question: formData.question.trim(),
+      type: formData.type,
+      explanation: formData.explanation.trim() || undefined,
+      skills: normalizeSkills(formData.skills.split(',')),
+    };
+    const options = formData.options.map(opt => opt.trim());
+    if (!base.question) return "Le texte de la question est requis.";
+    if (usesOptions(formData.type) && options.some(opt => !opt)) return "La question et toutes les options doivent être remplies.";
+
+    switch (formData.type) {
+      case 'single':
+        return { ...base, options, correctAnswerIndex: formData.correctAnswerIndex };
+      case 'multiple':
+        if (formData.correctAnswerIndices.length === 0) return "Cochez au moins une bonne réponse.";
+        return { ...base, options, correctAnswerIndices: formData.correctAnswerIndices };
+      case 'ordering':
+        return { ...base, ...shuffleForOrdering(options) };
+      case 'trueFalse':
+        return { ...base, options: TRUE_FALSE_OPTIONS, correctAnswerIndex: formData.correctAnswerIndex === 1 ? 1 : 0 };
+      case 'numeric': {
+        const value = parseNumericAnswer(formData.numericValue);
+        const tolerance = parseNumericAnswer(formData.tolerance || '0');
+        if (value === null) return "La valeur attendue doit être un nombre.";
+        if (tolerance === null || tolerance < 0) return "La tolérance doit être un nombre positif.";
+        return { ...base, numericAnswer: { value, tolerance } };
+      }
+      case 'symbolic': {
+        const expectedLatex = formData.expectedLatex.trim();
+        if (!expectedLatex) return "Saisissez l'expression attendue.";
+        try {
+          parseMath(expectedLatex);
+        } catch {
+          return "Cette expression ne peut pas être lue par le correcteur automatique.";
+        }
+        return { ...base, expectedLatex };
+      }
+    }
   };
 
   const handleSave = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
-    if (!formData.question.trim() || (formData.options || []).some(opt => !opt.trim())) {
-        setError("La question et toutes les options doivent être remplies.");
+    const finalQuestion = buildQuestion();
+    if (typeof finalQuestion === 'string') {
+        setError(finalQuestion);
         return;
     }
 
     setIsSaving(true);
     try {
-        const finalQuestion: QuizQuestion = {
-            id: question?.id || `q-${Date.now()}`,
-            question: formData.question.trim(),
-            options: formData.options?.map(opt => opt.trim()),
-            correctAnswerIndex: formData.correctAnswerIndex
-        };
-
         await onSave(finalQuestion, quizId, chapterId);
         onClose(); // Close only on successful save
     } catch (err) {
@@ -92,6 +207,12 @@ export const EditQuizQuestionModal: React.FC<EditQuizQuestionModalProps> = ({ qu
     }
   };
 
+  const optionsLabel: Partial<Record<QuizQuestionType, string>> = {
+    single: "Options de réponse (cochez la bonne réponse)",
+    multiple: "Options de réponse (cochez toutes les bonnes réponses)",
+    ordering: "Éléments dans le bon ordre (ils seront mélangés pour l'élève)",
+  };
+
   return (
     <div
       className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-[60] p-4"
@@ -125,19 +246,44 @@ export const EditQuizQuestionModal: React.FC<EditQuizQuestionModalProps> = ({ qu
                   className="w-full p-3 bg-gray-900 border-2 border-gray-700 rounded-lg text-gray-300 focus:ring-2 focus:ring-brand-blue-500 focus:border-brand-blue-500 disabled:opacity-50"
                 />
               </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-300 mb-2">Options de réponse (cochez la bonne réponse)</label>
+              <div className="mt-4">
+                <label htmlFor="type" className="block text-sm font-medium text-gray-300 mb-1">Type de question</label>
+                <select
+                  id="type"
+                  name="type"
+                  value={formData.type}
+                  onChange={handleChange}
+                  className="w-full p-2 bg-gray-900 border-2 border-gray-700 rounded-lg text-gray-300 focus:ring-2 focus:ring-brand-blue-500 focus:border-brand-blue-500"
+                >
+                  {QUIZ_QUESTION_TYPES.map(type => <option key={type} value={type}>{QUIZ_QUESTION_TYPE_LABELS[type]}</option>)}
+                </select>
+              </div>
+              {usesOptions(formData.type) && (
+              <div className="mt-4">
+                <label className="block text-sm font-medium text-gray-300 mb-2">{optionsLabel[formData.type]}</label>
                 <div className="space-y-3">
-                    {(formData.options || []).map((option, index) => (
+                    {formData.options.map((option, index) => (
                         <div key={index} className="flex items-center gap-3">
-                            <input 
-                                type="radio" 
-                                name="correctAnswer" 
-                                id={`option-radio-${index}`}
-                                checked={formData.correctAnswerIndex === index}
-                                onChange={() => handleCorrectAnswerChange(index)}
-                                className="h-5 w-5 shrink-0 text-brand-blue-600 bg-gray-700 border-gray-500 focus:ring-brand-blue-500"
-                            />
+                            {formData.type === 'single' && (
+                              <input 
+                                  type="radio" 
+                                  name="correctAnswer" 
+                                  id={`option-radio-${index}`}
+                                  checked={formData.correctAnswerIndex === index}
+                                  onChange={() => handleCorrectAnswerChange(index)}
+                                  className="h-5 w-5 shrink-0 text-brand-blue-600 bg-gray-700 border-gray-500 focus:ring-brand-blue-500"
+                              />
+                            )}
+                            {formData.type === 'multiple' && (
+                              <input
+                                  type="checkbox"
+                                  id={`option-checkbox-${index}`}
+                                  checked={formData.correctAnswerIndices.includes(index)}
+                                  onChange={() => handleToggleCorrectAnswer(index)}
+                                  className="h-5 w-5 shrink-0 text-brand-blue-600 bg-gray-700 border-gray-500 focus:ring-brand-blue-500"
+                              />
+                            )}
+                            {formData.type === 'ordering' && <span className="w-5 shrink-0 text-center font-bold text-brand-blue-300">{index + 1}</span>}
                             <input
                                 type="text"
                                 value={option}
@@ -163,6 +309,104 @@ export const EditQuizQuestionModal: React.FC<EditQuizQuestionModalProps> = ({ qu
                     Ajouter une option
                 </button>
               </div>
+              )}
+              {formData.type === 'trueFalse' && (
+              <div className="mt-4">
+                <label className="block text-sm font-medium text-gray-300 mb-2">L'affirmation est :</label>
+                <div className="flex gap-6">
+                    {TRUE_FALSE_OPTIONS.map((label, index) => (
+                        <label key={label} className="flex items-center gap-2 text-gray-300">
+                            <input
+                                type="radio"
+                                name="trueFalse"
+                                checked={formData.correctAnswerIndex === index}
+                                onChange={() => handleCorrectAnswerChange(index)}
+                                className="h-5 w-5 text-brand-blue-600 bg-gray-700 border-gray-500 focus:ring-brand-blue-500"
+                            />
+                            {label}
+                        </label>
+                    ))}
+                </div>
+              </div>
+              )}
+              {formData.type === 'numeric' && (
+              <div className="mt-4 grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="numericValue" className="block text-sm font-medium text-gray-300 mb-1">Valeur attendue</label>
+                  <input
+                    id="numericValue"
+                    name="numericValue"
+                    type="text"
+                    inputMode="decimal"
+                    value={formData.numericValue}
+                    onChange={handleChange}
+                    placeholder="ex. 3,5 ou 1/3"
+                    className="w-full p-2 bg-gray-900 border-2 border-gray-600 rounded-lg text-gray-300 focus:ring-2 focus:ring-brand-blue-500 focus:border-brand-blue-500"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="tolerance" className="block text-sm font-medium text-gray-300 mb-1">Tolérance (±)</label>
+                  <input
+                    id="tolerance"
+                    name="tolerance"
+                    type="text"
+                    inputMode="decimal"
+                    value={formData.tolerance}
+                    onChange={handleChange}
+                    className="w-full p-2 bg-gray-900 border-2 border-gray-600 rounded-lg text-gray-300 focus:ring-2 focus:ring-brand-blue-500 focus:border-brand-blue-500"
+                  />
+                </div>
+              </div>
+              )}
+              {formData.type === 'symbolic' && (
+              <div className="mt-4 space-y-3">
+                <label className="block text-sm font-medium text-gray-300">Expression attendue</label>
+                <p className="text-xs text-gray-500">Toute réponse équivalente est acceptée (ex. 2(x+1) pour 2x+2).</p>
+                {formData.expectedLatex && !isKeyboardOpen && (
+                  <div className="p-4 bg-gray-900/50 rounded-lg border border-gray-600">
+                    <MathJaxRenderer content={`$$${formData.expectedLatex}$$`} />
+                  </div>
+                )}
+                <button
+                  type="button"
+                  onClick={() => setIsKeyboardOpen(true)}
+                  className="px-4 py-2 text-sm font-semibold rounded-lg bg-gray-700 text-gray-200 hover:bg-gray-600"
+                >
+                  {formData.expectedLatex ? "Modifier l'expression" : "Saisir l'expression"}
+                </button>
+                {isKeyboardOpen && (
+                  <MathKeyboard
+                    initialValue={formData.expectedLatex}
+                    onConfirm={(latex) => { setFormData(prev => ({ ...prev, expectedLatex: latex })); setIsKeyboardOpen(false); }}
+                    onClose={() => setIsKeyboardOpen(false)}
+                  />
+                )}
+              </div>
+              )}
+              <div className="mt-4">
+                <label htmlFor="explanation" className="block text-sm font-medium text-gray-300 mb-1">Explication (facultative)</label>
+                <p className="text-xs text-gray-500 mb-1">Affichée à l'élève avec la correction. Markdown et formules entre $...$ acceptés.</p>
+                <textarea
+                  id="explanation"
+                  name="explanation"
+                  value={formData.explanation}
+                  onChange={handleChange}
+                  rows={4}
+                  className="w-full p-3 bg-gray-900 border-2 border-gray-700 rounded-lg text-gray-300 focus:ring-2 focus:ring-brand-blue-500 focus:border-brand-blue-500 disabled:opacity-50"
+                />
+              </div>
+              <div className="mt-4">
+                <label htmlFor="skills" className="block text-sm font-medium text-gray-300 mb-1">Compétences travaillées (séparées par des virgules)</label>
+                <input
+                  id="skills"
+                  name="skills"
+                  type="text"
+                  value={formData.skills}
+                  onChange={handleChange}
+                  placeholder="Calcul de dérivées, Étude des variations"
+                  className="w-full p-3 bg-gray-900 border-2 border-gray-700 rounded-lg text-gray-300 focus:ring-2 focus:ring-brand-blue-500 focus:border-brand-blue-500 disabled:opacity-50"
+                />
+              </div>
           </fieldset>
         </form>
 
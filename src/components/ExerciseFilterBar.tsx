@@ -0,0 +1,37 @@
+import React from 'react';
+import { DIFFICULTY_LABELS, DIFFICULTY_LEVELS, DURATION_FILTERS, ExerciseFilters, NO_EXERCISE_FILTERS, formatDuration, hasActiveFilters } from '@/utils/exercise-metadata';
+
+interface ExerciseFilterBarProps {
+    filters: ExerciseFilters;
+    tags: string[]; // Tags and sources found in the listed exercises
+    onChange: (filters: ExerciseFilters) => void;
+}
+
+const selectClass = 'p-2 text-sm bg-gray-900 border-2 border-gray-700 rounded-lg text-gray-300';
+
+const toNumber = (value: string) => (value === '' ? null : Number(value));
+
+export const ExerciseFilterBar: React.FC<ExerciseFilterBarProps> = ({ filters, tags, onChange }) => (
+    <div className="flex flex-wrap items-center gap-3 p-4 bg-gray-800/50 rounded-xl border border-gray-700/50">
+        <span className="text-sm font-medium text-gray-400">Filtrer les exercices :</span>
+        <select aria-label="Difficulté" value={filters.difficulty ?? ''} onChange={e => onChange({ ...filters, difficulty: toNumber(e.target.value) })} className={selectClass}>
+            <option value="">Toutes difficultés</option>
+            {DIFFICULTY_LEVELS.map(level => <option key={level} value={level}>{DIFFICULTY_LABELS[level]}</option>)}
+        </select>
+        <select aria-label="Durée" value={filters.maxMinutes ?? ''} onChange={e => onChange({ ...filters, maxMinutes: toNumber(e.target.value) })} className={selectClass}>
+            <option value="">Toutes durées</option>
+            {DURATION_FILTERS.map(minutes => <option key={minutes} value={minutes}>{formatDuration(minutes)} ou moins</option>)}
+        </select>
+        {tags.length > 0 && (
+            <select aria-label="Étiquette" value={filters.tag ?? ''} onChange={e => onChange({ ...filters, tag: e.target.value || null })} className={selectClass}>
+                <option value="">Toutes étiquettes</option>
+                {tags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+            </select>
+        )}
+        {hasActiveFilters(filters) && (
+            <button onClick={() => onChange(NO_EXERCISE_FILTERS)} className="text-sm text-brand-blue-400 hover:text-brand-blue-300">
+                Réinitialiser
+            </button>
+        )}
+    </div>
+);
@@ -4,6 +4,7 @@ import { Series, Exercise } from '@/types';
 import { ArrowLeftIcon, PencilIcon, TrashIcon, PlusCircleIcon } from '@/components/icons';
 import { useAuth } from '@/contexts/AuthContext';
 import { MathJaxRenderer, processMarkdownWithMath } from '@/components/MathJaxRenderer';
+import { ExerciseMetadataBadges } from '@/components/ExerciseMetadataBadges';
 
 interface ExerciseListPageProps {
     series: Series;
@@ -24,7 +25,8 @@ export const ExerciseListPage: React.FC<ExerciseListPageProps> = ({
     onEditExercise,
     onDeleteExercise
 }) => {
-    const { isAdmin } = useAuth();
+    const { can } = useAuth();
+    const canEdit = can('curriculum.edit');
     
     return (
         <div className="max-w-4xl mx-auto">
@@ -38,7 +40,7 @@ export const ExerciseListPage: React.FC<ExerciseListPageProps> = ({
                         <h2 className="text-3xl font-bold text-brand-blue-300">{chapterTitle}</h2>
                         <p className="mt-2 text-lg text-gray-400">{series.title} - Choisissez un exercice.</p>
                     </div>
-                     {isAdmin && (
+                     {canEdit && (
                         <button
                             onClick={onAddExercise}
                             className="flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg transition-colors duration-200 bg-green-600/80 border-2 border-green-500 hover:bg-green-600 text-white"
@@ -67,8 +69,9 @@ export const ExerciseListPage: React.FC<ExerciseListPageProps> = ({
                                     <div className="text-gray-400 mt-2 line-clamp-2">
                                         <MathJaxRenderer content={processMarkdownWithMath(exercise.statement)} />
                                     </div>
+                                    <ExerciseMetadataBadges exercise={exercise} />
                                 </div>
-                                {isAdmin && (
+                                {canEdit && (
                                     <div className="flex items-center gap-0" onClick={e => e.stopPropagation()}>
                                         <button
                                             onClick={() => onEditExercise(exercise)}
@@ -0,0 +1,47 @@
+import React from 'react';
+import { Exercise } from '@/types';
+import { ClockIcon } from '@/components/icons';
+import { DIFFICULTY_LABELS, formatDuration } from '@/utils/exercise-metadata';
+
+const DIFFICULTY_COLORS: Record<number, string> = {
+    1: 'bg-green-900/40 text-green-300 border-green-700/50',
+    2: 'bg-green-900/40 text-green-300 border-green-700/50',
+    3: 'bg-amber-900/40 text-amber-300 border-amber-700/50',
+    4: 'bg-rose-900/40 text-rose-300 border-rose-700/50',
+    5: 'bg-rose-900/40 text-rose-300 border-rose-700/50',
+};
+
+const badge = 'inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded-full border';
+
+/**
+ * Difficulty, estimated time, source, tags and prerequisites of an exercise. Renders nothing without metadata.
+ */
+export const ExerciseMetadataBadges: React.FC<{ exercise: Exercise }> = ({ exercise }) => {
+    const { difficulty, estimatedMinutes, source, tags = [], prerequisites = [] } = exercise;
+    if (!difficulty && !estimatedMinutes && !source && tags.length === 0 && prerequisites.length === 0) return null;
+
+    return (
+        <div className="mt-3 space-y-1">
+            <div className="flex flex-wrap gap-2">
+                {difficulty && (
+                    <span className={`${badge} ${DIFFICULTY_COLORS[difficulty]}`} title={`Difficulté ${difficulty}/5`}>
+                        {'●'.repeat(difficulty)}{'○'.repeat(5 - difficulty)} {DIFFICULTY_LABELS[difficulty]}
+                    </span>
+                )}
+                {estimatedMinutes && (
+                    <span className={`${badge} bg-gray-900/60 text-gray-300 border-gray-600`}>
+                        <ClockIcon className="w-3.5 h-3.5" />
+                        {formatDuration(estimatedMinutes)}
+                    </span>
+                )}
+                {source && <span className={`${badge} bg-brand-blue-900/40 text-brand-blue-300 border-brand-blue-700/50`}>{source}</span>}
+                {tags.map(tag => (
+                    <span key={tag} className={`${badge} bg-gray-800 text-gray-400 border-gray-700`}>#{tag}</span>
+                ))}
+            </div>
+            {prerequisites.length > 0 && (
+                <p className="text-xs text-gray-500">Prérequis : {prerequisites.join(', ')}</p>
+            )}
+        </div>
+    );
+};
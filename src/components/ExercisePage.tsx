@@ -1,14 +1,17 @@
 
 
-import React, { useRef, useState } from 'react';
-import { ArrowLeftIcon, PencilIcon, BookOpenIcon, QuestionMarkCircleIcon } from '@/components/icons';
-import { Exercise, Chapter, ExerciseContext, User } from '@/types';
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowLeftIcon, PencilIcon, BookOpenIcon, QuestionMarkCircleIcon, SpinnerIcon } from '@/components/icons';
+import { Exercise, Chapter, ExerciseContext, User, CurriculumItemRef } from '@/types';
 import { MathJaxRenderer, processMarkdownWithMath } from '@/components/MathJaxRenderer';
 import { DesmosGraph } from '@/components/DesmosGraph';
 import { useAuth } from '@/contexts/AuthContext';
 import { RelatedExercises } from '@/components/RelatedExercises';
 import { ChatLauncher } from '@/components/ChatLauncher';
 import { CompletionButton } from '@/components/CompletionButton';
+import { ContinueCard } from '@/components/ContinueCard';
+import { ExerciseMetadataBadges } from '@/components/ExerciseMetadataBadges';
+import { getExerciseCorrection } from '@/services/api';
 
 interface PreCorrectionGuideProps {
     onConfirm: () => void;
@@ -68,11 +71,31 @@ interface ExercisePageProps {
     onSelectExercise: (exerciseId: string) => void;
     onNavigateToChat: (context: ExerciseContext) => void;
     onNavigateToTutor: (context: ExerciseContext) => void;
+    onOpenItem: (ref: CurriculumItemRef) => void;
 }
 
-export const ExercisePage: React.FC<ExercisePageProps> = ({ exercise, chapter, seriesId, levelId, onBack, onEdit, onNavigateToTimestamp, onSelectExercise, onNavigateToChat, onNavigateToTutor }) => {
-    const { isAdmin, user } = useAuth();
+export const ExercisePage: React.FC<ExercisePageProps> = ({ exercise, chapter, seriesId, levelId, onBack, onEdit, onNavigateToTimestamp, onSelectExercise, onNavigateToChat, onNavigateToTutor, onOpenItem }) => {
+    const { can, user } = useAuth();
+    const canEdit = can('curriculum.edit');
     const [showOfficialCorrection, setShowOfficialCorrection] = useState(false);
+    // Editors get the correction with the curriculum; students fetch it when they ask for it.
+    const [fullCorrection, setFullCorrection] = useState<string | null>(exercise.fullCorrection ?? null);
+    const [correctionError, setCorrectionError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setFullCorrection(exercise.fullCorrection ?? null);
+        setCorrectionError(null);
+    }, [exercise.id, exercise.fullCorrection]);
+
+    const handleShowCorrection = async () => {
+        setShowOfficialCorrection(true);
+        if (fullCorrection !== null) return;
+        try {
+            setFullCorrection(await getExerciseCorrection(exercise.id) ?? '');
+        } catch (error) {
+            setCorrectionError(error instanceof Error ? error.message : "Impossible de charger la correction.");
+        }
+    };
     
     return (
         <div className="max-w-4xl mx-auto space-y-8">
@@ -84,7 +107,7 @@ export const ExercisePage: React.FC<ExercisePageProps> = ({ exercise, chapter, s
             </div>
 
             <div className="relative bg-gray-800/30 rounded-xl p-6 border border-gray-700/30">
-                 {isAdmin && (
+                 {canEdit && (
                     <div className="absolute top-4 right-4 z-10">
                         <button
                             onClick={onEdit}
@@ -97,6 +120,9 @@ export const ExercisePage: React.FC<ExercisePageProps> = ({ exercise, chapter, s
                     </div>
                 )}
                 <h2 className="text-2xl font-bold text-brand-blue-300 mb-4">{chapter.title}</h2>
+                <div className="mb-4">
+                    <ExerciseMetadataBadges exercise={exercise} />
+                </div>
                 
                 {exercise.imageUrl && (
                     <div className="mb-6 bg-gray-900 p-4 rounded-lg flex justify-center">
@@ -122,9 +148,14 @@ export const ExercisePage: React.FC<ExercisePageProps> = ({ exercise, chapter, s
                     </div>
                 </div>
 
-                <CompletionButton exercise={exercise} />
+                <CompletionButton exercise={exercise} correctionViewed={showOfficialCorrection && !canEdit} />
             </div>
 
+            {/* What to do next, once the exercise is completed */}
+            {user && !canEdit && user.completed_exercises.includes(exercise.id) && (
+                <ContinueCard afterExerciseId={exercise.id} onOpenItem={onOpenItem} onNavigateToTimestamp={onNavigateToTimestamp} />
+            )}
+
             {/* AI Tutor Launcher */}
             <TutorLauncher 
                 user={user}
@@ -132,7 +163,7 @@ export const ExercisePage: React.FC<ExercisePageProps> = ({ exercise, chapter, s
             />
             
             {/* Official Correction Section */}
-            {exercise.fullCorrection && (
+            {(exercise.fullCorrection || exercise.hasFullCorrection) && (
                  <div className="bg-gray-800/30 rounded-xl p-6 border border-gray-700/30">
                      <h3 className="text-xl font-semibold text-brand-blue-300 flex items-center gap-3 mb-4">
                         <BookOpenIcon className="w-6 h-6" />
@@ -141,12 +172,18 @@ export const ExercisePage: React.FC<ExercisePageProps> = ({ exercise, chapter, s
                     
                     {showOfficialCorrection ? (
                         <div className="mt-4 pt-4 border-t border-gray-700/50">
-                             <div className="prose prose-invert max-w-none">
-                                <MathJaxRenderer content={processMarkdownWithMath(exercise.fullCorrection)} />
-                            </div>
+                            {correctionError ? (
+                                <p className="text-red-400 text-center">{correctionError}</p>
+                            ) : fullCorrection === null ? (
+                                <SpinnerIcon className="w-6 h-6 animate-spin text-brand-blue-400 mx-auto" />
+                            ) : (
+                                <div className="prose prose-invert max-w-none">
+                                    <MathJaxRenderer content={processMarkdownWithMath(fullCorrection)} />
+                                </div>
+                            )}
                         </div>
                     ) : (
-                        <PreCorrectionGuide onConfirm={() => setShowOfficialCorrection(true)} />
+                        <PreCorrectionGuide onConfirm={handleShowCorrection} />
                     )}
                  </div>
             )}
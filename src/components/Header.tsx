@@ -2,15 +2,17 @@
 import React, { useState } from 'react';
 import { Bars3Icon, UserCircleIcon, ArrowRightOnRectangleIcon } from './icons';
 import { useAuth } from '../contexts/AuthContext';
-import { View } from '@/types';
+import { SearchResult, View } from '@/types';
+import { SearchBar } from './SearchBar';
 
 interface HeaderProps {
     onNavigate: (view: View) => void;
     onToggleSidebar: () => void;
     showSidebarToggle: boolean;
+    onOpenSearchResult: (result: SearchResult) => void;
 }
 
-export const Header: React.FC<HeaderProps> = ({ onNavigate, onToggleSidebar, showSidebarToggle }) => {
+export const Header: React.FC<HeaderProps> = ({ onNavigate, onToggleSidebar, showSidebarToggle, onOpenSearchResult }) => {
     const { user, logout } = useAuth();
     const [isMenuOpen, setIsMenuOpen] = useState(false);
 
@@ -47,6 +49,11 @@ export const Header: React.FC<HeaderProps> = ({ onNavigate, onToggleSidebar, sho
                             Maths Faciles Maroc
                         </button>
                     </div>
+                    {user && (
+                        <div className="hidden md:flex flex-1 justify-center px-6">
+                            <SearchBar onOpenResult={onOpenSearchResult} />
+                        </div>
+                    )}
                     <div className="flex items-center gap-4">
                         <button
                             onClick={handleCoursesClick}
@@ -13,7 +13,8 @@ interface HomePageProps {
 }
 
 export const HomePage: React.FC<HomePageProps> = ({ levels, onSelectLevel, onAddLevel, onEditLevel, onDeleteLevel }) => {
-    const { isAdmin } = useAuth();
+    const { can } = useAuth();
+    const canEdit = can('curriculum.edit');
     
     return (
         <div className="max-w-7xl mx-auto">
@@ -39,7 +40,7 @@ export const HomePage: React.FC<HomePageProps> = ({ levels, onSelectLevel, onAdd
                 </div>
             </div>
             
-            {isAdmin && (
+            {canEdit && (
                 <div className="mb-12 p-4 bg-yellow-900/30 border border-yellow-500/50 rounded-lg text-yellow-300 text-center">
                    <p className="font-semibold">Mode Administrateur Activé</p>
                    <p className="text-sm mt-1">Vous pouvez ajouter, modifier et supprimer du contenu. N'oubliez pas de sauvegarder vos changements.</p>
@@ -49,7 +50,7 @@ export const HomePage: React.FC<HomePageProps> = ({ levels, onSelectLevel, onAdd
 
             <div className="flex justify-between items-center mb-8 px-4">
                 <h2 className="text-2xl font-semibold text-slate-100">Choisissez votre niveau pour commencer</h2>
-                 {isAdmin && (
+                 {canEdit && (
                     <button
                         onClick={onAddLevel}
                         className="flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg transition-colors duration-200 bg-green-600/80 border-2 border-green-500 hover:bg-green-600 text-white"
@@ -73,7 +74,7 @@ export const HomePage: React.FC<HomePageProps> = ({ levels, onSelectLevel, onAdd
                     >
                         <div className="absolute -inset-px bg-gradient-to-r from-blue-500/50 to-purple-500/50 rounded-2xl opacity-0 group-hover:opacity-100 transition-opacity duration-300" aria-hidden="true" />
                         <div className="relative">
-                            {isAdmin && (
+                            {canEdit && (
                                 <div className="absolute top-0 right-0 flex items-center gap-1 opacity-50 group-hover:opacity-100 transition-opacity" onClick={e => e.stopPropagation()}>
                                     <button
                                         onClick={() => onEditLevel(level)}
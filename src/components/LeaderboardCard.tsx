@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import { Classroom, Leaderboard, LeaderboardPeriod, LeaderboardProfile, LeaderboardQuery, Level } from '@/types';
+import { getClassrooms, getLeaderboard, updateLeaderboardProfile } from '@/services/api';
+import { SpinnerIcon } from '@/components/icons';
+import { RETAKE_MIN_INTERVAL_HOURS } from '@/utils/leaderboard';
+
+interface LeaderboardCardProps {
+    curriculum: Level[];
+}
+
+const PERIOD_LABELS: Record<LeaderboardPeriod, string> = { week: 'Cette semaine', allTime: 'Depuis toujours' };
+
+const MEDALS = ['🥇', '🥈', '🥉'];
+
+// The scope tabs: everyone, then each level, then the student's classes. "global", "level:<id>" or "classroom:<id>".
+const toQuery = (tab: string, period: LeaderboardPeriod, page: number): LeaderboardQuery => {
+    const [scope, scopeId] = tab.split(':') as [LeaderboardQuery['scope'], string | undefined];
+    return { period, scope, scopeId, page };
+};
+
+const ProfileForm: React.FC<{ profile: LeaderboardProfile; onSaved: (profile: LeaderboardProfile) => void }> = ({ profile, onSaved }) => {
+    const [pseudonym, setPseudonym] = useState(profile.pseudonym ?? '');
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const save = async (value: string | null) => {
+        setIsSaving(true);
+        setError(null);
+        try {
+            onSaved(await updateLeaderboardProfile({ pseudonym: value }));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Impossible de mettre à jour votre participation aux classements.");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <form onSubmit={e => { e.preventDefault(); save(pseudonym.trim()); }} className="flex flex-wrap items-center gap-2 text-sm">
+            <input
+                type="text"
+                value={pseudonym}
+                onChange={e => setPseudonym(e.target.value)}
+                maxLength={24}
+                placeholder="Votre pseudonyme"
+                className="flex-grow min-w-0 p-2 bg-slate-800 border border-slate-700 rounded-md text-slate-200"
+                aria-label="Pseudonyme"
+            />
+            <button type="submit" disabled={isSaving || !pseudonym.trim()} className="px-4 py-2 font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-60">
+                {profile.optedIn ? 'Renommer' : 'Participer'}
+            </button>
+            {profile.optedIn && (
+                <button type="button" onClick={() => save(null)} disabled={isSaving} className="px-3 py-2 text-slate-400 hover:text-red-400 disabled:opacity-60">
+                    Quitter les classements
+                </button>
+            )}
+            {error && <p className="w-full text-red-400">{error}</p>}
+        </form>
+    );
+};
+
+/**
+ * Opt-in XP leaderboards: weekly or all-time, for everyone, a level or one of the student's classes.
+ * Students appear under a pseudonym; only the XP that counts on the leaderboards is shown (see RETAKE_MIN_INTERVAL_HOURS).
+ */
+export const LeaderboardCard: React.FC<LeaderboardCardProps> = ({ curriculum }) => {
+    const [classrooms, setClassrooms] = useState<Classroom[]>([]);
+    const [period, setPeriod] = useState<LeaderboardPeriod>('week');
+    const [tab, setTab] = useState('global');
+    const [page, setPage] = useState(1);
+    const [leaderboard, setLeaderboard] = useState<Leaderboard | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [isEditingProfile, setIsEditingProfile] = useState(false);
+
+    useEffect(() => {
+        getClassrooms()
+            .then(({ enrolled }) => setClassrooms(enrolled))
+            .catch(err => console.error("Failed to load classrooms:", err));
+    }, []);
+
+    useEffect(() => {
+        let cancelled = false;
+        setIsLoading(true);
+        setError(null);
+        getLeaderboard(toQuery(tab, period, page))
+            .then(result => { if (!cancelled) setLeaderboard(result); })
+            .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : "Impossible de charger le classement."); })
+            .finally(() => { if (!cancelled) setIsLoading(false); });
+        return () => { cancelled = true; };
+    }, [tab, period, page]);
+
+    const tabs = [
+        { id: 'global', label: 'Tous' },
+        ...curriculum.map(level => ({ id: `level:${level.id}`, label: level.levelName })),
+        ...classrooms.map(classroom => ({ id: `classroom:${classroom.id}`, label: classroom.name })),
+    ];
+    const pageCount = leaderboard ? Math.max(1, Math.ceil(leaderboard.total / leaderboard.pageSize)) : 1;
+    const meIsOnPage = leaderboard?.entries.some(entry => entry.isMe) ?? false;
+
+    const handleProfileSaved = (profile: LeaderboardProfile) => {
+        setIsEditingProfile(false);
+        setLeaderboard(prev => prev && { ...prev, profile });
+        // Joining, leaving or renaming changes the rows: reload the first page.
+        setPage(1);
+        getLeaderboard(toQuery(tab, period, 1)).then(setLeaderboard).catch(() => {});
+    };
+
+    const changeScope = (nextTab: string, nextPeriod: LeaderboardPeriod) => {
+        setTab(nextTab);
+        setPeriod(nextPeriod);
+        setPage(1);
+    };
+
+    return (
+        <div className="bg-slate-900 p-6 rounded-2xl border border-slate-800">
+            <div className="flex flex-wrap justify-between items-baseline gap-3 mb-4">
+                <h3 className="font-semibold text-slate-200">Classements</h3>
+                <div className="flex gap-1 p-1 bg-slate-800 rounded-lg text-sm">
+                    {(Object.keys(PERIOD_LABELS) as LeaderboardPeriod[]).map(p => (
+                        <button key={p} onClick={() => changeScope(tab, p)} className={`px-3 py-1 rounded-md ${period === p ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'}`}>
+                            {PERIOD_LABELS[p]}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="flex gap-2 overflow-x-auto pb-2 mb-4">
+                {tabs.map(t => (
+                    <button key={t.id} onClick={() => changeScope(t.id, period)} className={`shrink-0 px-3 py-1 text-sm rounded-full border ${tab === t.id ? 'border-blue-500 text-blue-300 bg-blue-500/10' : 'border-slate-700 text-slate-400 hover:text-slate-200'}`}>
+                        {t.label}
+                    </button>
+                ))}
+            </div>
+
+            {leaderboard && (!leaderboard.profile.optedIn || isEditingProfile) ? (
+                <div className="mb-4 p-4 bg-slate-800/50 rounded-lg">
+                    {!leaderboard.profile.optedIn && (
+                        <p className="mb-3 text-sm text-slate-300">
+                            Choisissez un pseudonyme pour apparaître dans les classements. Seuls votre pseudonyme et votre XP y figurent.
+                        </p>
+                    )}
+                    <ProfileForm profile={leaderboard.profile} onSaved={handleProfileSaved} />
+                </div>
+            ) : leaderboard && (
+                <p className="mb-4 text-sm text-slate-400">
+                    Vous participez sous le pseudonyme <span className="font-semibold text-slate-200">{leaderboard.profile.pseudonym}</span>.{' '}
+                    <button onClick={() => setIsEditingProfile(true)} className="text-blue-400 hover:text-blue-300">Modifier</button>
+                </p>
+            )}
+
+            {isLoading && !leaderboard && <SpinnerIcon className="w-6 h-6 animate-spin text-blue-500" />}
+            {error && <p className="text-sm text-red-400">{error}</p>}
+            {leaderboard && !error && (
+                leaderboard.total === 0 ? (
+                    <p className="text-sm text-slate-400">Personne ne participe encore à ce classement.</p>
+                ) : (
+                    <div className={isLoading ? 'opacity-60' : ''}>
+                        <ol className="space-y-1">
+                            {leaderboard.entries.map(entry => (
+                                <li key={`${entry.rank}-${entry.pseudonym}`} className={`flex items-center gap-3 px-3 py-2 rounded-lg ${entry.isMe ? 'bg-blue-500/15 border border-blue-500/40' : 'bg-slate-800/50'}`}>
+                                    <span className="w-8 text-center font-semibold text-slate-400">{MEDALS[entry.rank - 1] ?? entry.rank}</span>
+                                    <span className={`flex-grow truncate ${entry.isMe ? 'font-semibold text-blue-200' : 'text-slate-200'}`}>{entry.pseudonym}{entry.isMe && ' (vous)'}</span>
+                                    <span className="font-mono text-sm text-yellow-400">{entry.xp.toLocaleString()} XP</span>
+                                </li>
+                            ))}
+                        </ol>
+                        {leaderboard.me && !meIsOnPage && (
+                            <p className="mt-3 text-sm text-slate-400">
+                                Votre rang : <span className="font-semibold text-blue-300">{leaderboard.me.rank}</span> / {leaderboard.total} · {leaderboard.me.xp.toLocaleString()} XP
+                            </p>
+                        )}
+                        {pageCount > 1 && (
+                            <div className="mt-4 flex justify-center items-center gap-4 text-sm text-slate-400">
+                                <button onClick={() => setPage(page - 1)} disabled={page <= 1 || isLoading} className="hover:text-slate-200 disabled:opacity-40">‹ Précédent</button>
+                                <span>Page {page} / {pageCount}</span>
+                                <button onClick={() => setPage(page + 1)} disabled={page >= pageCount || isLoading} className="hover:text-slate-200 disabled:opacity-40">Suivant ›</button>
+                            </div>
+                        )}
+                    </div>
+                )
+            )}
+            <p className="mt-4 text-xs text-slate-500">
+                Un exercice ne rapporte qu'une fois, et le gain d'un quiz repassé moins de {RETAKE_MIN_INTERVAL_HOURS} h après la tentative précédente ne compte pas au classement.
+            </p>
+        </div>
+    );
+};
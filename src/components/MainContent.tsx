@@ -15,7 +15,15 @@ import { ForgotPasswordPage } from '@/components/ForgotPasswordPage';
 import { ResetPasswordPage } from '@/components/ResetPasswordPage';
 import { ChatPage } from '@/components/ChatPage';
 import { TutorPage } from '@/components/TutorPage';
-import { Level, Chapter, Exercise, Series, Quiz, QuizQuestion, User, ExerciseContext, ModalState, View, DialogueMessage } from '@/types';
+import { CurriculumHistoryPage } from '@/components/CurriculumHistoryPage';
+import { CurriculumTrashPage } from '@/components/CurriculumTrashPage';
+import { CurriculumBundlePage } from '@/components/CurriculumBundlePage';
+import { UserRolesPage } from '@/components/UserRolesPage';
+import { ClassroomsPage } from '@/components/ClassroomsPage';
+import { MockExamPage } from '@/components/MockExamPage';
+import { ReviewPage } from '@/components/ReviewPage';
+import { hasPermission } from '@/utils/permissions';
+import { Level, Chapter, Exercise, Series, Quiz, QuizQuestion, User, ExerciseContext, ModalState, View, DialogueMessage, CurriculumItemRef } from '@/types';
 
 interface MainContentProps {
     view: View;
@@ -38,6 +46,7 @@ interface MainContentProps {
     onSelectSeriesList: () => void;
     onSelectExercise: (exerciseId: string) => void;
     onSelectQuiz: (quizId: string) => void;
+    onOpenItem: (ref: CurriculumItemRef) => void;
     onNavigateToChat: (context: ExerciseContext) => void;
     onNavigateToTutor: (context: ExerciseContext) => void;
     onNavigateToTimestamp: (levelId: string, chapterId: string, videoId: string, time: number) => void;
@@ -46,6 +55,11 @@ interface MainContentProps {
     openModal: (modalState: ModalState) => void;
     onSelectRoom: (roomId: string | null) => void;
     onUpdateTutorSession: (exerciseId: string, dialogue: DialogueMessage[]) => void;
+    onRestoreRevision: (revisionId: number, side: 'before' | 'after') => Promise<void>;
+    onRestoreCurriculum: (revisionId: number) => Promise<void>;
+    onRestoreTrashItem: (trashId: number) => Promise<void>;
+    onPurgeTrash: (options: { trashId?: number; olderThanDays?: number }) => Promise<void>;
+    onImportComplete: () => Promise<void>;
 }
 
 export const MainContent: React.FC<MainContentProps> = (props) => {
@@ -53,8 +67,9 @@ export const MainContent: React.FC<MainContentProps> = (props) => {
         view, user, curriculum, passwordResetToken, selectedLevelId, selectedChapterId,
         selectedSeriesId, selectedExerciseId, selectedQuizId, selectedExerciseContext, selectedRoomId,
         tutorSessions, videoNavigation, onNavigate, onSelectLevel, onSelectChapter, onSelectSeries, onSelectSeriesList,
-        onSelectExercise, onSelectQuiz, onNavigateToChat, onNavigateToTutor, onNavigateToTimestamp,
-        onBackToDefault, resetSelections, openModal, onSelectRoom, onUpdateTutorSession
+        onSelectExercise, onSelectQuiz, onOpenItem, onNavigateToChat, onNavigateToTutor, onNavigateToTimestamp,
+        onBackToDefault, resetSelections, openModal, onSelectRoom, onUpdateTutorSession,
+        onRestoreRevision, onRestoreCurriculum, onRestoreTrashItem, onPurgeTrash, onImportComplete
     } = props;
     
     const level = curriculum.find(l => l.id === selectedLevelId);
@@ -78,7 +93,28 @@ export const MainContent: React.FC<MainContentProps> = (props) => {
             if (passwordResetToken) return <ResetPasswordPage onResetSuccess={() => onNavigate('login')} />;
             break;
         case 'dashboard':
-            return <DashboardPage onNavigateToCourses={() => onNavigate('courses')} />;
+            return <DashboardPage curriculum={curriculum} onNavigateToCourses={() => onNavigate('courses')} onNavigate={onNavigate} onOpenItem={onOpenItem} onNavigateToTimestamp={onNavigateToTimestamp} />;
+        case 'history':
+            if (hasPermission(user, 'curriculum.edit')) return <CurriculumHistoryPage curriculum={curriculum} onBack={() => onNavigate('dashboard')} onRestoreRevision={onRestoreRevision} onRestoreCurriculum={onRestoreCurriculum} />;
+            break;
+        case 'trash':
+            if (hasPermission(user, 'curriculum.edit')) return <CurriculumTrashPage onBack={() => onNavigate('dashboard')} onRestoreItem={onRestoreTrashItem} onPurgeTrash={onPurgeTrash} />;
+            break;
+        case 'bundle':
+            if (hasPermission(user, 'curriculum.edit')) return <CurriculumBundlePage curriculum={curriculum} onBack={() => onNavigate('dashboard')} onImportComplete={onImportComplete} />;
+            break;
+        case 'roles':
+            if (hasPermission(user, 'roles.manage')) return <UserRolesPage onBack={() => onNavigate('dashboard')} />;
+            break;
+        case 'classrooms':
+            if (hasPermission(user, 'classrooms.manage')) return <ClassroomsPage curriculum={curriculum} onBack={() => onNavigate('dashboard')} />;
+            break;
+        case 'review':
+            if (user) return <ReviewPage curriculum={curriculum} onOpenItem={onOpenItem} onBack={() => onNavigate('dashboard')} />;
+            break;
+        case 'mockExam':
+            if (level && user) return <MockExamPage level={level} onBack={() => onNavigate('chapters')} />;
+            break;
         case 'tutor':
             if (selectedExerciseContext && exercise && chapter && level) return <TutorPage exercise={exercise} chapter={chapter} levelId={level.id} onBack={handleBackToExercise} onNavigateToTimestamp={onNavigateToTimestamp} dialogueHistory={tutorSessions[exercise.id] || []} onDialogueUpdate={(newDialogue) => onUpdateTutorSession(exercise.id, newDialogue)} />;
             break;
@@ -110,19 +146,19 @@ export const MainContent: React.FC<MainContentProps> = (props) => {
             }
             break;
         case 'exercise':
-            if (exercise && series && chapter && level) return <ExercisePage exercise={exercise} chapter={chapter} seriesId={series.id} levelId={level.id} onBack={handleBackToExercises} onEdit={() => openModal({ type: 'editExercise', payload: { exercise, seriesId: series.id }})} onNavigateToTimestamp={onNavigateToTimestamp} onSelectExercise={onSelectExercise} onNavigateToChat={onNavigateToChat} onNavigateToTutor={onNavigateToTutor} />;
+            if (exercise && series && chapter && level) return <ExercisePage exercise={exercise} chapter={chapter} seriesId={series.id} levelId={level.id} onBack={handleBackToExercises} onEdit={() => openModal({ type: 'editExercise', payload: { exercise, seriesId: series.id }})} onNavigateToTimestamp={onNavigateToTimestamp} onSelectExercise={onSelectExercise} onNavigateToChat={onNavigateToChat} onNavigateToTutor={onNavigateToTutor} onOpenItem={onOpenItem} />;
             break;
         case 'exerciseList':
             if (series && chapter && level) return <ExerciseListPage series={series} chapterTitle={chapter.title} onSelectExercise={onSelectExercise} onBack={handleBackToSeries} onAddExercise={() => openModal({ type: 'editExercise', payload: { exercise: null, seriesId: series.id }})} onEditExercise={(exercise) => openModal({ type: 'editExercise', payload: { exercise, seriesId: series.id }})} onDeleteExercise={(exerciseId, exerciseStatement) => openModal({ type: 'delete', payload: { type: 'exercise', ids: { levelId: level.id, chapterId: chapter.id, seriesId: series.id, exerciseId }, name: exerciseStatement }})} />;
             break;
         case 'seriesList':
-            if (chapter && level) return <SeriesListPage chapter={chapter} onSelectSeries={onSelectSeries} onBack={handleBackToChapterHome} onAddSeries={() => openModal({ type: 'editSeries', payload: { series: null, chapterId: chapter.id }})} onEditSeries={(series) => openModal({ type: 'editSeries', payload: { series, chapterId: chapter.id }})} onDeleteSeries={(seriesId, seriesTitle) => openModal({ type: 'delete', payload: { type: 'series', ids: { levelId: level.id, chapterId: chapter.id, seriesId }, name: seriesTitle }})} />;
+            if (chapter && level) return <SeriesListPage chapter={chapter} onSelectSeries={onSelectSeries} onBack={handleBackToChapterHome} onAddSeries={() => openModal({ type: 'editSeries', payload: { series: null, chapterId: chapter.id }})} onEditSeries={(series) => openModal({ type: 'editSeries', payload: { series, chapterId: chapter.id }})} onDeleteSeries={(seriesId, seriesTitle) => openModal({ type: 'delete', payload: { type: 'series', ids: { levelId: level.id, chapterId: chapter.id, seriesId }, name: seriesTitle }})} onOpenItem={onOpenItem} />;
             break;
         case 'chapterHome':
              if (chapter && level) return <ChapterHomePage chapter={chapter} videoNavigation={videoNavigation} onSelectQuiz={onSelectQuiz} onSelectSeriesList={onSelectSeriesList} onBack={handleBackToChapters} onEditChapter={(ch) => openModal({ type: 'editChapter', payload: { chapter: ch }})} onAddQuiz={() => openModal({ type: 'editQuiz', payload: { quiz: null, chapterId: chapter.id }})} onEditQuiz={(q) => openModal({ type: 'editQuiz', payload: { quiz: q, chapterId: chapter.id }})} onDeleteQuiz={(quizId, quizTitle) => openModal({ type: 'delete', payload: { type: 'quiz', ids: { levelId: level.id, chapterId: chapter.id, quizId }, name: quizTitle }})} />;
             break;
         case 'chapters':
-            if (level) return <ChapterListPage level={level} onSelectChapter={onSelectChapter} onBack={onBackToDefault} onAddChapter={() => openModal({ type: 'addChapter' })} onEditChapter={(ch) => openModal({ type: 'editChapter', payload: { chapter: ch }})} onDeleteChapter={(chapterId, chapterTitle) => openModal({ type: 'delete', payload: { type: 'chapter', ids: { levelId: level.id, chapterId }, name: chapterTitle }})} />;
+            if (level) return <ChapterListPage level={level} onSelectChapter={onSelectChapter} onBack={onBackToDefault} onStartMockExam={() => onNavigate('mockExam')} onAddChapter={() => openModal({ type: 'addChapter' })} onEditChapter={(ch) => openModal({ type: 'editChapter', payload: { chapter: ch }})} onDeleteChapter={(chapterId, chapterTitle) => openModal({ type: 'delete', payload: { type: 'chapter', ids: { levelId: level.id, chapterId }, name: chapterTitle }})} />;
             break;
         case 'home':
         case 'courses':
@@ -0,0 +1,500 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Level, MockExam, MockExamFormat, MockExamItem, QuizAnswer, QuizQuestion, Exercise } from '@/types';
+import { ArrowLeftIcon, SpinnerIcon } from '@/components/icons';
+import { MathJaxRenderer, processMarkdownWithMath } from '@/components/MathJaxRenderer';
+import { QuizQuestionInput, initialAnswer, isAnswered } from '@/components/QuizQuestionInput';
+import { AnswerComposer } from '@/components/AnswerComposer';
+import { getMockExams, getMockExam, sendMockExamAction } from '@/services/api';
+import { checkAnswer } from '@/services/geminiService';
+import { MOCK_EXAM_FORMATS, MOCK_EXAM_TOTAL, formatMark, isMockExamRunning, mockExamMark, mockExamMention } from '@/utils/mock-exam';
+import { formatAnswer, formatSolution, questionType } from '@/utils/quiz-grading';
+
+interface MockExamPageProps {
+    level: Level;
+    onBack: () => void;
+}
+
+// Content of an exam item, looked up in the curriculum. Null if it was deleted since the exam started.
+type ItemContent =
+    | { type: 'exercise'; exercise: Exercise; chapterTitle: string }
+    | { type: 'quizQuestion'; question: QuizQuestion; chapterTitle: string }
+    | null;
+
+// Answers are kept in the browser until the copy is handed in, so that a reload does not lose them.
+const storageKey = (examId: string) => `mockExamAnswers:${examId}`;
+
+const loadAnswers = (examId: string): Record<number, QuizAnswer> => {
+    try {
+        return JSON.parse(localStorage.getItem(storageKey(examId)) ?? '{}');
+    } catch {
+        return {};
+    }
+};
+
+const formatCountdown = (ms: number): string => {
+    const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+};
+
+const formatDate = (date: string) => new Date(date).toLocaleString('fr-FR', { dateStyle: 'medium', timeStyle: 'short' });
+
+export const MockExamPage: React.FC<MockExamPageProps> = ({ level, onBack }) => {
+    const [exams, setExams] = useState<MockExam[]>([]);
+    const [exam, setExam] = useState<MockExam | null>(null);
+    const [format, setFormat] = useState<MockExamFormat>('bac');
+    const [isLoading, setIsLoading] = useState(true);
+    const [isStarting, setIsStarting] = useState(false);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [isGrading, setIsGrading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const [answers, setAnswers] = useState<Record<number, QuizAnswer>>({});
+    const [index, setIndex] = useState(0);
+    const [now, setNow] = useState(() => Date.now());
+    const autoSubmitted = useRef(false);
+
+    const contents = useMemo(() => {
+        const lookup = (item: MockExamItem): ItemContent => {
+            const chapter = level.chapters.find(c => c.id === item.chapterId);
+            if (!chapter) return null;
+            if (item.type === 'exercise') {
+                const exercise = chapter.series.flatMap(s => s.exercises).find(e => e.id === item.id);
+                return exercise ? { type: 'exercise', exercise, chapterTitle: chapter.title } : null;
+            }
+            const question = chapter.quizzes.flatMap(q => q.questions).find(q => q.id === item.id);
+            return question ? { type: 'quizQuestion', question, chapterTitle: chapter.title } : null;
+        };
+        return exam ? exam.items.map(lookup) : [];
+    }, [exam, level]);
+
+    const isRunning = !!exam && isMockExamRunning(exam, now);
+
+    useEffect(() => {
+        getMockExams()
+            .then(({ running, exams }) => {
+                setExams(exams.filter(e => e.level_id === level.id && e.submitted_at));
+                if (running && running.level_id === level.id) {
+                    setExam(running);
+                    setAnswers(loadAnswers(running.id));
+                }
+            })
+            .catch(err => setError(err instanceof Error ? err.message : "Impossible de charger les examens blancs."))
+            .finally(() => setIsLoading(false));
+    }, [level.id]);
+
+    useEffect(() => {
+        if (!exam || exam.submitted_at) return;
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [exam]);
+
+    useEffect(() => {
+        if (exam && !exam.submitted_at) localStorage.setItem(storageKey(exam.id), JSON.stringify(answers));
+    }, [exam, answers]);
+
+    const answerAt = (i: number): QuizAnswer => {
+        const content = contents[i];
+        return answers[i] ?? (content?.type === 'quizQuestion' ? initialAnswer(content.question) : null);
+    };
+
+    // Exercises are graded one by one by /api/check-answer once the copy is handed in.
+    const gradeExercises = useCallback(async (submitted: MockExam) => {
+        const pending = submitted.items
+            .map((item, i) => ({ item, i }))
+            .filter(({ item, i }) => item.type === 'exercise' && submitted.results?.[i] === null);
+        if (pending.length === 0) return;
+
+        setIsGrading(true);
+        setError(null);
+        let failures = 0;
+        for (const { item, i } of pending) {
+            try {
+                await checkAnswer(item.id, String(submitted.answers?.[i] ?? ''), submitted.id);
+            } catch (err) {
+                console.error("Failed to grade mock exam exercise:", err);
+                failures++;
+            }
+        }
+        try {
+            const graded = await getMockExam(submitted.id);
+            setExam(graded);
+            setExams(prev => prev.map(e => e.id === graded.id ? graded : e));
+        } catch (err) {
+            failures++;
+        }
+        if (failures > 0) setError("Certains exercices n'ont pas pu être corrigés. Vous pouvez relancer leur correction.");
+        setIsGrading(false);
+    }, []);
+
+    const handleStart = async () => {
+        setIsStarting(true);
+        setError(null);
+        try {
+            const started = await sendMockExamAction({ action: 'START', payload: { levelId: level.id, format } });
+            autoSubmitted.current = false;
+            setAnswers({});
+            setIndex(0);
+            setNow(Date.now());
+            setExam(started);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Impossible de démarrer l'examen blanc.");
+        } finally {
+            setIsStarting(false);
+        }
+    };
+
+    const handleSubmit = useCallback(async () => {
+        if (!exam || exam.submitted_at) return;
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            const submitted = await sendMockExamAction({
+                action: 'SUBMIT',
+                payload: { examId: exam.id, answers: exam.items.map((_, i) => answerAt(i)) },
+            });
+            localStorage.removeItem(storageKey(exam.id));
+            setExam(submitted);
+            setExams(prev => [submitted, ...prev]);
+            setIndex(0);
+            await gradeExercises(submitted);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "La copie n'a pas pu être remise.");
+        } finally {
+            setIsSubmitting(false);
+        }
+    }, [exam, answers, contents, gradeExercises]);
+
+    // When the time is up the copy is handed in as it stands.
+    useEffect(() => {
+        if (exam && !exam.submitted_at && !isRunning && !autoSubmitted.current) {
+            autoSubmitted.current = true;
+            handleSubmit();
+        }
+    }, [exam, isRunning, handleSubmit]);
+
+    const handleConfirmSubmit = () => {
+        if (!exam) return;
+        const unanswered = exam.items.filter((_, i) => !isAnswered(answers[i])).length;
+        const message = unanswered > 0
+            ? `Rendre votre copie ? ${unanswered} élément(s) sans réponse seront notés 0.`
+            : "Rendre votre copie ? Vous ne pourrez plus modifier vos réponses.";
+        if (window.confirm(message)) handleSubmit();
+    };
+
+    const handleOpenReport = (past: MockExam) => {
+        setError(null);
+        setIndex(0);
+        setExam(past);
+    };
+
+    const handleBackToIntro = () => {
+        setError(null);
+        setExam(null);
+    };
+
+    if (isLoading) {
+        return <div className="flex justify-center p-12"><SpinnerIcon className="w-8 h-8 animate-spin text-brand-blue-400" /></div>;
+    }
+
+    // Session: the subject, the countdown and the answers, without corrections or tutor.
+    if (exam && !exam.submitted_at) {
+        const item = exam.items[index];
+        const content = contents[index];
+        const remaining = new Date(exam.ends_at).getTime() - now;
+        const answer = answerAt(index);
+
+        return (
+            <div className="max-w-4xl mx-auto space-y-6">
+                <div className="sticky top-0 z-10 flex items-center justify-between gap-4 p-4 bg-gray-900/95 rounded-xl border border-gray-700/50">
+                    <div>
+                        <h2 className="text-xl font-bold text-brand-blue-300">Examen blanc · {level.levelName}</h2>
+                        <p className="text-sm text-gray-400">{MOCK_EXAM_FORMATS[exam.format].label}</p>
+                    </div>
+                    <div className={`text-3xl font-mono font-bold ${remaining < 5 * 60 * 1000 ? 'text-red-400' : 'text-gray-100'}`} aria-label="Temps restant">
+                        {formatCountdown(remaining)}
+                    </div>
+                </div>
+
+                <div className="flex flex-wrap gap-2" role="tablist" aria-label="Éléments du sujet">
+                    {exam.items.map((it, i) => (
+                        <button
+                            key={`${it.type}-${it.id}`}
+                            role="tab"
+                            aria-selected={i === index}
+                            onClick={() => setIndex(i)}
+                            className={`px-3 h-8 rounded-full text-sm font-semibold ${isAnswered(answers[i]) ? 'bg-brand-blue-600/70 text-white' : 'bg-gray-700 text-gray-300'} ${i === index ? 'ring-2 ring-brand-blue-400' : ''}`}
+                        >
+                            {it.type === 'exercise' ? `Ex. ${i + 1}` : `Q. ${i + 1}`}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="p-6 bg-gray-800/50 rounded-xl border border-gray-700/50 space-y-6">
+                    <div className="flex justify-between text-sm text-gray-400">
+                        <span>{content?.chapterTitle}</span>
+                        <span>{formatMark(item.points)} pt{item.points > 1 ? 's' : ''}</span>
+                    </div>
+
+                    {!content && <p className="text-gray-400">Cet élément n'est plus disponible. Il sera noté 0.</p>}
+
+                    {content?.type === 'quizQuestion' && (
+                        <>
+                            <div className="text-xl font-semibold text-gray-200">
+                                <MathJaxRenderer content={processMarkdownWithMath(content.question.question)} />
+                            </div>
+                            <QuizQuestionInput
+                                key={item.id}
+                                question={content.question}
+                                answer={answer}
+                                onChange={value => setAnswers(prev => ({ ...prev, [index]: value }))}
+                            />
+                        </>
+                    )}
+
+                    {content?.type === 'exercise' && (
+                        <>
+                            <div className="prose prose-invert max-w-none text-gray-300">
+                                <MathJaxRenderer content={processMarkdownWithMath(content.exercise.statement)} />
+                            </div>
+                            {content.exercise.imageUrl && <img src={content.exercise.imageUrl} alt="Illustration de l'exercice" className="max-w-full rounded-lg" />}
+                            {typeof answer === 'string' && answer.trim() && (
+                                <div className="p-4 bg-gray-900/50 rounded-lg border border-brand-blue-500/30">
+                                    <p className="text-xs font-semibold uppercase text-brand-blue-300 mb-2">Réponse enregistrée</p>
+                                    <MathJaxRenderer content={processMarkdownWithMath(answer)} />
+                                </div>
+                            )}
+                            <AnswerComposer
+                                key={item.id}
+                                title="Ma réponse"
+                                submitLabel="Enregistrer ma réponse"
+                                confirmLabel="Enregistrer la transcription"
+                                onSubmit={text => setAnswers(prev => ({ ...prev, [index]: text }))}
+                                onError={setError}
+                            />
+                        </>
+                    )}
+                </div>
+
+                {error && <p className="text-sm text-red-400 text-center">{error}</p>}
+                {!isRunning && !isSubmitting && error && (
+                    <button onClick={handleBackToIntro} className="block mx-auto text-sm text-brand-blue-400 hover:text-brand-blue-300">
+                        Retour aux examens blancs
+                    </button>
+                )}
+
+                <div className="flex justify-between gap-4">
+                    <button
+                        onClick={() => setIndex(i => i - 1)}
+                        disabled={index === 0}
+                        className="px-6 py-2 font-semibold text-white bg-gray-700 rounded-lg hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Précédent
+                    </button>
+                    {index < exam.items.length - 1 ? (
+                        <button onClick={() => setIndex(i => i + 1)} className="px-6 py-2 font-semibold text-white bg-brand-blue-600 rounded-lg hover:bg-brand-blue-700">
+                            Suivant
+                        </button>
+                    ) : (
+                        <button
+                            onClick={handleConfirmSubmit}
+                            disabled={isSubmitting}
+                            className="flex items-center gap-2 px-6 py-2 font-semibold text-white bg-green-600 rounded-lg hover:bg-green-700 disabled:opacity-50"
+                        >
+                            {isSubmitting && <SpinnerIcon className="w-5 h-5 animate-spin" />}
+                            Rendre ma copie
+                        </button>
+                    )}
+                </div>
+            </div>
+        );
+    }
+
+    // Report of a handed-in copy.
+    if (exam) {
+        const { mark, complete } = mockExamMark(exam);
+        const hasUngraded = exam.items.some((it, i) => it.type === 'exercise' && exam.results?.[i] === null);
+
+        return (
+            <div className="max-w-4xl mx-auto space-y-6">
+                <button onClick={handleBackToIntro} className="flex items-center gap-2 text-brand-blue-400 hover:text-brand-blue-300 transition-colors font-semibold">
+                    <ArrowLeftIcon className="w-5 h-5" />
+                    Retour aux examens blancs
+                </button>
+
+                <div className="p-8 text-center bg-gray-800/50 rounded-xl border border-gray-700/50">
+                    <h2 className="text-2xl font-bold text-brand-blue-300">Examen blanc · {level.levelName}</h2>
+                    <p className="text-sm text-gray-400 mt-1">{MOCK_EXAM_FORMATS[exam.format].label} · {formatDate(exam.started_at)}</p>
+                    <p className="mt-6 text-6xl font-extrabold text-gray-100">
+                        {formatMark(mark)}<span className="text-3xl text-gray-400"> / {MOCK_EXAM_TOTAL}</span>
+                    </p>
+                    {complete
+                        ? <p className="mt-2 text-lg font-semibold text-brand-blue-300">Mention : {mockExamMention(mark)}</p>
+                        : <p className="mt-2 text-sm text-yellow-300">Note provisoire : des exercices restent à corriger.</p>}
+                    {isGrading && (
+                        <p className="mt-4 flex items-center justify-center gap-2 text-gray-300">
+                            <SpinnerIcon className="w-5 h-5 animate-spin" />
+                            Correction des exercices en cours…
+                        </p>
+                    )}
+                    {hasUngraded && !isGrading && (
+                        <button onClick={() => gradeExercises(exam)} className="mt-4 px-5 py-2 font-semibold text-white bg-brand-blue-600 rounded-lg hover:bg-brand-blue-700">
+                            Corriger les exercices restants
+                        </button>
+                    )}
+                </div>
+
+                {error && <p className="text-sm text-red-400 text-center">{error}</p>}
+
+                <div className="space-y-4">
+                    {exam.items.map((it, i) => {
+                        const content = contents[i];
+                        const result = exam.results?.[i] ?? null;
+                        const given = exam.answers?.[i] ?? null;
+                        return (
+                            <div key={`${it.type}-${it.id}`} className="p-5 bg-gray-800/50 rounded-xl border border-gray-700/50 space-y-3">
+                                <div className="flex justify-between items-start gap-4">
+                                    <h3 className="font-semibold text-gray-200">
+                                        {it.type === 'exercise' ? 'Exercice' : 'Question'} {i + 1}
+                                        {content && <span className="ml-2 text-sm font-normal text-gray-400">{content.chapterTitle}</span>}
+                                    </h3>
+                                    <span className="shrink-0 font-bold text-gray-100">
+                                        {result ? formatMark(result.score) : '…'} / {formatMark(it.points)}
+                                    </span>
+                                </div>
+
+                                {content?.type === 'quizQuestion' && (
+                                    <>
+                                        <div className="text-gray-300"><MathJaxRenderer content={processMarkdownWithMath(content.question.question)} /></div>
+                                        <div className="text-sm flex items-start gap-1 text-gray-300">
+                                            <span className="shrink-0">Votre réponse :</span>
+                                            <MathJaxRenderer content={processMarkdownWithMath(formatAnswer(questionType(content.question), content.question.options, given))} />
+                                        </div>
+                                        {result?.solution && result.score < it.points && (
+                                            <div className="text-sm flex items-start gap-1 text-green-400">
+                                                <span className="shrink-0">Bonne réponse :</span>
+                                                <MathJaxRenderer content={processMarkdownWithMath(formatSolution(questionType(content.question), content.question.options, result.solution))} />
+                                            </div>
+                                        )}
+                                        {result?.solution?.explanation && (
+                                            <div className="text-sm text-gray-400 prose prose-invert max-w-none">
+                                                <MathJaxRenderer content={processMarkdownWithMath(result.solution.explanation)} />
+                                            </div>
+                                        )}
+                                    </>
+                                )}
+
+                                {content?.type === 'exercise' && (
+                                    <>
+                                        {result?.feedback ? (
+                                            <>
+                                                <p className="text-sm text-gray-300">{result.feedback.summary}</p>
+                                                <ul className="space-y-2">
+                                                    {result.feedback.detailed_feedback.map((part, p) => (
+                                                        <li key={p} className="text-sm flex items-start gap-2">
+                                                            <span className="shrink-0">{part.evaluation === 'correct' ? '🎉' : part.evaluation === 'partial' ? '🔎' : '❌'}</span>
+                                                            <div>
+                                                                <p className="font-semibold text-gray-200">{part.part_title}</p>
+                                                                <div className="text-gray-400 prose prose-invert max-w-none prose-p:my-1">
+                                                                    <MathJaxRenderer content={processMarkdownWithMath(part.explanation)} />
+                                                                </div>
+                                                            </div>
+                                                        </li>
+                                                    ))}
+                                                </ul>
+                                            </>
+                                        ) : result ? (
+                                            <p className="text-sm text-gray-400">Aucune réponse rendue.</p>
+                                        ) : (
+                                            <p className="text-sm text-yellow-300">En attente de correction.</p>
+                                        )}
+                                    </>
+                                )}
+
+                                {!content && <p className="text-sm text-gray-400">Cet élément n'est plus disponible.</p>}
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        );
+    }
+
+    // Introduction: rules, format and past exams.
+    return (
+        <div className="max-w-3xl mx-auto space-y-8">
+            <button onClick={onBack} className="flex items-center gap-2 text-brand-blue-400 hover:text-brand-blue-300 transition-colors font-semibold">
+                <ArrowLeftIcon className="w-5 h-5" />
+                Retour
+            </button>
+
+            <div className="p-8 bg-gray-800/50 rounded-xl border border-gray-700/50 space-y-6">
+                <div>
+                    <h2 className="text-3xl font-bold text-brand-blue-300">Examen blanc</h2>
+                    <p className="mt-2 text-gray-400">{level.levelName} · un sujet tiré de tous les chapitres du niveau, noté sur {MOCK_EXAM_TOTAL}.</p>
+                </div>
+
+                <ul className="list-disc pl-5 space-y-1 text-sm text-gray-300">
+                    <li>Le chronomètre démarre dès le lancement et la copie est rendue automatiquement à la fin du temps.</li>
+                    <li>Les corrections, le tuteur IA et les indices sont indisponibles pendant l'examen.</li>
+                    <li>Répondez aux exercices au clavier mathématique ou en photographiant votre copie.</li>
+                    <li>Les exercices sont corrigés à la remise de la copie ; les questions de quiz sont notées aussitôt.</li>
+                </ul>
+
+                <div className="grid sm:grid-cols-2 gap-4">
+                    {(Object.keys(MOCK_EXAM_FORMATS) as MockExamFormat[]).map(key => {
+                        const config = MOCK_EXAM_FORMATS[key];
+                        return (
+                            <button
+                                key={key}
+                                onClick={() => setFormat(key)}
+                                className={`text-left p-4 rounded-lg border-2 transition-colors ${format === key ? 'bg-brand-blue-600/30 border-brand-blue-500' : 'bg-gray-700/50 border-gray-600 hover:bg-gray-700'}`}
+                            >
+                                <p className="font-semibold text-gray-100">{config.label}</p>
+                                <p className="text-sm text-gray-400">{config.exercises} exercices · {config.quizQuestions} questions de quiz</p>
+                            </button>
+                        );
+                    })}
+                </div>
+
+                {error && <p className="text-sm text-red-400">{error}</p>}
+
+                <button
+                    onClick={handleStart}
+                    disabled={isStarting}
+                    className="w-full flex items-center justify-center gap-2 px-5 py-3 font-semibold text-white bg-brand-blue-600 rounded-lg shadow-md hover:bg-brand-blue-700 disabled:opacity-70"
+                >
+                    {isStarting && <SpinnerIcon className="w-5 h-5 animate-spin" />}
+                    Commencer l'examen
+                </button>
+            </div>
+
+            {exams.length > 0 && (
+                <div className="space-y-3">
+                    <h3 className="text-xl font-semibold text-gray-200">Mes examens blancs</h3>
+                    {exams.map(past => {
+                        const { mark, complete } = mockExamMark(past);
+                        return (
+                            <button
+                                key={past.id}
+                                onClick={() => handleOpenReport(past)}
+                                className="w-full flex justify-between items-center p-4 text-left bg-gray-800/50 rounded-lg border border-gray-700/50 hover:border-brand-blue-500/60"
+                            >
+                                <span>
+                                    <span className="block font-semibold text-gray-200">{MOCK_EXAM_FORMATS[past.format].label}</span>
+                                    <span className="block text-sm text-gray-400">{formatDate(past.started_at)}</span>
+                                </span>
+                                <span className="font-bold text-gray-100">
+                                    {formatMark(mark)} / {MOCK_EXAM_TOTAL}{!complete && <span className="ml-2 text-xs font-normal text-yellow-300">provisoire</span>}
+                                </span>
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -8,6 +8,7 @@ import { EditExerciseModal } from '@/components/EditExerciseModal.tsx';
 import { EditQuizModal } from '@/components/EditQuizModal.tsx';
 import { EditQuizQuestionModal } from '@/components/EditQuizQuestionModal.tsx';
 import { ConfirmDeleteModal } from '@/components/ConfirmDeleteModal.tsx';
+import { CurriculumConflictModal } from '@/components/CurriculumConflictModal.tsx';
 
 interface ModalManagerProps {
     modal: ModalState | null;
@@ -21,6 +22,8 @@ interface ModalManagerProps {
     onSaveQuiz: (quizData: Quiz, chapterId: string) => Promise<void>;
     onSaveQuizQuestion: (questionData: QuizQuestion, quizId: string, chapterId: string) => Promise<void>;
     onConfirmDelete: () => Promise<void>;
+    onReloadAfterConflict: () => Promise<void>;
+    onOverwriteAfterConflict: () => Promise<void>;
 }
 
 export const ModalManager: React.FC<ModalManagerProps> = ({
@@ -35,6 +38,8 @@ export const ModalManager: React.FC<ModalManagerProps> = ({
     onSaveQuiz,
     onSaveQuizQuestion,
     onConfirmDelete,
+    onReloadAfterConflict,
+    onOverwriteAfterConflict,
 }) => {
     if (!modal) {
         return null;
@@ -81,10 +86,21 @@ export const ModalManager: React.FC<ModalManagerProps> = ({
         
         case 'delete':
             return <ConfirmDeleteModal
-                        message={`Êtes-vous sûr de vouloir supprimer "${modal.payload.name}" ? Cette action est irréversible.`}
+                        message={`Êtes-vous sûr de vouloir supprimer "${modal.payload.name}" ? L'élément sera placé dans la corbeille, d'où il pourra être restauré.`}
                         onConfirm={onConfirmDelete}
                         onClose={onClose}
                    />;
+
+        case 'conflict':
+            return <CurriculumConflictModal
+                        operation={modal.payload.operation}
+                        isDelete={modal.payload.request.action === 'DELETE_ITEM'}
+                        mine={modal.payload.mine}
+                        conflict={modal.payload.conflict}
+                        onReload={onReloadAfterConflict}
+                        onOverwrite={onOverwriteAfterConflict}
+                        onClose={onClose}
+                   />;
         
         default:
             return null;
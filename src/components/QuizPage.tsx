@@ -1,11 +1,16 @@
 
-import React, { useState } from 'react';
-import { Quiz } from '@/types';
+import React, { useState, useMemo } from 'react';
+import { Quiz, QuizAnswer, QuizAnswerKey } from '@/types';
 import { ArrowLeftIcon } from '@/components/icons';
 import { MathJaxRenderer, processMarkdownWithMath } from '@/components/MathJaxRenderer';
 import { useAuth } from '@/contexts/AuthContext';
+import { useBadgeToasts } from '@/contexts/BadgeToastContext';
 import { CircularProgressBar } from '@/components/CircularProgressBar';
-import * as userService from '@/services/userService';
+import { calculateLevel } from '@/utils/xp';
+import { summarizeAttempts, canRetake, MAX_QUIZ_ATTEMPTS } from '@/utils/quiz-attempts';
+import { submitQuiz } from '@/services/api';
+import { QuizQuestionInput, initialAnswer, isAnswered } from '@/components/QuizQuestionInput';
+import { QuizReview } from '@/components/QuizReview';
 
 interface QuizPageProps {
     quiz: Quiz;
@@ -14,18 +19,35 @@ interface QuizPageProps {
     onBack: () => void;
 }
 
+// Result being displayed: the attempt just submitted, or the last one when no retake is left.
+interface DisplayedResult {
+    answers: QuizAnswer[];
+    score: number;
+    total: number;
+    xpGained: number | null;              // null: an earlier attempt
+    results: boolean[] | null;            // Returned by /api/submit-quiz; null for an earlier attempt
+    solutions: QuizAnswerKey[] | null;
+}
+
 export const QuizPage: React.FC<QuizPageProps> = ({ quiz, chapterId, chapterTitle, onBack }) => {
     const { user, updateUser } = useAuth();
+    const { announceBadges } = useBadgeToasts();
     const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-    const [selectedAnswers, setSelectedAnswers] = useState<Record<number, number>>({});
-    const [showResults, setShowResults] = useState(false);
+    const [selectedAnswers, setSelectedAnswers] = useState<Record<number, QuizAnswer>>({});
+    const [result, setResult] = useState<DisplayedResult | null>(null);
     const [isSubmitting, setIsSubmitting] = useState(false);
+    const [submitError, setSubmitError] = useState<string | null>(null);
 
     const currentQuestion = quiz.questions[currentQuestionIndex];
-    const isAlreadyAttempted = user?.quiz_attempts.some(attempt => attempt.quiz_id === quiz.id);
+    const previousAttempts = useMemo(() => (user?.quiz_attempts ?? []).filter(attempt => attempt.quiz_id === quiz.id), [user, quiz.id]);
+    const summary = useMemo(() => summarizeAttempts(previousAttempts).get(quiz.id) ?? null, [previousAttempts, quiz.id]);
+    const retakeAllowed = canRetake(previousAttempts.length);
+
+    const answerAt = (index: number): QuizAnswer => selectedAnswers[index] ?? initialAnswer(quiz.questions[index]);
+    const currentAnswered = !!currentQuestion && isAnswered(answerAt(currentQuestionIndex));
 
-    const handleSelectAnswer = (optionIndex: number) => {
-        setSelectedAnswers(prev => ({ ...prev, [currentQuestionIndex]: optionIndex }));
+    const handleAnswerChange = (answer: QuizAnswer) => {
+        setSelectedAnswers(prev => ({ ...prev, [currentQuestionIndex]: answer }));
     };
 
     const handleNext = () => {
@@ -41,57 +63,60 @@ export const QuizPage: React.FC<QuizPageProps> = ({ quiz, chapterId, chapterTitl
     };
 
     const handleSubmitQuiz = async () => {
-        if (!user || isSubmitting || isAlreadyAttempted) return;
+        if (!user || isSubmitting || !retakeAllowed) return;
 
         setIsSubmitting(true);
-        const score = calculateScore();
-        const totalQuestions = quiz.questions.length;
-        const xpGained = 50; // XP for completing a quiz
+        setSubmitError(null);
+        const answers = quiz.questions.map((_, index) => answerAt(index));
 
         try {
-            const newAttempt = await userService.logQuizAttempt(user.id, quiz.id, chapterId, score, totalQuestions, xpGained);
-            
+            // Graded by the server: the answer key is not part of the public curriculum.
+            const { attempt, xpGained, results, solutions, unlockedBadges } = await submitQuiz(quiz.id, answers);
+
             // Update user state locally for instant UI update
             const newXp = user.xp + xpGained;
-            const newLevel = userService.calculateLevel(newXp);
             updateUser({
                 xp: newXp,
-                level: newLevel,
-                quiz_attempts: [...user.quiz_attempts, newAttempt]
+                level: calculateLevel(newXp),
+                quiz_attempts: [...user.quiz_attempts, attempt]
             });
-
+            setResult({ answers, score: attempt.score, total: attempt.total_questions, xpGained, results, solutions });
+            announceBadges(unlockedBadges ?? []);
         } catch (error) {
-            console.error("Failed to log quiz attempt:", error);
-            // Non-critical, so we'll still show the results.
+            console.error("Failed to submit quiz:", error);
+            setSubmitError(error instanceof Error ? error.message : "Impossible d'enregistrer votre tentative.");
         } finally {
-            setShowResults(true);
             setIsSubmitting(false);
         }
     };
-    
-    const calculateScore = () => {
-        return quiz.questions.reduce((score, question, index) => {
-            if (selectedAnswers[index] === question.correctAnswerIndex) {
-                return score + 1;
-            }
-            return score;
-        }, 0);
+
+    const handleRetake = () => {
+        setSelectedAnswers({});
+        setCurrentQuestionIndex(0);
+        setResult(null);
     };
     
     const getResultMessage = (percentage: number) => {
-        if (percentage === 100) return "Excellent ! Score parfait ! (+50 XP)";
-        if (percentage >= 75) return "Très bien ! Continuez comme ça ! (+50 XP)";
-        if (percentage >= 50) return "Pas mal ! Encore un petit effort. (+50 XP)";
-        return "N'hésitez pas à revoir la leçon et à réessayer. (+50 XP)";
+        if (percentage === 100) return "Excellent ! Score parfait !";
+        if (percentage >= 75) return "Très bien ! Continuez comme ça !";
+        if (percentage >= 50) return "Pas mal ! Encore un petit effort.";
+        return "N'hésitez pas à revoir la leçon et à réessayer.";
+    };
+
+    const getXpMessage = (xpGained: number | null, isFirstAttempt: boolean) => {
+        if (xpGained === null) return null;
+        if (xpGained > 0) return isFirstAttempt ? `+${xpGained} XP` : `Nouveau meilleur score : +${xpGained} XP`;
+        return "Pas de nouvel XP : battez votre meilleur score pour en gagner.";
     };
 
-    if (showResults || isAlreadyAttempted) {
-        const attempt = user?.quiz_attempts.find(a => a.quiz_id === quiz.id);
-        const finalScore = attempt ? attempt.score : calculateScore();
-        const finalTotal = attempt ? attempt.total_questions : quiz.questions.length;
-        
-        const percentage = finalTotal > 0 ? Math.round((finalScore / finalTotal) * 100) : 0;
-        const resultMessage = getResultMessage(percentage);
+    const lastAttempt = previousAttempts[previousAttempts.length - 1];
+    const displayed: DisplayedResult | null = result ?? (!retakeAllowed && lastAttempt
+        ? { answers: lastAttempt.answers ?? [], score: lastAttempt.score, total: lastAttempt.total_questions, xpGained: null, results: null, solutions: null }
+        : null);
+
+    if (displayed) {
+        const percentage = displayed.total > 0 ? Math.round((displayed.score / displayed.total) * 100) : 0;
+        const xpMessage = getXpMessage(displayed.xpGained, previousAttempts.length <= 1);
 
         return (
              <div className="max-w-2xl mx-auto bg-gray-800/50 p-8 rounded-xl border border-gray-700">
@@ -100,28 +125,59 @@ export const QuizPage: React.FC<QuizPageProps> = ({ quiz, chapterId, chapterTitl
                 <div className="flex flex-col items-center mb-8">
                    <CircularProgressBar percentage={percentage} />
                    <p className="text-xl text-center text-gray-300 mt-4">
-                        {isAlreadyAttempted ? "Vous avez déjà complété ce quiz." : resultMessage}
+                        {result ? getResultMessage(percentage) : "Vous avez utilisé toutes vos tentatives pour ce quiz."}
                    </p>
+                   {xpMessage && <p className={`mt-1 text-sm ${displayed.xpGained ? 'text-yellow-400' : 'text-gray-400'}`}>{xpMessage}</p>}
                 </div>
 
-                <div className="space-y-4">
-                    {quiz.questions.map((q, index) => {
-                        const userAttempt = attempt ? user.quiz_attempts.find(a => a.quiz_id === quiz.id) : null;
-                        const selectedAnswer = userAttempt ? userAttempt.score : selectedAnswers[index]; //This is not correct, but we don't store selected answers
-                        
-                        return (
-                        <div key={q.id} className={`p-4 rounded-lg border-2 ${q.correctAnswerIndex !== undefined ? (selectedAnswers[index] === q.correctAnswerIndex ? 'border-green-500/50 bg-green-900/20' : 'border-red-500/50 bg-red-900/20') : 'border-gray-600'}`}>
-                            <div className="font-semibold text-gray-200 flex items-start gap-2">
-                               <span>{index + 1}.</span>
-                               <MathJaxRenderer content={processMarkdownWithMath(q.question)} />
+                {summary && (
+                    <div className="grid grid-cols-4 gap-3 mb-8 text-center">
+                        {[
+                            ['Meilleur', `${summary.best} %`],
+                            ['Dernier', `${summary.last} %`],
+                            ['Moyenne', `${summary.average} %`],
+                            ['Tentatives', `${summary.attempts}`],
+                        ].map(([label, value]) => (
+                            <div key={label} className="p-3 bg-gray-900/50 rounded-lg">
+                                <p className="text-xs text-gray-400">{label}</p>
+                                <p className="text-lg font-bold text-white">{value}</p>
                             </div>
-                            {q.options && typeof q.correctAnswerIndex !== 'undefined' && (
-                                <p className="text-sm text-green-400 mt-2">Bonne réponse : <span className="font-medium">{q.options[q.correctAnswerIndex]}</span></p>
-                            )}
-                        </div>
-                    )})}
-                </div>
-                <div className="text-center mt-8">
+                        ))}
+                    </div>
+                )}
+
+                <h3 className="font-semibold text-gray-300 mb-3">Correction détaillée</h3>
+                <QuizReview
+                    quiz={quiz}
+                    chapterId={chapterId}
+                    answers={displayed.answers}
+                    results={displayed.results}
+                    solutions={displayed.solutions}
+                />
+
+                {previousAttempts.length > 1 && (
+                    <div className="mt-8">
+                        <h3 className="font-semibold text-gray-300 mb-2">Historique des tentatives</h3>
+                        <ul className="space-y-1 text-sm">
+                            {[...previousAttempts].reverse().map((attempt, index) => (
+                                <li key={attempt.id} className="flex justify-between p-2 bg-gray-900/50 rounded">
+                                    <span className="text-gray-400">
+                                        Tentative {previousAttempts.length - index} · {new Date(attempt.taken_at).toLocaleString('fr-FR', { dateStyle: 'short', timeStyle: 'short' })}
+                                    </span>
+                                    <span className="text-gray-200 font-semibold">
+                                        {attempt.score} / {attempt.total_questions}
+                                        {attempt.xp_awarded ? <span className="ml-2 text-xs text-yellow-400">+{attempt.xp_awarded} XP</span> : null}
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+
+                <div className="flex justify-center gap-4 mt-8">
+                    {retakeAllowed && (
+                        <button onClick={handleRetake} className="px-6 py-2 font-semibold text-gray-200 bg-gray-700 rounded-lg hover:bg-gray-600">Recommencer</button>
+                    )}
                     <button onClick={onBack} className="px-6 py-2 font-semibold text-white bg-brand-blue-600 rounded-lg hover:bg-brand-blue-700">Retour au Chapitre</button>
                 </div>
              </div>
@@ -137,34 +193,32 @@ export const QuizPage: React.FC<QuizPageProps> = ({ quiz, chapterId, chapterTitl
                 </button>
                 <h2 className="text-3xl font-bold text-brand-blue-300">{chapterTitle} - {quiz.title}</h2>
                 <p className="text-lg text-gray-400 mt-1">Question {currentQuestionIndex + 1} sur {quiz.questions.length}</p>
+                {summary && (
+                    <p className="text-sm text-gray-500 mt-1">
+                        Tentative n°{summary.attempts + 1}{MAX_QUIZ_ATTEMPTS !== null ? ` sur ${MAX_QUIZ_ATTEMPTS}` : ''} · Meilleur score : {summary.best} %
+                    </p>
+                )}
             </div>
 
             <div className="bg-gray-800/50 p-8 rounded-xl border border-gray-700">
                 <div className="text-xl font-semibold text-gray-200 mb-6">
                    {currentQuestion && <MathJaxRenderer content={processMarkdownWithMath(currentQuestion.question)} />}
                 </div>
-                {currentQuestion && currentQuestion.options && (
-                    <div className="space-y-4">
-                        {currentQuestion.options.map((option, index) => (
-                            <button
-                                key={index}
-                                onClick={() => handleSelectAnswer(index)}
-                                className={`w-full text-left p-4 rounded-lg border-2 transition-colors duration-200 ${
-                                    selectedAnswers[currentQuestionIndex] === index
-                                        ? 'bg-brand-blue-600/30 border-brand-blue-500'
-                                        : 'bg-gray-700/50 border-gray-600 hover:bg-gray-700'
-                                }`}
-                            >
-                                <MathJaxRenderer content={processMarkdownWithMath(option)} />
-                            </button>
-                        ))}
-                    </div>
+                {currentQuestion && (
+                    <QuizQuestionInput
+                        key={currentQuestion.id}
+                        question={currentQuestion}
+                        answer={answerAt(currentQuestionIndex)}
+                        onChange={handleAnswerChange}
+                    />
                 )}
                  {!currentQuestion && (
                     <p className="text-center text-gray-400">Ce quiz ne contient aucune question pour le moment.</p>
                 )}
             </div>
             
+            {submitError && <p className="text-center text-red-400">{submitError}</p>}
+
             <div className="flex justify-between items-center">
                 <button 
                     onClick={handlePrev} 
@@ -176,7 +230,7 @@ export const QuizPage: React.FC<QuizPageProps> = ({ quiz, chapterId, chapterTitl
                  {currentQuestionIndex === quiz.questions.length - 1 ? (
                     <button 
                         onClick={handleSubmitQuiz} 
-                        disabled={isSubmitting || typeof selectedAnswers[currentQuestionIndex] === 'undefined'}
+                        disabled={isSubmitting || !currentAnswered}
                         className="px-6 py-2 font-semibold text-white bg-green-600 rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                         {isSubmitting ? 'Enregistrement...' : 'Terminer le Quiz'}
@@ -184,7 +238,7 @@ export const QuizPage: React.FC<QuizPageProps> = ({ quiz, chapterId, chapterTitl
                  ) : (
                     <button 
                         onClick={handleNext} 
-                        disabled={currentQuestionIndex >= quiz.questions.length - 1 || !currentQuestion || typeof selectedAnswers[currentQuestionIndex] === 'undefined'}
+                        disabled={currentQuestionIndex >= quiz.questions.length - 1 || !currentAnswered}
                         className="px-6 py-2 font-semibold text-white bg-brand-blue-600 rounded-lg hover:bg-brand-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                         Suivant
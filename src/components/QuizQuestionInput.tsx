@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { QuizAnswer, QuizQuestion } from '@/types';
+import { MathJaxRenderer, processMarkdownWithMath } from '@/components/MathJaxRenderer';
+import { MathKeyboard } from '@/components/MathKeyboard';
+import { ChevronUpIcon, ChevronDownIcon } from '@/components/icons';
+import { questionType, TRUE_FALSE_OPTIONS } from '@/utils/quiz-grading';
+
+interface QuizQuestionInputProps {
+    question: QuizQuestion;
+    answer: QuizAnswer | undefined;
+    onChange: (answer: QuizAnswer) => void;
+}
+
+/**
+ * Answer that a question has before the student touches it: ordering questions start
+ * in the order they are shown, the other types start unanswered.
+ */
+export const initialAnswer = (question: QuizQuestion): QuizAnswer =>
+    questionType(question) === 'ordering' ? (question.options ?? []).map((_, index) => index) : null;
+
+/**
+ * Whether the student has answered, to allow moving on to the next question.
+ */
+export const isAnswered = (answer: QuizAnswer | undefined): boolean =>
+    answer !== undefined && answer !== null
+    && !(typeof answer === 'string' && answer.trim() === '')
+    && !(Array.isArray(answer) && answer.length === 0);
+
+const choiceClass = (selected: boolean) => `w-full text-left p-4 rounded-lg border-2 transition-colors duration-200 ${
+    selected ? 'bg-brand-blue-600/30 border-brand-blue-500' : 'bg-gray-700/50 border-gray-600 hover:bg-gray-700'
+}`;
+
+export const QuizQuestionInput: React.FC<QuizQuestionInputProps> = ({ question, answer, onChange }) => {
+    const [isKeyboardOpen, setIsKeyboardOpen] = useState(false);
+    const options = question.options ?? [];
+
+    switch (questionType(question)) {
+        case 'single':
+        case 'trueFalse': {
+            const labels = questionType(question) === 'trueFalse' && options.length !== 2 ? TRUE_FALSE_OPTIONS : options;
+            return (
+                <div className={questionType(question) === 'trueFalse' ? 'grid grid-cols-2 gap-4' : 'space-y-4'}>
+                    {labels.map((option, index) => (
+                        <button key={index} onClick={() => onChange(index)} className={choiceClass(answer === index)}>
+                            <MathJaxRenderer content={processMarkdownWithMath(option)} />
+                        </button>
+                    ))}
+                </div>
+            );
+        }
+        case 'multiple': {
+            const chosen = Array.isArray(answer) ? answer : [];
+            const toggle = (index: number) =>
+                onChange(chosen.includes(index) ? chosen.filter(i => i !== index) : [...chosen, index].sort((a, b) => a - b));
+            return (
+                <div className="space-y-4">
+                    <p className="text-sm text-gray-400">Plusieurs réponses peuvent être correctes : cochez-les toutes.</p>
+                    {options.map((option, index) => (
+                        <button key={index} onClick={() => toggle(index)} className={`${choiceClass(chosen.includes(index))} flex items-center gap-3`}>
+                            <input type="checkbox" readOnly checked={chosen.includes(index)} tabIndex={-1} className="h-5 w-5 shrink-0 pointer-events-none" />
+                            <MathJaxRenderer content={processMarkdownWithMath(option)} />
+                        </button>
+                    ))}
+                </div>
+            );
+        }
+        case 'ordering': {
+            const order = Array.isArray(answer) ? answer : (initialAnswer(question) as number[]);
+            const move = (position: number, offset: number) => {
+                const next = [...order];
+                [next[position], next[position + offset]] = [next[position + offset], next[position]];
+                onChange(next);
+            };
+            return (
+                <div className="space-y-3">
+                    <p className="text-sm text-gray-400">Remettez les éléments dans le bon ordre avec les flèches.</p>
+                    {order.map((optionIndex, position) => (
+                        <div key={optionIndex} className="flex items-center gap-3 p-3 rounded-lg border-2 bg-gray-700/50 border-gray-600">
+                            <span className="w-6 text-center font-bold text-brand-blue-300">{position + 1}</span>
+                            <div className="flex-grow"><MathJaxRenderer content={processMarkdownWithMath(options[optionIndex] ?? '')} /></div>
+                            <div className="flex flex-col">
+                                <button onClick={() => move(position, -1)} disabled={position === 0} aria-label="Monter" className="p-1 text-gray-400 hover:text-white disabled:opacity-30">
+                                    <ChevronUpIcon className="w-5 h-5" />
+                                </button>
+                                <button onClick={() => move(position, 1)} disabled={position === order.length - 1} aria-label="Descendre" className="p-1 text-gray-400 hover:text-white disabled:opacity-30">
+                                    <ChevronDownIcon className="w-5 h-5" />
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            );
+        }
+        case 'numeric':
+            return (
+                <div className="space-y-2">
+                    <input
+                        type="text"
+                        inputMode="decimal"
+                        value={typeof answer === 'string' ? answer : ''}
+                        onChange={e => onChange(e.target.value)}
+                        placeholder="Votre réponse"
+                        className="w-full p-3 bg-gray-900 border-2 border-gray-600 rounded-lg text-gray-200 focus:ring-2 focus:ring-brand-blue-500 focus:border-brand-blue-500"
+                    />
+                    <p className="text-xs text-gray-500">Écrivez un nombre : 3,5 ou 3.5, une fraction comme 1/3.</p>
+                </div>
+            );
+        case 'symbolic': {
+            const latex = typeof answer === 'string' ? answer : '';
+            return (
+                <div className="space-y-4">
+                    {latex && !isKeyboardOpen && (
+                        <div className="p-4 bg-gray-900/50 rounded-lg border border-gray-600">
+                            <MathJaxRenderer content={`$$${latex}$$`} />
+                        </div>
+                    )}
+                    <button
+                        onClick={() => setIsKeyboardOpen(true)}
+                        className="w-full px-5 py-3 font-semibold text-white bg-gray-600 rounded-lg shadow-md hover:bg-gray-500 transition-colors"
+                    >
+                        {latex ? "Modifier ma réponse" : "Saisir ma réponse"}
+                    </button>
+                    {isKeyboardOpen && (
+                        <MathKeyboard
+                            initialValue={latex}
+                            onConfirm={(value) => { onChange(value); setIsKeyboardOpen(false); }}
+                            onClose={() => setIsKeyboardOpen(false)}
+                        />
+                    )}
+                </div>
+            );
+        }
+    }
+};
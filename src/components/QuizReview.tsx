@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from 'react';
+import { Quiz, QuizAnswer, QuizAnswerKey, QuizQuestion } from '@/types';
+import { MathJaxRenderer, processMarkdownWithMath } from '@/components/MathJaxRenderer';
+import { SpinnerIcon } from '@/components/icons';
+import { useAIExplain } from '@/hooks/useAIExplain';
+import { formatAnswer, formatSolution, questionType } from '@/utils/quiz-grading';
+
+interface QuizReviewProps {
+    quiz: Quiz;
+    chapterId: string;
+    answers: QuizAnswer[];
+    results: boolean[] | null;          // null for an earlier attempt: answers are shown without correction
+    solutions: QuizAnswerKey[] | null;
+}
+
+const buildTutorPrompt = (question: QuizQuestion, answer: QuizAnswer | undefined, isCorrect: boolean | null, solution: QuizAnswerKey | undefined) => {
+    const type = questionType(question);
+    return `
+        # CONTEXTE : QUESTION DE QUIZ
+        ## Question:
+        ${question.question}
+        ${question.options?.length ? `## Propositions:\n${question.options.map((option, i) => `${i + 1}. ${option}`).join('\n')}` : ''}
+        ## Réponse de l'élève:
+        ${formatAnswer(type, question.options, answer)}${isCorrect === null ? '' : isCorrect ? ' (juste)' : ' (fausse)'}
+        ${solution ? `## Bonne réponse:\n${formatSolution(type, question.options, solution)}` : ''}
+        ${solution?.explanation ? `## Explication du professeur (pour information):\n${solution.explanation}` : ''}
+
+        # DEMANDE ÉLÈVE
+        Je ne comprends pas cette question de quiz. Explique-moi pourquoi la bonne réponse est juste${isCorrect === false ? ' et où est mon erreur' : ''}.
+    `;
+};
+
+/**
+ * Question-by-question walk through a graded attempt: the student's answer, the right one,
+ * the explanation, and a button to ask the AI tutor about the question.
+ */
+export const QuizReview: React.FC<QuizReviewProps> = ({ quiz, chapterId, answers, results, solutions }) => {
+    const [index, setIndex] = useState(0);
+    const { data: tutorResponse, isLoading: isTutorLoading, error: tutorError, explain, reset: resetTutor } = useAIExplain();
+
+    // A tutor answer belongs to one question.
+    useEffect(() => { resetTutor(); }, [index, resetTutor]);
+
+    const question = quiz.questions[index];
+    if (!question) return null;
+
+    const type = questionType(question);
+    const answer = answers[index];
+    const isCorrect = results?.[index] ?? null;
+    const solution = solutions?.[index];
+
+    const dotClass = (i: number) => {
+        const result = results?.[i];
+        const color = result === undefined ? 'bg-gray-700 text-gray-300' : result ? 'bg-green-600/70 text-white' : 'bg-red-600/70 text-white';
+        return `w-8 h-8 rounded-full text-sm font-semibold ${color} ${i === index ? 'ring-2 ring-brand-blue-400' : ''}`;
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap gap-2" role="tablist" aria-label="Questions du quiz">
+                {quiz.questions.map((q, i) => (
+                    <button key={q.id} role="tab" aria-selected={i === index} onClick={() => setIndex(i)} className={dotClass(i)}>{i + 1}</button>
+                ))}
+            </div>
+
+            <div className={`p-4 rounded-lg border-2 ${isCorrect === null ? 'border-gray-600' : isCorrect ? 'border-green-500/50 bg-green-900/20' : 'border-red-500/50 bg-red-900/20'}`}>
+                <div className="font-semibold text-gray-200 flex items-start gap-2">
+                    <span>{index + 1}.</span>
+                    <MathJaxRenderer content={processMarkdownWithMath(question.question)} />
+                </div>
+
+                <div className={`text-sm mt-3 flex items-start gap-1 ${isCorrect === null ? 'text-gray-300' : isCorrect ? 'text-green-400' : 'text-red-400'}`}>
+                    <span className="shrink-0">Votre réponse :</span>
+                    <MathJaxRenderer content={processMarkdownWithMath(formatAnswer(type, question.options, answer))} />
+                </div>
+                {solution && !isCorrect && (
+                    <div className="text-sm text-green-400 mt-2 flex items-start gap-1">
+                        <span className="shrink-0">Bonne réponse :</span>
+                        <MathJaxRenderer content={processMarkdownWithMath(formatSolution(type, question.options, solution))} />
+                    </div>
+                )}
+
+                {solution?.explanation && (
+                    <div className="mt-4 p-3 bg-gray-900/50 rounded-lg border border-gray-700">
+                        <p className="text-xs font-semibold uppercase text-gray-400 mb-1">Explication</p>
+                        <div className="prose prose-invert max-w-none text-gray-300">
+                            <MathJaxRenderer content={processMarkdownWithMath(solution.explanation)} />
+                        </div>
+                    </div>
+                )}
+
+                <div className="mt-4">
+                    {!tutorResponse?.explanation && (
+                        <button
+                            onClick={() => explain(buildTutorPrompt(question, answer, isCorrect, solution), chapterId, 'direct')}
+                            disabled={isTutorLoading}
+                            className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-brand-blue-300 bg-brand-blue-500/10 rounded-lg hover:bg-brand-blue-500/20 disabled:opacity-50"
+                        >
+                            {isTutorLoading && <SpinnerIcon className="w-4 h-4 animate-spin" />}
+                            Demander au tuteur à propos de cette question
+                        </button>
+                    )}
+                    {tutorError && <p className="mt-2 text-sm text-red-400">{tutorError}</p>}
+                    {tutorResponse?.explanation && (
+                        <div className="p-3 bg-brand-blue-900/20 rounded-lg border border-brand-blue-500/30">
+                            <p className="text-xs font-semibold uppercase text-brand-blue-300 mb-1">Tuteur IA</p>
+                            <div className="prose prose-invert max-w-none text-gray-300">
+                                <MathJaxRenderer content={processMarkdownWithMath(tutorResponse.explanation)} />
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            <div className="flex justify-between">
+                <button
+                    onClick={() => setIndex(i => i - 1)}
+                    disabled={index === 0}
+                    className="px-4 py-2 text-sm font-semibold text-white bg-gray-700 rounded-lg hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    Question précédente
+                </button>
+                <button
+                    onClick={() => setIndex(i => i + 1)}
+                    disabled={index === quiz.questions.length - 1}
+                    className="px-4 py-2 text-sm font-semibold text-white bg-gray-700 rounded-lg hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    Question suivante
+                </button>
+            </div>
+        </div>
+    );
+};
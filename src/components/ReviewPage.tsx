@@ -0,0 +1,225 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Level, CurriculumItemRef, QuizAnswer, ReviewItem, ReviewQueue, ReviewRating, ReviewActionResults } from '@/types';
+import { ArrowLeftIcon, SpinnerIcon, CheckCircleIcon } from '@/components/icons';
+import { MathJaxRenderer, processMarkdownWithMath } from '@/components/MathJaxRenderer';
+import { QuizQuestionInput, initialAnswer, isAnswered } from '@/components/QuizQuestionInput';
+import { getReviewQueue, sendReviewAction } from '@/services/api';
+import { findQuizQuestion, locateItem } from '@/utils/curriculum-tree';
+import { formatSolution, questionType } from '@/utils/quiz-grading';
+import { REVIEW_RATING_LABELS, daysUntil } from '@/utils/spaced-repetition';
+
+interface ReviewPageProps {
+    curriculum: Level[];
+    onOpenItem: (ref: CurriculumItemRef) => void;
+    onBack: () => void;
+}
+
+const RATINGS: ReviewRating[] = ['again', 'hard', 'good', 'easy'];
+
+const nextReviewLabel = (dueAt: string) => {
+    const days = daysUntil({ dueAt });
+    return days <= 1 ? 'Prochaine révision : demain' : `Prochaine révision dans ${days} jours`;
+};
+
+// A due quiz question: the student answers, then sees the correction and the next due date.
+const QuestionReview: React.FC<{ item: ReviewItem; curriculum: Level[]; onDone: () => void }> = ({ item, curriculum, onDone }) => {
+    const found = useMemo(() => findQuizQuestion(curriculum, item.id), [curriculum, item.id]);
+    const [answer, setAnswer] = useState<QuizAnswer>(() => (found ? initialAnswer(found.question) : null));
+    const [result, setResult] = useState<ReviewActionResults['ANSWER_QUESTION'] | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    if (!found) return null;
+    const { question, chapter } = found;
+
+    const handleSubmit = async () => {
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            setResult(await sendReviewAction({ action: 'ANSWER_QUESTION', payload: { questionId: question.id, answer } }));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "La réponse n'a pas pu être enregistrée.");
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <p className="text-sm text-slate-400">Question de quiz · {chapter.title}</p>
+            <div className="text-xl font-semibold text-slate-100">
+                <MathJaxRenderer content={processMarkdownWithMath(question.question)} />
+            </div>
+            {result ? (
+                <div className={`p-4 rounded-lg border-2 ${result.correct ? 'border-green-500/50 bg-green-900/20' : 'border-red-500/50 bg-red-900/20'}`}>
+                    <p className={`font-semibold ${result.correct ? 'text-green-400' : 'text-red-400'}`}>{result.correct ? 'Bonne réponse !' : 'Réponse incorrecte.'}</p>
+                    {!result.correct && (
+                        <div className="mt-2 text-sm text-green-400 flex items-start gap-1">
+                            <span className="shrink-0">Bonne réponse :</span>
+                            <MathJaxRenderer content={processMarkdownWithMath(formatSolution(questionType(question), question.options, result.solution))} />
+                        </div>
+                    )}
+                    {result.solution.explanation && (
+                        <div className="mt-3 text-sm text-slate-300 prose prose-invert max-w-none">
+                            <MathJaxRenderer content={processMarkdownWithMath(result.solution.explanation)} />
+                        </div>
+                    )}
+                    <p className="mt-3 text-xs text-slate-400">{nextReviewLabel(result.state.dueAt)}</p>
+                </div>
+            ) : (
+                <QuizQuestionInput question={question} answer={answer} onChange={setAnswer} />
+            )}
+            {error && <p className="text-sm text-red-400">{error}</p>}
+            <div className="flex justify-end">
+                {result ? (
+                    <button onClick={onDone} className="px-6 py-2 font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700">Suivant</button>
+                ) : (
+                    <button
+                        onClick={handleSubmit}
+                        disabled={isSubmitting || !isAnswered(answer)}
+                        className="flex items-center gap-2 px-6 py-2 font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                    >
+                        {isSubmitting && <SpinnerIcon className="w-5 h-5 animate-spin" />}
+                        Valider
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+// A due exercise: the student redoes it (or a similar one) and rates how well it went.
+const ExerciseReview: React.FC<{ item: ReviewItem; curriculum: Level[]; onOpenItem: (ref: CurriculumItemRef) => void; onDone: () => void }> = ({ item, curriculum, onOpenItem, onDone }) => {
+    const located = locateItem(curriculum, { type: 'exercise', id: item.id });
+    const exercise = located?.series?.exercises.find(e => e.id === item.id);
+    const similar = (item.similarExerciseIds ?? [])
+        .map(id => locateItem(curriculum, { type: 'exercise', id }))
+        .filter((found): found is NonNullable<typeof found> => !!found);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [nextDueAt, setNextDueAt] = useState<string | null>(null);
+
+    if (!located || !exercise) return null;
+
+    const handleRate = async (rating: ReviewRating) => {
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            const { state } = await sendReviewAction({ action: 'RATE_EXERCISE', payload: { exerciseId: item.id, rating } });
+            setNextDueAt(state.dueAt);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "L'évaluation n'a pas pu être enregistrée.");
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <p className="text-sm text-slate-400">Exercice · {located.chapter.title} · {located.title}</p>
+            <div className="prose prose-invert max-w-none text-slate-300 line-clamp-6">
+                <MathJaxRenderer content={processMarkdownWithMath(exercise.statement)} />
+            </div>
+            <div className="space-y-2">
+                <p className="text-sm text-slate-300">Refaites cet exercice, ou entraînez-vous sur un exercice proche :</p>
+                <div className="flex flex-wrap gap-2">
+                    <button onClick={() => onOpenItem(located.ref)} className="px-3 py-1.5 text-sm font-semibold rounded-lg bg-slate-700 hover:bg-slate-600 text-slate-100">
+                        Ouvrir l'exercice
+                    </button>
+                    {similar.map(found => (
+                        <button key={found.ref.id} onClick={() => onOpenItem(found.ref)} className="px-3 py-1.5 text-sm rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300">
+                            {found.title}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            {nextDueAt ? (
+                <div className="flex items-center justify-between gap-4">
+                    <p className="text-sm text-slate-400">{nextReviewLabel(nextDueAt)}</p>
+                    <button onClick={onDone} className="px-6 py-2 font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700">Suivant</button>
+                </div>
+            ) : (
+                <div>
+                    <p className="text-sm text-slate-300 mb-2">Comment l'avez-vous réussi ?</p>
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                        {RATINGS.map(rating => (
+                            <button
+                                key={rating}
+                                onClick={() => handleRate(rating)}
+                                disabled={isSubmitting}
+                                className="px-3 py-2 text-sm font-semibold rounded-lg border-2 border-slate-600 bg-slate-700/50 hover:bg-slate-700 text-slate-100 disabled:opacity-50"
+                            >
+                                {REVIEW_RATING_LABELS[rating]}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+            {error && <p className="text-sm text-red-400">{error}</p>}
+        </div>
+    );
+};
+
+/**
+ * Daily "Révision" session: due quiz questions and exercises, most overdue first.
+ */
+export const ReviewPage: React.FC<ReviewPageProps> = ({ curriculum, onOpenItem, onBack }) => {
+    const [queue, setQueue] = useState<ReviewQueue | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [position, setPosition] = useState(0);
+
+    useEffect(() => {
+        getReviewQueue()
+            .then(setQueue)
+            .catch(err => setError(err instanceof Error ? err.message : "Impossible de charger les révisions."));
+    }, []);
+
+    // Items removed from the curriculum since they were scheduled are skipped.
+    const items = useMemo(() => (queue?.items ?? []).filter(item => item.type === 'exercise'
+        ? !!locateItem(curriculum, { type: 'exercise', id: item.id })
+        : !!findQuizQuestion(curriculum, item.id)
+    ), [queue, curriculum]);
+    const current = items[position];
+
+    return (
+        <div className="max-w-3xl mx-auto space-y-6">
+            <button onClick={onBack} className="flex items-center gap-2 text-blue-400 hover:text-blue-300 transition-colors font-semibold">
+                <ArrowLeftIcon className="w-5 h-5" />
+                Retour
+            </button>
+            <div>
+                <h2 className="text-3xl font-bold text-slate-100">Révision du jour</h2>
+                <p className="mt-1 text-slate-400">Les notions revues au bon moment restent en mémoire : chaque réponse fixe la date de la prochaine révision.</p>
+            </div>
+
+            {error && <p className="text-sm text-red-400">{error}</p>}
+            {!queue && !error && <SpinnerIcon className="w-8 h-8 animate-spin text-blue-500" />}
+
+            {queue && (current ? (
+                <div className="bg-slate-900 p-6 rounded-2xl border border-slate-800">
+                    <div className="flex justify-between items-center mb-4 text-sm text-slate-400">
+                        <span>{position + 1} / {items.length}</span>
+                        <div className="w-1/2 bg-slate-700 rounded-full h-2">
+                            <div className="bg-blue-500 h-2 rounded-full" style={{ width: `${(position / items.length) * 100}%` }} />
+                        </div>
+                    </div>
+                    {current.type === 'quizQuestion'
+                        ? <QuestionReview key={current.id} item={current} curriculum={curriculum} onDone={() => setPosition(p => p + 1)} />
+                        : <ExerciseReview key={current.id} item={current} curriculum={curriculum} onOpenItem={onOpenItem} onDone={() => setPosition(p => p + 1)} />}
+                </div>
+            ) : (
+                <div className="text-center p-8 bg-slate-900 rounded-2xl border border-slate-800">
+                    <CheckCircleIcon className="w-12 h-12 mx-auto text-green-400" />
+                    <h3 className="mt-4 text-xl font-semibold text-slate-100">
+                        {items.length > 0 ? 'Révision terminée !' : 'Rien à réviser aujourd\'hui.'}
+                    </h3>
+                    <p className="mt-2 text-sm text-slate-400">
+                        {queue.dueThisWeek - items.length > 0
+                            ? `${queue.dueThisWeek - items.length} élément(s) à réviser dans les 7 prochains jours.`
+                            : 'Terminez des exercices et des quiz : ils reviendront ici au bon moment.'}
+                    </p>
+                </div>
+            ))}
+        </div>
+    );
+};
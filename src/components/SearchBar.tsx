@@ -0,0 +1,156 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SearchResult, SearchResultType } from '@/types';
+import { BookOpenIcon, DocumentTextIcon, MagnifyingGlassIcon, PlayCircleIcon, QuestionMarkCircleIcon, SpinnerIcon, XMarkIcon } from '@/components/icons';
+import { searchCurriculum } from '@/services/api';
+
+interface SearchBarProps {
+    onOpenResult: (result: SearchResult) => void;
+}
+
+// Wait for the student to stop typing before searching by keywords. The search by meaning (which counts
+// against the daily search limit) only runs when the student presses Enter.
+const SEARCH_DELAY_MS = 350;
+const MIN_QUERY_LENGTH = 2;
+
+const RESULT_ICONS: Record<SearchResultType, React.FC<{ className?: string }>> = {
+    chapter: BookOpenIcon,
+    exercise: DocumentTextIcon,
+    quizQuestion: QuestionMarkCircleIcon,
+    video: PlayCircleIcon,
+};
+
+const RESULT_TYPE_LABELS: Record<SearchResultType, string> = {
+    chapter: 'Chapitre',
+    exercise: 'Exercice',
+    quizQuestion: 'Question de quiz',
+    video: 'Vidéo',
+};
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+/**
+ * Search field of the header: chapters, exercises, quiz questions and video passages, by keywords while typing,
+ * and also by meaning on Enter.
+ */
+export const SearchBar: React.FC<SearchBarProps> = ({ onOpenResult }) => {
+    const [query, setQuery] = useState('');
+    const [results, setResults] = useState<SearchResult[] | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [isOpen, setIsOpen] = useState(false);
+    // The query whose results include the search by meaning.
+    const [semanticQuery, setSemanticQuery] = useState<string | null>(null);
+    const containerRef = useRef<HTMLDivElement>(null);
+    // Only the latest search updates the results.
+    const searchIdRef = useRef(0);
+
+    const runSearch = (trimmed: string, semantic: boolean) => {
+        const searchId = ++searchIdRef.current;
+        setIsLoading(true);
+        searchCurriculum(trimmed, semantic)
+            .then(found => {
+                if (searchId !== searchIdRef.current) return;
+                setResults(found);
+                setSemanticQuery(semantic ? trimmed : null);
+                setError(null);
+            })
+            .catch(err => { if (searchId === searchIdRef.current) setError(err instanceof Error ? err.message : "La recherche a échoué."); })
+            .finally(() => { if (searchId === searchIdRef.current) setIsLoading(false); });
+    };
+
+    useEffect(() => {
+        const trimmed = query.trim();
+        searchIdRef.current++;
+        setIsLoading(false);
+        if (trimmed.length < MIN_QUERY_LENGTH) {
+            setResults(null);
+            setSemanticQuery(null);
+            setError(null);
+            return;
+        }
+        const timer = setTimeout(() => runSearch(trimmed, false), SEARCH_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [query]);
+
+    // Close the results when clicking elsewhere.
+    useEffect(() => {
+        const handleClick = (event: MouseEvent) => {
+            if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false);
+        };
+        document.addEventListener('mousedown', handleClick);
+        return () => document.removeEventListener('mousedown', handleClick);
+    }, []);
+
+    const open = (result: SearchResult) => {
+        onOpenResult(result);
+        setIsOpen(false);
+        setQuery('');
+    };
+
+    const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+        if (event.key === 'Escape') setIsOpen(false);
+        if (event.key !== 'Enter') return;
+        // First Enter: search by meaning too; once those results are shown, open the best one.
+        const trimmed = query.trim();
+        if (semanticQuery === trimmed && results?.[0]) open(results[0]);
+        else if (trimmed.length >= MIN_QUERY_LENGTH && !isLoading) runSearch(trimmed, true);
+    };
+
+    const showPanel = isOpen && query.trim().length >= MIN_QUERY_LENGTH;
+    const canSearchByMeaning = !error && semanticQuery !== query.trim();
+
+    return (
+        <div ref={containerRef} className="relative w-full max-w-md">
+            <div className="flex items-center gap-2 px-3 py-1.5 bg-slate-800 border border-slate-700 rounded-lg focus-within:border-blue-500">
+                <MagnifyingGlassIcon className="w-5 h-5 text-slate-400 shrink-0" />
+                <input
+                    type="search"
+                    value={query}
+                    onChange={e => { setQuery(e.target.value); setIsOpen(true); }}
+                    onFocus={() => setIsOpen(true)}
+                    onKeyDown={handleKeyDown}
+                    placeholder="Rechercher un chapitre, un exercice, une notion…"
+                    aria-label="Rechercher dans les cours"
+                    className="w-full bg-transparent text-sm text-slate-200 placeholder-slate-500 focus:outline-none"
+                />
+                {isLoading && <SpinnerIcon className="w-4 h-4 animate-spin text-blue-400 shrink-0" />}
+                {query && !isLoading && (
+                    <button onClick={() => setQuery('')} className="text-slate-500 hover:text-slate-300" aria-label="Effacer la recherche">
+                        <XMarkIcon className="w-4 h-4" />
+                    </button>
+                )}
+            </div>
+            {showPanel && (results || error) && (
+                <div className="absolute left-0 right-0 mt-2 max-h-[70vh] overflow-y-auto bg-slate-800 rounded-lg shadow-lg border border-slate-700 z-30">
+                    {error && <p className="p-4 text-sm text-red-400">{error}</p>}
+                    {!error && results?.length === 0 && <p className="p-4 text-sm text-slate-400">Aucun résultat pour « {query.trim()} ».</p>}
+                    {canSearchByMeaning && (
+                        <p className="px-4 pt-3 pb-1 text-xs text-slate-500">Appuyez sur Entrée pour chercher aussi par le sens (exercices proches, passages de vidéos).</p>
+                    )}
+                    {!error && results && results.length > 0 && (
+                        <ul className="py-1">
+                            {results.map(result => {
+                                const Icon = RESULT_ICONS[result.type];
+                                return (
+                                    <li key={`${result.type}:${result.id}`}>
+                                        <button onClick={() => open(result)} className="w-full flex items-start gap-3 text-left px-4 py-2 hover:bg-slate-700">
+                                            <Icon className="w-5 h-5 mt-0.5 text-blue-400 shrink-0" />
+                                            <span className="min-w-0">
+                                                <span className="block text-sm text-slate-200 truncate">{result.title}</span>
+                                                <span className="block text-xs text-slate-500">
+                                                    {RESULT_TYPE_LABELS[result.type]} · {result.chapterTitle}
+                                                    {result.startTime !== undefined && ` · ${formatTime(result.startTime)}`}
+                                                </span>
+                                                {result.snippet && <span className="block mt-1 text-xs text-slate-400 line-clamp-2">{result.snippet}</span>}
+                                            </span>
+                                        </button>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
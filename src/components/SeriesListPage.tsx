@@ -1,8 +1,11 @@
 
-import React from 'react';
-import { Chapter, Series } from '@/types';
+import React, { useMemo, useState } from 'react';
+import { Chapter, CurriculumItemRef, Series } from '@/types';
 import { ArrowLeftIcon, PlusCircleIcon, PencilIcon, TrashIcon } from '@/components/icons';
 import { useAuth } from '@/contexts/AuthContext';
+import { ExerciseFilterBar } from '@/components/ExerciseFilterBar';
+import { ExerciseMetadataBadges } from '@/components/ExerciseMetadataBadges';
+import { ExerciseFilters, NO_EXERCISE_FILTERS, collectTags, hasActiveFilters, matchesFilters } from '@/utils/exercise-metadata';
 
 interface SeriesListPageProps {
     chapter: Chapter;
@@ -11,6 +14,7 @@ interface SeriesListPageProps {
     onAddSeries: () => void;
     onEditSeries: (series: Series) => void;
     onDeleteSeries: (seriesId: string, seriesTitle: string) => void;
+    onOpenItem: (ref: CurriculumItemRef) => void;
 }
 
 export const SeriesListPage: React.FC<SeriesListPageProps> = ({
@@ -19,9 +23,19 @@ export const SeriesListPage: React.FC<SeriesListPageProps> = ({
     onBack,
     onAddSeries,
     onEditSeries,
-    onDeleteSeries
+    onDeleteSeries,
+    onOpenItem
 }) => {
-    const { isAdmin } = useAuth();
+    const { can } = useAuth();
+    const canEdit = can('curriculum.edit');
+    const [filters, setFilters] = useState<ExerciseFilters>(NO_EXERCISE_FILTERS);
+    const filtering = hasActiveFilters(filters);
+
+    const tags = useMemo(() => collectTags(chapter.series.flatMap(series => series.exercises)), [chapter]);
+    // With active filters, only the series that have a matching exercise, along with those exercises.
+    const visibleSeries = useMemo(() => chapter.series
+        .map(series => ({ series, matches: filtering ? series.exercises.filter(exercise => matchesFilters(exercise, filters)) : [] }))
+        .filter(({ matches }) => !filtering || matches.length > 0), [chapter, filters, filtering]);
 
     return (
         <div className="max-w-4xl mx-auto">
@@ -35,7 +49,7 @@ export const SeriesListPage: React.FC<SeriesListPageProps> = ({
                         <h2 className="text-3xl font-bold text-brand-blue-300">{chapter.title}</h2>
                         <p className="mt-2 text-lg text-gray-400">Choisissez une série d'exercices.</p>
                     </div>
-                    {isAdmin && (
+                    {canEdit && (
                         <button
                             onClick={onAddSeries}
                             className="flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg transition-colors duration-200 bg-green-600/80 border-2 border-green-500 hover:bg-green-600 text-white"
@@ -46,9 +60,17 @@ export const SeriesListPage: React.FC<SeriesListPageProps> = ({
                     )}
                 </div>
             </div>
+            {chapter.series.length > 0 && (
+                <div className="mb-6">
+                    <ExerciseFilterBar filters={filters} tags={tags} onChange={setFilters} />
+                </div>
+            )}
             <div className="space-y-4">
+                {filtering && visibleSeries.length === 0 && (
+                    <p className="text-gray-400 text-center py-8">Aucun exercice ne correspond à ces filtres.</p>
+                )}
                 {chapter.series.length > 0 ? (
-                    chapter.series.map(series => (
+                    visibleSeries.map(({ series, matches }) => (
                         <div
                             key={series.id}
                             className="group relative bg-gray-800/50 hover:bg-gray-700/60 transition-all duration-300 rounded-xl border border-gray-700/50 focus:outline-none focus-within:ring-2 focus-within:ring-brand-blue-500 focus-within:ring-offset-2 focus-within:ring-offset-gray-900"
@@ -60,8 +82,25 @@ export const SeriesListPage: React.FC<SeriesListPageProps> = ({
                             >
                                 <h3 className="text-xl font-semibold text-gray-200">{series.title}</h3>
                             </button>
-                            {isAdmin && (
-                                <div className="absolute top-1/2 right-4 -translate-y-1/2 flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity" onClick={e => e.stopPropagation()}>
+                            {matches.length > 0 && (
+                                <ul className="px-6 pb-6 space-y-2">
+                                    {matches.map(exercise => (
+                                        <li key={exercise.id}>
+                                            <button
+                                                onClick={() => onOpenItem({ type: 'exercise', id: exercise.id })}
+                                                className="w-full text-left p-3 rounded-lg bg-gray-900/50 hover:bg-gray-900 transition-colors"
+                                            >
+                                                <span className="text-sm font-medium text-gray-300">
+                                                    Exercice {series.exercises.indexOf(exercise) + 1}
+                                                </span>
+                                                <ExerciseMetadataBadges exercise={exercise} />
+                                            </button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                            {canEdit && (
+                                <div className={`absolute right-4 ${matches.length > 0 ? 'top-4' : 'top-1/2 -translate-y-1/2'} flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity`} onClick={e => e.stopPropagation()}>
                                     <button
                                         onClick={() => onEditSeries(series)}
                                         className="p-2 rounded-full text-gray-400 hover:bg-gray-600 hover:text-white"
@@ -0,0 +1,44 @@
+import React from 'react';
+import { MasteryLevel, SkillMastery } from '@/types';
+import { MASTERY_LEVEL_LABELS } from '@/utils/mastery';
+
+export const MASTERY_LEVEL_STYLES: Record<MasteryLevel, { bar: string; text: string }> = {
+    notEvaluated: { bar: 'bg-slate-600', text: 'text-slate-400' },
+    toReview: { bar: 'bg-rose-500', text: 'text-rose-400' },
+    inProgress: { bar: 'bg-amber-500', text: 'text-amber-400' },
+    mastered: { bar: 'bg-green-500', text: 'text-green-400' },
+};
+
+interface SkillMapProps {
+    skills: SkillMastery[];
+    emptyMessage?: string;
+}
+
+/**
+ * One bar per skill: the estimated mastery, its level and the number of graded answers it relies on.
+ */
+export const SkillMap: React.FC<SkillMapProps> = ({ skills, emptyMessage = "Aucune compétence n'est encore associée à ces exercices." }) => {
+    if (skills.length === 0) return <p className="text-sm text-slate-400">{emptyMessage}</p>;
+
+    return (
+        <ul className="space-y-3">
+            {skills.map(skill => {
+                const style = MASTERY_LEVEL_STYLES[skill.level];
+                return (
+                    <li key={skill.skill}>
+                        <div className="flex justify-between items-baseline gap-3 text-sm">
+                            <span className="text-slate-200">{skill.skill}</span>
+                            <span className={`shrink-0 text-xs font-semibold ${style.text}`}>
+                                {MASTERY_LEVEL_LABELS[skill.level]}
+                                {skill.evidenceCount > 0 && <span className="font-normal text-slate-500"> · {skill.evidenceCount} réponse{skill.evidenceCount > 1 ? 's' : ''}</span>}
+                            </span>
+                        </div>
+                        <div className="mt-1 w-full bg-slate-700 rounded-full h-2">
+                            <div className={`h-2 rounded-full transition-all duration-500 ${style.bar}`} style={{ width: `${skill.level === 'notEvaluated' ? 0 : Math.round(skill.score * 100)}%` }} />
+                        </div>
+                    </li>
+                );
+            })}
+        </ul>
+    );
+};
@@ -5,6 +5,8 @@ import imageCompression from 'browser-image-compression';
 import { useAIExplain } from '@/hooks/useAIExplain';
 import { SpinnerIcon, PlayCircleIcon, PaperClipIcon, ArrowLeftIcon, XCircleIcon } from '@/components/icons';
 import { useAuth } from '@/contexts/AuthContext';
+import { useBadgeToasts } from '@/contexts/BadgeToastContext';
+import { calculateLevel } from '@/utils/xp';
 import { DialogueMessage, SocraticPath, AIResponse, Exercise, Chapter } from '@/types';
 import { MathJaxRenderer, processMarkdownWithMath } from './MathJaxRenderer';
 import { getSupabase } from '../services/authService';
@@ -91,7 +93,8 @@ const TutorSummary: React.FC<{ dialogue: DialogueMessage[], onBack: () => void }
 
 
 export const TutorPage: React.FC<TutorPageProps> = ({ exercise, chapter, levelId, onBack, onNavigateToTimestamp, dialogueHistory, onDialogueUpdate }) => {
-    const { user } = useAuth();
+    const { user, updateUser } = useAuth();
+    const { announceBadges } = useBadgeToasts();
     const { data: aiResponse, isLoading: isAIExplainLoading, error: aiError, explain, reset: resetAIExplain } = useAIExplain();
     
     const dialogue = dialogueHistory;
@@ -103,6 +106,9 @@ export const TutorPage: React.FC<TutorPageProps> = ({ exercise, chapter, levelId
     const [isTutorFinished, setIsTutorFinished] = useState(false);
 
     const [isVerifying, setIsVerifying] = useState(false);
+    // The full correction is not part of the public curriculum: the server adds it to the tutor's context
+    // (/api/explain, /api/validate-socratic-answer), so opening the tutor does not count as viewing it.
+    const fullCorrection = exercise.fullCorrection ?? null;
 
     const [error, setError] = useState<string | null>(null);
     const [isRateLimited, setIsRateLimited] = useState(false);
@@ -184,7 +190,7 @@ export const TutorPage: React.FC<TutorPageProps> = ({ exercise, chapter, levelId
         ## Énoncé:
         ${exercise.statement}
         ## Correction de référence (pour information):
-        ${exercise.fullCorrection || exercise.correctionSnippet}
+        ${fullCorrection || exercise.correctionSnippet}
         
         # DEMANDE ÉLÈVE
         Voici ce que l'élève a déjà fait ou sa question :
@@ -193,8 +199,8 @@ export const TutorPage: React.FC<TutorPageProps> = ({ exercise, chapter, levelId
         # MISSION
         Analyse la demande de l'élève par rapport à l'exercice et démarre le tutorat socratique à l'étape appropriée.
         `;
-        explain(prompt, chapter.id, 'socratic');
-    }, [dialogue, onDialogueUpdate, exercise, chapter, explain, resetAIExplain]);
+        explain(prompt, chapter.id, 'socratic', exercise.id);
+    }, [dialogue, onDialogueUpdate, exercise, fullCorrection, chapter, explain, resetAIExplain]);
 
     const validateAnswer = useCallback(async (answer: string) => {
         if (!socraticPath) return;
@@ -218,8 +224,9 @@ export const TutorPage: React.FC<TutorPageProps> = ({ exercise, chapter, levelId
                     currentIaQuestion: socraticPath[currentStep].ia_question,
                     expectedAnswerKeywords: socraticPath[currentStep].expected_answer_keywords,
                     exerciseStatement: exercise.statement,
-                    exerciseCorrection: exercise.fullCorrection || exercise.correctionSnippet,
-                    dialogueHistory: newDialogue
+                    exerciseCorrection: fullCorrection || exercise.correctionSnippet,
+                    dialogueHistory: newDialogue,
+                    exerciseId: exercise.id
                 })
             });
 
@@ -236,6 +243,10 @@ export const TutorPage: React.FC<TutorPageProps> = ({ exercise, chapter, levelId
                 setCurrentStep(prev => prev + 1);
             }
             onDialogueUpdate(finalDialogue);
+            if (user && result.xpGained > 0) {
+                updateUser({ xp: user.xp + result.xpGained, level: calculateLevel(user.xp + result.xpGained) });
+            }
+            announceBadges(result.unlockedBadges ?? []);
 
         } catch (err) {
             const errorMessage = err instanceof Error ? err.message : "Une erreur est survenue.";
@@ -244,7 +255,7 @@ export const TutorPage: React.FC<TutorPageProps> = ({ exercise, chapter, levelId
         } finally {
             setIsVerifying(false);
         }
-    }, [dialogue, onDialogueUpdate, socraticPath, currentStep, exercise]);
+    }, [dialogue, onDialogueUpdate, socraticPath, currentStep, exercise, fullCorrection, announceBadges, user, updateUser]);
 
     const handleSubmit = () => {
         const rawText = ocrVerificationText !== null ? ocrVerificationText.replace(/\\n/g, '\n') : studentInput;
@@ -0,0 +1,137 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Profile, Role, Permission } from '@/types';
+import { ArrowLeftIcon, SpinnerIcon } from '@/components/icons';
+import { getUserRoles, setUserRole } from '@/services/api';
+import { useAuth } from '@/contexts/AuthContext';
+import { ROLES, ROLE_LABELS, ROLE_PERMISSIONS } from '@/utils/permissions';
+
+interface UserRolesPageProps {
+    onBack: () => void;
+}
+
+const PERMISSION_LABELS: Record<Permission, string> = {
+    'curriculum.edit': 'modifier le programme',
+    'students.view': 'suivre tous les élèves',
+    'classrooms.manage': 'gérer ses classes',
+    'roles.manage': 'gérer les rôles',
+};
+
+export const UserRolesPage: React.FC<UserRolesPageProps> = ({ onBack }) => {
+    const { user } = useAuth();
+    const [users, setUsers] = useState<Profile[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [pendingId, setPendingId] = useState<string | null>(null);
+    const [search, setSearch] = useState('');
+
+    const fetchUsers = useCallback(async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            setUsers(await getUserRoles());
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Impossible de charger les utilisateurs.");
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchUsers();
+    }, [fetchUsers]);
+
+    const handleChangeRole = async (profile: Profile, role: Role) => {
+        if (role === profile.role) return;
+        if (!window.confirm(`Attribuer le rôle "${ROLE_LABELS[role]}" à ${profile.email} ?`)) return;
+        setPendingId(profile.id);
+        try {
+            await setUserRole(profile.id, role);
+            setUsers(prev => prev.map(u => (u.id === profile.id ? { ...u, role } : u)));
+        } catch (err) {
+            alert(`L'opération a échoué.\nErreur: ${err instanceof Error ? err.message : String(err)}`);
+        } finally {
+            setPendingId(null);
+        }
+    };
+
+    const filteredUsers = useMemo(() => {
+        const query = search.trim().toLowerCase();
+        return query ? users.filter(u => u.email.toLowerCase().includes(query)) : users;
+    }, [users, search]);
+
+    return (
+        <div className="max-w-4xl mx-auto">
+            <div className="mb-8">
+                <button onClick={onBack} className="flex items-center gap-2 text-brand-blue-400 hover:text-brand-blue-300 transition-colors mb-4">
+                    <ArrowLeftIcon className="w-5 h-5" />
+                    Retour au tableau de bord
+                </button>
+                <h2 className="text-3xl font-bold text-brand-blue-300">Rôles des utilisateurs</h2>
+                <p className="mt-2 text-lg text-gray-400">Attribuez ou retirez les droits d'enseignant, d'éditeur de contenu ou d'administrateur.</p>
+            </div>
+
+            <div className="mb-6 grid sm:grid-cols-2 gap-3">
+                {ROLES.map(role => (
+                    <div key={role} className="p-3 bg-gray-800/50 rounded-lg border border-gray-700/50 text-sm">
+                        <p className="font-semibold text-gray-200">{ROLE_LABELS[role]}</p>
+                        <p className="text-gray-400">
+                            {ROLE_PERMISSIONS[role].length > 0
+                                ? `Peut ${ROLE_PERMISSIONS[role].map(p => PERMISSION_LABELS[p]).join(', ')}.`
+                                : 'Accès élève uniquement.'}
+                        </p>
+                    </div>
+                ))}
+            </div>
+
+            <input
+                type="search"
+                value={search}
+                onChange={e => setSearch(e.target.value)}
+                placeholder="Rechercher par email..."
+                className="w-full mb-4 p-2 bg-gray-900 border border-gray-600 rounded-md text-gray-200"
+            />
+
+            {isLoading && <SpinnerIcon className="w-8 h-8 animate-spin text-brand-blue-500 mx-auto" />}
+            {error && <p className="text-red-400 text-center">{error}</p>}
+            {!isLoading && !error && filteredUsers.length === 0 && (
+                <p className="text-center text-gray-500 py-8">Aucun utilisateur trouvé.</p>
+            )}
+            {!isLoading && !error && filteredUsers.length > 0 && (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left">
+                        <thead className="border-b-2 border-gray-600">
+                            <tr>
+                                <th className="p-3 text-sm font-semibold text-gray-400">Email</th>
+                                <th className="p-3 text-sm font-semibold text-gray-400">Rôle</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {filteredUsers.map(profile => (
+                                <tr key={profile.id} className="border-b border-gray-700/50">
+                                    <td className="p-3 text-gray-300">
+                                        {profile.email}
+                                        {profile.id === user?.id && <span className="ml-2 text-xs text-gray-500">(vous)</span>}
+                                    </td>
+                                    <td className="p-3">
+                                        <div className="flex items-center gap-2">
+                                            <select
+                                                value={profile.role}
+                                                onChange={e => handleChangeRole(profile, e.target.value as Role)}
+                                                // Demoting yourself is refused by the server; don't offer it.
+                                                disabled={pendingId !== null || profile.id === user?.id}
+                                                className="p-2 bg-gray-900 border border-gray-600 rounded-md text-gray-200 disabled:opacity-50"
+                                            >
+                                                {ROLES.map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                                            </select>
+                                            {pendingId === profile.id && <SpinnerIcon className="w-5 h-5 animate-spin text-brand-blue-400" />}
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,8 +1,8 @@
 
 
 
-import React, { createContext, useState, useContext, useEffect, useMemo, useCallback } from 'react';
-import { User, AuthContextType } from '@/types';
+import React, { createContext, useState, useContext, useEffect, useCallback } from 'react';
+import { User, AuthContextType, Permission } from '@/types';
 import * as authService from '@/services/authService';
 import { SpinnerIcon } from '@/components/icons';
 
@@ -12,7 +12,6 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     const [user, setUser] = useState<User | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
-    const [adminEmailForDebug, setAdminEmailForDebug] = useState<string | undefined>();
 
     useEffect(() => {
         let isMounted = true;
@@ -24,17 +23,15 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
                 // They are safe to be exposed in the browser.
                 const supabaseUrl = import.meta.env?.VITE_SUPABASE_URL; // This is your project's URL from Supabase settings.
                 const supabaseAnonKey = import.meta.env?.VITE_SUPABASE_ANON_KEY; // This is the "Publishable key" from Supabase settings.
-                const adminEmailFromEnv = import.meta.env?.VITE_ADMIN_EMAIL;
 
                 if (!supabaseUrl || !supabaseAnonKey) {
                     console.error("Erreur de configuration : VITE_SUPABASE_URL et VITE_SUPABASE_ANON_KEY sont nécessaires.");
                     throw new Error("Configuration de l'application incomplète. Assurez-vous que les variables d'environnement VITE_SUPABASE_URL et VITE_SUPABASE_ANON_KEY sont définies.");
                 }
 
-                const config: authService.AuthConfig = { supabaseUrl, supabaseAnonKey, adminEmail: adminEmailFromEnv };
+                const config: authService.AuthConfig = { supabaseUrl, supabaseAnonKey };
                 
                 authService.initializeSupabase(config);
-                setAdminEmailForDebug(config.adminEmail);
 
                 const supabase = authService.getSupabase();
                 // v2: getSession() is asynchronous
@@ -99,11 +96,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         return "reset-request-sent"; 
     };
     
-    const isAdmin = useMemo(() => user?.is_admin || false, [user]);
+    const can = useCallback((permission: Permission) => user?.permissions.includes(permission) ?? false, [user]);
     
     const value: AuthContextType = {
         user,
-        isAdmin,
+        can,
         isLoading,
         updateUser,
         login: authService.login,
@@ -112,7 +109,6 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         logout: authService.logout,
         requestPasswordReset: requestPasswordResetWrapper,
         resetPassword: resetPasswordWrapper,
-        adminEmailForDebug: adminEmailForDebug,
     };
 
     if (isLoading) {
@@ -0,0 +1,57 @@
+import React, { createContext, useCallback, useContext, useState } from 'react';
+import { Badge } from '@/types';
+import { XMarkIcon } from '@/components/icons';
+
+interface BadgeToastContextType {
+    announceBadges: (badges: Badge[]) => void;
+}
+
+const BadgeToastContext = createContext<BadgeToastContextType | undefined>(undefined);
+
+const TOAST_DURATION_MS = 6000;
+
+/**
+ * Shows a toast for each badge the student unlocks, wherever it was unlocked (exercise, quiz, tutor...).
+ */
+export const BadgeToastProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [toasts, setToasts] = useState<Badge[]>([]);
+
+    const dismiss = useCallback((badgeId: string) => {
+        setToasts(prev => prev.filter(badge => badge.id !== badgeId));
+    }, []);
+
+    const announceBadges = useCallback((badges: Badge[]) => {
+        if (badges.length === 0) return;
+        setToasts(prev => [...prev, ...badges.filter(badge => !prev.some(shown => shown.id === badge.id))]);
+        badges.forEach(badge => setTimeout(() => dismiss(badge.id), TOAST_DURATION_MS));
+    }, [dismiss]);
+
+    return (
+        <BadgeToastContext.Provider value={{ announceBadges }}>
+            {children}
+            <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-3 w-80 max-w-[calc(100vw-2rem)]" aria-live="polite">
+                {toasts.map(badge => (
+                    <div key={badge.id} className="flex items-start gap-3 p-4 bg-slate-800 border border-yellow-500/50 rounded-xl shadow-lg shadow-yellow-500/10">
+                        <span className="text-3xl" role="img" aria-hidden="true">{badge.icon}</span>
+                        <div className="flex-grow">
+                            <p className="text-xs font-semibold uppercase tracking-wider text-yellow-400">Badge débloqué !</p>
+                            <p className="font-semibold text-slate-100">{badge.name}</p>
+                            <p className="text-sm text-slate-400">{badge.description}</p>
+                        </div>
+                        <button onClick={() => dismiss(badge.id)} className="text-slate-500 hover:text-slate-300" aria-label="Fermer">
+                            <XMarkIcon className="w-4 h-4" />
+                        </button>
+                    </div>
+                ))}
+            </div>
+        </BadgeToastContext.Provider>
+    );
+};
+
+export const useBadgeToasts = (): BadgeToastContextType => {
+    const context = useContext(BadgeToastContext);
+    if (context === undefined) {
+        throw new Error('useBadgeToasts must be used within a BadgeToastProvider');
+    }
+    return context;
+};
@@ -16,11 +16,11 @@ export const useAIExplain = () => {
         error: null,
     });
 
-    const explain = useCallback(async (prompt: string, chapterId: string, requestType: 'socratic' | 'direct') => {
+    const explain = useCallback(async (prompt: string, chapterId: string, requestType: 'socratic' | 'direct', exerciseId?: string) => {
         setState({ data: null, isLoading: true, error: null });
         
         try {
-            const responseData = await getAIExplanation(prompt, chapterId, requestType);
+            const responseData = await getAIExplanation(prompt, chapterId, requestType, exerciseId);
             setState({ data: responseData, isLoading: false, error: null });
 
         } catch (e: any) {
@@ -0,0 +1,34 @@
+import { useState, useEffect } from 'react';
+import { getMastery } from '@/services/api';
+import { MasteryReport } from '@/types';
+
+interface UseMasteryState {
+    data: MasteryReport | null;
+    isLoading: boolean;
+    error: string | null;
+}
+
+/**
+ * Loads the student's skill and chapter mastery. Nothing is loaded while `enabled` is false
+ * (signed out, or staff who do not get a mastery of their own).
+ */
+export const useMastery = (enabled: boolean): UseMasteryState => {
+    const [state, setState] = useState<UseMasteryState>({ data: null, isLoading: enabled, error: null });
+
+    useEffect(() => {
+        if (!enabled) {
+            setState({ data: null, isLoading: false, error: null });
+            return;
+        }
+        let cancelled = false;
+        setState({ data: null, isLoading: true, error: null });
+        getMastery()
+            .then(data => { if (!cancelled) setState({ data, isLoading: false, error: null }); })
+            .catch(e => {
+                if (!cancelled) setState({ data: null, isLoading: false, error: e instanceof Error ? e.message : "Une erreur inconnue est survenue." });
+            });
+        return () => { cancelled = true; };
+    }, [enabled]);
+
+    return state;
+};
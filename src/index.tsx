@@ -3,6 +3,7 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from '@/App';
 import { AuthProvider } from '@/contexts/AuthContext';
+import { BadgeToastProvider } from '@/contexts/BadgeToastContext';
 import '@/index.css';
 
 const rootElement = document.getElementById('root');
@@ -14,7 +15,9 @@ const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
     <AuthProvider>
-      <App />
+      <BadgeToastProvider>
+        <App />
+      </BadgeToastProvider>
     </AuthProvider>
   </React.StrictMode>
 );
@@ -1,118 +1,753 @@
 
 import { getSupabase } from '@/services/authService';
-import { Level } from '@/types';
+import { Level, CurriculumRevision, TrashItem, BundleScope, CurriculumBundle, BundleImportOptions, BundleImportPreview, ValidationIssue, Profile, Role, Classroom, ClassroomAction, ClassroomStudentProgress, StudentAssignment, TeacherAssignment, AssignmentReport, AssignmentAction, Assignment, QuizAnswer, QuizSubmissionResult, MockExam, MockExamAction, ReviewQueue, ReviewAction, ReviewActionResults, MasteryReport, Recommendation, SearchResult, Badge, BadgeStatus, ActivitySummary, DailyGoal, Leaderboard, LeaderboardQuery, LeaderboardProfile, LeaderboardProfileUpdate, ExerciseCompletionResult } from '@/types';
+import { calculateLevel } from '@/utils/xp';
 
 // This file implements a persistent data layer using Supabase.
-// IMPORTANT: You must create a table named 'curriculum' in your Supabase project.
-// Go to your project's SQL Editor and run the following commands for a robust setup.
-
-/*
--- 1. Create the table for the curriculum data.
--- We use a single row identified by ID=1 to store the entire curriculum JSONB object.
-CREATE TABLE public.curriculum (
-  id BIGINT PRIMARY KEY,
-  data JSONB,
-  updated_at TIMESTAMPTZ DEFAULT now() NOT NULL
-);
-
--- 2. Create a function that will be triggered on updates to automatically set updated_at.
-CREATE OR REPLACE FUNCTION public.handle_curriculum_update()
-RETURNS TRIGGER AS $$
-BEGIN
-  NEW.updated_at = now();
-  RETURN NEW;
-END;
-$$ LANGUAGE plpgsql SECURITY DEFINER;
-
--- 3. Create a trigger that calls the function whenever the 'data' column is updated.
-CREATE TRIGGER on_curriculum_update
-BEFORE UPDATE ON public.curriculum
-FOR EACH ROW
-EXECUTE FUNCTION public.handle_curriculum_update();
-
--- 4. Enable Row Level Security (RLS) on the table. This is crucial for security.
-ALTER TABLE public.curriculum ENABLE ROW LEVEL SECURITY;
-
--- 5. Create a security policy for public read access.
--- This allows anyone to read the curriculum data.
-CREATE POLICY "Allow public read access" ON public.curriculum
-FOR SELECT USING (true);
-
--- 6. Create a security policy to allow authenticated users to UPDATE the data.
--- This prevents anonymous users from modifying the curriculum.
-CREATE POLICY "Allow authenticated update" ON public.curriculum
-FOR UPDATE USING (auth.role() = 'authenticated')
-WITH CHECK (auth.role() = 'authenticated');
-
--- 7. Create a security policy to allow authenticated users to INSERT the initial data.
--- This is needed for the app's "self-healing" feature, which seeds the database
--- if the initial row (id=1) is missing. Anonymous users cannot perform this action.
-CREATE POLICY "Allow authenticated insert" ON public.curriculum
-FOR INSERT TO authenticated WITH CHECK (auth.role() = 'authenticated');
-
--- 8. Insert the initial placeholder row. (RECOMMENDED)
--- Running this step manually is the best practice. It ensures the row exists
--- and avoids the self-healing logic being triggered by users.
-INSERT INTO public.curriculum (id, data) VALUES (1, '[]'::jsonb);
-
-*/
-
-const TABLE_NAME = 'curriculum';
-const ROW_ID = 1; // We'll use a single row to store the entire curriculum JSON
-
-/**
- * Fetches the entire curriculum from the database.
- * If the database data is invalid or empty, it seeds it with the local data.json.
- */
-export const getCurriculum = async (): Promise<Level[]> => {
-    const supabase = getSupabase();
-
-    const { data, error } = await (supabase
-        .from(TABLE_NAME) as any)
-        .select('data')
-        .eq('id', ROW_ID)
-        .single();
-
-    if (error && error.code !== 'PGRST116') { // PGRST116 = "single row not found"
-        console.error('Erreur lors de la récupération du programme depuis Supabase:', error);
-        throw new Error('Impossible de charger les données depuis la base de données.');
-    }
-
-    // --- SELF-HEALING LOGIC ---
-    // An empty array is considered valid (it means no levels created yet).
-    // We only re-seed if the row doesn't exist, or its data is not a valid array.
-    if (data?.data && Array.isArray(data.data)) {
-        return data.data as Level[];
-    } else {
-        console.warn("Programme invalide ou vide dans la BDD. Initialisation depuis data.json...");
-        try {
-            const response = await fetch('/data.json');
-            if (!response.ok) throw new Error("Impossible de charger data.json pour l'initialisation.");
-            
-            const localData = await response.json();
-            const levelsToSeed = localData.levels || [];
-
-            if (!Array.isArray(levelsToSeed)) {
-                 throw new Error("Le fichier data.json local est mal formé (le champ 'levels' n'est pas un tableau).");
-            }
-            
-            const payload = { id: ROW_ID, data: levelsToSeed };
-            // Use upsert to be safe. It will INSERT if the row is missing (requires authenticated user)
-            // or UPDATE if the row exists but data is invalid. `upsert` expects an array.
-            const { error: upsertError } = await (supabase
-                .from(TABLE_NAME) as any)
-                .upsert([payload]);
-
-            if (upsertError) {
-                console.error("Erreur lors de l'initialisation de la base de données:", upsertError);
-                throw new Error("Impossible de sauvegarder les données initiales. Si vous n'êtes pas connecté en tant qu'administrateur, cela peut être la cause.");
-            }
-            
-            console.log("Initialisation de la base de données réussie.");
-            return levelsToSeed as Level[];
-        } catch (seedError) {
-            console.error("Le processus d'initialisation a échoué:", seedError);
-            throw seedError;
+// IMPORTANT: The curriculum is stored in the relational tables `levels`, `chapters`, `series`,
+// `exercises`, `quizzes` and `quiz_questions`. Their SQL definitions (and the migration from the
+// legacy single-row `curriculum` JSONB table) are documented in `api/_lib/data-access.ts`.
+// Writes go through the `/api/update-curriculum` serverless function; reads through `/api/curriculum`,
+// which leaves out quiz answer keys and full corrections unless the caller edits the curriculum.
+
+/**
+ * Fetches the entire curriculum as a `Level[]` tree.
+ * @param full True for the complete tree (answer keys, full corrections): editors only.
+ */
+export const getCurriculum = async (full = false): Promise<Level[]> => {
+    const headers: Record<string, string> = {};
+    if (full) {
+        const { data: { session } } = await getSupabase().auth.getSession();
+        if (!session) {
+            throw new Error("Vous devez être connecté pour effectuer cette action.");
+        }
+        headers['Authorization'] = `Bearer ${session.access_token}`;
+    }
+
+    const response = await fetch(full ? '/api/curriculum?full=1' : '/api/curriculum', { headers });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        console.error('Erreur lors de la récupération du programme:', errorData);
+        throw new Error(errorData.error || 'Impossible de charger les données depuis la base de données.');
+    }
+    const { curriculum } = await response.json();
+    return curriculum;
+};
+
+/**
+ * Fetches the full correction of an exercise (left out of the public curriculum).
+ * @returns The correction, or null if the exercise has none.
+ */
+export const getExerciseCorrection = async (exerciseId: string): Promise<string | null> => {
+    const supabase = getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+        throw new Error("Vous devez être connecté pour effectuer cette action.");
+    }
+
+    const response = await fetch(`/api/exercise-correction?exerciseId=${encodeURIComponent(exerciseId)}`, {
+        headers: { 'Authorization': `Bearer ${session.access_token}` },
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Impossible de charger la correction.");
+    }
+    const { fullCorrection } = await response.json();
+    return fullCorrection;
+};
+
+/**
+ * Submits the answers of a quiz attempt. The server grades them, records the attempt and awards the XP.
+ * @param answers The answer to each question, in quiz order (null if skipped).
+ */
+export const submitQuiz = async (quizId: string, answers: QuizAnswer[]): Promise<QuizSubmissionResult> => {
+    const supabase = getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+        throw new Error("Vous devez être connecté pour effectuer cette action.");
+    }
+
+    const response = await fetch('/api/submit-quiz', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ quizId, answers }),
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Impossible d'enregistrer votre tentative.");
+    }
+    return response.json();
+};
+
+/**
+ * Marks an exercise as completed. The server records it and grants the XP (see utils/xp).
+ */
+export const completeExercise = async (exerciseId: string): Promise<ExerciseCompletionResult> => {
+    const supabase = getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+        throw new Error("Vous devez être connecté pour effectuer cette action.");
+    }
+
+    const response = await fetch('/api/complete-exercise', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ exerciseId }),
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Une erreur est survenue lors de la validation. Veuillez réessayer.");
+    }
+    return response.json();
+};
+
+/**
+ * Fetches curriculum revisions (admin only), most recent first.
+ * @param filters Optional filters by item, level or chapter, and `beforeId` for pagination.
+ */
+export const getCurriculumRevisions = async (filters: { itemType?: string; itemId?: string; levelId?: string; chapterId?: string; beforeId?: number } = {}): Promise<CurriculumRevision[]> => {
+    const supabase = getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+        throw new Error("Vous devez être connecté pour effectuer cette action.");
+    }
+
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== '') params.set(key, String(value));
+    });
+
+    const response = await fetch(`/api/curriculum-history?${params.toString()}`, {
+        headers: { 'Authorization': `Bearer ${session.access_token}` },
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Impossible de charger l'historique.");
+    }
+    const { revisions } = await response.json();
+    return revisions;
+};
+
+/**
+ * Fetches the content of the curriculum trash (admin only), most recent first.
+ * Expired entries are purged by the server before listing.
+ */
+export const getTrashItems = async (): Promise<{ items: TrashItem[]; retentionDays: number }> => {
+    const supabase = getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+        throw new Error("Vous devez être connecté pour effectuer cette action.");
+    }
+
+    const response = await fetch('/api/curriculum-trash', {
+        headers: { 'Authorization': `Bearer ${session.access_token}` },
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Impossible de charger la corbeille.");
+    }
+    return response.json();
+};
+
+/**
+ * Thrown when the server rejects an imported bundle; `issues` lists each offending path.
+ */
+export class BundleValidationError extends Error {
+    constructor(message: string, public issues: ValidationIssue[]) {
+        super(message);
+    }
+}
+
+export const exportCurriculumBundle = async (scope: BundleScope, includeImages: boolean): Promise<CurriculumBundle> => {
+    const supabase = getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+        throw new Error("Vous devez être connecté pour effectuer cette action.");
+    }
+
+    const params = new URLSearchParams({ scope: scope.type });
+    if (scope.type !== 'curriculum') params.set('levelId', scope.levelId);
+    if (scope.type === 'chapter') params.set('chapterId', scope.chapterId);
+    if (includeImages) params.set('includeImages', '1');
+
+    const response = await fetch(`/api/curriculum-bundle?${params.toString()}`, {
+        headers: { 'Authorization': `Bearer ${session.access_token}` },
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Impossible d'exporter le programme.");
+    }
+    return response.json();
+};
+
+export const importCurriculumBundle = async <M extends 'preview' | 'apply'>(
+    bundle: CurriculumBundle,
+    options: BundleImportOptions,
+    mode: M
+): Promise<M extends 'preview' ? BundleImportPreview : { message: string }> => {
+    const supabase = getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+        throw new Error("Vous devez être connecté pour effectuer cette action.");
+    }
+
+    const response = await fetch('/api/curriculum-bundle', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ bundle, options, mode }),
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        if (Array.isArray(errorData.issues)) {
+            throw new BundleValidationError(errorData.error || "Le paquet est invalide.", errorData.issues);
         }
+        throw new Error(errorData.error || "L'import du programme a échoué.");
+    }
+    return response.json();
+};
+
+/**
+ * Lists every user with their role (requires 'roles.manage').
+ */
+export const getUserRoles = async (): Promise<Profile[]> => {
+    const supabase = getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+        throw new Error("Vous devez être connecté pour effectuer cette action.");
+    }
+
+    const response = await fetch('/api/user-roles', {
+        headers: { 'Authorization': `Bearer ${session.access_token}` },
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Impossible de charger les utilisateurs.");
+    }
+    const { users } = await response.json();
+    return users.map((user: Omit<Profile, 'level'>) => ({ ...user, level: calculateLevel(user.xp) }));
+};
+
+/**
+ * Grants a role to a user, replacing their current one (requires 'roles.manage').
+ */
+export const setUserRole = async (userId: string, role: Role): Promise<void> => {
+    const supabase = getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+        throw new Error("Vous devez être connecté pour effectuer cette action.");
+    }
+
+    const response = await fetch('/api/user-roles', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ userId, role }),
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "La mise à jour du rôle a échoué.");
+    }
+};
+
+/**
+ * Lists the classes the user teaches (with their join code) and the ones they joined.
+ */
+export const getClassrooms = async (): Promise<{ teaching: Classroom[]; enrolled: Classroom[] }> => {
+    const supabase = getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+        throw new Error("Vous devez être connecté pour effectuer cette action.");
+    }
+
+    const response = await fetch('/api/classrooms', {
+        headers: { 'Authorization': `Bearer ${session.access_token}` },
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Impossible de charger les classes.");
+    }
+    return response.json();
+};
+
+/**
+ * Fetches the progress of the students enrolled in a class (teacher of the class only).
+ */
+export const getClassroomProgress = async (classroomId: string): Promise<ClassroomStudentProgress[]> => {
+    const supabase = getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+        throw new Error("Vous devez être connecté pour effectuer cette action.");
+    }
+
+    const response = await fetch(`/api/classrooms?classroomId=${encodeURIComponent(classroomId)}`, {
+        headers: { 'Authorization': `Bearer ${session.access_token}` },
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Impossible de charger la progression de la classe.");
+    }
+    const { students } = await response.json();
+    return students;
+};
+
+/**
+ * Sends a classroom action (create, join, leave, regenerate the code...).
+ * @returns The server response, e.g. `{ message, classroom }` or `{ message, joinCode }`.
+ */
+export const sendClassroomAction = async (body: ClassroomAction): Promise<{ message: string; classroom?: Classroom; joinCode?: string }> => {
+    const supabase = getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+        throw new Error("Vous devez être connecté pour effectuer cette action.");
+    }
+
+    const response = await fetch('/api/classrooms', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "L'opération sur la classe a échoué.");
+    }
+    return response.json();
+};
+
+/**
+ * Fetches the homework of every class the current user has joined, with their status on each item.
+ */
+export const getMyAssignments = async (): Promise<StudentAssignment[]> => {
+    const supabase = getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+        throw new Error("Vous devez être connecté pour effectuer cette action.");
+    }
+
+    const response = await fetch('/api/assignments', {
+        headers: { 'Authorization': `Bearer ${session.access_token}` },
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Impossible de charger les devoirs.");
+    }
+    const { assignments } = await response.json();
+    return assignments;
+};
+
+/**
+ * Fetches the homework of a class with completion counts (teacher of the class only).
+ */
+export const getClassroomAssignments = async (classroomId: string): Promise<TeacherAssignment[]> => {
+    const supabase = getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+        throw new Error("Vous devez être connecté pour effectuer cette action.");
+    }
+
+    const response = await fetch(`/api/assignments?classroomId=${encodeURIComponent(classroomId)}`, {
+        headers: { 'Authorization': `Bearer ${session.access_token}` },
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Impossible de charger les devoirs de la classe.");
+    }
+    const { assignments } = await response.json();
+    return assignments;
+};
+
+/**
+ * Fetches the per-student status of a homework assignment (teacher of the class only).
+ */
+export const getAssignmentReport = async (assignmentId: string): Promise<AssignmentReport> => {
+    const supabase = getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+        throw new Error("Vous devez être connecté pour effectuer cette action.");
+    }
+
+    const response = await fetch(`/api/assignments?assignmentId=${encodeURIComponent(assignmentId)}`, {
+        headers: { 'Authorization': `Bearer ${session.access_token}` },
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Impossible de charger le suivi du devoir.");
+    }
+    return response.json();
+};
+
+/**
+ * Creates, updates or deletes a homework assignment.
+ * @returns The server response, e.g. `{ message, assignment }`.
+ */
+export const sendAssignmentAction = async (body: AssignmentAction): Promise<{ message: string; assignment?: Assignment }> => {
+    const supabase = getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+        throw new Error("Vous devez être connecté pour effectuer cette action.");
+    }
+
+    const response = await fetch('/api/assignments', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "L'opération sur le devoir a échoué.");
+    }
+    return response.json();
+};
+
+/**
+ * Fetches the current user's mock exams: the one being sat, if any, and the latest ones.
+ */
+export const getMockExams = async (): Promise<{ running: MockExam | null; exams: MockExam[] }> => {
+    const supabase = getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+        throw new Error("Vous devez être connecté pour effectuer cette action.");
+    }
+
+    const response = await fetch('/api/mock-exams', {
+        headers: { 'Authorization': `Bearer ${session.access_token}` },
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Impossible de charger les examens blancs.");
+    }
+    return response.json();
+};
+
+/**
+ * Fetches one of the current user's mock exams, with the marks given so far.
+ */
+export const getMockExam = async (examId: string): Promise<MockExam> => {
+    const supabase = getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+        throw new Error("Vous devez être connecté pour effectuer cette action.");
+    }
+
+    const response = await fetch(`/api/mock-exams?examId=${encodeURIComponent(examId)}`, {
+        headers: { 'Authorization': `Bearer ${session.access_token}` },
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Impossible de charger l'examen blanc.");
+    }
+    const { exam } = await response.json();
+    return exam;
+};
+
+/**
+ * Starts a mock exam or hands in its copy.
+ * @returns The exam as stored by the server.
+ */
+export const sendMockExamAction = async (body: MockExamAction): Promise<MockExam> => {
+    const supabase = getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+        throw new Error("Vous devez être connecté pour effectuer cette action.");
+    }
+
+    const response = await fetch('/api/mock-exams', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "L'opération sur l'examen blanc a échoué.");
+    }
+    const { exam } = await response.json();
+    return exam;
+};
+
+/**
+ * Fetches today's review session and the number of items due.
+ */
+export const getReviewQueue = async (): Promise<ReviewQueue> => {
+    const supabase = getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+        throw new Error("Vous devez être connecté pour effectuer cette action.");
+    }
+
+    const response = await fetch('/api/reviews', {
+        headers: { 'Authorization': `Bearer ${session.access_token}` },
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Impossible de charger les révisions.");
+    }
+    return response.json();
+};
+
+/**
+ * Records a review: the answer to a due question, or the self-assessment of a due exercise.
+ * @returns The verdict (questions) and the next due date.
+ */
+export const sendReviewAction = async <A extends ReviewAction>(body: A): Promise<ReviewActionResults[A['action']]> => {
+    const supabase = getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+        throw new Error("Vous devez être connecté pour effectuer cette action.");
+    }
+
+    const response = await fetch('/api/reviews', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "La révision n'a pas pu être enregistrée.");
+    }
+    return response.json();
+};
+
+/**
+ * Fetches the student's mastery of each skill and chapter.
+ */
+export const getMastery = async (): Promise<MasteryReport> => {
+    const supabase = getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+        throw new Error("Vous devez être connecté pour effectuer cette action.");
+    }
+
+    const response = await fetch('/api/mastery', {
+        headers: { 'Authorization': `Bearer ${session.access_token}` },
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Impossible de charger la maîtrise des compétences.");
+    }
+    return response.json();
+};
+
+/**
+ * Fetches what the student should do next, most relevant first.
+ * @param afterExerciseId The exercise just completed, to continue from it.
+ */
+export const getRecommendations = async (afterExerciseId?: string): Promise<Recommendation[]> => {
+    const supabase = getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+        throw new Error("Vous devez être connecté pour effectuer cette action.");
+    }
+
+    const query = afterExerciseId ? `?afterExerciseId=${encodeURIComponent(afterExerciseId)}` : '';
+    const response = await fetch(`/api/recommendations${query}`, {
+        headers: { 'Authorization': `Bearer ${session.access_token}` },
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Impossible de charger les recommandations.");
+    }
+    return response.json();
+};
+
+/**
+ * Searches chapters, exercises, quiz questions and lesson videos.
+ * @param semantic Also search by meaning (counts against the daily search limit).
+ */
+export const searchCurriculum = async (query: string, semantic = false): Promise<SearchResult[]> => {
+    const supabase = getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+        throw new Error("Vous devez être connecté pour effectuer cette action.");
+    }
+
+    const response = await fetch(`/api/search?q=${encodeURIComponent(query)}${semantic ? '&semantic=1' : ''}`, {
+        headers: { 'Authorization': `Bearer ${session.access_token}` },
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "La recherche a échoué.");
+    }
+    return response.json();
+};
+
+/**
+ * Fetches every badge, unlocked or not, in gallery order.
+ */
+export const getBadgeGallery = async (): Promise<BadgeStatus[]> => {
+    const supabase = getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+        throw new Error("Vous devez être connecté pour effectuer cette action.");
+    }
+
+    const response = await fetch('/api/achievements', {
+        headers: { 'Authorization': `Bearer ${session.access_token}` },
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Impossible de charger les badges.");
+    }
+    return response.json();
+};
+
+/**
+ * Asks the server to evaluate the badge rules, e.g. when the dashboard opens (streaks and mastery change over time).
+ * @returns The badges just unlocked.
+ */
+export const evaluateBadges = async (): Promise<Badge[]> => {
+    const supabase = getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+        throw new Error("Vous devez être connecté pour effectuer cette action.");
+    }
+
+    const response = await fetch('/api/achievements', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${session.access_token}` },
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Impossible de vérifier les badges.");
+    }
+    const { unlockedBadges } = await response.json();
+    return unlockedBadges;
+};
+
+/**
+ * Fetches the daily goal, the streak and the activity calendar of the signed-in student.
+ */
+export const getActivitySummary = async (): Promise<ActivitySummary> => {
+    const supabase = getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+        throw new Error("Vous devez être connecté pour effectuer cette action.");
+    }
+
+    const response = await fetch('/api/streaks', {
+        headers: { 'Authorization': `Bearer ${session.access_token}` },
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Impossible de charger votre activité.");
+    }
+    return response.json();
+};
+
+/**
+ * Changes the daily goal. The streak is recomputed with it.
+ */
+export const setDailyGoal = async (goal: DailyGoal): Promise<ActivitySummary> => {
+    const supabase = getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+        throw new Error("Vous devez être connecté pour effectuer cette action.");
+    }
+
+    const response = await fetch('/api/streaks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${session.access_token}` },
+        body: JSON.stringify(goal),
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Impossible d'enregistrer votre objectif.");
+    }
+    return response.json();
+};
+
+/**
+ * Fetches a page of a leaderboard, with the signed-in student's own row and leaderboard profile.
+ */
+export const getLeaderboard = async (query: LeaderboardQuery): Promise<Leaderboard> => {
+    const supabase = getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+        throw new Error("Vous devez être connecté pour effectuer cette action.");
+    }
+
+    const params = new URLSearchParams({ period: query.period, scope: query.scope, page: String(query.page ?? 1) });
+    if (query.scopeId) params.set('scopeId', query.scopeId);
+    const response = await fetch(`/api/leaderboards?${params}`, {
+        headers: { 'Authorization': `Bearer ${session.access_token}` },
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Impossible de charger le classement.");
+    }
+    return response.json();
+};
+
+/**
+ * Joins the leaderboards under a pseudonym (or renames), or leaves them with `null`.
+ */
+export const updateLeaderboardProfile = async (update: LeaderboardProfileUpdate): Promise<LeaderboardProfile> => {
+    const supabase = getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+        throw new Error("Vous devez être connecté pour effectuer cette action.");
+    }
+
+    const response = await fetch('/api/leaderboards', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${session.access_token}` },
+        body: JSON.stringify(update),
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Impossible de mettre à jour votre participation aux classements.");
     }
+    return response.json();
 };
@@ -3,15 +3,14 @@
 
 import { createClient, SupabaseClient, type Session, type User as SupabaseUser } from '@supabase/supabase-js';
 import { User, UserQuizAttempt } from '@/types';
-import { calculateLevel } from '@/services/userService';
+import { calculateLevel } from '@/utils/xp';
+import { ROLE_PERMISSIONS, toRole } from '@/utils/permissions';
 
 let supabase: SupabaseClient | null = null;
-let adminEmail: string | null = null;
 
 export interface AuthConfig {
     supabaseUrl: string;
     supabaseAnonKey: string;
-    adminEmail?: string;
 }
 
 /**
@@ -27,7 +26,6 @@ export const initializeSupabase = (config: AuthConfig) => {
         return;
     }
     supabase = createClient(config.supabaseUrl, config.supabaseAnonKey);
-    adminEmail = config.adminEmail || null;
     console.log("Client Supabase initialisé.");
 };
 
@@ -84,6 +82,80 @@ export const getSupabase = (): SupabaseClient => {
       FOR EACH ROW EXECUTE PROCEDURE public.handle_profile_update();
 */
 
+/*
+    -- SQL pour les rôles (RBAC). Remplace l'ancienne comparaison avec ADMIN_EMAIL. --
+    -- La correspondance rôle -> permissions doit rester identique à `src/utils/permissions.ts`.
+
+    -- 1. Add the role column
+    ALTER TABLE public.profiles
+        ADD COLUMN role text NOT NULL DEFAULT 'student'
+        CHECK (role IN ('student', 'teacher', 'content_editor', 'admin'));
+
+    -- 2. Permission helpers, usable in RLS policies (security definer: they read profiles without recursion)
+    CREATE OR REPLACE FUNCTION public.current_user_role()
+    RETURNS text
+    LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+    AS $$
+      SELECT COALESCE((SELECT role FROM public.profiles WHERE id = auth.uid()), 'student');
+    $$;
+
+    CREATE OR REPLACE FUNCTION public.has_permission(permission text)
+    RETURNS boolean
+    LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+    AS $$
+      SELECT CASE public.current_user_role()
+        WHEN 'admin' THEN permission IN ('curriculum.edit', 'students.view', 'classrooms.manage', 'roles.manage')
+        WHEN 'content_editor' THEN permission IN ('curriculum.edit')
+        WHEN 'teacher' THEN permission IN ('classrooms.manage')
+        ELSE false
+      END;
+    $$;
+
+    -- 3. Profiles are no longer public: each user sees their own, staff with 'students.view' see all
+    DROP POLICY "Public profiles are viewable by everyone." ON public.profiles;
+    CREATE POLICY "Users can view their own profile."
+        ON public.profiles FOR SELECT
+        USING (auth.uid() = id);
+    CREATE POLICY "Staff can view all profiles."
+        ON public.profiles FOR SELECT
+        USING (public.has_permission('students.view'));
+
+    -- 4. Progress is readable by staff with 'students.view'
+    CREATE POLICY "Staff can view all exercise progress."
+        ON public.user_exercise_progress FOR SELECT
+        USING (public.has_permission('students.view'));
+    CREATE POLICY "Staff can view all quiz attempts."
+        ON public.user_quiz_attempts FOR SELECT
+        USING (public.has_permission('students.view'));
+
+    -- 5. A user cannot pick their own role: only 'roles.manage' (or the service key) may change it
+    CREATE OR REPLACE FUNCTION public.protect_profile_role()
+    RETURNS TRIGGER AS $$
+    BEGIN
+      IF NEW.role IS DISTINCT FROM OLD.role
+         AND auth.role() <> 'service_role'
+         AND NOT public.has_permission('roles.manage') THEN
+        RAISE EXCEPTION 'Modification du rôle non autorisée.' USING ERRCODE = '42501';
+      END IF;
+      RETURN NEW;
+    END;
+    $$ language plpgsql security definer;
+
+    CREATE TRIGGER on_profile_role_update
+      BEFORE UPDATE OF role ON public.profiles
+      FOR EACH ROW EXECUTE PROCEDURE public.protect_profile_role();
+
+    -- New profiles always start as students, whatever the client sends
+    DROP POLICY "Users can insert their own profile." ON public.profiles;
+    CREATE POLICY "Users can insert their own profile."
+        ON public.profiles FOR INSERT
+        WITH CHECK (auth.uid() = id AND role = 'student');
+    -- (Replaced since: new profiles also start with 0 XP, and only the service key may change it, see api/_lib/xp.ts.)
+
+    -- 6. Promote the first administrator (replace the email)
+    UPDATE public.profiles SET role = 'admin' WHERE email = 'admin@example.com';
+*/
+
 
 /**
  * Retrieves user profile from the database, creating it if it doesn't exist.
@@ -140,7 +212,7 @@ export const getUserFromSession = async (session: Session | null): Promise<User
             { data: quizAttemptsData, error: quizAttemptsError }
         ] = await Promise.all([
             (supabase.from('user_exercise_progress') as any).select('exercise_id').eq('user_id', supabaseUser.id),
-            (supabase.from('user_quiz_attempts') as any).select('*').eq('user_id', supabaseUser.id)
+            (supabase.from('user_quiz_attempts') as any).select('*').eq('user_id', supabaseUser.id).order('taken_at', { ascending: true })
         ]);
         
         if (exercisesError) {
@@ -153,13 +225,13 @@ export const getUserFromSession = async (session: Session | null): Promise<User
             throw quizAttemptsError;
         }
 
-        const is_admin = !!adminEmail && 
-                         supabaseUser.email?.toLowerCase().trim() === adminEmail.toLowerCase().trim();
+        const role = toRole(profile.role);
         
         return {
             id: supabaseUser.id,
             email: supabaseUser.email || '',
-            is_admin,
+            role,
+            permissions: ROLE_PERMISSIONS[role],
             xp: profile.xp || 0,
             level: calculateLevel(profile.xp || 0),
             completed_exercises: completedExercisesData.map((ex: any) => ex.exercise_id) || [],
@@ -1,7 +1,8 @@
 
 
-import { AIResponse } from "@/types";
+import { AIResponse, CheckAnswerResponse } from "@/types";
 import { getSupabase } from '@/services/authService';
+import imageCompression from 'browser-image-compression';
 
 /**
  * Calls the production-ready serverless function to get an explanation from the AI.
@@ -9,9 +10,10 @@ import { getSupabase } from '@/services/authService';
  * @param prompt The full prompt to send to the serverless function.
  * @param chapterId The ID of the chapter to search for relevant video chunks.
  * @param requestType The type of response desired from the AI ('socratic', 'direct').
+ * @param exerciseId For a socratic path: the exercise it is stored for, so the server can follow the session.
  * @returns An object containing the explanation, socratic path, and/or an optional video chunk.
  */
-const getAIExplanation = async (prompt: string, chapterId: string, requestType: 'socratic' | 'direct'): Promise<AIResponse> => {
+const getAIExplanation = async (prompt: string, chapterId: string, requestType: 'socratic' | 'direct', exerciseId?: string): Promise<AIResponse> => {
     try {
         const supabase = getSupabase();
         const { data: { session } } = await supabase.auth.getSession();
@@ -25,7 +27,7 @@ const getAIExplanation = async (prompt: string, chapterId: string, requestType:
                 'Content-Type': 'application/json',
                 'Authorization': `Bearer ${session.access_token}`,
             },
-            body: JSON.stringify({ prompt, chapterId, requestType }),
+            body: JSON.stringify({ prompt, chapterId, requestType, exerciseId }),
         });
         
         const responseBody = await response.text(); // Read the body ONCE.
@@ -56,4 +58,73 @@ const getAIExplanation = async (prompt: string, chapterId: string, requestType:
     }
 };
 
+/**
+ * POSTs to an AI serverless function and returns its JSON response.
+ * Errors carry the server message (e.g. the daily limit) and the HTTP status.
+ */
+const postWithAuth = async <T>(path: string, body: unknown): Promise<T> => {
+    const supabase = getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error("Vous devez être connecté pour utiliser cette fonctionnalité.");
+
+    const response = await fetch(path, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify(body),
+    });
+
+    const responseBody = await response.text();
+
+    if (!response.ok) {
+        let errorMessage;
+        try {
+            const errorData = JSON.parse(responseBody);
+            errorMessage = errorData.error || `Une erreur est survenue (${response.status})`;
+        } catch (e) {
+            errorMessage = responseBody || `Une erreur est survenue (${response.status})`;
+        }
+        const error = new Error(errorMessage);
+        (error as any).status = response.status;
+        throw error;
+    }
+    return JSON.parse(responseBody);
+};
+
+/**
+ * Has the AI grade a written answer against the exercise's reference correction.
+ * @param mockExamId Grades the answer handed in with this mock exam instead (`studentAnswer` is ignored).
+ */
+export const checkAnswer = (exerciseId: string, studentAnswer: string, mockExamId?: string): Promise<CheckAnswerResponse> =>
+    postWithAuth('/api/check-answer', { studentAnswer, exerciseId, mockExamId });
+
+const fileToBase64 = (file: File): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.readAsDataURL(file);
+        reader.onload = () => {
+            const base64String = (reader.result as string).split(',')[1];
+            resolve(base64String);
+        };
+        reader.onerror = (error) => reject(error);
+    });
+
+/**
+ * Transcribes photos of a handwritten answer (one or more pages) into text.
+ */
+export const extractTextFromImages = async (files: File[]): Promise<string> => {
+    const imagePayloads = await Promise.all(
+        files.map(async (file) => {
+            const options = { maxSizeMB: 1, maxWidthOrHeight: 1920, useWebWorker: true };
+            const compressedFile = await imageCompression(file, options);
+            const base64Image = await fileToBase64(compressedFile);
+            return { image: base64Image, mimeType: compressedFile.type };
+        })
+    );
+    const result = await postWithAuth<{ text: string }>('/api/ocr-multipage', { images: imagePayloads });
+    return result.text;
+};
+
 export default getAIExplanation;
\ No newline at end of file
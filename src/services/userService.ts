@@ -1,6 +1,8 @@
 
 import { getSupabase } from '@/services/authService';
 import { Profile, UserQuizAttempt } from '@/types';
+import { toRole } from '@/utils/permissions';
+import { calculateLevel } from '@/utils/xp';
 
 // --- SQL to execute in Supabase SQL Editor ---
 /*
@@ -21,6 +23,7 @@ CREATE POLICY "Users can view their own progress."
 CREATE POLICY "Users can insert their own progress."
     ON public.user_exercise_progress FOR INSERT
     WITH CHECK (auth.uid() = user_id);
+-- (Dropped since: completions are recorded by /api/complete-exercise, see api/_lib/xp.ts.)
 
 -- 4. Create user_quiz_attempts table
 CREATE TABLE public.user_quiz_attempts (
@@ -41,59 +44,16 @@ CREATE POLICY "Users can view their own quiz attempts."
 CREATE POLICY "Users can insert their own quiz attempts."
     ON public.user_quiz_attempts FOR INSERT
     WITH CHECK (auth.uid() = user_id);
+-- (Dropped since: attempts are graded and recorded by /api/submit-quiz, see api/_lib/quiz-submissions.ts.)
+
+-- 7. Retakes: one row per attempt (the old unique constraint made every retake overwrite the previous one),
+--    with the option chosen for each question and the XP it earned.
+ALTER TABLE public.user_quiz_attempts DROP CONSTRAINT IF EXISTS user_quiz_attempts_user_id_quiz_id_key;
+ALTER TABLE public.user_quiz_attempts ADD COLUMN IF NOT EXISTS answers JSONB;
+ALTER TABLE public.user_quiz_attempts ADD COLUMN IF NOT EXISTS xp_awarded INTEGER NOT NULL DEFAULT 0;
+CREATE INDEX IF NOT EXISTS user_quiz_attempts_user_quiz_idx ON public.user_quiz_attempts(user_id, quiz_id, taken_at);
 */
 
-const XP_PER_LEVEL = 150;
-
-/**
- * Calculates the user's level based on their total XP.
- * @param xp The total experience points.
- * @returns The calculated level.
- */
-export const calculateLevel = (xp: number): number => {
-    return Math.floor(xp / XP_PER_LEVEL) + 1;
-};
-
-/**
- * Calculates the total XP required to reach a specific level.
- * @param level The target level.
- * @returns The total XP required.
- */
-export const getXPForLevel = (level: number): number => {
-    if (level <= 1) return 0;
-    return (level - 1) * XP_PER_LEVEL;
-};
-
-/**
- * Records that a user has completed an exercise and updates their XP.
- * This function uses an RPC call to a Supabase function for atomicity.
- * @param userId The ID of the user.
- * @param exerciseId The ID of the completed exercise.
- * @param xpGained The amount of XP to award.
- */
-export const completeExercise = async (userId: string, exerciseId: string, xpGained: number): Promise<void> => {
-    const supabase = getSupabase();
-    
-    // First, record the completion
-    const { error: progressError } = await (supabase
-        .from('user_exercise_progress') as any)
-        .insert({ user_id: userId, exercise_id: exerciseId });
-
-    if (progressError && progressError.code !== '23505') { // 23505 is unique_violation, we can ignore it
-        console.error("Error saving exercise progress:", progressError);
-        throw progressError;
-    }
-
-    // Then, update XP. We use rpc call to increment value safely.
-    const { error: xpError } = await (supabase.rpc as any)('increment_xp', { user_id_param: userId, xp_to_add: xpGained });
-    
-    if (xpError) {
-        console.error("Error updating user XP:", xpError);
-        // If this fails, we should ideally roll back the progress insertion.
-        // For now, we'll just log the error.
-        throw xpError;
-    }
-};
 /*
 -- SQL for the increment_xp function in Supabase
 CREATE OR REPLACE FUNCTION public.increment_xp(user_id_param uuid, xp_to_add integer)
@@ -106,52 +66,9 @@ BEGIN
   WHERE id = user_id_param;
 END;
 $$;
+-- (Dropped since: XP is granted by the server only, through public.grant_xp and the XP ledger, see api/_lib/xp.ts.)
 */
 
-
-/**
- * Records a user's quiz attempt and updates their XP.
- * @param userId The ID of the user.
- * @param quizId The ID of the quiz.
- * @param chapterId The ID of the chapter the quiz belongs to.
- * @param score The score achieved.
- * @param totalQuestions The total number of questions in the quiz.
- * @param xpGained The amount of XP to award.
- * @returns The newly created quiz attempt object.
- */
-export const logQuizAttempt = async (userId: string, quizId: string, chapterId: string, score: number, totalQuestions: number, xpGained: number): Promise<UserQuizAttempt> => {
-    const supabase = getSupabase();
-
-    // Use upsert to handle re-taking quizzes if that becomes a feature.
-    // The UNIQUE constraint on (user_id, quiz_id) will make it update the existing row.
-    const { data: attemptData, error: attemptError } = await (supabase
-        .from('user_quiz_attempts') as any)
-        .upsert({ 
-            user_id: userId, 
-            quiz_id: quizId, 
-            chapter_id: chapterId, 
-            score, 
-            total_questions: totalQuestions 
-        }, { onConflict: 'user_id,quiz_id' })
-        .select()
-        .single();
-
-
-    if (attemptError) {
-        console.error("Error logging quiz attempt:", attemptError);
-        throw attemptError;
-    }
-
-    const { error: xpError } = await (supabase.rpc as any)('increment_xp', { user_id_param: userId, xp_to_add: xpGained });
-
-    if (xpError) {
-        console.error("Error updating user XP after quiz:", xpError);
-        throw xpError;
-    }
-    
-    return attemptData;
-};
-
 /**
  * Fetches all quiz attempts for a user for a given list of quiz IDs.
  * @param userId The user's ID.
@@ -167,7 +84,8 @@ export const getQuizAttemptsForQuizzes = async (userId: string, quizIds: string[
         .from('user_quiz_attempts') as any)
         .select('*')
         .eq('user_id', userId)
-        .in('quiz_id', quizIds);
+        .in('quiz_id', quizIds)
+        .order('taken_at', { ascending: true });
     
     if (error) {
         console.error("Error fetching quiz attempts:", error);
@@ -178,16 +96,16 @@ export const getQuizAttemptsForQuizzes = async (userId: string, quizIds: string[
 };
 
 /**
- * Fetches all user profiles for the admin dashboard.
- * This should be protected by RLS to only be accessible by an admin role in a real-world scenario.
- * For this app, we assume the admin check is done in the frontend.
+ * Fetches all user profiles for the staff dashboard.
+ * RLS only returns every profile to users holding 'students.view' (see `public.has_permission`);
+ * anyone else gets their own profile only.
  * @returns A list of all user profiles.
  */
 export const getAllProfiles = async (): Promise<Profile[]> => {
     const supabase = getSupabase();
     const { data, error } = await (supabase
         .from('profiles') as any)
-        .select('id, email, xp');
+        .select('id, email, xp, role');
 
     if (error) {
         console.error("Error fetching all profiles:", error);
@@ -196,6 +114,7 @@ export const getAllProfiles = async (): Promise<Profile[]> => {
 
     return data.map((profile: any) => ({
         ...profile,
+        role: toRole(profile.role),
         level: calculateLevel(profile.xp)
     }));
 };
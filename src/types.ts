@@ -4,9 +4,17 @@ export interface Exercise {
     id: string;
     statement: string;
     correctionSnippet: string;
-    fullCorrection?: string;
+    fullCorrection?: string;  // Not sent by the public read path (see toPublicCurriculum)
+    hasFullCorrection?: boolean; // Public read path only: a full correction can be fetched with getExerciseCorrection
     imageUrl?: string;
     latexFormula?: string;
+    skills?: string[];   // Skills worked on, e.g. "Calcul de dérivées" (see utils/mastery)
+    difficulty?: number;       // 1 (very easy) to 5 (very hard)
+    estimatedMinutes?: number;
+    source?: string;           // e.g. "Bac 2019 session normale"
+    tags?: string[];
+    prerequisites?: string[];  // Notions to know beforehand, e.g. "Limites usuelles"
+    updatedAt?: string; // Set by the database, sent back as the base revision when saving.
 }
 
 export type NewExercise = Omit<Exercise, 'id'>;
@@ -15,21 +23,43 @@ export interface Series {
     id: string;
     title: string;
     exercises: Exercise[];
+    updatedAt?: string;
 }
 
+// 'single' (one option, the historical kind), 'multiple' (every right option must be ticked),
+// 'numeric' (a number within a tolerance), 'symbolic' (a LaTeX expression equivalent to the expected one),
+// 'ordering' (options put back in the right order) and 'trueFalse'.
+export type QuizQuestionType = 'single' | 'multiple' | 'numeric' | 'symbolic' | 'ordering' | 'trueFalse';
+
 export interface QuizQuestion {
     id:string;
     question: string;
-    options?: string[];
-    correctAnswerIndex?: number;
+    type?: QuizQuestionType; // Missing on questions written before the other types existed: 'single'
+    options?: string[];      // For 'ordering', stored in the order they are shown, not the right one
+    // Answer key. None of these fields is sent by the public read path: quizzes are graded by /api/submit-quiz.
+    correctAnswerIndex?: number;    // 'single' and 'trueFalse' (0 = Vrai, 1 = Faux)
+    correctAnswerIndices?: number[]; // 'multiple'
+    numericAnswer?: { value: number; tolerance: number };
+    expectedLatex?: string;         // 'symbolic'
+    correctOrder?: number[];        // 'ordering': indices of `options` in the right order
+    explanation?: string;           // Markdown + math, shown with the correction
+    skills?: string[];
+    updatedAt?: string;
 }
 
+// What a student answers to a question: an option index ('single', 'trueFalse'), option indices
+// ('multiple', and the chosen order for 'ordering'), or the typed text ('numeric', 'symbolic'). null = skipped.
+export type QuizAnswer = number | number[] | string | null;
+
+export type QuizAnswerKey = Pick<QuizQuestion, 'correctAnswerIndex' | 'correctAnswerIndices' | 'numericAnswer' | 'expectedLatex' | 'correctOrder' | 'explanation'>;
+
 export type NewQuizQuestion = Omit<QuizQuestion, 'id'>;
 
 export interface Quiz {
     id: string;
     title: string;
     questions: QuizQuestion[];
+    updatedAt?: string;
 }
 
 export type NewQuiz = Pick<Quiz, 'title'>;
@@ -46,6 +76,7 @@ export interface Chapter {
     videoLinks?: VideoLink[];
     quizzes: Quiz[];
     series: Series[];
+    updatedAt?: string;
 }
 
 export type NewChapter = Pick<Chapter, 'title'>;
@@ -55,32 +86,49 @@ export interface Level {
     levelName: string;
     description: string;
     chapters: Chapter[];
+    updatedAt?: string;
 }
 
 export type NewLevel = Pick<Level, 'levelName' | 'description'>;
 
+// Achievements; the rules that unlock them are in `src/utils/badges.ts`.
 export interface Badge {
     id: string;
     name: string;
-    icon: string; // Could be a name of an icon component or a URL
+    icon: string; // Emoji
     description: string;
 }
 
+// A badge of the gallery: unlocked (with its date) or still to earn.
+export interface BadgeStatus extends Badge {
+    unlockedAt: string | null;
+}
+
+// Roles are stored in `profiles.role`; see `src/utils/permissions.ts` for what each one grants.
+export type Role = 'student' | 'teacher' | 'content_editor' | 'admin';
+
+export type Permission =
+    | 'curriculum.edit'   // Edit the curriculum, its history, trash and bundles
+    | 'students.view'     // See every student's profile and progress
+    | 'classrooms.manage' // Create classes and follow their enrolled students
+    | 'roles.manage';     // Grant and revoke roles
+
 export interface User {
     id: string;
     email: string;
-    is_admin: boolean;
+    role: Role;
+    permissions: Permission[];
     xp: number;
     level: number;
     completed_exercises: string[]; // List of completed exercise IDs
     quiz_attempts: UserQuizAttempt[]; // List of quiz attempts
 }
 
-export interface Profile extends Omit<User, 'is_admin' | 'completed_exercises' | 'quiz_attempts'> {}
+export interface Profile extends Omit<User, 'permissions' | 'completed_exercises' | 'quiz_attempts'> {}
 
 export interface AuthContextType {
     user: User | null;
-    isAdmin: boolean;
+    can: (permission: Permission) => boolean;
     isLoading: boolean;
     updateUser: (data: Partial<User>) => void;
     login: (email: string, password: string) => Promise<void>;
@@ -89,7 +137,6 @@ export interface AuthContextType {
     logout: () => void;
     requestPasswordReset: (email: string) => Promise<string>;
     resetPassword: (newPassword: string) => Promise<void>;
-    adminEmailForDebug?: string;
 }
 
 // Types for AI and Embeddings
@@ -167,9 +214,10 @@ export type ModalState =
   | { type: 'editExercise'; payload: { exercise: Exercise | null; seriesId: string } }
   | { type: 'editQuiz'; payload: { quiz: Quiz | null; chapterId: string } }
   | { type: 'editQuizQuestion'; payload: { question: QuizQuestion | null; quizId: string; chapterId: string } }
-  | { type: 'delete'; payload: DeletionInfo };
+  | { type: 'delete'; payload: DeletionInfo }
+  | { type: 'conflict'; payload: { operation: string; request: CurriculumActionPayload; mine: Record<string, any> | null; conflict: CurriculumConflict } };
 
-export type View = 'home' | 'courses' | 'chapters' | 'chapterHome' | 'seriesList' | 'exerciseList' | 'exercise' | 'quiz' | 'login' | 'register' | 'dashboard' | 'forgotPassword' | 'resetPassword' | 'chat' | 'tutor';
+export type View = 'home' | 'courses' | 'chapters' | 'chapterHome' | 'seriesList' | 'exerciseList' | 'exercise' | 'quiz' | 'login' | 'register' | 'dashboard' | 'forgotPassword' | 'resetPassword' | 'chat' | 'tutor' | 'history' | 'trash' | 'bundle' | 'roles' | 'classrooms' | 'mockExam' | 'review';
 
 // Type for User Progress
 export interface UserQuizAttempt {
@@ -180,6 +228,34 @@ export interface UserQuizAttempt {
     total_questions: number;
     taken_at: string;
     chapter_id: string; // This field is now mandatory for aggregation
+    answers?: QuizAnswer[];      // Answer given to each question, in quiz order (null = skipped)
+    question_results?: QuizQuestionResult[] | null; // Null for attempts recorded before per-question results were kept
+    xp_awarded?: number;         // XP granted for this attempt (0 for a retake that did not improve the best score)
+}
+
+// Whether one question of an attempt was answered right, by question ID (questions can be reordered later).
+export interface QuizQuestionResult {
+    question_id: string;
+    correct: boolean;
+}
+
+// Response of /api/submit-quiz: the graded attempt and the answer key, revealed once the quiz is submitted.
+export interface QuizSubmissionResult {
+    attempt: UserQuizAttempt;
+    xpGained: number;
+    results: boolean[];         // Whether each answer is right, in quiz order
+    solutions: QuizAnswerKey[]; // Answer key and explanation of each question, in quiz order
+    unlockedBadges: Badge[];    // Badges this attempt unlocked
+}
+
+// Scores of every attempt of a student on one quiz, as percentages (0-100).
+export interface QuizAttemptSummary {
+    quiz_id: string;
+    attempts: number;
+    best: number;
+    last: number;
+    average: number;
+    last_taken_at: string;
 }
 
 // Type for Math Keyboard
@@ -199,9 +275,484 @@ export type MathKeyboardLayout = {
 };
 
 // Type for Curriculum Update API
-export type CurriculumActionType = 'ADD_OR_UPDATE_LEVEL' | 'ADD_OR_UPDATE_CHAPTER' | 'ADD_OR_UPDATE_SERIES' | 'ADD_OR_UPDATE_EXERCISE' | 'ADD_OR_UPDATE_QUIZ' | 'ADD_OR_UPDATE_QUIZ_QUESTION' | 'DELETE_ITEM';
+export type CurriculumActionType = 'ADD_OR_UPDATE_LEVEL' | 'ADD_OR_UPDATE_CHAPTER' | 'ADD_OR_UPDATE_SERIES' | 'ADD_OR_UPDATE_EXERCISE' | 'ADD_OR_UPDATE_QUIZ' | 'ADD_OR_UPDATE_QUIZ_QUESTION' | 'DELETE_ITEM' | 'RESTORE_ITEM' | 'PURGE_TRASH' | 'RESTORE_REVISION' | 'RESTORE_CURRICULUM' | 'IMPORT_BUNDLE';
+
+// Payload expected by /api/update-curriculum for each action.
+// Edits carry only the item's own fields: its children are never written by these actions.
+export interface CurriculumActionPayloads {
+    ADD_OR_UPDATE_LEVEL: { level: Omit<Level, 'chapters'> };
+    ADD_OR_UPDATE_CHAPTER: { levelId: string; chapter: Omit<Chapter, 'series' | 'quizzes'> };
+    ADD_OR_UPDATE_SERIES: { levelId: string; chapterId: string; series: Omit<Series, 'exercises'> };
+    ADD_OR_UPDATE_EXERCISE: { levelId: string; chapterId: string; seriesId: string; exercise: Exercise };
+    ADD_OR_UPDATE_QUIZ: { levelId: string; chapterId: string; quiz: Omit<Quiz, 'questions'> };
+    ADD_OR_UPDATE_QUIZ_QUESTION: { levelId: string; chapterId: string; quizId: string; question: QuizQuestion };
+    DELETE_ITEM: DeletionInfo;
+    RESTORE_ITEM: { trashId: number };
+    PURGE_TRASH: { trashId?: number; olderThanDays?: number };
+    RESTORE_REVISION: { revisionId: number; side: 'before' | 'after' };
+    RESTORE_CURRICULUM: { revisionId: number };
+}
+
+// One member per action, so that checking `action` narrows `payload`.
+export type CurriculumActionPayload<A extends keyof CurriculumActionPayloads = keyof CurriculumActionPayloads> = { [K in A]: {
+    action: K;
+    payload: CurriculumActionPayloads[K];
+    // `updatedAt` of the item as the admin last saw it, or null when creating a new item.
+    // The server rejects the write with a 409 if the item has changed since.
+    baseUpdatedAt: string | null;
+} }[A];
+
+// Body of a 409 response from /api/update-curriculum.
+export interface CurriculumConflict {
+    error: string;
+    code: 'CURRICULUM_CONFLICT';
+    currentUpdatedAt: string | null; // null when the item has been deleted in the meantime
+    current: Level | Chapter | Series | Exercise | Quiz | QuizQuestion | null;
+}
 
-export interface CurriculumActionPayload {
+// Audit record of a curriculum change (table `curriculum_revisions`).
+// `before`/`after` hold the affected database rows, grouped by table name.
+export interface CurriculumRevision {
+    id: number;
+    created_at: string;
+    admin_email: string | null;
     action: CurriculumActionType;
-    payload: any; // The payload will vary based on the action
+    item_type: DeletionInfo['type'] | 'curriculum';
+    item_id: string | null;
+    level_id: string | null;
+    chapter_id: string | null;
+    payload: any;
+    before: Record<string, any[]> | null;
+    after: Record<string, any[]> | null;
+}
+
+// A deleted curriculum item waiting in the trash (table `curriculum_trash`).
+export interface TrashItem {
+    id: number;
+    item_type: DeletionInfo['type'];
+    item_id: string;
+    item_name: string;
+    level_id: string | null;
+    chapter_id: string | null;
+    deleted_by_email: string | null;
+    deleted_at: string;
+    expires_at: string;
+    counts: Record<string, number>; // Number of deleted rows per table, including descendants
+}
+
+// --- Curriculum interchange bundle (import/export) ---
+
+export type BundleScope =
+  | { type: 'curriculum' }
+  | { type: 'level'; levelId: string }
+  | { type: 'chapter'; levelId: string; chapterId: string };
+
+export interface BundleImageAsset {
+    url: string;      // Original `imageUrl` referenced by the exercises
+    mimeType: string;
+    data: string;     // Base64-encoded content
+}
+
+// Versioned JSON file used to move content between environments.
+// `levels` always holds complete subtrees; a chapter export is wrapped in its level.
+export interface CurriculumBundle {
+    format: 'maths-faciles-curriculum';
+    version: number;
+    exportedAt: string;
+    scope: BundleScope;
+    levels: Level[];
+    assets?: { images: BundleImageAsset[] };
+}
+
+// How to handle items whose ID already exists in the live curriculum.
+export type BundleCollisionStrategy = 'overwrite' | 'duplicate' | 'skip';
+
+export interface BundleImportOptions {
+    strategy: BundleCollisionStrategy;
+    targetLevelId?: string; // Imports the chapters of a chapter bundle into this level instead of their own
+}
+
+export interface ValidationIssue {
+    path: string;
+    message: string;
+}
+
+export interface BundleImportChange {
+    table: string;
+    id: string;           // ID in the bundle
+    finalId: string;      // ID after collision resolution
+    label: string;
+    status: 'create' | 'update' | 'unchanged' | 'skip' | 'duplicate';
+    changedFields?: string[];
+}
+
+export interface BundleImportPreview {
+    changes: BundleImportChange[];
+    summary: Record<BundleImportChange['status'], number>;
+    imageCount: number;
+}
+
+// --- Classrooms (tables `classrooms` and `classroom_members`) ---
+
+export interface Classroom {
+    id: string;
+    name: string;
+    teacher_id: string;
+    teacher_email: string | null;
+    created_at: string;
+    join_code?: string;     // Only sent to the teacher of the class
+    student_count?: number; // Only sent to the teacher of the class
+}
+
+// Progress of one enrolled student, as shown to their teacher.
+export interface ClassroomStudentProgress {
+    id: string;
+    email: string;
+    xp: number;
+    joined_at: string;
+    completed_exercises: string[];
+    completion_methods: Record<string, ExerciseCompletionMethod>; // By exercise ID (absent if recorded before methods were kept)
+    quiz_attempts: UserQuizAttempt[];
+}
+
+// Body expected by /api/classrooms (POST) for each action.
+export interface ClassroomActionPayloads {
+    CREATE: { name: string };
+    RENAME: { classroomId: string; name: string };
+    REGENERATE_CODE: { classroomId: string };
+    DELETE: { classroomId: string };
+    REMOVE_STUDENT: { classroomId: string; studentId: string };
+    JOIN: { code: string };
+    LEAVE: { classroomId: string };
+}
+
+export type ClassroomAction<A extends keyof ClassroomActionPayloads = keyof ClassroomActionPayloads> = { [K in A]: {
+    action: K;
+    payload: ClassroomActionPayloads[K];
+} }[A];
+
+// --- Homework assignments (table `assignments`) ---
+
+// Reference to an exercise or a quiz of the curriculum.
+export interface CurriculumItemRef {
+    type: 'exercise' | 'quiz';
+    id: string;
+}
+
+export interface Assignment {
+    id: string;
+    classroom_id: string;
+    title: string;
+    instructions: string;
+    due_at: string;
+    items: CurriculumItemRef[];
+    created_at: string;
+}
+
+// Where one student stands on one item of an assignment.
+// Completion comes from `user_exercise_progress` / `user_quiz_attempts`; `late` means done after `due_at`.
+export interface AssignmentItemStatus extends CurriculumItemRef {
+    completed_at: string | null;
+    late: boolean;
+    score?: number;            // Quizzes only: best attempt
+    total_questions?: number;  // Quizzes only
+    check_count: number;       // Exercises only: answers submitted to /api/check-answer
+    last_check_correct: boolean | null;
+    completion_method?: ExerciseCompletionMethod | null; // Exercises only, once completed (null if recorded before methods were kept)
+    completion_feedback?: CheckAnswerResponse | null; // Exercises only: the last check before completing
+}
+
+// An assignment as listed on a student's "À faire".
+export interface StudentAssignment extends Assignment {
+    classroom_name: string;
+    statuses: AssignmentItemStatus[];
+}
+
+// An assignment as listed for its teacher.
+export interface TeacherAssignment extends Assignment {
+    student_count: number;
+    completed_count: number; // Students who finished every item
+}
+
+export interface AssignmentReport {
+    assignment: Assignment;
+    students: { id: string; email: string; statuses: AssignmentItemStatus[] }[];
+}
+
+export interface AssignmentActionPayloads {
+    CREATE: { classroomId: string; title: string; instructions: string; dueAt: string; items: CurriculumItemRef[] };
+    UPDATE: { assignmentId: string; title: string; instructions: string; dueAt: string; items: CurriculumItemRef[] };
+    DELETE: { assignmentId: string };
+}
+
+export type AssignmentAction<A extends keyof AssignmentActionPayloads = keyof AssignmentActionPayloads> = { [K in A]: {
+    action: K;
+    payload: AssignmentActionPayloads[K];
+} }[A];
+
+// --- Answer checks (/api/check-answer) ---
+
+export interface FeedbackPart {
+    part_title: string;
+    evaluation: 'correct' | 'incorrect' | 'partial';
+    explanation: string;
+}
+
+export interface CheckAnswerResponse {
+    is_globally_correct: boolean;
+    summary: string;
+    detailed_feedback: FeedbackPart[];
+}
+
+// How a student earned an exercise completion, decided by the server when it is recorded:
+// 'verified' when their last checked answer was entirely correct, 'tutor' when they took the socratic tutor
+// to its last step, 'partial' when their last checked answer was partly correct, 'self_declared' otherwise
+// (e.g. after reading the correction).
+export type ExerciseCompletionMethod = 'verified' | 'tutor' | 'partial' | 'self_declared';
+
+// --- Mock Bac exams (table `mock_exams`) ---
+
+// 'bac': full-length subject (3 h); 'short': a shorter training session.
+export type MockExamFormat = 'short' | 'bac';
+
+// One item of an exam subject, with its points in the mark out of 20.
+export interface MockExamItem {
+    type: 'exercise' | 'quizQuestion';
+    id: string;
+    chapterId: string;
+    points: number;
+}
+
+// Grade of one item. Exercises are graded one by one by /api/check-answer after the exam is handed in.
+export interface MockExamItemResult {
+    score: number;                    // Points obtained, out of the item's points
+    feedback?: CheckAnswerResponse;   // Exercises
+    solution?: QuizAnswerKey;         // Quiz questions
+}
+
+export interface MockExam {
+    id: string;
+    level_id: string;
+    format: MockExamFormat;
+    items: MockExamItem[];
+    started_at: string;
+    ends_at: string;
+    submitted_at: string | null;
+    answers: QuizAnswer[] | null;                 // One per item (exercise answers are text), once handed in
+    results: (MockExamItemResult | null)[] | null; // One per item; null until the item is graded
+}
+
+export interface MockExamActionPayloads {
+    START: { levelId: string; format: MockExamFormat };
+    SUBMIT: { examId: string; answers: QuizAnswer[] };
+}
+
+export type MockExamAction<A extends keyof MockExamActionPayloads = keyof MockExamActionPayloads> = { [K in A]: {
+    action: K;
+    payload: MockExamActionPayloads[K];
+} }[A];
+
+// --- Spaced repetition (/api/reviews) ---
+
+export type ReviewItemType = 'quizQuestion' | 'exercise';
+
+// SM-2 scheduling state of one item, replayed from the student's history.
+export interface ReviewState {
+    easeFactor: number;
+    interval: number;         // Days until the next review
+    repetitions: number;      // Successful reviews in a row
+    lastReviewedAt: string;
+    dueAt: string;
+}
+
+export interface ReviewItem {
+    type: ReviewItemType;
+    id: string;
+    chapterId: string;
+    state: ReviewState;
+    similarExerciseIds?: string[]; // Exercises only: close exercises to practise on (embeddings)
+}
+
+// Today's session and the counters shown on the dashboard.
+export interface ReviewQueue {
+    items: ReviewItem[];      // Due items, most overdue first, capped to a daily session
+    dueToday: number;         // Everything due by the end of the day, including what the session leaves out
+    dueThisWeek: number;
+    scheduled: number;        // Items the student has studied at least once
+}
+
+// How well the student remembered an exercise, rated after redoing it.
+export type ReviewRating = 'again' | 'hard' | 'good' | 'easy';
+
+export interface ReviewActionPayloads {
+    ANSWER_QUESTION: { questionId: string; answer: QuizAnswer };
+    RATE_EXERCISE: { exerciseId: string; rating: ReviewRating };
+}
+
+export type ReviewAction<A extends keyof ReviewActionPayloads = keyof ReviewActionPayloads> = { [K in A]: {
+    action: K;
+    payload: ReviewActionPayloads[K];
+} }[A];
+
+export interface ReviewActionResults {
+    ANSWER_QUESTION: { correct: boolean; solution: QuizAnswerKey; state: ReviewState };
+    RATE_EXERCISE: { state: ReviewState };
+}
+
+// --- Skill mastery (/api/mastery) ---
+
+// 'notEvaluated' until the student has produced some evidence on the skill or chapter.
+export type MasteryLevel = 'notEvaluated' | 'toReview' | 'inProgress' | 'mastered';
+
+// Estimated understanding, from 0 to 1, and how many graded answers it is based on.
+export interface MasteryEstimate {
+    score: number;
+    evidenceCount: number;
+    level: MasteryLevel;
+}
+
+export interface SkillMastery extends MasteryEstimate {
+    skill: string;
+}
+
+export interface ChapterMastery extends MasteryEstimate {
+    chapterId: string;
+    skills: SkillMastery[]; // Restricted to the chapter's exercises and questions
+}
+
+export interface MasteryReport {
+    skills: SkillMastery[];
+    chapters: ChapterMastery[];
+}
+
+// --- Recommendations (/api/recommendations) ---
+
+// An exercise or a quiz, or a lesson video (`id` is the YouTube ID).
+export type RecommendationTarget = CurriculumItemRef | { type: 'video'; id: string };
+
+// 'continue': next item after the last one worked on; 'chapterQuiz': the quiz that closes a chapter;
+// 'nextChapter' / 'startLevel': a chapter not started yet; 'weakChapter': a chapter whose mastery is low;
+// 'quizRetake': a quiz with a low best score.
+export type RecommendationReason = 'continue' | 'chapterQuiz' | 'nextChapter' | 'startLevel' | 'weakChapter' | 'quizRetake';
+
+export interface Recommendation {
+    target: RecommendationTarget;
+    reason: RecommendationReason;
+    title: string;
+    levelId: string;
+    chapterId: string;
+    chapterTitle: string;
+}
+
+// --- Curriculum search (/api/search) ---
+
+// 'quizQuestion' results open the question's quiz; 'video' results open the lesson at `startTime`.
+export type SearchResultType = 'chapter' | 'exercise' | 'quizQuestion' | 'video';
+
+export type SearchMatch = 'keyword' | 'semantic';
+
+export interface SearchResult {
+    type: SearchResultType;
+    id: string;      // Chapter, exercise or question ID; YouTube ID for videos
+    title: string;
+    snippet: string; // Plain-text excerpt around the match
+    levelId: string;
+    chapterId: string;
+    chapterTitle: string;
+    exerciseContext?: ExerciseContext; // Exercises
+    quizId?: string;                   // Quiz questions
+    startTime?: number;                // Videos: start of the matching passage, in seconds
+    score: number;                     // 0 to 1, best first
+    matchedBy: SearchMatch[];
+}
+
+// --- Daily goals and streaks (/api/streaks) ---
+
+// The day's goal is met when either count is reached (0: that kind of activity does not count).
+export interface DailyGoal {
+    exercises: number;
+    quizzes: number;
+}
+
+// Activity of one day in Africa/Casablanca time ("YYYY-MM-DD").
+export interface ActivityDay {
+    date: string;
+    exercises: number; // Exercises completed
+    quizzes: number;   // Quiz attempts
+}
+
+export interface StreakSummary {
+    current: number;          // Days in a row with the goal met, up to today (today counts once met)
+    longest: number;
+    freezesAvailable: number; // Missed days the next breaks will be forgiven
+    frozenDays: string[];     // Missed days a freeze covered
+}
+
+export interface ActivitySummary {
+    goal: DailyGoal;
+    today: ActivityDay;
+    todayGoalMet: boolean;
+    streak: StreakSummary;
+    days: ActivityDay[]; // Days with some activity over the heatmap's period, oldest first
+}
+
+// --- Leaderboards (/api/leaderboards) ---
+
+// 'week': XP earned since Monday (Africa/Casablanca time).
+export type LeaderboardPeriod = 'week' | 'allTime';
+
+// 'level': XP earned on the chapters of one level; 'classroom': the class's students only.
+export type LeaderboardScope = 'global' | 'level' | 'classroom';
+
+export interface LeaderboardQuery {
+    period: LeaderboardPeriod;
+    scope: LeaderboardScope;
+    scopeId?: string; // Level or classroom ID
+    page?: number;    // From 1
+}
+
+// Students only appear on leaderboards once they opt in, under a pseudonym.
+export interface LeaderboardProfile {
+    optedIn: boolean;
+    pseudonym: string | null;
+}
+
+export interface LeaderboardEntry {
+    rank: number; // Equal XP, equal rank
+    pseudonym: string;
+    xp: number;
+    isMe: boolean;
+}
+
+export interface Leaderboard {
+    entries: LeaderboardEntry[]; // The requested page
+    total: number;               // Ranked students
+    page: number;
+    pageSize: number;
+    me: LeaderboardEntry | null; // Null when not opted in
+    profile: LeaderboardProfile;
+}
+
+// POST /api/leaderboards: a pseudonym opts in (or renames), null opts out.
+export interface LeaderboardProfileUpdate {
+    pseudonym: string | null;
+}
+
+// --- XP (granted by the server, see utils/xp) ---
+
+export type XpReason = 'exercise_completed' | 'first_try_bonus' | 'quiz_completed' | 'quiz_improved' | 'tutor_session';
+
+// One line of the XP ledger, as sent to the client.
+export interface XpGrant {
+    reason: XpReason;
+    amount: number;
+}
+
+// Response of /api/complete-exercise.
+export interface ExerciseCompletionResult {
+    alreadyCompleted: boolean;
+    method: ExerciseCompletionMethod | null; // Null for a completion recorded before methods were kept
+    grants: XpGrant[];        // Empty when already completed
+    xp: number;               // New XP total of the student
+    unlockedBadges: Badge[];
 }
@@ -0,0 +1,41 @@
+// Achievement rules: what the student has done (AchievementStats) and the badges it unlocks.
+// Evaluated by the server (api/_lib/achievements.ts) after each exercise, quiz and tutor session.
+import type { Badge } from '../types';
+
+export interface AchievementStats {
+    completedExercises: number;
+    perfectQuizzes: number;        // Quizzes with at least one attempt without mistakes
+    masteredChapters: number;      // See MASTERY_THRESHOLDS
+    longestStreak: number;         // Most days in a row with the daily goal met (see summarizeStreak)
+    tutorSessionsFinished: number; // Socratic tutor dialogues taken to their last step
+}
+
+export interface BadgeRule extends Badge {
+    isUnlocked: (stats: AchievementStats) => boolean;
+}
+
+// In gallery order.
+export const BADGE_RULES: BadgeRule[] = [
+    { id: 'first-exercise', name: 'Premier pas', icon: '🎯', description: 'Terminer un premier exercice.', isUnlocked: s => s.completedExercises >= 1 },
+    { id: 'ten-exercises', name: 'Persévérant', icon: '📚', description: 'Terminer 10 exercices.', isUnlocked: s => s.completedExercises >= 10 },
+    { id: 'fifty-exercises', name: 'Marathonien', icon: '🏃', description: 'Terminer 50 exercices.', isUnlocked: s => s.completedExercises >= 50 },
+    { id: 'perfect-quiz', name: 'Sans faute', icon: '💯', description: 'Réussir un quiz sans aucune erreur.', isUnlocked: s => s.perfectQuizzes >= 1 },
+    { id: 'five-perfect-quizzes', name: 'Perfectionniste', icon: '🏆', description: 'Réussir 5 quiz différents sans aucune erreur.', isUnlocked: s => s.perfectQuizzes >= 5 },
+    { id: 'chapter-mastered', name: 'Maîtrise', icon: '🎓', description: 'Maîtriser toutes les compétences d\'un chapitre.', isUnlocked: s => s.masteredChapters >= 1 },
+    { id: 'three-chapters-mastered', name: 'Expert', icon: '🧠', description: 'Maîtriser 3 chapitres.', isUnlocked: s => s.masteredChapters >= 3 },
+    { id: 'three-day-streak', name: 'Régulier', icon: '🔥', description: 'Atteindre son objectif du jour 3 jours d\'affilée.', isUnlocked: s => s.longestStreak >= 3 },
+    { id: 'seven-day-streak', name: 'Semaine parfaite', icon: '📅', description: 'Atteindre son objectif du jour 7 jours d\'affilée.', isUnlocked: s => s.longestStreak >= 7 },
+    { id: 'first-tutor-session', name: 'Curieux', icon: '💬', description: 'Aller au bout d\'une séance avec le tuteur.', isUnlocked: s => s.tutorSessionsFinished >= 1 },
+    { id: 'ten-tutor-sessions', name: 'Disciple du tuteur', icon: '🦉', description: 'Aller au bout de 10 séances avec le tuteur.', isUnlocked: s => s.tutorSessionsFinished >= 10 },
+];
+
+/**
+ * The badge without its rule, as sent to the client.
+ */
+export const toBadge = ({ isUnlocked, ...badge }: BadgeRule): Badge => badge;
+
+/**
+ * The badges the stats unlock and that the student does not have yet.
+ */
+export const newlyUnlockedBadges = (stats: AchievementStats, unlocked: Set<string>): Badge[] =>
+    BADGE_RULES.filter(rule => !unlocked.has(rule.id) && rule.isUnlocked(stats)).map(toBadge);
@@ -0,0 +1,285 @@
+// Mapping between the relational curriculum tables and the nested `Level[]` tree used by the UI.
+// Shared by the frontend, the serverless functions (see `includeFiles` in vercel.json) and the scripts.
+import type { Level, Chapter, Series, Exercise, Quiz, QuizQuestion, QuizQuestionType, VideoLink } from '../types';
+
+export interface LevelRow {
+    id: string;
+    level_name: string;
+    description: string;
+    position: number;
+    updated_at?: string;
+}
+
+export interface ChapterRow {
+    id: string;
+    level_id: string;
+    title: string;
+    summary: string;
+    video_links: VideoLink[];
+    position: number;
+    updated_at?: string;
+}
+
+export interface SeriesRow {
+    id: string;
+    chapter_id: string;
+    title: string;
+    position: number;
+    updated_at?: string;
+}
+
+export interface ExerciseRow {
+    id: string;
+    series_id: string;
+    statement: string;
+    correction_snippet: string;
+    full_correction: string | null;
+    image_url: string | null;
+    latex_formula: string | null;
+    skills: string[];
+    difficulty: number | null;
+    estimated_minutes: number | null;
+    source: string | null;
+    tags: string[];
+    prerequisites: string[];
+    position: number;
+    updated_at?: string;
+}
+
+export interface QuizRow {
+    id: string;
+    chapter_id: string;
+    title: string;
+    position: number;
+    updated_at?: string;
+}
+
+export interface QuizQuestionRow {
+    id: string;
+    quiz_id: string;
+    question: string;
+    type: QuizQuestionType;
+    options: string[] | null;
+    correct_answer_index: number | null;
+    answer_key: QuizAnswerKeyColumn | null;
+    explanation: string | null;
+    skills: string[];
+    position: number;
+    updated_at?: string;
+}
+
+/** Answer key of the question types added after 'single' (whose key stays in `correct_answer_index`). */
+export type QuizAnswerKeyColumn = Pick<QuizQuestion, 'correctAnswerIndices' | 'numericAnswer' | 'expectedLatex' | 'correctOrder'>;
+
+/** Rows grouped by table, in parent-before-child order. */
+export type CurriculumRows = {
+    levels: LevelRow[];
+    chapters: ChapterRow[];
+    series: SeriesRow[];
+    exercises: ExerciseRow[];
+    quizzes: QuizRow[];
+    quiz_questions: QuizQuestionRow[];
+};
+
+/**
+ * Nested select used to load the whole tree in a single PostgREST request.
+ * Children are re-sorted by `position` in `rowsToCurriculum`.
+ */
+export const CURRICULUM_SELECT = `
+    id, level_name, description, position, updated_at,
+    chapters (
+        id, level_id, title, summary, video_links, position, updated_at,
+        series ( id, chapter_id, title, position, updated_at,
+            exercises ( id, series_id, statement, correction_snippet, full_correction, image_url, latex_formula, skills,
+                difficulty, estimated_minutes, source, tags, prerequisites, position, updated_at )
+        ),
+        quizzes ( id, chapter_id, title, position, updated_at,
+            quiz_questions ( id, quiz_id, question, type, options, correct_answer_index, answer_key, explanation, skills, position, updated_at )
+        )
+    )
+`;
+
+export const emptyCurriculumRows = (): CurriculumRows => ({
+    levels: [], chapters: [], series: [], exercises: [], quizzes: [], quiz_questions: [],
+});
+
+const byPosition = (a: { position?: number }, b: { position?: number }) => (a.position ?? 0) - (b.position ?? 0);
+
+// --- Row -> Type ---
+// Container mappers return the item without its children; `rowsToCurriculum` attaches them.
+
+export const rowToLevel = (row: LevelRow): Level => ({
+    id: row.id,
+    levelName: row.level_name,
+    description: row.description ?? '',
+    chapters: [],
+    updatedAt: row.updated_at,
+});
+
+export const rowToChapter = (row: ChapterRow): Chapter => ({
+    id: row.id,
+    title: row.title,
+    summary: row.summary ?? '',
+    videoLinks: row.video_links ?? [],
+    series: [],
+    quizzes: [],
+    updatedAt: row.updated_at,
+});
+
+export const rowToSeries = (row: SeriesRow): Series => ({
+    id: row.id,
+    title: row.title,
+    exercises: [],
+    updatedAt: row.updated_at,
+});
+
+export const rowToExercise = (row: ExerciseRow): Exercise => ({
+    id: row.id,
+    statement: row.statement,
+    correctionSnippet: row.correction_snippet ?? '',
+    fullCorrection: row.full_correction ?? undefined,
+    imageUrl: row.image_url ?? undefined,
+    latexFormula: row.latex_formula ?? undefined,
+    skills: row.skills?.length ? row.skills : undefined,
+    difficulty: row.difficulty ?? undefined,
+    estimatedMinutes: row.estimated_minutes ?? undefined,
+    source: row.source ?? undefined,
+    tags: row.tags?.length ? row.tags : undefined,
+    prerequisites: row.prerequisites?.length ? row.prerequisites : undefined,
+    updatedAt: row.updated_at,
+});
+
+export const rowToQuiz = (row: QuizRow): Quiz => ({
+    id: row.id,
+    title: row.title,
+    questions: [],
+    updatedAt: row.updated_at,
+});
+
+export const rowToQuizQuestion = (row: QuizQuestionRow): QuizQuestion => ({
+    id: row.id,
+    question: row.question,
+    type: row.type ?? 'single',
+    options: row.options ?? undefined,
+    correctAnswerIndex: row.correct_answer_index ?? undefined,
+    ...(row.answer_key ?? {}),
+    explanation: row.explanation ?? undefined,
+    skills: row.skills?.length ? row.skills : undefined,
+    updatedAt: row.updated_at,
+});
+
+/**
+ * Converts the result of a `CURRICULUM_SELECT` query into the `Level[]` tree.
+ */
+export const rowsToCurriculum = (levelRows: any[]): Level[] =>
+    [...(levelRows ?? [])].sort(byPosition).map((level): Level => ({
+        ...rowToLevel(level),
+        chapters: [...(level.chapters ?? [])].sort(byPosition).map((chapter: any): Chapter => ({
+            ...rowToChapter(chapter),
+            series: [...(chapter.series ?? [])].sort(byPosition).map((series: any): Series => ({
+                ...rowToSeries(series),
+                exercises: [...(series.exercises ?? [])].sort(byPosition).map(rowToExercise),
+            })),
+            quizzes: [...(chapter.quizzes ?? [])].sort(byPosition).map((quiz: any): Quiz => ({
+                ...rowToQuiz(quiz),
+                questions: [...(quiz.quiz_questions ?? [])].sort(byPosition).map(rowToQuizQuestion),
+            })),
+        })),
+    }));
+
+// --- Type -> Row ---
+
+/** Trims a list of labels (skills, tags, prerequisites) and drops empty ones and duplicates. */
+export const normalizeSkills = (skills: string[] | undefined): string[] =>
+    [...new Set((skills ?? []).map(skill => skill.trim()).filter(Boolean))];
+
+export const levelToRow = (level: Level, position: number): LevelRow => ({
+    id: level.id,
+    level_name: level.levelName,
+    description: level.description ?? '',
+    position,
+});
+
+export const chapterToRow = (chapter: Chapter, levelId: string, position: number): ChapterRow => ({
+    id: chapter.id,
+    level_id: levelId,
+    title: chapter.title,
+    summary: chapter.summary ?? '',
+    video_links: chapter.videoLinks ?? [],
+    position,
+});
+
+export const seriesToRow = (series: Series, chapterId: string, position: number): SeriesRow => ({
+    id: series.id,
+    chapter_id: chapterId,
+    title: series.title,
+    position,
+});
+
+export const exerciseToRow = (exercise: Exercise, seriesId: string, position: number): ExerciseRow => ({
+    id: exercise.id,
+    series_id: seriesId,
+    statement: exercise.statement,
+    correction_snippet: exercise.correctionSnippet ?? '',
+    full_correction: exercise.fullCorrection ?? null,
+    image_url: exercise.imageUrl ?? null,
+    latex_formula: exercise.latexFormula ?? null,
+    skills: normalizeSkills(exercise.skills),
+    difficulty: exercise.difficulty ?? null,
+    estimated_minutes: exercise.estimatedMinutes ?? null,
+    source: exercise.source?.trim() || null,
+    tags: normalizeSkills(exercise.tags),
+    prerequisites: normalizeSkills(exercise.prerequisites),
+    position,
+});
+
+export const quizToRow = (quiz: Quiz, chapterId: string, position: number): QuizRow => ({
+    id: quiz.id,
+    chapter_id: chapterId,
+    title: quiz.title,
+    position,
+});
+
+const toAnswerKeyColumn = ({ correctAnswerIndices, numericAnswer, expectedLatex, correctOrder }: QuizQuestion): QuizAnswerKeyColumn | null => {
+    const key = JSON.parse(JSON.stringify({ correctAnswerIndices, numericAnswer, expectedLatex, correctOrder })); // Drops undefined fields
+    return Object.keys(key).length > 0 ? key : null;
+};
+
+export const quizQuestionToRow = (question: QuizQuestion, quizId: string, position: number): QuizQuestionRow => ({
+    id: question.id,
+    quiz_id: quizId,
+    question: question.question,
+    type: question.type ?? 'single',
+    options: question.options ?? null,
+    correct_answer_index: question.correctAnswerIndex ?? null,
+    answer_key: toAnswerKeyColumn(question),
+    explanation: question.explanation?.trim() || null,
+    skills: normalizeSkills(question.skills),
+    position,
+});
+
+/**
+ * Flattens a `Level[]` tree into table rows. Positions follow the array order.
+ */
+export const curriculumToRows = (levels: Level[]): CurriculumRows => {
+    const rows = emptyCurriculumRows();
+    levels.forEach((level, levelPos) => {
+        rows.levels.push(levelToRow(level, levelPos));
+        (level.chapters ?? []).forEach((chapter, chapterPos) => {
+            rows.chapters.push(chapterToRow(chapter, level.id, chapterPos));
+            (chapter.series ?? []).forEach((series, seriesPos) => {
+                rows.series.push(seriesToRow(series, chapter.id, seriesPos));
+                (series.exercises ?? []).forEach((exercise, exercisePos) => {
+                    rows.exercises.push(exerciseToRow(exercise, series.id, exercisePos));
+                });
+            });
+            (chapter.quizzes ?? []).forEach((quiz, quizPos) => {
+                rows.quizzes.push(quizToRow(quiz, chapter.id, quizPos));
+                (quiz.questions ?? []).forEach((question, questionPos) => {
+                    rows.quiz_questions.push(quizQuestionToRow(question, quiz.id, questionPos));
+                });
+            });
+        });
+    });
+    return rows;
+};
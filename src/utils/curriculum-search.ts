@@ -0,0 +1,154 @@
+// Curriculum search: keyword matching over chapters, exercises and quiz questions, and the merge with
+// the semantic matches (exercise and video transcript embeddings). Used by /api/search.
+import type { Level, SearchMatch, SearchResult, VideoChunk } from '../types';
+
+export const MAX_SEARCH_RESULTS = 20;
+
+// Below this share of the query's words found in an item, the item is not a keyword match.
+const MIN_KEYWORD_COVERAGE = 0.5;
+
+const SNIPPET_LENGTH = 160;
+
+// Words too common to search on.
+const STOP_WORDS = new Set([
+    'le', 'la', 'les', 'l', 'un', 'une', 'des', 'de', 'du', 'd', 'et', 'ou', 'a', 'au', 'aux', 'en', 'dans',
+    'sur', 'pour', 'par', 'avec', 'que', 'qui', 'est', 'ce', 'cette', 'ces', 'on', 'se', 'sa', 'son', 'ses',
+]);
+
+// Lower case without accents, one character for one character so that positions match the original text.
+const foldText = (text: string): string =>
+    [...text].map(c => (c.normalize('NFD')[0] ?? c).toLowerCase()[0] ?? c).join('');
+
+/**
+ * Statement or question as plain text: without math delimiters, LaTeX backslashes and Markdown markers.
+ */
+export const toPlainText = (markdown: string): string =>
+    markdown.replace(/\$+|\\[()[\]]|[\\#*_>`]/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * The words to search for: folded, without stop words. Empty when the query has nothing to search on.
+ */
+export const searchTerms = (query: string): string[] =>
+    [...new Set(foldText(query).split(/[^a-z0-9]+/).filter(word => word && !STOP_WORDS.has(word)))];
+
+const wordsOf = (text: string): string[] => foldText(text).split(/[^a-z0-9]+/).filter(Boolean);
+
+// Share of the terms found at the start of a word of the text.
+const coverage = (terms: string[], words: string[]): number =>
+    terms.filter(term => words.some(word => word.startsWith(term))).length / terms.length;
+
+/**
+ * About `SNIPPET_LENGTH` characters of the text around the first term found (the start of the text otherwise).
+ */
+export const snippetAround = (text: string, terms: string[]): string => {
+    const folded = foldText(text);
+    const positions = terms.map(term => folded.search(new RegExp(`(^|[^a-z0-9])${term}`))).filter(index => index >= 0);
+    const match = positions.length > 0 ? Math.min(...positions) : 0;
+    const start = Math.max(0, match - SNIPPET_LENGTH / 4);
+    const end = Math.min(text.length, start + SNIPPET_LENGTH);
+    return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+};
+
+// A searchable item: its result (without score) and the texts the terms are looked for in.
+interface SearchDocument {
+    result: Omit<SearchResult, 'score' | 'matchedBy'>;
+    title: string; // Matches in the title count more
+    body: string;  // Plain text, also used for the snippet
+}
+
+const listDocuments = (curriculum: Level[]): SearchDocument[] =>
+    curriculum.flatMap(level => (level.chapters ?? []).flatMap(chapter => {
+        const location = { levelId: level.id, chapterId: chapter.id, chapterTitle: chapter.title };
+        const chapterDocument: SearchDocument = {
+            result: { type: 'chapter', id: chapter.id, title: chapter.title, snippet: '', ...location },
+            title: chapter.title,
+            body: toPlainText(chapter.summary ?? ''),
+        };
+        const exercises = (chapter.series ?? []).flatMap(series => (series.exercises ?? []).map((exercise, index): SearchDocument => {
+            const title = `${series.title} – Exercice ${index + 1}`;
+            return {
+                result: {
+                    type: 'exercise', id: exercise.id, title, snippet: '', ...location,
+                    exerciseContext: { levelId: level.id, chapterId: chapter.id, seriesId: series.id, exerciseId: exercise.id },
+                },
+                title: [title, exercise.source ?? '', ...(exercise.tags ?? [])].join(' '),
+                body: toPlainText(exercise.statement),
+            };
+        }));
+        const questions = (chapter.quizzes ?? []).flatMap(quiz => quiz.questions.map((question): SearchDocument => ({
+            result: { type: 'quizQuestion', id: question.id, title: quiz.title, snippet: '', ...location, quizId: quiz.id },
+            title: quiz.title,
+            body: toPlainText(question.question),
+        })));
+        return [chapterDocument, ...exercises, ...questions];
+    }));
+
+/**
+ * Items whose title or text contain at least half of the query's words (word prefixes, accents and case
+ * ignored). The score is the share of words found, a third of it weighted by the share found in the title.
+ */
+export const keywordSearch = (curriculum: Level[], query: string): SearchResult[] => {
+    const terms = searchTerms(query);
+    if (terms.length === 0) return [];
+
+    return listDocuments(curriculum).flatMap(({ result, title, body }): SearchResult[] => {
+        const titleWords = wordsOf(title);
+        const found = coverage(terms, [...titleWords, ...wordsOf(body)]);
+        if (found < MIN_KEYWORD_COVERAGE) return [];
+        const score = found * (2 + coverage(terms, titleWords)) / 3;
+        return [{ ...result, snippet: snippetAround(body, terms), score, matchedBy: ['keyword'] }];
+    });
+};
+
+/**
+ * Results for the exercises found by embedding similarity. Exercises no longer in the curriculum are dropped.
+ */
+export const exerciseMatchResults = (curriculum: Level[], matches: { id: string; similarity: number }[]): SearchResult[] => {
+    const documents = new Map(listDocuments(curriculum).filter(d => d.result.type === 'exercise').map(d => [d.result.id, d]));
+    return matches.flatMap(({ id, similarity }): SearchResult[] => {
+        const document = documents.get(id);
+        return document
+            ? [{ ...document.result, snippet: snippetAround(document.body, []), score: similarity, matchedBy: ['semantic'] }]
+            : [];
+    });
+};
+
+/**
+ * Results for the video transcript passages found by embedding similarity, one per video (its best passage).
+ */
+export const videoChunkResults = (curriculum: Level[], chunks: VideoChunk[]): SearchResult[] => {
+    const best = new Map<string, SearchResult>();
+    for (const level of curriculum) {
+        for (const chapter of level.chapters ?? []) {
+            for (const chunk of chunks.filter(c => c.chapter_id === chapter.id)) {
+                const video = chapter.videoLinks?.find(link => link.id === chunk.video_id);
+                if (!video || (best.get(video.id)?.score ?? -1) >= chunk.similarity) continue;
+                best.set(video.id, {
+                    type: 'video', id: video.id, title: video.title, snippet: snippetAround(chunk.chunk_text, []),
+                    levelId: level.id, chapterId: chapter.id, chapterTitle: chapter.title,
+                    startTime: chunk.start_time_seconds, score: chunk.similarity, matchedBy: ['semantic'],
+                });
+            }
+        }
+    }
+    return [...best.values()];
+};
+
+/**
+ * Merges keyword and semantic results into one ranking. An item found both ways combines its scores
+ * (1 - (1 - a)(1 - b)) and keeps the keyword snippet, which shows the words searched for.
+ */
+export const mergeSearchResults = (keyword: SearchResult[], semantic: SearchResult[], limit = MAX_SEARCH_RESULTS): SearchResult[] => {
+    const merged = new Map<string, SearchResult>();
+    for (const result of [...keyword, ...semantic]) {
+        const key = `${result.type}:${result.id}`;
+        const existing = merged.get(key);
+        if (!existing) {
+            merged.set(key, result);
+            continue;
+        }
+        const matchedBy: SearchMatch[] = [...new Set([...existing.matchedBy, ...result.matchedBy])];
+        merged.set(key, { ...existing, score: 1 - (1 - existing.score) * (1 - result.score), matchedBy });
+    }
+    return [...merged.values()].sort((a, b) => b.score - a.score).slice(0, limit);
+};
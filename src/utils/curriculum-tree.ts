@@ -0,0 +1,85 @@
+// Lookups in the nested `Level[]` tree by item reference (assignments, recommendations...),
+// and the public projection of the tree sent to students.
+import type { Level, Chapter, Series, Exercise, Quiz, QuizQuestion, CurriculumItemRef } from '../types';
+import { ANSWER_KEY_FIELDS } from './quiz-grading.js';
+
+export interface LocatedItem {
+    ref: CurriculumItemRef;
+    title: string;
+    level: Level;
+    chapter: Chapter;
+    series?: Series; // Exercises only
+}
+
+/**
+ * Lists every exercise and quiz of the curriculum with its position in the tree, in display order.
+ */
+export const listItems = (curriculum: Level[]): LocatedItem[] =>
+    curriculum.flatMap(level => (level.chapters ?? []).flatMap(chapter => [
+        ...(chapter.series ?? []).flatMap(series => (series.exercises ?? []).map((exercise, index): LocatedItem => ({
+            ref: { type: 'exercise', id: exercise.id },
+            title: `${series.title} – Exercice ${index + 1}`,
+            level, chapter, series,
+        }))),
+        ...(chapter.quizzes ?? []).map((quiz): LocatedItem => ({
+            ref: { type: 'quiz', id: quiz.id },
+            title: quiz.title,
+            level, chapter,
+        })),
+    ]));
+
+/**
+ * Finds an exercise or a quiz in the curriculum. Returns null if it has been deleted since it was referenced.
+ */
+export const locateItem = (curriculum: Level[], ref: CurriculumItemRef): LocatedItem | null =>
+    listItems(curriculum).find(item => item.ref.type === ref.type && item.ref.id === ref.id) ?? null;
+
+/**
+ * Finds a quiz question with its quiz and chapter. Returns null if it has been deleted.
+ */
+export const findQuizQuestion = (curriculum: Level[], questionId: string): { question: QuizQuestion; quiz: Quiz; chapter: Chapter } | null => {
+    for (const chapter of curriculum.flatMap(level => level.chapters ?? [])) {
+        for (const quiz of chapter.quizzes ?? []) {
+            const question = quiz.questions.find(q => q.id === questionId);
+            if (question) return { question, quiz, chapter };
+        }
+    }
+    return null;
+};
+
+/**
+ * An exercise without its full correction, as served to students.
+ */
+export const toPublicExercise = ({ fullCorrection, ...exercise }: Exercise): Exercise => ({
+    ...exercise,
+    hasFullCorrection: !!fullCorrection?.trim(),
+});
+
+/**
+ * A quiz question without its answer key, as served to students.
+ */
+export const toPublicQuizQuestion = (question: QuizQuestion): QuizQuestion => {
+    const publicQuestion = { ...question };
+    ANSWER_KEY_FIELDS.forEach(field => delete publicQuestion[field]);
+    return publicQuestion;
+};
+
+/**
+ * Removes what would let a student skip the work: quiz answer keys (quizzes are graded by
+ * /api/submit-quiz) and full corrections (fetched one at a time by signed-in users).
+ */
+export const toPublicCurriculum = (curriculum: Level[]): Level[] =>
+    curriculum.map(level => ({
+        ...level,
+        chapters: level.chapters.map(chapter => ({
+            ...chapter,
+            series: chapter.series.map(series => ({
+                ...series,
+                exercises: series.exercises.map(toPublicExercise),
+            })),
+            quizzes: chapter.quizzes.map(quiz => ({
+                ...quiz,
+                questions: quiz.questions.map(toPublicQuizQuestion),
+            })),
+        })),
+    }));
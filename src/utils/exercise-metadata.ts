@@ -0,0 +1,70 @@
+// Exercise metadata (difficulty, estimated time, source, tags): labels, list filters and the
+// difficulty-aware ordering of similar exercises. Shared by the frontend and /api/find-similar-exercises.
+import type { Exercise } from '../types';
+
+export const DIFFICULTY_LEVELS = [1, 2, 3, 4, 5];
+
+export const DIFFICULTY_LABELS: Record<number, string> = {
+    1: 'Très facile',
+    2: 'Facile',
+    3: 'Moyen',
+    4: 'Difficile',
+    5: 'Très difficile',
+};
+
+// Upper bounds offered by the "Durée" filter, in minutes.
+export const DURATION_FILTERS = [15, 30, 60];
+
+/**
+ * "45 min", "1 h", "1 h 30".
+ */
+export const formatDuration = (minutes: number): string => {
+    if (minutes < 60) return `${minutes} min`;
+    const rest = minutes % 60;
+    return `${Math.floor(minutes / 60)} h${rest ? ` ${String(rest).padStart(2, '0')}` : ''}`;
+};
+
+export interface ExerciseFilters {
+    difficulty: number | null;
+    maxMinutes: number | null;
+    tag: string | null;
+}
+
+export const NO_EXERCISE_FILTERS: ExerciseFilters = { difficulty: null, maxMinutes: null, tag: null };
+
+export const hasActiveFilters = (filters: ExerciseFilters): boolean =>
+    filters.difficulty !== null || filters.maxMinutes !== null || filters.tag !== null;
+
+/**
+ * Whether an exercise passes the filters. An exercise without the filtered metadata does not.
+ */
+export const matchesFilters = (exercise: Exercise, filters: ExerciseFilters): boolean =>
+    (filters.difficulty === null || exercise.difficulty === filters.difficulty)
+    && (filters.maxMinutes === null || (exercise.estimatedMinutes !== undefined && exercise.estimatedMinutes <= filters.maxMinutes))
+    && (filters.tag === null || !!exercise.tags?.includes(filters.tag) || exercise.source === filters.tag);
+
+/**
+ * Tags and sources used by the exercises, to fill the "Étiquette" filter.
+ */
+export const collectTags = (exercises: Exercise[]): string[] =>
+    [...new Set(exercises.flatMap(exercise => [...(exercise.tags ?? []), ...(exercise.source ? [exercise.source] : [])]))]
+        .sort((a, b) => a.localeCompare(b, 'fr'));
+
+// 0 for the same difficulty or one step harder (the next thing to practise), 1 for an easier or a
+// much harder one, 2 beyond; 1 when either difficulty is unknown.
+const difficultyPenalty = (reference: number | undefined, candidate: number | undefined): number => {
+    if (reference === undefined || candidate === undefined) return 1;
+    const delta = candidate - reference;
+    if (delta === 0 || delta === 1) return 0;
+    return delta === -1 || delta === 2 ? 1 : 2;
+};
+
+/**
+ * Orders similar exercises (closest first) so that those of the same or slightly higher difficulty
+ * come first. Similarity order is kept among exercises with the same penalty.
+ */
+export const preferSimilarDifficulty = (reference: Exercise, similar: Exercise[]): Exercise[] =>
+    similar
+        .map((exercise, index) => ({ exercise, index, penalty: difficultyPenalty(reference.difficulty, exercise.difficulty) }))
+        .sort((a, b) => a.penalty - b.penalty || a.index - b.index)
+        .map(({ exercise }) => exercise);
@@ -0,0 +1,21 @@
+// Leaderboard XP: the XP ledger (api/_lib/xp.ts) minus what the anti-abuse rules below exclude, summed and
+// ranked by `public.leaderboard` (api/_lib/leaderboards.ts). Used by /api/leaderboards.
+import { activityDay, addDays, weekdayOf } from './streaks.js';
+
+// Anti-abuse: the answer key is revealed when a quiz is submitted, so the improvement XP of a retake taken
+// sooner than this after the previous attempt of the same quiz does not count on the leaderboards.
+// Completing an exercise again earns nothing in the first place (each ledger reason counts once per exercise).
+export const RETAKE_MIN_INTERVAL_HOURS = 24;
+
+export const LEADERBOARD_PAGE_SIZE = 20;
+
+// Letters, digits, spaces, "-" and "_": no e-mail addresses or links.
+export const PSEUDONYM_PATTERN = /^[\p{L}\p{N}][\p{L}\p{N} _-]{1,22}[\p{L}\p{N}]$/u;
+
+/**
+ * Monday of the current week, Africa/Casablanca time ("YYYY-MM-DD").
+ */
+export const weekStart = (now: Date = new Date()): string => {
+    const today = activityDay(now);
+    return addDays(today, -weekdayOf(today));
+};
@@ -0,0 +1,118 @@
+// Mastery of skills and chapters, estimated from graded answers rather than from completion:
+// answer checks (/api/check-answer), quiz results and tutor steps. Computed by /api/mastery.
+import type {
+    CheckAnswerResponse, ChapterMastery, MasteryEstimate, MasteryLevel, MasteryReport, ReviewItemType, SkillMastery,
+} from '../types';
+
+export type MasterySource = 'answerCheck' | 'quiz' | 'tutor';
+
+// How much one graded answer counts. A tutor step is guided, so it says less than a free answer.
+export const MASTERY_SOURCE_WEIGHTS: Record<MasterySource, number> = { answerCheck: 1, quiz: 1, tutor: 0.5 };
+
+// An answer loses half of its weight every 30 days: recent work says more about the student now.
+export const MASTERY_HALF_LIFE_DAYS = 30;
+
+// Neutral prior, worth two answers: a single right answer is not enough to master a skill.
+const PRIOR_SCORE = 0.5;
+const PRIOR_WEIGHT = 2;
+
+// Lower bounds of the levels, on the 0-1 score.
+export const MASTERY_THRESHOLDS = { inProgress: 0.4, mastered: 0.75 };
+
+export const MASTERY_LEVEL_LABELS: Record<MasteryLevel, string> = {
+    notEvaluated: 'Non évalué',
+    toReview: 'À revoir',
+    inProgress: 'En cours',
+    mastered: 'Maîtrisé',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// One graded answer of the student on an exercise or a quiz question, scored from 0 to 1.
+export interface MasteryEvidence {
+    source: MasterySource;
+    type: ReviewItemType;
+    id: string;
+    score: number;
+    answeredAt: string;
+}
+
+// An exercise or a quiz question of the curriculum, with the skills it works on.
+export interface MasteryItem {
+    type: ReviewItemType;
+    id: string;
+    chapterId: string;
+    skills: string[];
+}
+
+/**
+ * Score of a checked answer: each part counts 1 if correct, 0.5 if partial, 0 if incorrect.
+ * Without detailed parts, the global verdict decides.
+ */
+export const answerCheckScore = (feedback: Pick<CheckAnswerResponse, 'is_globally_correct' | 'detailed_feedback'>): number => {
+    const parts = feedback.detailed_feedback ?? [];
+    if (parts.length === 0) return feedback.is_globally_correct ? 1 : 0;
+    const earned = parts.reduce((sum, part) => sum + (part.evaluation === 'correct' ? 1 : part.evaluation === 'partial' ? 0.5 : 0), 0);
+    return earned / parts.length;
+};
+
+export const masteryLevel = (score: number, evidenceCount: number): MasteryLevel => {
+    if (evidenceCount === 0) return 'notEvaluated';
+    if (score >= MASTERY_THRESHOLDS.mastered) return 'mastered';
+    return score >= MASTERY_THRESHOLDS.inProgress ? 'inProgress' : 'toReview';
+};
+
+/**
+ * Recency-weighted average of the scores, pulled towards the neutral prior while there is little evidence.
+ */
+export const estimateMastery = (evidence: MasteryEvidence[], now = Date.now()): MasteryEstimate => {
+    let weightedScores = PRIOR_SCORE * PRIOR_WEIGHT;
+    let weights = PRIOR_WEIGHT;
+    for (const answer of evidence) {
+        const ageInDays = Math.max(0, (now - new Date(answer.answeredAt).getTime()) / DAY_MS);
+        const weight = MASTERY_SOURCE_WEIGHTS[answer.source] * Math.pow(0.5, ageInDays / MASTERY_HALF_LIFE_DAYS);
+        weightedScores += weight * answer.score;
+        weights += weight;
+    }
+    const score = evidence.length > 0 ? Math.round((weightedScores / weights) * 100) / 100 : 0;
+    return { score, evidenceCount: evidence.length, level: masteryLevel(score, evidence.length) };
+};
+
+const itemKey = (type: ReviewItemType, id: string) => `${type}:${id}`;
+
+const skillMasteries = (items: MasteryItem[], evidenceByItem: Map<string, MasteryEvidence[]>, now: number): SkillMastery[] => {
+    const evidenceBySkill = new Map<string, MasteryEvidence[]>();
+    for (const item of items) {
+        for (const skill of item.skills) {
+            const evidence = evidenceBySkill.get(skill) ?? [];
+            evidence.push(...(evidenceByItem.get(itemKey(item.type, item.id)) ?? []));
+            evidenceBySkill.set(skill, evidence);
+        }
+    }
+    return [...evidenceBySkill.entries()]
+        .map(([skill, evidence]) => ({ skill, ...estimateMastery(evidence, now) }))
+        .sort((a, b) => a.skill.localeCompare(b.skill, 'fr'));
+};
+
+/**
+ * Mastery of every skill tagged in the curriculum, and of every chapter (all of its exercises and
+ * questions, tagged or not). Evidence on items that are no longer in `items` is ignored.
+ */
+export const buildMasteryReport = (items: MasteryItem[], evidence: MasteryEvidence[], now = Date.now()): MasteryReport => {
+    const evidenceByItem = new Map<string, MasteryEvidence[]>();
+    for (const answer of evidence) {
+        const key = itemKey(answer.type, answer.id);
+        evidenceByItem.set(key, [...(evidenceByItem.get(key) ?? []), answer]);
+    }
+
+    const itemsByChapter = new Map<string, MasteryItem[]>();
+    items.forEach(item => itemsByChapter.set(item.chapterId, [...(itemsByChapter.get(item.chapterId) ?? []), item]));
+
+    const chapters: ChapterMastery[] = [...itemsByChapter.entries()].map(([chapterId, chapterItems]) => ({
+        chapterId,
+        ...estimateMastery(chapterItems.flatMap(item => evidenceByItem.get(itemKey(item.type, item.id)) ?? []), now),
+        skills: skillMasteries(chapterItems, evidenceByItem, now),
+    }));
+
+    return { skills: skillMasteries(items, evidenceByItem, now), chapters };
+};
@@ -0,0 +1,329 @@
+// Parser and evaluator for the LaTeX written by MathKeyboard / MathQuill (\frac, \sqrt, ^, \cdot,
+// \left( \right), \sin, \ln...). Used to grade numeric and symbolic quiz answers on the server.
+
+type Expr =
+    | { kind: 'num'; value: number }
+    | { kind: 'var'; name: string }
+    | { kind: 'neg'; arg: Expr }
+    | { kind: 'bin'; op: '+' | '-' | '*' | '/' | '^'; left: Expr; right: Expr }
+    | { kind: 'fn'; name: string; arg: Expr }
+    | { kind: 'root'; degree: Expr; arg: Expr };
+
+type Token =
+    | { t: 'num'; value: number }
+    | { t: 'id'; name: string }   // A variable letter
+    | { t: 'cmd'; name: string }  // A LaTeX command, without its backslash
+    | { t: 'sym'; value: string };
+
+const FUNCTIONS = ['arcsin', 'arccos', 'arctan', 'sinh', 'cosh', 'tanh', 'sin', 'cos', 'tan', 'cot', 'exp', 'ln', 'log'];
+const IGNORED_COMMANDS = new Set(['left', 'right', 'displaystyle', ',', ';', ':', '!', ' ', 'quad', 'qquad']);
+
+export class MathSyntaxError extends Error {}
+
+const tokenize = (input: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < input.length) {
+        const c = input[i];
+        if (/\s/.test(c)) { i++; continue; }
+        if (c === '\\') {
+            const name = /^[a-zA-Z]+/.exec(input.slice(i + 1))?.[0] ?? input[i + 1] ?? '';
+            i += 1 + name.length;
+            if (IGNORED_COMMANDS.has(name)) continue;
+            if (name === '{' || name === '}') { tokens.push({ t: 'sym', value: name === '{' ? '(' : ')' }); continue; }
+            if (name === 'cdot' || name === 'times') { tokens.push({ t: 'sym', value: '*' }); continue; }
+            if (name === 'div') { tokens.push({ t: 'sym', value: '/' }); continue; }
+            if (name === 'operatorname') continue; // \operatorname{sin} is followed by the name as letters
+            tokens.push({ t: 'cmd', name });
+            continue;
+        }
+        // Decimal separator: a dot, or a comma between two digits (French notation).
+        const number = /^(\d+([.,]\d+)?|[.,]\d+)/.exec(input.slice(i));
+        if (number) {
+            tokens.push({ t: 'num', value: Number(number[0].replace(',', '.')) });
+            i += number[0].length;
+            continue;
+        }
+        if (/[a-zA-Z]/.test(c)) {
+            const fn = FUNCTIONS.find(name => input.startsWith(name, i));
+            if (fn) { tokens.push({ t: 'cmd', name: fn }); i += fn.length; continue; }
+            if (input.startsWith('sqrt', i)) { tokens.push({ t: 'cmd', name: 'sqrt' }); i += 4; continue; }
+            if (input.startsWith('pi', i)) { tokens.push({ t: 'cmd', name: 'pi' }); i += 2; continue; }
+            tokens.push({ t: 'id', name: c });
+            i++;
+            continue;
+        }
+        if ('+-*/^()[]{}|_'.includes(c)) { tokens.push({ t: 'sym', value: c }); i++; continue; }
+        if (c === '−' || c === '×' || c === '÷' || c === '·') {
+            tokens.push({ t: 'sym', value: c === '−' ? '-' : c === '÷' ? '/' : '*' });
+            i++;
+            continue;
+        }
+        throw new MathSyntaxError(`Caractère non reconnu : ${c}`);
+    }
+    return tokens;
+};
+
+class Parser {
+    private pos = 0;
+    private absDepth = 0;
+
+    constructor(private readonly tokens: Token[]) {}
+
+    parse(): Expr {
+        const expr = this.expression();
+        if (this.pos < this.tokens.length) throw new MathSyntaxError("Expression mal formée.");
+        return expr;
+    }
+
+    private peek(): Token | undefined { return this.tokens[this.pos]; }
+
+    private isSym(value: string, token = this.peek()): boolean { return token?.t === 'sym' && token.value === value; }
+
+    private expect(value: string) {
+        if (!this.isSym(value)) throw new MathSyntaxError(`« ${value} » attendu.`);
+        this.pos++;
+    }
+
+    private expression(): Expr {
+        let left = this.term();
+        while (this.isSym('+') || this.isSym('-')) {
+            const op = (this.tokens[this.pos++] as { value: '+' | '-' }).value;
+            left = { kind: 'bin', op, left, right: this.term() };
+        }
+        return left;
+    }
+
+    // A product; juxtaposition (2x, 3\pi, x(x+1)) is an implicit multiplication.
+    private term(): Expr {
+        let left = this.unary();
+        for (;;) {
+            if (this.isSym('*') || this.isSym('/')) {
+                const op = (this.tokens[this.pos++] as { value: '*' | '/' }).value;
+                left = { kind: 'bin', op, left, right: this.unary() };
+            } else if (this.startsOperand()) {
+                left = { kind: 'bin', op: '*', left, right: this.power() };
+            } else {
+                return left;
+            }
+        }
+    }
+
+    private startsOperand(): boolean {
+        const token = this.peek();
+        if (!token) return false;
+        if (token.t !== 'sym') return true;
+        if (token.value === '|') return this.absDepth === 0;
+        return token.value === '(' || token.value === '[' || token.value === '{';
+    }
+
+    private unary(): Expr {
+        if (this.isSym('-')) { this.pos++; return { kind: 'neg', arg: this.unary() }; }
+        if (this.isSym('+')) { this.pos++; return this.unary(); }
+        return this.power();
+    }
+
+    private power(): Expr {
+        const base = this.primary();
+        if (!this.isSym('^')) return base;
+        this.pos++;
+        return { kind: 'bin', op: '^', left: base, right: this.exponent() };
+    }
+
+    // x^{...}, x^2, x^-1 and x^2^3 (right associative).
+    private exponent(): Expr {
+        if (this.isSym('-')) { this.pos++; return { kind: 'neg', arg: this.exponent() }; }
+        return this.power();
+    }
+
+    // A braced group, or a single operand (\frac12, \sqrt2).
+    private argument(): Expr {
+        if (this.isSym('{')) {
+            this.pos++;
+            const expr = this.expression();
+            this.expect('}');
+            return expr;
+        }
+        return this.primary();
+    }
+
+    private primary(): Expr {
+        const token = this.tokens[this.pos++];
+        if (!token) throw new MathSyntaxError("Expression incomplète.");
+        switch (token.t) {
+            case 'num':
+                return { kind: 'num', value: token.value };
+            case 'id': {
+                let name = token.name;
+                if (this.isSym('_')) { // Subscript: x_1, u_{n}
+                    this.pos++;
+                    const sub = this.tokens[this.pos++];
+                    if (sub?.t === 'num' || sub?.t === 'id') name += `_${sub.t === 'num' ? sub.value : sub.name}`;
+                    else if (sub && this.isSym('{', sub)) {
+                        const parts: string[] = [];
+                        while (this.peek() && !this.isSym('}')) {
+                            const part = this.tokens[this.pos++];
+                            parts.push(part.t === 'num' ? String(part.value) : part.t === 'sym' ? part.value : part.name);
+                        }
+                        this.expect('}');
+                        name += `_${parts.join('')}`;
+                    } else throw new MathSyntaxError("Indice mal formé.");
+                }
+                if (name === 'e') return { kind: 'num', value: Math.E };
+                return { kind: 'var', name };
+            }
+            case 'cmd':
+                return this.command(token.name);
+            case 'sym': {
+                const close = token.value === '(' ? ')' : token.value === '[' ? ']' : token.value === '{' ? '}' : token.value === '|' ? '|' : null;
+                if (!close) throw new MathSyntaxError(`« ${token.value} » inattendu.`);
+                if (close === '|') this.absDepth++;
+                const inner = this.expression();
+                this.expect(close);
+                if (close === '|') { this.absDepth--; return { kind: 'fn', name: 'abs', arg: inner }; }
+                return inner;
+            }
+        }
+    }
+
+    private command(name: string): Expr {
+        if (name === 'pi') return { kind: 'num', value: Math.PI };
+        if (name === 'frac' || name === 'dfrac' || name === 'tfrac') {
+            const numerator = this.argument();
+            return { kind: 'bin', op: '/', left: numerator, right: this.argument() };
+        }
+        if (name === 'sqrt') {
+            let degree: Expr = { kind: 'num', value: 2 };
+            if (this.isSym('[')) {
+                this.pos++;
+                degree = this.expression();
+                this.expect(']');
+            }
+            return { kind: 'root', degree, arg: this.argument() };
+        }
+        if (FUNCTIONS.includes(name)) {
+            // \sin^2 x = (\sin x)^2
+            let exponent: Expr | null = null;
+            if (this.isSym('^')) { this.pos++; exponent = this.exponent(); }
+            const arg = this.isSym('(') || this.isSym('{') || this.isSym('[') ? this.primary() : this.power();
+            const call: Expr = { kind: 'fn', name, arg };
+            return exponent ? { kind: 'bin', op: '^', left: call, right: exponent } : call;
+        }
+        throw new MathSyntaxError(`Commande non prise en charge : \\${name}`);
+    }
+}
+
+const applyFunction = (name: string, x: number): number => {
+    switch (name) {
+        case 'sin': return Math.sin(x);
+        case 'cos': return Math.cos(x);
+        case 'tan': return Math.tan(x);
+        case 'cot': return 1 / Math.tan(x);
+        case 'arcsin': return Math.asin(x);
+        case 'arccos': return Math.acos(x);
+        case 'arctan': return Math.atan(x);
+        case 'sinh': return Math.sinh(x);
+        case 'cosh': return Math.cosh(x);
+        case 'tanh': return Math.tanh(x);
+        case 'exp': return Math.exp(x);
+        case 'ln': return Math.log(x);
+        case 'log': return Math.log10(x);
+        case 'abs': return Math.abs(x);
+        default: return NaN;
+    }
+};
+
+const evaluate = (expr: Expr, vars: Record<string, number>): number => {
+    switch (expr.kind) {
+        case 'num': return expr.value;
+        case 'var': return vars[expr.name] ?? NaN;
+        case 'neg': return -evaluate(expr.arg, vars);
+        case 'fn': return applyFunction(expr.name, evaluate(expr.arg, vars));
+        case 'root': {
+            const n = evaluate(expr.degree, vars);
+            const x = evaluate(expr.arg, vars);
+            // Odd roots of negative numbers are real: \sqrt[3]{-8} = -2.
+            return x < 0 && Number.isInteger(n) && n % 2 === 1 ? -Math.pow(-x, 1 / n) : Math.pow(x, 1 / n);
+        }
+        case 'bin': {
+            const a = evaluate(expr.left, vars);
+            const b = evaluate(expr.right, vars);
+            switch (expr.op) {
+                case '+': return a + b;
+                case '-': return a - b;
+                case '*': return a * b;
+                case '/': return a / b;
+                case '^': return Math.pow(a, b);
+            }
+        }
+    }
+};
+
+const collectVariables = (expr: Expr, into: Set<string>): Set<string> => {
+    switch (expr.kind) {
+        case 'var': into.add(expr.name); break;
+        case 'neg': case 'fn': collectVariables(expr.arg, into); break;
+        case 'root': collectVariables(expr.degree, into); collectVariables(expr.arg, into); break;
+        case 'bin': collectVariables(expr.left, into); collectVariables(expr.right, into); break;
+    }
+    return into;
+};
+
+/**
+ * Parses a LaTeX expression. Throws a `MathSyntaxError` if it cannot be read.
+ */
+export const parseMath = (latex: string): Expr => new Parser(tokenize(latex)).parse();
+
+/**
+ * Value of a LaTeX expression without variables ("3,5", "\frac{1}{3}", "2\sqrt{2}"...), or null if it
+ * cannot be read or contains a variable.
+ */
+export const evaluateConstant = (latex: string): number | null => {
+    try {
+        const expr = parseMath(latex);
+        if (collectVariables(expr, new Set()).size > 0) return null;
+        const value = evaluate(expr, {});
+        return Number.isFinite(value) ? value : null;
+    } catch {
+        return null;
+    }
+};
+
+const closeEnough = (a: number, b: number) => Math.abs(a - b) <= 1e-7 * Math.max(1, Math.abs(a), Math.abs(b));
+
+// Positive, irregular sample points: they stay inside the domain of \ln and \sqrt and avoid
+// the special values (0, 1, multiples of pi) where different expressions often coincide.
+const SAMPLES = [0.37, 1.21, 2.53, 0.81, 1.77, 2.93, 0.59, 1.43, 3.31, 0.23];
+const MIN_VALID_SAMPLES = 4;
+
+/**
+ * Tells whether two LaTeX expressions are equal, by evaluating them at the same sample points
+ * (e.g. "2(x+1)" and "2x+2", or "\frac{1}{\sqrt{2}}" and "\frac{\sqrt{2}}{2}").
+ * An expression that cannot be read is never equivalent.
+ */
+export const areEquivalent = (latexA: string, latexB: string): boolean => {
+    let a: Expr, b: Expr;
+    try {
+        a = parseMath(latexA);
+        b = parseMath(latexB);
+    } catch {
+        return false;
+    }
+    const names = [...collectVariables(b, collectVariables(a, new Set()))].sort();
+    if (names.length === 0) {
+        const [x, y] = [evaluate(a, {}), evaluate(b, {})];
+        return Number.isFinite(x) && Number.isFinite(y) && closeEnough(x, y);
+    }
+
+    let valid = 0;
+    for (let i = 0; i < SAMPLES.length; i++) {
+        const vars = Object.fromEntries(names.map((name, j) => [name, SAMPLES[(i + 3 * j) % SAMPLES.length] + 0.1 * j]));
+        const [x, y] = [evaluate(a, vars), evaluate(b, vars)];
+        const [xOk, yOk] = [Number.isFinite(x), Number.isFinite(y)];
+        if (xOk !== yOk) return false;
+        if (!xOk) continue;
+        if (!closeEnough(x, y)) return false;
+        valid++;
+    }
+    return valid >= MIN_VALID_SAMPLES;
+};
@@ -0,0 +1,114 @@
+// Mock Bac exams: assembly of a subject from a level, marks out of 20 and mentions.
+// Shared by /api/mock-exams (which builds and grades the exam) and the exam page.
+import type { Level, MockExam, MockExamFormat, MockExamItem, CheckAnswerResponse } from '../types';
+import { answerCheckScore } from './mastery.js';
+
+export const MOCK_EXAM_FORMATS: Record<MockExamFormat, { label: string; durationMinutes: number; exercises: number; quizQuestions: number; quizPoints: number }> = {
+    short: { label: 'Entraînement (1 h)', durationMinutes: 60, exercises: 2, quizQuestions: 4, quizPoints: 4 },
+    bac: { label: 'Sujet complet (3 h)', durationMinutes: 180, exercises: 4, quizQuestions: 8, quizPoints: 4 },
+};
+
+export const MOCK_EXAM_TOTAL = 20;
+
+// A copy handed in slightly after the end (network, auto-submit at 00:00) is still accepted.
+export const MOCK_EXAM_SUBMIT_GRACE_MS = 2 * 60 * 1000;
+
+// Marks are given to the quarter point, as on Bac copies.
+export const roundToQuarter = (value: number): number => Math.round(value * 4) / 4;
+
+const shuffled = <T>(items: T[], random: () => number): T[] => {
+    const copy = [...items];
+    for (let i = copy.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [copy[i], copy[j]] = [copy[j], copy[i]];
+    }
+    return copy;
+};
+
+/**
+ * Splits `total` points into `count` shares to the half point; the last share takes the rest.
+ */
+const splitPoints = (total: number, count: number): number[] => {
+    if (count === 0) return [];
+    const share = Math.floor((total / count) * 2) / 2;
+    return Array.from({ length: count }, (_, i) => (i === count - 1 ? total - share * (count - 1) : share));
+};
+
+/**
+ * Draws the subject of a mock exam: exercises from as many different chapters as possible,
+ * then quiz questions from across the level. Points add up to 20.
+ * @returns The items, exercises first. Empty if the level has no content.
+ */
+export const buildMockExamItems = (level: Level, format: MockExamFormat, random: () => number = Math.random): MockExamItem[] => {
+    const config = MOCK_EXAM_FORMATS[format];
+    const chapters = shuffled(level.chapters ?? [], random);
+
+    // One exercise per chapter, going round the chapters again if there are fewer chapters than exercises.
+    const pools = chapters.map(chapter => ({
+        chapterId: chapter.id,
+        exercises: shuffled((chapter.series ?? []).flatMap(series => series.exercises ?? []), random),
+    })).filter(pool => pool.exercises.length > 0);
+    const exercises: Omit<MockExamItem, 'points'>[] = [];
+    for (let round = 0; exercises.length < config.exercises && pools.some(pool => pool.exercises.length > round); round++) {
+        for (const pool of pools) {
+            if (exercises.length === config.exercises) break;
+            const exercise = pool.exercises[round];
+            if (exercise) exercises.push({ type: 'exercise', id: exercise.id, chapterId: pool.chapterId });
+        }
+    }
+
+    const questions: Omit<MockExamItem, 'points'>[] = shuffled(
+        chapters.flatMap(chapter => (chapter.quizzes ?? []).flatMap(quiz => quiz.questions.map(question => ({
+            type: 'quizQuestion' as const, id: question.id, chapterId: chapter.id,
+        })))),
+        random
+    ).slice(0, config.quizQuestions);
+
+    const quizPoints = exercises.length === 0 ? MOCK_EXAM_TOTAL : questions.length === 0 ? 0 : config.quizPoints;
+    const exercisePoints = splitPoints(MOCK_EXAM_TOTAL - quizPoints, exercises.length);
+    const questionPoints = splitPoints(quizPoints, questions.length).map(roundToQuarter);
+    return [
+        ...exercises.map((item, i) => ({ ...item, points: exercisePoints[i] })),
+        ...questions.map((item, i) => ({ ...item, points: questionPoints[i] })),
+    ];
+};
+
+/**
+ * Points obtained on an exercise from the /api/check-answer feedback: each part counts
+ * equally, a partial answer for half.
+ */
+export const exerciseScore = (feedback: CheckAnswerResponse, points: number): number =>
+    roundToQuarter(answerCheckScore(feedback) * points);
+
+/**
+ * Whether the student is sitting the exam: not handed in and not past its end.
+ */
+export const isMockExamRunning = (exam: Pick<MockExam, 'submitted_at' | 'ends_at'>, now = Date.now()): boolean =>
+    !exam.submitted_at && now < new Date(exam.ends_at).getTime();
+
+/**
+ * Mark of a handed-in exam. `complete` is false while some exercises are still being graded.
+ */
+export const mockExamMark = (exam: MockExam): { mark: number; complete: boolean } => {
+    const results = exam.results ?? [];
+    return {
+        mark: roundToQuarter(results.reduce((sum, result) => sum + (result?.score ?? 0), 0)),
+        complete: results.length === exam.items.length && results.every(result => result !== null),
+    };
+};
+
+/**
+ * Mention of the Moroccan baccalauréat for a mark out of 20.
+ */
+export const mockExamMention = (mark: number): string => {
+    if (mark >= 16) return 'Très bien';
+    if (mark >= 14) return 'Bien';
+    if (mark >= 12) return 'Assez bien';
+    if (mark >= 10) return 'Passable';
+    return 'Insuffisant';
+};
+
+/**
+ * A mark in the French notation: 12,75.
+ */
+export const formatMark = (mark: number): string => mark.toLocaleString('fr-FR', { maximumFractionDigits: 2 });
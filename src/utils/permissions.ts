@@ -0,0 +1,34 @@
+// Role-based access control shared by the frontend and the serverless functions.
+// The same mapping is mirrored in SQL by `public.has_permission()` (see authService.ts) for RLS policies.
+import type { Role, Permission } from '../types';
+
+export const ROLES: Role[] = ['student', 'teacher', 'content_editor', 'admin'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+    student: 'Élève',
+    teacher: 'Enseignant',
+    content_editor: 'Éditeur de contenu',
+    admin: 'Administrateur',
+};
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+    student: [],
+    teacher: ['classrooms.manage'],
+    content_editor: ['curriculum.edit'],
+    admin: ['curriculum.edit', 'students.view', 'classrooms.manage', 'roles.manage'],
+};
+
+/**
+ * Normalises a role read from the database: unknown or missing values fall back to `student`.
+ */
+export const toRole = (value: unknown): Role =>
+    ROLES.includes(value as Role) ? (value as Role) : 'student';
+
+/**
+ * Tells whether a user (or a bare role) holds a permission. A null user holds none.
+ */
+export const hasPermission = (subject: { role: Role } | Role | null | undefined, permission: Permission): boolean => {
+    if (!subject) return false;
+    const role = typeof subject === 'string' ? subject : subject.role;
+    return ROLE_PERMISSIONS[role].includes(permission);
+};
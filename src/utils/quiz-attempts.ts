@@ -0,0 +1,39 @@
+// Quiz retake rules and score summaries, shared by the frontend and the serverless functions.
+import type { UserQuizAttempt, QuizAttemptSummary } from '../types';
+
+// Retakes allowed per quiz (first attempt included); null = unlimited.
+export const MAX_QUIZ_ATTEMPTS: number | null = null;
+
+const percentage = (attempt: UserQuizAttempt) =>
+    attempt.total_questions > 0 ? Math.round(attempt.score / attempt.total_questions * 100) : 0;
+
+/**
+ * Tells whether the student may take the quiz again.
+ */
+export const canRetake = (attemptCount: number): boolean =>
+    MAX_QUIZ_ATTEMPTS === null || attemptCount < MAX_QUIZ_ATTEMPTS;
+
+/**
+ * Groups attempts by quiz (the order of the attempts does not matter).
+ * @returns One summary per quiz that has at least one attempt.
+ */
+export const summarizeAttempts = (attempts: UserQuizAttempt[]): Map<string, QuizAttemptSummary> => {
+    const byQuiz = new Map<string, UserQuizAttempt[]>();
+    for (const attempt of attempts) {
+        byQuiz.set(attempt.quiz_id, [...(byQuiz.get(attempt.quiz_id) ?? []), attempt]);
+    }
+    const summaries = new Map<string, QuizAttemptSummary>();
+    for (const [quizId, list] of byQuiz) {
+        const sorted = [...list].sort((a, b) => a.taken_at.localeCompare(b.taken_at));
+        const scores = sorted.map(percentage);
+        summaries.set(quizId, {
+            quiz_id: quizId,
+            attempts: sorted.length,
+            best: Math.max(...scores),
+            last: scores[scores.length - 1],
+            average: Math.round(scores.reduce((sum, s) => sum + s, 0) / scores.length),
+            last_taken_at: sorted[sorted.length - 1].taken_at,
+        });
+    }
+    return summaries;
+};
@@ -0,0 +1,107 @@
+// Grading of every quiz question type. Run by /api/submit-quiz; the client only uses the
+// formatting helpers, since the answer key is not part of the public curriculum.
+import type { QuizAnswer, QuizAnswerKey, QuizQuestion, QuizQuestionResult, QuizQuestionType, UserQuizAttempt } from '../types';
+import { areEquivalent, evaluateConstant } from './math-expression.js';
+
+export const QUIZ_QUESTION_TYPES: QuizQuestionType[] = ['single', 'multiple', 'numeric', 'symbolic', 'ordering', 'trueFalse'];
+
+export const QUIZ_QUESTION_TYPE_LABELS: Record<QuizQuestionType, string> = {
+    single: 'Choix unique',
+    multiple: 'Choix multiples',
+    numeric: 'Réponse numérique',
+    symbolic: 'Expression (LaTeX)',
+    ordering: 'Remise en ordre',
+    trueFalse: 'Vrai / Faux',
+};
+
+export const TRUE_FALSE_OPTIONS = ['Vrai', 'Faux'];
+
+// Fields removed from the curriculum served to students (see `toPublicCurriculum`), and sent back
+// by /api/submit-quiz once the quiz is graded. The explanation gives the answer away too.
+export const ANSWER_KEY_FIELDS: (keyof QuizAnswerKey)[] = ['correctAnswerIndex', 'correctAnswerIndices', 'numericAnswer', 'expectedLatex', 'correctOrder', 'explanation'];
+
+export const questionType = (question: Pick<QuizQuestion, 'type'>): QuizQuestionType => question.type ?? 'single';
+
+export const answerKeyOf = (question: QuizQuestion): QuizAnswerKey =>
+    Object.fromEntries(ANSWER_KEY_FIELDS.filter(field => question[field] !== undefined).map(field => [field, question[field]]));
+
+const sameSet = (a: number[], b: number[]) => {
+    const expected = new Set(b);
+    return a.length === expected.size && new Set(a).size === a.length && a.every(value => expected.has(value));
+};
+
+/**
+ * Value typed by a student for a numeric question: "3,5", "-2", "1/3" or "\frac{1}{3}". Null if unreadable.
+ */
+export const parseNumericAnswer = (text: string): number | null => text.trim() === '' ? null : evaluateConstant(text.trim());
+
+/**
+ * Tells whether an answer is right. A skipped question (null), or an answer of the wrong shape, is wrong.
+ */
+export const isAnswerCorrect = (question: QuizQuestion, answer: QuizAnswer): boolean => {
+    if (answer === null) return false;
+    switch (questionType(question)) {
+        case 'single':
+        case 'trueFalse':
+            return typeof answer === 'number' && answer === question.correctAnswerIndex;
+        case 'multiple':
+            return Array.isArray(answer) && !!question.correctAnswerIndices && sameSet(answer, question.correctAnswerIndices);
+        case 'ordering':
+            return Array.isArray(answer) && !!question.correctOrder
+                && answer.length === question.correctOrder.length
+                && answer.every((option, i) => option === question.correctOrder![i]);
+        case 'numeric': {
+            if (typeof answer !== 'string' || !question.numericAnswer) return false;
+            const value = parseNumericAnswer(answer);
+            const { value: expected, tolerance } = question.numericAnswer;
+            // The small margin absorbs floating point error when the tolerance is 0.
+            return value !== null && Math.abs(value - expected) <= tolerance + 1e-9 * Math.max(1, Math.abs(expected));
+        }
+        case 'symbolic':
+            return typeof answer === 'string' && !!question.expectedLatex && areEquivalent(answer, question.expectedLatex);
+    }
+};
+
+/**
+ * Per-question results of an attempt. Attempts recorded before `question_results` existed are
+ * regraded with the current answer key, if the quiz still has the same number of questions.
+ * @param questions The questions of the quiz, answer keys included, in quiz order.
+ */
+export const attemptQuestionResults = (attempt: Pick<UserQuizAttempt, 'answers' | 'question_results'>, questions: QuizQuestion[]): QuizQuestionResult[] => {
+    if (attempt.question_results) return attempt.question_results;
+    const answers = attempt.answers;
+    if (!Array.isArray(answers) || answers.length !== questions.length) return [];
+    return questions.map((question, i) => ({ question_id: question.id, correct: isAnswerCorrect(question, answers[i] ?? null) }));
+};
+
+/**
+ * Markdown of an answer for the result screens (to render with `processMarkdownWithMath`).
+ * `options` is the list shown with the question.
+ */
+export const formatAnswer = (type: QuizQuestionType, options: string[] | undefined, answer: QuizAnswer | undefined): string => {
+    if (answer === null || answer === undefined || (Array.isArray(answer) && answer.length === 0)) return 'Sans réponse';
+    const label = (index: number) => (type === 'trueFalse' ? TRUE_FALSE_OPTIONS : options ?? [])[index] ?? '?';
+    if (typeof answer === 'string') return type === 'symbolic' ? `$${answer}$` : answer;
+    if (typeof answer === 'number') return label(answer);
+    return answer.map(label).join(type === 'ordering' ? ' → ' : ', ');
+};
+
+/**
+ * Markdown of the expected answer, from the answer key returned by /api/submit-quiz.
+ */
+export const formatSolution = (type: QuizQuestionType, options: string[] | undefined, key: QuizAnswerKey): string => {
+    switch (type) {
+        case 'single':
+        case 'trueFalse':
+            return formatAnswer(type, options, key.correctAnswerIndex ?? null);
+        case 'multiple':
+            return formatAnswer(type, options, key.correctAnswerIndices ?? null);
+        case 'ordering':
+            return formatAnswer(type, options, key.correctOrder ?? null);
+        case 'numeric':
+            if (!key.numericAnswer) return '?';
+            return `${key.numericAnswer.value}${key.numericAnswer.tolerance > 0 ? ` (± ${key.numericAnswer.tolerance})` : ''}`;
+        case 'symbolic':
+            return key.expectedLatex ? `$${key.expectedLatex}$` : '?';
+    }
+};
@@ -0,0 +1,129 @@
+// "What should I do next": picks the next exercise, quiz or video from the student's history
+// (completed exercises, quiz scores) and mastery. Computed by /api/recommendations.
+import type {
+    Chapter, Level, MasteryReport, QuizAttemptSummary, Recommendation, RecommendationReason, RecommendationTarget,
+} from '../types';
+import { LocatedItem, listItems } from './curriculum-tree.js';
+
+// Below this best score, a quiz is not considered passed: it comes back as a retake.
+export const QUIZ_PASS_PERCENTAGE = 70;
+
+export const MAX_RECOMMENDATIONS = 3;
+
+export const RECOMMENDATION_REASON_LABELS: Record<RecommendationReason, string> = {
+    continue: 'Dans la suite de votre travail',
+    chapterQuiz: 'Testez vos acquis sur le chapitre',
+    nextChapter: 'Nouveau chapitre : commencez par la vidéo',
+    startLevel: 'Pour bien commencer',
+    weakChapter: 'Chapitre à consolider',
+    quizRetake: 'Améliorez votre score',
+};
+
+export interface StudyHistory {
+    completedExercises: Map<string, string>;        // Exercise ID -> completed_at
+    quizSummaries: Map<string, QuizAttemptSummary>; // See summarizeAttempts
+}
+
+const isDone = (item: LocatedItem, history: StudyHistory): boolean => item.ref.type === 'exercise'
+    ? history.completedExercises.has(item.ref.id)
+    : (history.quizSummaries.get(item.ref.id)?.best ?? 0) >= QUIZ_PASS_PERCENTAGE;
+
+const isStarted = (chapter: Chapter, items: LocatedItem[], history: StudyHistory): boolean =>
+    items.some(item => item.chapter.id === chapter.id && (item.ref.type === 'exercise'
+        ? history.completedExercises.has(item.ref.id)
+        : history.quizSummaries.has(item.ref.id)));
+
+// The exercise or quiz the student worked on last.
+const lastWorkedOn = (items: LocatedItem[], history: StudyHistory): LocatedItem | null => {
+    let last: { item: LocatedItem; at: string } | null = null;
+    for (const item of items) {
+        const at = item.ref.type === 'exercise'
+            ? history.completedExercises.get(item.ref.id)
+            : history.quizSummaries.get(item.ref.id)?.last_taken_at;
+        if (at && (!last || new Date(at).getTime() > new Date(last.at).getTime())) last = { item, at };
+    }
+    return last?.item ?? null;
+};
+
+const toRecommendation = (item: LocatedItem, reason: RecommendationReason): Recommendation => ({
+    target: item.ref,
+    reason,
+    title: item.title,
+    levelId: item.level.id,
+    chapterId: item.chapter.id,
+    chapterTitle: item.chapter.title,
+});
+
+// The first video of a chapter, or null if it has none.
+const videoOf = (level: Level, chapter: Chapter, reason: RecommendationReason): Recommendation | null => {
+    const video = chapter.videoLinks?.[0];
+    return video
+        ? { target: { type: 'video', id: video.id }, reason, title: video.title, levelId: level.id, chapterId: chapter.id, chapterTitle: chapter.title }
+        : null;
+};
+
+const targetKey = (target: RecommendationTarget) => `${target.type}:${target.id}`;
+
+/**
+ * Proposes what to do next, most relevant first:
+ * 1. the next unfinished item of the level after the last one worked on (or after `afterExerciseId`),
+ *    starting with the lesson video when it opens a chapter that has not been started;
+ * 2. an unfinished exercise of the weakest chapter of the level (its video once they are all done);
+ * 3. the quiz of the level with the lowest best score under `QUIZ_PASS_PERCENTAGE`.
+ * The student's level is the level of the item they worked on last.
+ * @param afterExerciseId The exercise just completed, if the student comes from it.
+ */
+export const recommendNext = (
+    curriculum: Level[],
+    history: StudyHistory,
+    mastery: MasteryReport | null,
+    afterExerciseId?: string,
+): Recommendation[] => {
+    const items = listItems(curriculum);
+    if (items.length === 0) return [];
+
+    const anchor = (afterExerciseId && items.find(item => item.ref.type === 'exercise' && item.ref.id === afterExerciseId)) || lastWorkedOn(items, history);
+    const level = anchor?.level ?? items[0].level;
+    const levelItems = items.filter(item => item.level.id === level.id);
+    const recommendations: Recommendation[] = [];
+
+    // 1. Continue where the student left off, wrapping around to the start of the level.
+    const start = anchor ? levelItems.indexOf(anchor) + 1 : 0;
+    const next = [...levelItems.slice(start), ...levelItems.slice(0, start)].find(item => !isDone(item, history));
+    if (next) {
+        if (!anchor) {
+            recommendations.push(videoOf(level, next.chapter, 'startLevel') ?? toRecommendation(next, 'startLevel'));
+        } else if (next.chapter.id !== anchor.chapter.id && !isStarted(next.chapter, items, history)) {
+            recommendations.push(videoOf(level, next.chapter, 'nextChapter') ?? toRecommendation(next, 'nextChapter'));
+        } else {
+            recommendations.push(toRecommendation(next, next.ref.type === 'quiz' ? 'chapterQuiz' : 'continue'));
+        }
+    }
+
+    // 2. Consolidate the weakest chapter of the level.
+    const weakest = (mastery?.chapters ?? [])
+        .filter(chapter => chapter.level === 'toReview' && level.chapters.some(c => c.id === chapter.chapterId))
+        .sort((a, b) => a.score - b.score)[0];
+    if (weakest) {
+        const chapter = level.chapters.find(c => c.id === weakest.chapterId)!;
+        const exercise = levelItems.find(item => item.chapter.id === chapter.id && item.ref.type === 'exercise' && !isDone(item, history));
+        const recommendation = exercise ? toRecommendation(exercise, 'weakChapter') : videoOf(level, chapter, 'weakChapter');
+        if (recommendation) recommendations.push(recommendation);
+    }
+
+    // 3. Retake the quiz with the lowest best score.
+    const retake = levelItems
+        .filter(item => item.ref.type === 'quiz' && history.quizSummaries.has(item.ref.id) && !isDone(item, history))
+        .sort((a, b) => history.quizSummaries.get(a.ref.id)!.best - history.quizSummaries.get(b.ref.id)!.best)[0];
+    if (retake) recommendations.push(toRecommendation(retake, 'quizRetake'));
+
+    const seen = new Set<string>();
+    return recommendations
+        .filter(recommendation => {
+            const key = targetKey(recommendation.target);
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        })
+        .slice(0, MAX_RECOMMENDATIONS);
+};
@@ -0,0 +1,95 @@
+// SM-2 spaced repetition of quiz questions and exercises. The schedule is not stored: /api/reviews
+// replays the student's history (quiz attempts, completed exercises, reviews) through `nextReviewState`.
+import type { ReviewItemType, ReviewRating, ReviewState } from '../types';
+import { activityDay } from './streaks.js';
+
+export const INITIAL_EASE_FACTOR = 2.5;
+export const MIN_EASE_FACTOR = 1.3;
+
+// Qualities on the SM-2 scale (0-5). Below 3, the item is learnt again from the start.
+export const CORRECT_ANSWER_QUALITY = 4;
+export const WRONG_ANSWER_QUALITY = 1;
+export const COMPLETED_EXERCISE_QUALITY = 4;
+
+export const REVIEW_RATING_QUALITY: Record<ReviewRating, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+export const REVIEW_RATING_LABELS: Record<ReviewRating, string> = {
+    again: 'À revoir',
+    hard: 'Difficile',
+    good: 'Bien',
+    easy: 'Facile',
+};
+
+// Size of the daily "Révision" session: the rest stays due for the following days.
+export const DAILY_REVIEW_QUESTIONS = 15;
+export const DAILY_REVIEW_EXERCISES = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// One graded interaction with an item, in the student's history.
+export interface ReviewEvent {
+    type: ReviewItemType;
+    id: string;
+    quality: number;
+    reviewedAt: string;
+}
+
+export const reviewKey = (type: ReviewItemType, id: string) => `${type}:${id}`;
+
+/**
+ * Applies one review to the scheduling state of an item (SM-2).
+ * @param previous The state before the review, or null for the first time the item is seen.
+ * @param quality How well it was recalled, from 0 (forgotten) to 5 (perfect).
+ */
+export const nextReviewState = (previous: ReviewState | null, quality: number, reviewedAt: string): ReviewState => {
+    const easeFactor = Math.max(
+        MIN_EASE_FACTOR,
+        (previous?.easeFactor ?? INITIAL_EASE_FACTOR) + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)
+    );
+    let repetitions: number;
+    let interval: number;
+    if (quality < 3) {
+        repetitions = 0;
+        interval = 1;
+    } else {
+        repetitions = (previous?.repetitions ?? 0) + 1;
+        interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round((previous?.interval ?? 1) * easeFactor);
+    }
+    return {
+        easeFactor: Math.round(easeFactor * 100) / 100,
+        interval,
+        repetitions,
+        lastReviewedAt: reviewedAt,
+        dueAt: new Date(new Date(reviewedAt).getTime() + interval * DAY_MS).toISOString(),
+    };
+};
+
+/**
+ * Replays a history, in any order, into the current state of each item. A success before the
+ * day the item is due (a quiz retaken the same day) does not lengthen the interval; a failure always counts.
+ * @returns The states keyed by `reviewKey`.
+ */
+export const buildReviewStates = (events: ReviewEvent[]): Map<string, ReviewState> => {
+    const states = new Map<string, ReviewState>();
+    const time = (date: string) => new Date(date).getTime();
+    const sorted = [...events].sort((a, b) => time(a.reviewedAt) - time(b.reviewedAt));
+    for (const event of sorted) {
+        const key = reviewKey(event.type, event.id);
+        const previous = states.get(key) ?? null;
+        if (previous && event.quality >= 3 && !isDueOn(previous, activityDay(event.reviewedAt))) continue;
+        states.set(key, nextReviewState(previous, event.quality, event.reviewedAt));
+    }
+    return states;
+};
+
+/**
+ * Whether an item is due on `day` ("YYYY-MM-DD", Africa/Casablanca time, see `activityDay`): it is due from the
+ * start of the day its due date falls on. Used both for today's review and when replaying the history.
+ */
+export const isDueOn = (state: Pick<ReviewState, 'dueAt'>, day: string): boolean => activityDay(state.dueAt) <= day;
+
+/**
+ * Days until the next review, for "Prochaine révision dans N jours".
+ */
+export const daysUntil = (state: Pick<ReviewState, 'dueAt'>, now = Date.now()): number =>
+    Math.max(0, Math.round((Date.parse(activityDay(state.dueAt)) - Date.parse(activityDay(new Date(now)))) / DAY_MS));
@@ -0,0 +1,89 @@
+// Daily goals and streaks: days are counted in Moroccan time, a day "counts" when its goal is met,
+// and streak freezes forgive a missed day. Computed by /api/streaks and the badge rules.
+import type { ActivityDay, DailyGoal, StreakSummary } from '../types';
+
+// A session at 00:30 belongs to the day that just started.
+export const ACTIVITY_TIME_ZONE = 'Africa/Casablanca';
+
+export const DEFAULT_DAILY_GOAL: DailyGoal = { exercises: 2, quizzes: 1 };
+
+// Streak freezes: one is earned every `FREEZE_EARNED_EVERY` days of streak, at most `MAX_FREEZES` in stock.
+// A missed day is covered by a freeze when one is available (the streak goes on without counting that
+// day), otherwise the streak restarts from zero. Freezes are derived from the history: nothing to buy or store.
+export const FREEZE_EARNED_EVERY = 7;
+export const MAX_FREEZES = 2;
+
+// Weeks shown by the activity heatmap.
+export const HEATMAP_WEEKS = 26;
+
+/**
+ * The calendar day ("YYYY-MM-DD") of a timestamp in `ACTIVITY_TIME_ZONE`.
+ */
+export const activityDay = (timestamp: string | Date): string =>
+    new Intl.DateTimeFormat('en-CA', { timeZone: ACTIVITY_TIME_ZONE, year: 'numeric', month: '2-digit', day: '2-digit' })
+        .format(new Date(timestamp));
+
+/**
+ * The day `count` days after (or before, if negative) a "YYYY-MM-DD" day.
+ */
+export const addDays = (day: string, count: number): string =>
+    new Date(Date.parse(`${day}T00:00:00Z`) + count * 86_400_000).toISOString().slice(0, 10);
+
+/**
+ * Day of the week of a "YYYY-MM-DD" day, from 0 (Monday) to 6 (Sunday).
+ */
+export const weekdayOf = (day: string): number => (new Date(`${day}T00:00:00Z`).getUTCDay() + 6) % 7;
+
+/**
+ * First day shown by the heatmap: the Monday `HEATMAP_WEEKS - 1` weeks before the current week.
+ */
+export const heatmapStart = (today: string): string => addDays(today, -weekdayOf(today) - (HEATMAP_WEEKS - 1) * 7);
+
+/**
+ * Counts completed exercises and quiz attempts per day.
+ * @returns The days with some activity, oldest first.
+ */
+export const countActivity = (exerciseTimestamps: string[], quizTimestamps: string[]): ActivityDay[] => {
+    const days = new Map<string, ActivityDay>();
+    const dayOf = (timestamp: string) => {
+        const date = activityDay(timestamp);
+        if (!days.has(date)) days.set(date, { date, exercises: 0, quizzes: 0 });
+        return days.get(date)!;
+    };
+    exerciseTimestamps.forEach(t => dayOf(t).exercises++);
+    quizTimestamps.forEach(t => dayOf(t).quizzes++);
+    return [...days.values()].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const isGoalMet = (day: ActivityDay | undefined, goal: DailyGoal): boolean =>
+    !!day && ((goal.exercises > 0 && day.exercises >= goal.exercises) || (goal.quizzes > 0 && day.quizzes >= goal.quizzes));
+
+/**
+ * Replays the history day by day up to `today` (see `FREEZE_EARNED_EVERY` for the freeze rules).
+ * Today only counts once its goal is met: not having met it yet does not break the streak.
+ * @param days Days with some activity (see countActivity).
+ */
+export const summarizeStreak = (days: ActivityDay[], goal: DailyGoal, today: string): StreakSummary => {
+    const byDate = new Map(days.map(day => [day.date, day]));
+    const summary: StreakSummary = { current: 0, longest: 0, freezesAvailable: 0, frozenDays: [] };
+    const first = days.find(day => isGoalMet(day, goal))?.date;
+    if (!first) return summary;
+
+    for (let date = first; date <= today; date = addDays(date, 1)) {
+        if (isGoalMet(byDate.get(date), goal)) {
+            summary.current++;
+            summary.longest = Math.max(summary.longest, summary.current);
+            if (summary.current % FREEZE_EARNED_EVERY === 0) {
+                summary.freezesAvailable = Math.min(MAX_FREEZES, summary.freezesAvailable + 1);
+            }
+        } else if (date === today) {
+            break;
+        } else if (summary.current > 0 && summary.freezesAvailable > 0) {
+            summary.freezesAvailable--;
+            summary.frozenDays.push(date);
+        } else {
+            summary.current = 0;
+        }
+    }
+    return summary;
+};
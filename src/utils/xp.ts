@@ -0,0 +1,71 @@
+// XP economy: what each activity earns (XP_RULES) and the level curve (LEVEL_CURVE), shared by the frontend and
+// the serverless functions. XP is granted by the server only, and each grant is recorded in the XP ledger
+// (see api/_lib/xp.ts); the browser only displays it.
+import type { ExerciseCompletionMethod, XpReason } from '../types';
+
+export const XP_RULES = {
+    // Completing an exercise, by difficulty (1 = very easy, 5 = very hard); `exerciseDefault` when it has none.
+    exerciseByDifficulty: { 1: 15, 2: 20, 3: 25, 4: 35, 5: 50 } as Record<number, number>,
+    exerciseDefault: 25,
+    // Share of that XP, by how the completion was earned.
+    exerciseByMethod: { verified: 1, tutor: 0.8, partial: 0.5, self_declared: 0.2 } as Record<ExerciseCompletionMethod, number>,
+    // Bonus when the first answer the student had checked (/api/check-answer) was entirely correct.
+    firstTryBonus: 15,
+    // First attempt of a quiz, whatever the score, plus `quizPerQuestion` per correct answer. A retake earns
+    // `quizPerQuestion` per question gained over the best score so far: a quiz is worth at most
+    // quizCompletion + quizPerQuestion * (number of questions). Applied by `public.record_quiz_attempt`.
+    quizCompletion: 30,
+    quizPerQuestion: 10,
+    // Socratic tutor dialogue taken to its last step, once per exercise.
+    tutorSession: 10,
+};
+
+// XP needed to go from level 1 to level 2; each next level needs `growth` times more than the previous one.
+export const LEVEL_CURVE = { firstLevelXp: 100, growth: 1.2 };
+
+export const XP_REASON_LABELS: Record<XpReason, string> = {
+    exercise_completed: 'Exercice terminé',
+    first_try_bonus: 'Réussi du premier coup',
+    quiz_completed: 'Quiz terminé',
+    quiz_improved: 'Meilleur score au quiz',
+    tutor_session: 'Séance avec le tuteur',
+};
+
+export const COMPLETION_METHOD_LABELS: Record<ExerciseCompletionMethod, string> = {
+    verified: 'Réponse validée',
+    tutor: 'Avec le tuteur',
+    partial: 'Réponse partielle',
+    self_declared: 'Auto-déclaré',
+};
+
+/**
+ * XP for completing an exercise of this difficulty, earned this way.
+ */
+export const exerciseXp = (difficulty: number | undefined, method: ExerciseCompletionMethod): number => {
+    const base = (difficulty !== undefined && XP_RULES.exerciseByDifficulty[difficulty]) || XP_RULES.exerciseDefault;
+    return Math.round(base * XP_RULES.exerciseByMethod[method]);
+};
+
+/**
+ * Calculates the total XP required to reach a specific level.
+ * @param level The target level.
+ * @returns The total XP required.
+ */
+export const getXPForLevel = (level: number): number => {
+    let total = 0;
+    for (let n = 1; n < level; n++) {
+        total += Math.round(LEVEL_CURVE.firstLevelXp * LEVEL_CURVE.growth ** (n - 1));
+    }
+    return total;
+};
+
+/**
+ * Calculates the user's level based on their total XP.
+ * @param xp The total experience points.
+ * @returns The calculated level.
+ */
+export const calculateLevel = (xp: number): number => {
+    let level = 1;
+    while (getXPForLevel(level + 1) <= xp) level++;
+    return level;
+};